@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Trash1792310400000 implements MigrationInterface {
+  name = 'NovaS3Trash1792310400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_trash" ("id" uuid NOT NULL, "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "originalPath" character varying(1024) NOT NULL, "name" character varying(255) NOT NULL, "type" character varying(32) NOT NULL, "s3Prefix" character varying(2048) NOT NULL, "itemCount" integer NOT NULL DEFAULT '0', "totalSize" bigint NOT NULL DEFAULT '0', "items" jsonb NOT NULL, "deletedAt" TIMESTAMP NOT NULL DEFAULT now(), "expiresAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_nova_s3_trash_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_nova_s3_trash_expiresAt" ON "nova_s3_trash" ("expiresAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_trash_root_emp" ON "nova_s3_trash" ("root", "employeeNumber") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_trash_root_emp"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_nova_s3_trash_expiresAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_trash"`);
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Versions1792396800000 implements MigrationInterface {
+  name = 'NovaS3Versions1792396800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_version" ("id" uuid NOT NULL, "fileId" uuid NOT NULL, "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "versionNumber" integer NOT NULL, "s3Key" character varying(2048) NOT NULL, "size" bigint, "mimeType" character varying(255), "etag" character varying(255), "pathAtArchive" character varying(1024) NOT NULL, "contentUpdatedAt" TIMESTAMP, "reason" character varying(64) NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_nova_s3_version_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_nova_s3_version_employeeNumber" ON "nova_s3_version" ("employeeNumber") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_version_file" ON "nova_s3_version" ("fileId", "versionNumber") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_version_file"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_nova_s3_version_employeeNumber"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_version"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Shares1792483200000 implements MigrationInterface {
+  name = 'NovaS3Shares1792483200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_share" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "token" character varying(64) NOT NULL, "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "itemId" uuid NOT NULL, "itemType" character varying(32) NOT NULL, "expiresAt" TIMESTAMP, "passwordHash" character varying(255), "maxDownloads" integer, "accessCount" integer NOT NULL DEFAULT '0', "downloadCount" integer NOT NULL DEFAULT '0', "lastAccessedAt" TIMESTAMP, "revokedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_nova_s3_share_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "uq_nova_s3_share_token" ON "nova_s3_share" ("token") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_nova_s3_share_itemId" ON "nova_s3_share" ("itemId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_share_owner" ON "nova_s3_share" ("root", "employeeNumber") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_share_owner"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_nova_s3_share_itemId"`);
+    await queryRunner.query(`DROP INDEX "public"."uq_nova_s3_share_token"`);
+    await queryRunner.query(`DROP TABLE "nova_s3_share"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Grants1792569600000 implements MigrationInterface {
+  name = 'NovaS3Grants1792569600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_grant" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "ownerEmployeeNumber" character varying(50) NOT NULL, "folderId" uuid NOT NULL, "granteeEmployeeNumber" character varying(50) NOT NULL, "role" character varying(16) NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_nova_s3_grant_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "uq_nova_s3_grant_folder_grantee" ON "nova_s3_grant" ("folderId", "granteeEmployeeNumber") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_grant_owner" ON "nova_s3_grant" ("root", "ownerEmployeeNumber") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_grant_grantee" ON "nova_s3_grant" ("root", "granteeEmployeeNumber") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_grant_grantee"`);
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_grant_owner"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."uq_nova_s3_grant_folder_grantee"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_grant"`);
+  }
+}
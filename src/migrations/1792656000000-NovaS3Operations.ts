@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Operations1792656000000 implements MigrationInterface {
+  name = 'NovaS3Operations1792656000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_operation" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "kind" character varying(32) NOT NULL, "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50), "sourcePath" character varying(1024) NOT NULL, "targetPath" character varying(1024) NOT NULL, "sourcePrefix" character varying(2048) NOT NULL, "targetPrefix" character varying(2048) NOT NULL, "phase" character varying(16) NOT NULL DEFAULT 'copy', "status" character varying(16) NOT NULL DEFAULT 'running', "totalObjects" integer NOT NULL DEFAULT '0', "copiedCount" integer NOT NULL DEFAULT '0', "dbRows" integer NOT NULL DEFAULT '0', "deletedCount" integer NOT NULL DEFAULT '0', "attempts" integer NOT NULL DEFAULT '0', "lastError" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "finishedAt" TIMESTAMP, CONSTRAINT "PK_nova_s3_operation_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_operation_root_emp" ON "nova_s3_operation" ("root", "employeeNumber") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_operation_status" ON "nova_s3_operation" ("status") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_operation_status"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_operation_root_emp"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_operation"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3SearchTrgm1792742400000 implements MigrationInterface {
+  name = 'NovaS3SearchTrgm1792742400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_name_trgm" ON "nova_s3" USING gin (lower("name") gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_root_emp_mime" ON "nova_s3" ("root", "employeeNumber", "mimeType") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_root_emp_updated" ON "nova_s3" ("root", "employeeNumber", "updatedAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_root_emp_updated"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_root_emp_mime"`);
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_name_trgm"`);
+    // la extensión pg_trgm se deja: puede usarla otro módulo
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Quotas1792828800000 implements MigrationInterface {
+  name = 'NovaS3Quotas1792828800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_quota" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "quotaBytes" bigint, "warnPercent" integer, "note" character varying(255), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_nova_s3_quota_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "uq_nova_s3_quota_root_emp" ON "nova_s3_quota" ("root", "employeeNumber") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."uq_nova_s3_quota_root_emp"`);
+    await queryRunner.query(`DROP TABLE "nova_s3_quota"`);
+  }
+}
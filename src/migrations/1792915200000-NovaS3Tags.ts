@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Tags1792915200000 implements MigrationInterface {
+  name = 'NovaS3Tags1792915200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3" ADD "tags" text array NOT NULL DEFAULT '{}'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3" ADD "properties" jsonb NOT NULL DEFAULT '{}'`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_tags" ON "nova_s3" USING gin ("tags")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_tags"`);
+    await queryRunner.query(`ALTER TABLE "nova_s3" DROP COLUMN "properties"`);
+    await queryRunner.query(`ALTER TABLE "nova_s3" DROP COLUMN "tags"`);
+  }
+}
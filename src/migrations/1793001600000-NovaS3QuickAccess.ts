@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3QuickAccess1793001600000 implements MigrationInterface {
+  name = 'NovaS3QuickAccess1793001600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_star" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "itemId" uuid NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_nova_s3_star_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "uq_nova_s3_star_emp_item" ON "nova_s3_star" ("employeeNumber", "itemId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_star_root_emp" ON "nova_s3_star" ("root", "employeeNumber") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_recent" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "itemId" uuid NOT NULL, "action" character varying(16) NOT NULL, "accessedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_nova_s3_recent_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "uq_nova_s3_recent_emp_item" ON "nova_s3_recent" ("employeeNumber", "itemId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_recent_root_emp_accessed" ON "nova_s3_recent" ("root", "employeeNumber", "accessedAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_recent_root_emp_accessed"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."uq_nova_s3_recent_emp_item"`);
+    await queryRunner.query(`DROP TABLE "nova_s3_recent"`);
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_star_root_emp"`);
+    await queryRunner.query(`DROP INDEX "public"."uq_nova_s3_star_emp_item"`);
+    await queryRunner.query(`DROP TABLE "nova_s3_star"`);
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3ContentHash1793088000000 implements MigrationInterface {
+  name = 'NovaS3ContentHash1793088000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3" ADD "contentHash" character varying(64)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3_version" ADD "contentHash" character varying(64)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_root_emp_hash" ON "nova_s3" ("root", "employeeNumber", "contentHash") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."idx_nova_s3_root_emp_hash"`);
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3_version" DROP COLUMN "contentHash"`,
+    );
+    await queryRunner.query(`ALTER TABLE "nova_s3" DROP COLUMN "contentHash"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Multipart1793174400000 implements MigrationInterface {
+  name = 'NovaS3Multipart1793174400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_multipart" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "path" character varying(1024) NOT NULL, "s3Key" character varying(2048) NOT NULL, "uploadId" character varying(1024) NOT NULL, "size" bigint, "contentType" character varying(255), "status" character varying(16) NOT NULL DEFAULT 'open', "closeReason" character varying(16), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "closedAt" TIMESTAMP, CONSTRAINT "PK_nova_s3_multipart_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "uq_nova_s3_multipart_upload" ON "nova_s3_multipart" ("uploadId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_multipart_status_created" ON "nova_s3_multipart" ("status", "createdAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_multipart_status_created"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."uq_nova_s3_multipart_upload"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_multipart"`);
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3UploadSessions1793260800000 implements MigrationInterface {
+  name = 'NovaS3UploadSessions1793260800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_upload_session" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "actorEmployeeNumber" character varying(50), "basePath" character varying(1024) NOT NULL DEFAULT '', "status" character varying(16) NOT NULL DEFAULT 'open', "totalFiles" integer NOT NULL DEFAULT '0', "expiresAt" TIMESTAMP NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "closedAt" TIMESTAMP, CONSTRAINT "PK_nova_s3_upload_session_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_upload_session_root_emp" ON "nova_s3_upload_session" ("root", "employeeNumber") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_upload_session_status_expires" ON "nova_s3_upload_session" ("status", "expiresAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_upload_session_file" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "sessionId" uuid NOT NULL, "path" character varying(1024) NOT NULL, "s3Key" character varying(2048) NOT NULL, "size" bigint, "contentType" character varying(255), "kind" character varying(16) NOT NULL, "uploadId" character varying(1024), "status" character varying(16) NOT NULL DEFAULT 'pending', "resolution" character varying(32), "error" character varying(500), "resolvedAt" TIMESTAMP, CONSTRAINT "PK_nova_s3_upload_session_file_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_upload_session_file_session" ON "nova_s3_upload_session_file" ("sessionId", "status") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_upload_session_file_key" ON "nova_s3_upload_session_file" ("s3Key", "status") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_upload_session_file_key"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_upload_session_file_session"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_upload_session_file"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_upload_session_status_expires"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_upload_session_root_emp"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_upload_session"`);
+  }
+}
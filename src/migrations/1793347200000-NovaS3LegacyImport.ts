@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3LegacyImport1793347200000 implements MigrationInterface {
+  name = 'NovaS3LegacyImport1793347200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_legacy_import" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "legacyFolder" character varying(255) NOT NULL, "employeeNumber" character varying(50), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "basePath" character varying(1024) NOT NULL DEFAULT '', "transfer" character varying(8) NOT NULL, "status" character varying(16) NOT NULL DEFAULT 'running', "cursor" character varying(2048), "scanned" integer NOT NULL DEFAULT '0', "folders" integer NOT NULL DEFAULT '0', "files" integer NOT NULL DEFAULT '0', "bytes" bigint NOT NULL DEFAULT '0', "alreadyImported" integer NOT NULL DEFAULT '0', "skipped" integer NOT NULL DEFAULT '0', "failed" integer NOT NULL DEFAULT '0', "issues" jsonb NOT NULL DEFAULT '[]', "lastError" character varying(500), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "finishedAt" TIMESTAMP, CONSTRAINT "PK_nova_s3_legacy_import_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_legacy_import_folder_emp" ON "nova_s3_legacy_import" ("legacyFolder", "employeeNumber") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_legacy_import_folder_emp"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_legacy_import"`);
+  }
+}
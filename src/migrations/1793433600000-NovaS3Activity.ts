@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Activity1793433600000 implements MigrationInterface {
+  name = 'NovaS3Activity1793433600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_activity" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "actorEmployeeNumber" character varying(50), "action" character varying(16) NOT NULL, "itemId" uuid, "itemType" character varying(32), "oldPath" character varying(1024), "newPath" character varying(1024), "meta" jsonb, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_nova_s3_activity_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_activity_item_created" ON "nova_s3_activity" ("itemId", "createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_activity_root_actor_created" ON "nova_s3_activity" ("root", "actorEmployeeNumber", "createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_activity_root_emp_created" ON "nova_s3_activity" ("root", "employeeNumber", "createdAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_activity_root_emp_created"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_activity_root_actor_created"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_activity_item_created"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_activity"`);
+  }
+}
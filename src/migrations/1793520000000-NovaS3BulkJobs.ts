@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3BulkJobs1793520000000 implements MigrationInterface {
+  name = 'NovaS3BulkJobs1793520000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_bulk_job" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "root" character varying(120) NOT NULL DEFAULT 'nova-s3', "employeeNumber" character varying(50) NOT NULL, "actorEmployeeNumber" character varying(50), "status" character varying(16) NOT NULL DEFAULT 'queued', "cancelRequested" boolean NOT NULL DEFAULT false, "totalItems" integer NOT NULL DEFAULT '0', "lastError" character varying(500), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "startedAt" TIMESTAMP, "finishedAt" TIMESTAMP, CONSTRAINT "PK_nova_s3_bulk_job_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_bulk_job_root_emp" ON "nova_s3_bulk_job" ("root", "employeeNumber") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_bulk_job_status_updated" ON "nova_s3_bulk_job" ("status", "updatedAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_bulk_job_item" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "jobId" uuid NOT NULL, "position" integer NOT NULL, "op" character varying(16) NOT NULL, "path" character varying(1024) NOT NULL, "targetPath" character varying(1024), "permanent" boolean NOT NULL DEFAULT false, "status" character varying(16) NOT NULL DEFAULT 'pending', "result" jsonb, "error" character varying(500), "finishedAt" TIMESTAMP, CONSTRAINT "PK_nova_s3_bulk_job_item_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_bulk_job_item_job_position" ON "nova_s3_bulk_job_item" ("jobId", "position") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_bulk_job_item_job_position"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_bulk_job_item"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_bulk_job_status_updated"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_bulk_job_root_emp"`,
+    );
+    await queryRunner.query(`DROP TABLE "nova_s3_bulk_job"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3FolderSizes1793606400000 implements MigrationInterface {
+  name = 'NovaS3FolderSizes1793606400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3" ADD "rollupFiles" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3" ADD "rollupBytes" bigint NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "idx_nova_s3_root_emp_rollup" ON "nova_s3" ("root", "employeeNumber", "rollupBytes") `,
+    );
+    // backfill: totales de los folders que ya existen (después los mantiene NovaS3FolderSizesService)
+    await queryRunner.query(
+      `UPDATE "nova_s3" f SET "rollupFiles" = s."files", "rollupBytes" = s."bytes" FROM (SELECT d."id", COUNT(c."id") AS "files", COALESCE(SUM(c."size"), 0) AS "bytes" FROM "nova_s3" d JOIN "nova_s3" c ON c."root" = d."root" AND c."employeeNumber" = d."employeeNumber" AND c."type" = 'file' AND left(c."path", length(d."path") + 1) = d."path" || '/' WHERE d."type" = 'folder' GROUP BY d."id") s WHERE f."id" = s."id"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."idx_nova_s3_root_emp_rollup"`,
+    );
+    await queryRunner.query(`ALTER TABLE "nova_s3" DROP COLUMN "rollupBytes"`);
+    await queryRunner.query(`ALTER TABLE "nova_s3" DROP COLUMN "rollupFiles"`);
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3ConflictStrategy1793692800000 implements MigrationInterface {
+  name = 'NovaS3ConflictStrategy1793692800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3_bulk_job" ADD "conflictStrategy" character varying(16) NOT NULL DEFAULT 'fail'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "nova_s3_bulk_job" DROP COLUMN "conflictStrategy"`,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NovaS3Roots1793779200000 implements MigrationInterface {
+  name = 'NovaS3Roots1793779200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "nova_s3_root" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "name" character varying(120) NOT NULL, "bucket" character varying(255), "basePrefix" character varying(255), "employeeScoped" boolean NOT NULL DEFAULT true, "defaultUrlExpirySeconds" integer, "allowedEmployees" jsonb, "enabled" boolean NOT NULL DEFAULT true, "note" character varying(255), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_nova_s3_root_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "uq_nova_s3_root_name" ON "nova_s3_root" ("name") `,
+    );
+    // seed: el root por defecto + los que ya tienen datos (mismo bucket / layout que antes del registro)
+    await queryRunner.query(
+      `INSERT INTO "nova_s3_root" ("name") SELECT 'nova-s3' UNION SELECT DISTINCT "root" FROM "nova_s3" ON CONFLICT DO NOTHING`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."uq_nova_s3_root_name"`);
+    await queryRunner.query(`DROP TABLE "nova_s3_root"`);
+  }
+}
@@ -0,0 +1,112 @@
+/* src/nova-s3/dto/bulk.dto.ts */
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { NovaS3BulkOp } from '../entities/nova-s3-bulk-job-item.entity';
+import { NOVA_S3_BULK_MAX_ITEMS } from '../utils/nova-s3-bulk.util';
+import {
+  NOVA_S3_CONFLICT_STRATEGIES,
+  NovaS3ConflictStrategy,
+} from '../utils/nova-s3-conflict.util';
+
+export class BulkOperationDto {
+  @ApiProperty({ example: 'move', enum: ['move', 'delete', 'copy'] })
+  @IsIn(['move', 'delete', 'copy'])
+  op: NovaS3BulkOp;
+
+  @ApiProperty({
+    example: 'Inbox/invoice-001.pdf',
+    description: 'File or folder (the type is read from DB)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1024)
+  path: string;
+
+  @ApiPropertyOptional({
+    example: 'Finance/2026',
+    description: 'move / copy: destination folder ("" = root)',
+  })
+  @ValidateIf((o: BulkOperationDto) => o.op !== 'delete')
+  @IsString()
+  @MaxLength(1024)
+  targetPath?: string;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'delete: skip the trash',
+  })
+  @IsOptional()
+  @IsBoolean()
+  permanent?: boolean;
+}
+
+export class BulkJobDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description:
+      'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+
+  @ApiProperty({
+    type: [BulkOperationDto],
+    description: `Run in order, one by one (max ${NOVA_S3_BULK_MAX_ITEMS})`,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(NOVA_S3_BULK_MAX_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => BulkOperationDto)
+  items: BulkOperationDto[];
+
+  @ApiPropertyOptional({
+    example: 'keepBoth',
+    enum: NOVA_S3_CONFLICT_STRATEGIES,
+    description:
+      'move items: what to do when the destination already has an item with the same name (default fail). Copies always keep both.',
+  })
+  @IsOptional()
+  @IsIn(NOVA_S3_CONFLICT_STRATEGIES)
+  conflictStrategy?: NovaS3ConflictStrategy;
+}
+
+export class CancelBulkJobDto {
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiProperty({ example: '3c2b1a09-8f7e-4d6c-9b5a-4f3e2d1c0b9a' })
+  @IsUUID()
+  jobId: string;
+}
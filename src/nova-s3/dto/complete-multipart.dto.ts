@@ -2,14 +2,17 @@ import {
   IsArray,
   IsNotEmpty,
   IsNumber,
+  IsOptional,
   IsPositive,
   IsString,
+  Matches,
   MaxLength,
   Min,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NOVA_S3_SHA256_RE } from '../utils/nova-s3-hash.util';
 
 export class MultipartPartDto {
   @ApiProperty({ example: 1 })
@@ -51,12 +54,19 @@ export class CompleteMultipartDto {
   @MaxLength(255)
   filename: string;
 
-  @ApiProperty({ example: 1073741824 })
+  @ApiPropertyOptional({
+    example: 1073741824,
+    description: 'Informative only: the stored size is read from S3 (HeadObject).',
+  })
+  @IsOptional()
   @IsNumber()
   @Min(0)
-  size: number;
+  size?: number;
 
-  @ApiProperty({ example: 'video/mp4' })
+  @ApiProperty({
+    example: 'video/mp4',
+    description: 'Declared type. The first bytes are sniffed from S3: a mismatch is recorded and the detected type is stored.',
+  })
   @IsNotEmpty()
   @IsString()
   @MaxLength(128)
@@ -68,11 +78,28 @@ export class CompleteMultipartDto {
   @MaxLength(50)
   employeeNumber: string;
 
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+
   @ApiProperty({ type: [MultipartPartDto] })
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => MultipartPartDto)
   parts: MultipartPartDto[];
+
+  @ApiPropertyOptional({
+    example: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    description: 'Optional client-side SHA-256 of the whole file. The assembled object is hashed in background and a mismatch is recorded.',
+  })
+  @IsOptional()
+  @Matches(NOVA_S3_SHA256_RE, { message: 'sha256 must be a hex SHA-256 digest' })
+  sha256?: string;
 }
 
 export class AbortMultipartDto {
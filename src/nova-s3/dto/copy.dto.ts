@@ -0,0 +1,58 @@
+/* src/nova-s3/dto/copy.dto.ts */
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CopyFileDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  // ruta relativa del archivo: "A/B/file.pdf"
+  @IsString()
+  @MaxLength(1024)
+  sourcePath: string;
+
+  // carpeta destino relativa: "" (raíz) o "X/Y". Puede ser la misma carpeta (=> "Copy of ...")
+  @IsString()
+  @MaxLength(1024)
+  targetPath: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber?: string;
+
+  // carpeta compartida: dueño del espacio (requiere grant para employeeNumber)
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+}
+
+export class CopyFolderDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  // ruta relativa de la carpeta: "A/B/Folder"
+  @IsString()
+  @MaxLength(1024)
+  sourcePath: string;
+
+  // carpeta destino relativa: "" (raíz) o "X/Y". No puede estar dentro de sourcePath
+  @IsString()
+  @MaxLength(1024)
+  targetPath: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber?: string;
+
+  // carpeta compartida: dueño del espacio (requiere grant para employeeNumber)
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+}
@@ -21,4 +21,10 @@ export class CreateFolderDto {
   @IsString()
   @MaxLength(50)
   employeeNumber?: string;
+
+  // carpeta compartida: dueño del espacio (requiere grant para employeeNumber)
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
 }
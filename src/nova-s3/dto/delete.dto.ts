@@ -1,5 +1,5 @@
 /* src/nova-s3/dto/delete.dto.ts */
-import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { IsBoolean, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
 
 export class DeleteDto {
   @IsOptional()
@@ -20,4 +20,15 @@ export class DeleteDto {
   @IsString()
   @MaxLength(50)
   employeeNumber?: string;
+
+  // carpeta compartida: dueño del espacio (requiere grant para employeeNumber)
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+
+  // true = borrado definitivo (sin pasar por la papelera)
+  @IsOptional()
+  @IsBoolean()
+  permanent?: boolean = false;
 }
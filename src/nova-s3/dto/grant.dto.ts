@@ -0,0 +1,67 @@
+/* src/nova-s3/dto/grant.dto.ts */
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { NovaS3GrantRole } from '../entities/nova-s3-grant.entity';
+
+export class CreateGrantDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: 'Marketing/Campaigns',
+    description: 'Folder to share (relative path, owner space)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1024)
+  path: string;
+
+  @ApiProperty({
+    example: 'NOVAMR118402',
+    description: 'Employee that receives access',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  granteeEmployeeNumber: string;
+
+  @ApiProperty({ example: 'editor', description: 'viewer | editor' })
+  @IsIn(['viewer', 'editor'])
+  role: NovaS3GrantRole;
+
+  // dueño del folder
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
+
+export class RevokeGrantDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({ example: '8d3e1f0a-6b2c-4d5e-9f7a-1b2c3d4e5f60' })
+  @IsUUID()
+  grantId: string;
+
+  // dueño del folder
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
@@ -0,0 +1,100 @@
+/* src/nova-s3/dto/legacy-import.dto.ts */
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class LegacyImportDto {
+  @ApiProperty({
+    example: 'documents',
+    description:
+      'Legacy /s3 folder: objects live under {legacyFolder}/{employeeNumber}/...',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  legacyFolder: string;
+
+  @ApiPropertyOptional({
+    example: 'NOVAJG232701',
+    description:
+      'Only this employee. Omit to import every employee under the folder.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber?: string;
+
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiPropertyOptional({
+    example: 'Legacy/documents',
+    description:
+      'Folder inside each employee space where the tree is placed (default: the space root)',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  basePath?: string;
+
+  @ApiPropertyOptional({
+    example: 'copy',
+    description:
+      'copy (default) | move (delete the legacy object after indexing) | none (only when legacyFolder is the nova-s3 root: objects are already in place)',
+  })
+  @IsOptional()
+  @IsIn(['none', 'copy', 'move'])
+  transfer?: 'none' | 'copy' | 'move';
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Only report what would be imported (default true). Nothing is written.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean = true;
+
+  @ApiPropertyOptional({
+    example: 'e2f1c3a4-5b6d-4e7f-8a9b-0c1d2e3f4a5b',
+    description: 'Resume this import (the other fields are taken from it)',
+  })
+  @IsOptional()
+  @IsUUID()
+  importId?: string;
+
+  @ApiPropertyOptional({
+    example: 5000,
+    description:
+      'Max objects processed per call (default 5000). Call again with importId until status is completed.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100000)
+  maxObjects?: number = 5000;
+
+  @ApiPropertyOptional({
+    example: 200,
+    description:
+      'Max items returned in the dry-run report (counts are always full)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  sampleSize?: number = 200;
+}
@@ -1,6 +1,8 @@
 // src/nova-s3/dto/list-folder.dto.ts
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsIn, IsOptional, IsString } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ArrayMaxSize, IsArray, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { parseTagList } from '../utils/nova-s3-tags.util';
 
 export class ListFolderDto {
   @ApiPropertyOptional({ example: 'nova-s3' })
@@ -17,6 +19,26 @@ export class ListFolderDto {
   @IsString()
   employeeNumber!: string;
 
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  ownerEmployeeNumber?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: 'Invoice,2026',
+    description: 'Only items with ALL these tags (comma separated or repeated; case-insensitive)',
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseTagList(value))
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  tags?: string[];
+
   @ApiPropertyOptional({ example: 'name' })
   @IsOptional()
   @IsIn(['name', 'type', 'size', 'createdAt', 'updatedAt'])
@@ -26,4 +48,20 @@ export class ListFolderDto {
   @IsOptional()
   @IsIn(['asc', 'desc'])
   order?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({
+    example: 200,
+    description: 'Page size (max 1000). Without limit the whole folder is returned (legacy behaviour).',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: '`nextCursor` from the previous page (same sortBy / order)' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
 }
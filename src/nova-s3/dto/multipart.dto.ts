@@ -0,0 +1,39 @@
+/* src/nova-s3/dto/multipart.dto.ts */
+import {
+  IsBoolean,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SweepMultipartDto {
+  @ApiPropertyOptional({
+    example: 'nova-s3',
+    description: 'Sweeps every in-progress upload under `{root}/`',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiPropertyOptional({
+    example: 24,
+    description:
+      'Abort uploads started at least this many hours ago (default NOVA_S3_MULTIPART_STALE_HOURS)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  olderThanHours?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Only return the plan, abort nothing',
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean = false;
+}
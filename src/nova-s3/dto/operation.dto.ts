@@ -0,0 +1,42 @@
+/* src/nova-s3/dto/operation.dto.ts */
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RecoverOperationsDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: '8d3e1f0a-6b2c-4d5e-9f7a-1b2c3d4e5f60',
+    description:
+      'Only this operation (default: every interrupted operation of the employee)',
+  })
+  @IsOptional()
+  @IsUUID()
+  operationId?: string;
+
+  @ApiPropertyOptional({
+    example: 'auto',
+    description:
+      'auto (default): roll back while copying, resume once the copy is complete | resume | rollback (only before the DB commit)',
+  })
+  @IsOptional()
+  @IsIn(['auto', 'resume', 'rollback'])
+  action?: 'auto' | 'resume' | 'rollback' = 'auto';
+}
@@ -1,16 +1,21 @@
 import {
   IsArray,
+  IsBoolean,
+  IsIn,
   IsNotEmpty,
   IsNumber,
   IsOptional,
   IsPositive,
   IsString,
+  Matches,
   MaxLength,
   Min,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NOVA_S3_SHA256_RE } from '../utils/nova-s3-hash.util';
+import { NOVA_S3_CONFLICT_STRATEGIES, NovaS3ConflictStrategy } from '../utils/nova-s3-conflict.util';
 
 export class PresignBatchItemDto {
   @ApiProperty({ example: 'logo.png' })
@@ -38,6 +43,14 @@ export class PresignBatchItemDto {
   @IsString()
   @MaxLength(1024)
   relativePath: string;
+
+  @ApiPropertyOptional({
+    example: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    description: 'Optional client-side SHA-256, used by `warnOnDuplicate` (send it again on register to have it verified).',
+  })
+  @IsOptional()
+  @Matches(NOVA_S3_SHA256_RE, { message: 'sha256 must be a hex SHA-256 digest' })
+  sha256?: string;
 }
 
 export class PresignBatchDto {
@@ -59,6 +72,15 @@ export class PresignBatchDto {
   @MaxLength(50)
   employeeNumber: string;
 
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+
   @ApiProperty({ type: [PresignBatchItemDto] })
   @IsArray()
   @ValidateNested({ each: true })
@@ -88,4 +110,21 @@ export class PresignBatchDto {
   @IsNumber()
   @IsPositive()
   urlExpiresSeconds?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Warn (`duplicates` in the response) when a file with the same sha256 already exists in the space. Never blocks.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  warnOnDuplicate?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'keepBoth',
+    enum: NOVA_S3_CONFLICT_STRATEGIES,
+    description: 'If the path already exists: replace (default, previous content kept as a version), keepBoth ("report (2).pdf"), skip or fail (409). Per-file result in `outcomes`.',
+  })
+  @IsOptional()
+  @IsIn(NOVA_S3_CONFLICT_STRATEGIES)
+  conflictStrategy?: NovaS3ConflictStrategy;
 }
@@ -1,5 +1,7 @@
-import { IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString, MaxLength, Min } from 'class-validator';
+import { IsBoolean, IsIn, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString, Matches, MaxLength, Min } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NOVA_S3_SHA256_RE } from '../utils/nova-s3-hash.util';
+import { NOVA_S3_CONFLICT_STRATEGIES, NovaS3ConflictStrategy } from '../utils/nova-s3-conflict.util';
 
 export class PresignUploadDto {
   @ApiPropertyOptional({ example: 'nova-s3' })
@@ -37,9 +39,43 @@ export class PresignUploadDto {
   @MaxLength(50)
   employeeNumber: string;
 
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+
   @ApiPropertyOptional({ example: 3600, description: 'URL expiry in seconds (default 3600)' })
   @IsOptional()
   @IsNumber()
   @IsPositive()
   expiresSeconds?: number;
+
+  @ApiPropertyOptional({
+    example: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    description: 'Optional client-side SHA-256 of the file, used by `warnOnDuplicate` (send it again on register to have it verified).',
+  })
+  @IsOptional()
+  @Matches(NOVA_S3_SHA256_RE, { message: 'sha256 must be a hex SHA-256 digest' })
+  sha256?: string;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Warn (`duplicates` in the response) when a file with the same sha256 already exists in the space. Never blocks.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  warnOnDuplicate?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'keepBoth',
+    enum: NOVA_S3_CONFLICT_STRATEGIES,
+    description: 'If the path already exists: replace (default, previous content kept as a version), keepBoth ("report (2).pdf"), skip or fail (409). Per-file result in `outcomes`.',
+  })
+  @IsOptional()
+  @IsIn(NOVA_S3_CONFLICT_STRATEGIES)
+  conflictStrategy?: NovaS3ConflictStrategy;
 }
@@ -0,0 +1,70 @@
+/* src/nova-s3/dto/quota.dto.ts */
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SetQuotaDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: 'NOVAJG232701',
+    description: 'Employee the override applies to',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiProperty({
+    example: 10737418240,
+    nullable: true,
+    description: 'Limit in bytes. null = unlimited',
+  })
+  @ValidateIf((_, v) => v !== null)
+  @IsInt()
+  @Min(0)
+  quotaBytes: number | null;
+
+  @ApiPropertyOptional({
+    example: 80,
+    description:
+      'Warning threshold (% used). Default: NOVA_S3_QUOTA_WARN_PERCENT',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  warnPercent?: number;
+
+  @ApiPropertyOptional({ example: 'Design team, large assets' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  note?: string;
+}
+
+export class RemoveQuotaDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
@@ -0,0 +1,76 @@
+/* src/nova-s3/dto/reconcile.dto.ts */
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReconcileDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: 'NOVAJG232701',
+    description: 'Employee prefix to walk: {root}/{employeeNumber}/',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'report',
+    description:
+      'Objects in S3 without row: report (default) | delete (remove the object) | reindex (create the rows)',
+  })
+  @IsOptional()
+  @IsIn(['report', 'delete', 'reindex'])
+  orphans?: 'report' | 'delete' | 'reindex' = 'report';
+
+  @ApiPropertyOptional({
+    example: 'report',
+    description:
+      'Rows without object in S3: report (default) | markMissing (meta.missing) | delete (remove the rows)',
+  })
+  @IsOptional()
+  @IsIn(['report', 'markMissing', 'delete'])
+  missing?: 'report' | 'markMissing' | 'delete' = 'report';
+
+  @ApiPropertyOptional({
+    example: 'report',
+    description:
+      'Size/mime mismatches: report (default) | reindex (take size/mime from S3)',
+  })
+  @IsOptional()
+  @IsIn(['report', 'reindex'])
+  mismatches?: 'report' | 'reindex' = 'report';
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'HEAD every matched object to compare Content-Type (slower)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  checkMime?: boolean = false;
+
+  @ApiPropertyOptional({
+    example: 200,
+    description:
+      'Max items returned per discrepancy class (counts are always full)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  sampleSize?: number = 200;
+}
@@ -4,12 +4,14 @@ import {
   IsNumber,
   IsOptional,
   IsString,
+  Matches,
   MaxLength,
   Min,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NOVA_S3_SHA256_RE } from '../utils/nova-s3-hash.util';
 
 export class RegisterBatchItemDto {
   @ApiProperty({ example: 'Marketing/logo.png' })
@@ -23,16 +25,31 @@ export class RegisterBatchItemDto {
   @IsString()
   s3Key: string;
 
-  @ApiProperty({ example: 4096000 })
+  @ApiPropertyOptional({
+    example: 4096000,
+    description: 'Informative only: the stored size is read from S3 (HeadObject).',
+  })
+  @IsOptional()
   @IsNumber()
   @Min(0)
-  size: number;
+  size?: number;
 
-  @ApiProperty({ example: 'image/png' })
+  @ApiProperty({
+    example: 'image/png',
+    description: 'Declared type. The first bytes are sniffed from S3: a mismatch is recorded and the detected type is stored.',
+  })
   @IsNotEmpty()
   @IsString()
   @MaxLength(128)
   mimeType: string;
+
+  @ApiPropertyOptional({
+    example: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    description: 'Optional client-side SHA-256. The content is hashed from S3 in background and a mismatch is recorded.',
+  })
+  @IsOptional()
+  @Matches(NOVA_S3_SHA256_RE, { message: 'sha256 must be a hex SHA-256 digest' })
+  sha256?: string;
 }
 
 export class RegisterBatchDto {
@@ -48,6 +65,15 @@ export class RegisterBatchDto {
   @MaxLength(50)
   employeeNumber: string;
 
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+
   @ApiProperty({ type: [RegisterBatchItemDto] })
   @IsArray()
   @ValidateNested({ each: true })
@@ -1,5 +1,6 @@
 /* src/nova-s3/dto/rename.dto.ts */
-import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { NOVA_S3_CONFLICT_STRATEGIES, NovaS3ConflictStrategy } from '../utils/nova-s3-conflict.util';
 
 export class RenameDto {
   @IsOptional()
@@ -21,4 +22,15 @@ export class RenameDto {
   @IsString()
   @MaxLength(50)
   employeeNumber?: string;
+
+  // carpeta compartida: dueño del espacio (requiere grant para employeeNumber)
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+
+  // si ya existe un item con el nuevo nombre: fail (default, 409), skip, keepBoth ("file (2).pdf") o replace (el existente va a la papelera)
+  @IsOptional()
+  @IsIn(NOVA_S3_CONFLICT_STRATEGIES)
+  conflictStrategy?: NovaS3ConflictStrategy = 'fail';
 }
@@ -0,0 +1,107 @@
+/* src/nova-s3/dto/root.dto.ts */
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpsertRootDto {
+  @ApiProperty({
+    example: 'hr',
+    description:
+      'Root name (first segment of every key). Letters, digits, ".", "_", "-"',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(120)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: 'nova-hr-files',
+    nullable: true,
+    description: 'S3 bucket. null = BUCKET',
+  })
+  @IsOptional()
+  @ValidateIf((_, v) => v !== null)
+  @IsString()
+  @MaxLength(255)
+  bucket?: string | null;
+
+  @ApiPropertyOptional({
+    example: 'drive/hr',
+    nullable: true,
+    description: 'Key prefix inside the bucket. null = the root name',
+  })
+  @IsOptional()
+  @ValidateIf((_, v) => v !== null)
+  @IsString()
+  @MaxLength(255)
+  basePrefix?: string | null;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'false = one shared space for every allowed employee. Default true',
+  })
+  @IsOptional()
+  @IsBoolean()
+  employeeScoped?: boolean;
+
+  @ApiPropertyOptional({
+    example: 900,
+    nullable: true,
+    description:
+      'Default expiry of presigned URLs (60..86400). null = endpoint default',
+  })
+  @IsOptional()
+  @ValidateIf((_, v) => v !== null)
+  @IsInt()
+  @Min(60)
+  @Max(86400)
+  defaultUrlExpirySeconds?: number | null;
+
+  @ApiPropertyOptional({
+    example: ['NOVAJG232701', 'NOVAMR118402'],
+    nullable: true,
+    description: 'null = any employee',
+  })
+  @IsOptional()
+  @ValidateIf((_, v) => v !== null)
+  @IsArray()
+  @ArrayMaxSize(5000)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  allowedEmployees?: string[] | null;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'false = rejected like an unknown root (config and data are kept)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({ example: 'HR documents (restricted)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  note?: string;
+}
+
+export class RemoveRootDto {
+  @ApiProperty({ example: 'hr' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(120)
+  name: string;
+}
@@ -0,0 +1,179 @@
+/* src/nova-s3/dto/search.dto.ts */
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  NOVA_S3_MIME_FAMILIES,
+  NovaS3MimeFamily,
+} from '../utils/nova-s3-search.util';
+import { parseTagList } from '../utils/nova-s3-tags.util';
+
+export const NOVA_S3_SEARCH_SORTS = [
+  'relevance',
+  'name',
+  'size',
+  'createdAt',
+  'updatedAt',
+] as const;
+export type NovaS3SearchSort = (typeof NOVA_S3_SEARCH_SORTS)[number];
+
+/**
+ * Query params de GET /nova-s3/search.
+ * Todos los filtros son opcionales y se combinan con AND. Sin `q` hace falta al menos un filtro.
+ */
+export class SearchDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiPropertyOptional({
+    example: 'invoce',
+    description: 'Name query (typo tolerant, trigram match)',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  q?: string;
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description:
+      'Shared folders: owner of the space. Requires a grant on `path` for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+
+  @ApiPropertyOptional({
+    example: 'Finance/2026',
+    description: 'Only inside this folder subtree',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  path?: string;
+
+  @ApiPropertyOptional({ example: 'file', description: 'file | folder' })
+  @IsOptional()
+  @IsIn(['file', 'folder'])
+  type?: 'file' | 'folder';
+
+  @ApiPropertyOptional({
+    example: 'image/*',
+    description: 'Exact mime type or "type/*"',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  mimeType?: string;
+
+  @ApiPropertyOptional({
+    example: 'spreadsheet',
+    description: NOVA_S3_MIME_FAMILIES.join(' | '),
+  })
+  @IsOptional()
+  @IsIn(NOVA_S3_MIME_FAMILIES as unknown as string[])
+  family?: NovaS3MimeFamily;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: 'Invoice,2026',
+    description:
+      'Only items with ALL these tags (comma separated or repeated; case-insensitive)',
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseTagList(value))
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({ example: 1048576, description: 'Min size in bytes' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minSize?: number;
+
+  @ApiPropertyOptional({ example: 52428800, description: 'Max size in bytes' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxSize?: number;
+
+  @ApiPropertyOptional({ example: '2026-01-01' })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiPropertyOptional({ example: '2026-03-31T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @ApiPropertyOptional({ example: '2026-01-01' })
+  @IsOptional()
+  @IsDateString()
+  updatedFrom?: string;
+
+  @ApiPropertyOptional({ example: '2026-03-31T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  updatedTo?: string;
+
+  @ApiPropertyOptional({
+    example: 'relevance',
+    description:
+      'relevance (default with q) | name (default without q) | size | createdAt | updatedAt',
+  })
+  @IsOptional()
+  @IsIn(NOVA_S3_SEARCH_SORTS as unknown as string[])
+  sortBy?: NovaS3SearchSort;
+
+  @ApiPropertyOptional({
+    example: 'desc',
+    description: 'Default: desc for relevance, asc otherwise',
+  })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({
+    example: 50,
+    description: 'Page size (capped at 500)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: '`nextCursor` from the previous page (same sortBy / order)',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
+  cursor?: string;
+}
@@ -0,0 +1,99 @@
+/* src/nova-s3/dto/share.dto.ts */
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateShareDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: 'Marketing/report.pdf',
+    description: 'File or folder to share (relative path)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1024)
+  path: string;
+
+  @ApiPropertyOptional({
+    example: 72,
+    description: 'Link lifetime in hours. Omit for a link without expiry.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  expiresInHours?: number;
+
+  @ApiPropertyOptional({
+    example: 'S3cret!',
+    description: 'Optional password required to open the link',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(128)
+  password?: string;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Max file URLs the link can issue. Omit for unlimited.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxDownloads?: number;
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
+
+export class RevokeShareDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({ example: '2c1b7a8e-9d0f-4e3a-b6c5-7f8e9d0a1b2c' })
+  @IsUUID()
+  shareId: string;
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
+
+export class ResolveShareDto {
+  @ApiPropertyOptional({ example: 'S3cret!' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  password?: string;
+
+  @ApiPropertyOptional({
+    example: 'Q1/invoice.pdf',
+    description:
+      'Folder shares only: path INSIDE the shared folder. A folder => listing, a file => presigned url.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  path?: string;
+}
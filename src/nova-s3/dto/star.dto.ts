@@ -0,0 +1,37 @@
+/* src/nova-s3/dto/star.dto.ts */
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StarDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: 'Finance/2026/invoice-001.pdf',
+    description: 'File or folder (relative path)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1024)
+  path: string;
+
+  // quien marca la estrella
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description:
+      'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+}
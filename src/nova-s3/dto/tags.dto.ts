@@ -0,0 +1,159 @@
+/* src/nova-s3/dto/tags.dto.ts */
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateTagsDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: 'Finance/2026/invoice-001.pdf',
+    description: 'File or folder (relative path)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1024)
+  path: string;
+
+  @ApiPropertyOptional({ example: ['Invoice', '2026'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  add?: string[];
+
+  @ApiPropertyOptional({ example: ['Draft'], description: 'Case-insensitive' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  remove?: string[];
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description:
+      'Shared folders: owner of the space. Requires an editor grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+}
+
+export class BulkTagDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: ['Finance/2026/invoice-001.pdf', 'Finance/2026/Receipts'],
+    description: 'Files and/or folders (the folder itself, not its subtree)',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @MaxLength(1024, { each: true })
+  paths: string[];
+
+  @ApiPropertyOptional({ example: ['Invoice', '2026'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  add?: string[];
+
+  @ApiPropertyOptional({ example: ['Draft'], description: 'Case-insensitive' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  remove?: string[];
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description:
+      'Shared folders: owner of the space. Requires an editor grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+}
+
+export class UpdatePropertiesDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: 'Finance/2026/invoice-001.pdf',
+    description: 'File or folder (relative path)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1024)
+  path: string;
+
+  @ApiPropertyOptional({
+    example: { client: 'ACME', status: 'paid' },
+    description: 'Keys to create / overwrite',
+  })
+  @IsOptional()
+  @IsObject()
+  set?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    example: ['draftOwner'],
+    description: 'Keys to remove',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  unset?: string[];
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description:
+      'Shared folders: owner of the space. Requires an editor grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+}
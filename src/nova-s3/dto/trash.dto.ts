@@ -0,0 +1,70 @@
+/* src/nova-s3/dto/trash.dto.ts */
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RestoreTrashDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({ example: '6f1c7d0e-2a55-4c1b-9b4e-1a2b3c4d5e6f' })
+  @IsUUID()
+  trashId: string;
+
+  @ApiPropertyOptional({
+    example: 'Marketing/Restored',
+    description:
+      'Destination folder (relative). Omit to restore into the original parent folder.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  targetPath?: string;
+
+  @ApiPropertyOptional({
+    example: 'fail',
+    description:
+      'fail = 409 if the destination name is taken | rename = restore as "name (2)"',
+  })
+  @IsOptional()
+  @IsIn(['fail', 'rename'])
+  onConflict?: 'fail' | 'rename';
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
+
+export class PurgeTrashDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiPropertyOptional({
+    example: '6f1c7d0e-2a55-4c1b-9b4e-1a2b3c4d5e6f',
+    description:
+      'Entry to purge. Omit to empty the whole recycle bin of the employee.',
+  })
+  @IsOptional()
+  @IsUUID()
+  trashId?: string;
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
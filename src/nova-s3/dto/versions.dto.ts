@@ -0,0 +1,80 @@
+/* src/nova-s3/dto/versions.dto.ts */
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RestoreVersionDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: 'Marketing/report.pdf',
+    description: 'Current path of the file (relative)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(1024)
+  path: string;
+
+  @ApiProperty({ example: '0b7f4a8e-5a1d-4c55-8f0e-2d7c1e9a3b10' })
+  @IsUUID()
+  versionId: string;
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
+
+export class PruneVersionsDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiPropertyOptional({
+    example: 'Marketing/report.pdf',
+    description:
+      'Prune only this file. Omit to prune every file of the employee.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  path?: string;
+
+  @ApiPropertyOptional({
+    example: 5,
+    description: 'Keep only the N most recent versions per file',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  keepLast?: number;
+
+  @ApiPropertyOptional({
+    example: 90,
+    description: 'Delete versions archived more than N days ago',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  olderThanDays?: number;
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+}
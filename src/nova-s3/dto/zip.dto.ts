@@ -0,0 +1,57 @@
+/* src/nova-s3/dto/zip.dto.ts */
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ZipDownloadDto {
+  @ApiPropertyOptional({ example: 'nova-s3' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  root?: string = 'nova-s3';
+
+  @ApiProperty({
+    example: ['Marketing/Creatives', 'Invoices/jan.pdf'],
+    description:
+      'Files and/or folders to include (relative paths). Folders include their whole subtree.',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @MaxLength(1024, { each: true })
+  paths: string[];
+
+  @ApiPropertyOptional({
+    example: 'Creatives.zip',
+    description:
+      'Download file name. Default: selected item name or "nova-s3.zip".',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  archiveName?: string;
+
+  @ApiProperty({ example: 'NOVAJG232701' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  employeeNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'NOVAMR118402',
+    description:
+      'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  ownerEmployeeNumber?: string;
+}
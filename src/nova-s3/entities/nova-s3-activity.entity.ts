@@ -0,0 +1,71 @@
+/* src/nova-s3/entities/nova-s3-activity.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type NovaS3ActivityAction =
+  | 'upload'
+  | 'createFolder'
+  | 'rename'
+  | 'move'
+  | 'delete'
+  | 'url';
+
+/**
+ * Log de actividad por item (append-only: nunca se actualiza ni se borra con el item).
+ *
+ * - `itemId` = nova_s3.id: rename / move conservan el id, así que el historial sigue al item;
+ *   la papelera también lo conserva (restore vuelve con el mismo id).
+ * - `oldPath` / `newPath` = paths en el momento de la acción (relativos al espacio del dueño).
+ * - `employeeNumber` = dueño del espacio; `actorEmployeeNumber` = quien actuó (invitado en folders compartidos).
+ */
+@Entity({ name: 'nova_s3_activity' })
+@Index('idx_nova_s3_activity_item_created', ['itemId', 'createdAt'])
+@Index('idx_nova_s3_activity_root_actor_created', [
+  'root',
+  'actorEmployeeNumber',
+  'createdAt',
+])
+@Index('idx_nova_s3_activity_root_emp_created', [
+  'root',
+  'employeeNumber',
+  'createdAt',
+])
+export class NovaS3Activity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  actorEmployeeNumber: string | null;
+
+  @Column({ type: 'varchar', length: 16 })
+  action: NovaS3ActivityAction;
+
+  @Column({ type: 'uuid', nullable: true })
+  itemId: string | null;
+
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  itemType: string | null;
+
+  @Column({ type: 'varchar', length: 1024, nullable: true })
+  oldPath: string | null;
+
+  @Column({ type: 'varchar', length: 1024, nullable: true })
+  newPath: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  meta: Record<string, any> | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
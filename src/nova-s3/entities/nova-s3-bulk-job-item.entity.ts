@@ -0,0 +1,57 @@
+/* src/nova-s3/entities/nova-s3-bulk-job-item.entity.ts */
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export type NovaS3BulkOp = 'move' | 'delete' | 'copy';
+
+/**
+ * - pending:   todavía no se corrió
+ * - running:   en curso (si el runner muere queda así y al retomar el job pasa a failed)
+ * - done / failed: terminado (`result` / `error`)
+ * - cancelled: el job se canceló antes de llegar a este item
+ */
+export type NovaS3BulkItemStatus =
+  | 'pending'
+  | 'running'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+/** Item de un job en lote; se corren en orden de `position`. */
+@Entity({ name: 'nova_s3_bulk_job_item' })
+@Index('idx_nova_s3_bulk_job_item_job_position', ['jobId', 'position'])
+export class NovaS3BulkJobItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  jobId: string;
+
+  @Column({ type: 'int' })
+  position: number;
+
+  @Column({ type: 'varchar', length: 16 })
+  op: NovaS3BulkOp;
+
+  @Column({ type: 'varchar', length: 1024 })
+  path: string;
+
+  // carpeta destino de move / copy ("" = raíz)
+  @Column({ type: 'varchar', length: 1024, nullable: true })
+  targetPath: string | null;
+
+  // delete: borrado definitivo en lugar de papelera
+  @Column({ type: 'boolean', default: false })
+  permanent: boolean;
+
+  @Column({ type: 'varchar', length: 16, default: 'pending' })
+  status: NovaS3BulkItemStatus;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result: Record<string, any> | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  error: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+}
@@ -0,0 +1,74 @@
+/* src/nova-s3/entities/nova-s3-bulk-job.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import type { NovaS3ConflictStrategy } from '../utils/nova-s3-conflict.util';
+
+export type NovaS3BulkJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'cancelled'
+  | 'failed';
+
+/**
+ * Job de operaciones en lote (multi-select del explorer): move / delete / copy de N items
+ * (nova_s3_bulk_job_item), uno por uno en background.
+ *
+ * ✅ POST /bulk responde con el id al instante; el progreso se consulta con GET /bulk/status.
+ * ✅ `updatedAt` = heartbeat del runner: un job `running` sin heartbeat en NOVA_S3_BULK_STALE_MINUTES
+ *    se da por interrumpido (crash / deploy) y lo retoma cualquier instancia.
+ * ✅ Cancelar solo marca `cancelRequested`: el runner corta entre items (el item en curso termina).
+ */
+@Entity({ name: 'nova_s3_bulk_job' })
+@Index('idx_nova_s3_bulk_job_root_emp', ['root', 'employeeNumber'])
+@Index('idx_nova_s3_bulk_job_status_updated', ['status', 'updatedAt'])
+export class NovaS3BulkJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  // dueño del espacio ({root}/{employeeNumber}/...)
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  // quien lanzó el job (≠ employeeNumber en folders compartidos)
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  actorEmployeeNumber: string | null;
+
+  @Column({ type: 'varchar', length: 16, default: 'queued' })
+  status: NovaS3BulkJobStatus;
+
+  @Column({ type: 'boolean', default: false })
+  cancelRequested: boolean;
+
+  @Column({ type: 'int', default: 0 })
+  totalItems: number;
+
+  // moves: qué hacer si el destino ya tiene un item con el mismo nombre (ver NovaS3ConflictStrategy)
+  @Column({ type: 'varchar', length: 16, default: 'fail' })
+  conflictStrategy: NovaS3ConflictStrategy;
+
+  // error del runner (no de un item: esos quedan en cada item)
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+}
@@ -0,0 +1,53 @@
+/* src/nova-s3/entities/nova-s3-grant.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type NovaS3GrantRole = 'viewer' | 'editor';
+
+/**
+ * Acceso de otro empleado a un folder (y todo su subárbol) del dueño.
+ *
+ * - `folderId` = nova_s3.id del folder: el grant sigue al folder aunque el dueño lo renombre o mueva.
+ *   Si el folder va a la papelera el grant deja de aplicar; si se restaura, vuelve.
+ * - viewer: list / tree / file-url. editor: además upload / rename / move / delete dentro del folder.
+ * - Todo corre en el espacio del dueño (`s3BaseFolder(root, ownerEmployeeNumber)`).
+ */
+@Entity({ name: 'nova_s3_grant' })
+@Index(
+  'uq_nova_s3_grant_folder_grantee',
+  ['folderId', 'granteeEmployeeNumber'],
+  { unique: true },
+)
+@Index('idx_nova_s3_grant_owner', ['root', 'ownerEmployeeNumber'])
+@Index('idx_nova_s3_grant_grantee', ['root', 'granteeEmployeeNumber'])
+export class NovaS3Grant {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  ownerEmployeeNumber: string;
+
+  @Column('uuid')
+  folderId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  granteeEmployeeNumber: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  role: NovaS3GrantRole;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,94 @@
+/* src/nova-s3/entities/nova-s3-legacy-import.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type NovaS3LegacyImportStatus = 'running' | 'completed';
+
+export type NovaS3LegacyImportIssue = {
+  key: string;
+  reason: 'conflict' | 'invalid' | 'failed';
+  detail?: string;
+};
+
+/**
+ * Importación del layout legacy de /s3 (`{legacyFolder}/{employeeNumber}/...`) al índice nova_s3.
+ *
+ * ✅ Reanudable: cada llamada procesa hasta N objetos y guarda `cursor` (última key procesada,
+ *    StartAfter de ListObjectsV2). Si se corta, la próxima llamada con el mismo id sigue desde ahí.
+ * ✅ Idempotente: una página repetida no duplica filas (ver classifyLegacyItem).
+ */
+@Entity({ name: 'nova_s3_legacy_import' })
+@Index('idx_nova_s3_legacy_import_folder_emp', [
+  'legacyFolder',
+  'employeeNumber',
+])
+export class NovaS3LegacyImport {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  legacyFolder: string;
+
+  // null = todos los empleados bajo legacyFolder/
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  employeeNumber: string | null;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 1024, default: '' })
+  basePath: string;
+
+  // none (ya está en el layout) | copy | move
+  @Column({ type: 'varchar', length: 8 })
+  transfer: string;
+
+  @Column({ type: 'varchar', length: 16, default: 'running' })
+  status: NovaS3LegacyImportStatus;
+
+  @Column({ type: 'varchar', length: 2048, nullable: true })
+  cursor: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  scanned: number;
+
+  @Column({ type: 'int', default: 0 })
+  folders: number;
+
+  @Column({ type: 'int', default: 0 })
+  files: number;
+
+  @Column({ type: 'bigint', default: 0 })
+  bytes: number;
+
+  @Column({ type: 'int', default: 0 })
+  alreadyImported: number;
+
+  @Column({ type: 'int', default: 0 })
+  skipped: number;
+
+  @Column({ type: 'int', default: 0 })
+  failed: number;
+
+  // primeras N keys no importadas (conflict / invalid / failed)
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  issues: NovaS3LegacyImportIssue[];
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+}
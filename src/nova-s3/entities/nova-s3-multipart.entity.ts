@@ -0,0 +1,65 @@
+/* src/nova-s3/entities/nova-s3-multipart.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type NovaS3MultipartStatus = 'open' | 'completed' | 'aborted';
+
+// quién lo cerró: completeMultipart | abortMultipart | sweeper | ya no estaba en S3
+export type NovaS3MultipartCloseReason =
+  | 'complete'
+  | 'abort'
+  | 'sweep'
+  | 'missing';
+
+/**
+ * Multipart upload iniciado por presignBatch.
+ *
+ * ✅ Se registra al crear el upload en S3 y se cierra en completeMultipart / abortMultipart.
+ * ✅ Si la pestaña se cierra a mitad, la fila queda `open`: el sweeper aborta el upload
+ *    en S3 (las partes subidas se cobran hasta que alguien lo haga).
+ */
+@Entity({ name: 'nova_s3_multipart' })
+@Index('uq_nova_s3_multipart_upload', ['uploadId'], { unique: true })
+@Index('idx_nova_s3_multipart_status_created', ['status', 'createdAt'])
+export class NovaS3Multipart {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  @Column({ type: 'varchar', length: 1024 })
+  path: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  s3Key: string;
+
+  @Column({ type: 'varchar', length: 1024 })
+  uploadId: string;
+
+  @Column({ type: 'bigint', nullable: true })
+  size: number | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  contentType: string | null;
+
+  @Column({ type: 'varchar', length: 16, default: 'open' })
+  status: NovaS3MultipartStatus;
+
+  @Column({ type: 'varchar', length: 16, nullable: true })
+  closeReason: NovaS3MultipartCloseReason | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null;
+}
@@ -0,0 +1,99 @@
+/* src/nova-s3/entities/nova-s3-operation.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type NovaS3OperationKind = 'moveFolder' | 'renameFolder';
+
+/**
+ * Pasos planeados, en orden:
+ * - copy:   copia todos los objetos sourcePrefix -> targetPrefix (idempotente, se puede repetir)
+ * - db:     cascadeUpdatePrefix + avance a `delete` en UNA transacción
+ * - delete: borra los originales bajo sourcePrefix
+ * - done:   terminado (completed o rolledBack)
+ */
+export type NovaS3OperationPhase = 'copy' | 'db' | 'delete' | 'done';
+
+export type NovaS3OperationStatus =
+  | 'running'
+  | 'failed'
+  | 'completed'
+  | 'rolledBack';
+
+/**
+ * Journal de operaciones multi-paso sobre un prefijo (move / rename de folder).
+ *
+ * ✅ Se escribe ANTES de tocar S3 y se actualiza en cada paso: si el proceso muere o S3 falla a mitad,
+ *    la fila dice exactamente dónde quedó y el recovery puede seguir (resume) o deshacer (rollback).
+ * ✅ Antes del commit de BD (copy / db) el original está intacto => rollback = borrar las copias.
+ *    Después del commit (delete) la BD ya apunta al destino => solo se puede seguir.
+ */
+@Entity({ name: 'nova_s3_operation' })
+@Index('idx_nova_s3_operation_root_emp', ['root', 'employeeNumber'])
+@Index('idx_nova_s3_operation_status', ['status'])
+export class NovaS3Operation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  kind: NovaS3OperationKind;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  employeeNumber: string | null;
+
+  @Column({ type: 'varchar', length: 1024 })
+  sourcePath: string;
+
+  @Column({ type: 'varchar', length: 1024 })
+  targetPath: string;
+
+  // keys completas en S3 (sin "/" final)
+  @Column({ type: 'varchar', length: 2048 })
+  sourcePrefix: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  targetPrefix: string;
+
+  @Column({ type: 'varchar', length: 16, default: 'copy' })
+  phase: NovaS3OperationPhase;
+
+  @Column({ type: 'varchar', length: 16, default: 'running' })
+  status: NovaS3OperationStatus;
+
+  @Column({ type: 'int', default: 0 })
+  totalObjects: number;
+
+  @Column({ type: 'int', default: 0 })
+  copiedCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  dbRows: number;
+
+  @Column({ type: 'int', default: 0 })
+  deletedCount: number;
+
+  // cada recovery suma 1 (también sirve de versión para que dos instancias no tomen la misma operación)
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // heartbeat: se toca en cada avance de progreso
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+}
@@ -0,0 +1,46 @@
+/* src/nova-s3/entities/nova-s3-quota.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Override de cuota para UN empleado en un root.
+ *
+ * - Sin fila: aplica la cuota del root (NOVA_S3_ROOT_QUOTAS / NOVA_S3_QUOTA_DEFAULT_BYTES).
+ * - `quotaBytes` null = sin límite para este empleado.
+ * - `warnPercent` null = el umbral global (NOVA_S3_QUOTA_WARN_PERCENT).
+ */
+@Entity({ name: 'nova_s3_quota' })
+@Index('uq_nova_s3_quota_root_emp', ['root', 'employeeNumber'], {
+  unique: true,
+})
+export class NovaS3Quota {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  @Column({ type: 'bigint', nullable: true })
+  quotaBytes: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  warnPercent: number | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  note: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
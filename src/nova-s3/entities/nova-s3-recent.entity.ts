@@ -0,0 +1,40 @@
+/* src/nova-s3/entities/nova-s3-recent.entity.ts */
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export type NovaS3RecentAction = 'view' | 'upload' | 'rename';
+
+/**
+ * Último acceso de un empleado a un archivo (una fila por empleado + archivo; cada acceso la pisa).
+ *
+ * - Se alimenta solo: getFileUrl (view), uploads / register / completeMultipart (upload), rename.
+ * - `itemId` = nova_s3.id, igual que las estrellas: sigue al archivo en rename / move.
+ * - Se recorta a los NOVA_S3_RECENT_MAX más nuevos por empleado y root.
+ */
+@Entity({ name: 'nova_s3_recent' })
+@Index('uq_nova_s3_recent_emp_item', ['employeeNumber', 'itemId'], {
+  unique: true,
+})
+@Index('idx_nova_s3_recent_root_emp_accessed', [
+  'root',
+  'employeeNumber',
+  'accessedAt',
+])
+export class NovaS3Recent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  @Column('uuid')
+  itemId: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  action: NovaS3RecentAction;
+
+  @Column({ type: 'timestamp' })
+  accessedAt: Date;
+}
@@ -0,0 +1,55 @@
+/* src/nova-s3/entities/nova-s3-root.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Root registrado (el `root` de todas las tablas de nova-s3). Un root que no está acá se rechaza.
+ *
+ * - `bucket` null = BUCKET; `basePrefix` null = el nombre del root (keys "{root}/{employeeNumber}/...")
+ * - `employeeScoped` false = un solo espacio compartido (ver NOVA_S3_SHARED_SPACE)
+ * - `defaultUrlExpirySeconds` null = el default de cada endpoint (file-url, presign, versiones...)
+ * - `allowedEmployees` null = cualquier empleado
+ * - `enabled` false = se rechaza igual que uno desconocido, sin perder la config ni los datos
+ */
+@Entity({ name: 'nova_s3_root' })
+@Index('uq_nova_s3_root_name', ['name'], { unique: true })
+export class NovaS3Root {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  bucket: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  basePrefix: string | null;
+
+  @Column({ type: 'boolean', default: true })
+  employeeScoped: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  defaultUrlExpirySeconds: number | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  allowedEmployees: string[] | null;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  note: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,68 @@
+/* src/nova-s3/entities/nova-s3-share.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { NovaS3ItemType } from './nova-s3.entity';
+
+/**
+ * Link público a un item de nova_s3 (file o folder).
+ *
+ * - `itemId` = nova_s3.id: el link sigue al item aunque se renombre o mueva.
+ *   Si el item se borra (papelera) el link deja de resolver; si se restaura, vuelve a funcionar.
+ * - `token` es opaco (random), nunca deriva del path.
+ * - `passwordHash`: scrypt con salt, nunca el password en claro.
+ */
+@Entity({ name: 'nova_s3_share' })
+@Index('idx_nova_s3_share_owner', ['root', 'employeeNumber'])
+export class NovaS3Share {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index('uq_nova_s3_share_token', { unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  token: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  // dueño del item (quien creó el link)
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  @Index('IDX_nova_s3_share_itemId')
+  @Column('uuid')
+  itemId: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  itemType: NovaS3ItemType;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  passwordHash: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  maxDownloads: number | null;
+
+  // cada resolve del token (listado de folder o URL de archivo)
+  @Column({ type: 'int', default: 0 })
+  accessCount: number;
+
+  // solo URLs de archivo emitidas (lo que cuenta contra maxDownloads)
+  @Column({ type: 'int', default: 0 })
+  downloadCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAccessedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,37 @@
+/* src/nova-s3/entities/nova-s3-star.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Item marcado con estrella por un empleado.
+ *
+ * - `itemId` = nova_s3.id: sigue al item en rename / move (cascadeUpdatePrefix conserva el id).
+ * - `employeeNumber` es quien marcó (puede ser un invitado sobre un folder compartido del dueño).
+ * - Si el item va a la papelera deja de listarse; se borra con el borrado definitivo.
+ */
+@Entity({ name: 'nova_s3_star' })
+@Index('uq_nova_s3_star_emp_item', ['employeeNumber', 'itemId'], {
+  unique: true,
+})
+@Index('idx_nova_s3_star_root_emp', ['root', 'employeeNumber'])
+export class NovaS3Star {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  @Column('uuid')
+  itemId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,78 @@
+/* src/nova-s3/entities/nova-s3-trash.entity.ts */
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { NovaS3ItemType } from './nova-s3.entity';
+
+/**
+ * Snapshot of one `nova_s3` row that was moved to the recycle bin.
+ * - `path` is the ORIGINAL relative path (before delete).
+ * - `id` is kept so restore re-creates the row with the same id.
+ */
+export type NovaS3TrashedRow = {
+  id: string;
+  path: string;
+  name: string;
+  type: NovaS3ItemType;
+  size: number | null;
+  mimeType: string | null;
+  meta: Record<string, any> | null;
+  // opcionales: snapshots anteriores a tags / properties / contentHash no los tienen
+  tags?: string[];
+  properties?: Record<string, string>;
+  contentHash?: string | null;
+  createdAt: Date;
+};
+
+/**
+ * Recycle bin entry (one per delete operation).
+ *
+ * ✅ La fila sale de `nova_s3` (list/tree/search no la ven) y queda aquí como snapshot.
+ * ✅ Los objetos S3 se mueven a `s3Prefix` ({root}/.trash/{employeeNumber}/{id}/...)
+ *    manteniendo la ruta relativa original, así restore es un move inverso.
+ */
+@Entity({ name: 'nova_s3_trash' })
+@Index('idx_nova_s3_trash_root_emp', ['root', 'employeeNumber'])
+export class NovaS3Trash {
+  // Se genera antes del move en S3 (el prefijo de la papelera depende del id)
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  @Column({ type: 'varchar', length: 1024 })
+  originalPath: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  type: NovaS3ItemType;
+
+  @Column({ type: 'varchar', length: 2048 })
+  s3Prefix: string;
+
+  @Column({ type: 'int', default: 0 })
+  itemCount: number;
+
+  @Column({ type: 'bigint', default: 0 })
+  totalSize: number;
+
+  @Column({ type: 'jsonb' })
+  items: NovaS3TrashedRow[];
+
+  @CreateDateColumn()
+  deletedAt: Date;
+
+  @Index('IDX_nova_s3_trash_expiresAt')
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+}
@@ -0,0 +1,63 @@
+/* src/nova-s3/entities/nova-s3-upload-session-file.entity.ts */
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export type NovaS3UploadSessionFileKind = 'put' | 'multipart';
+
+export type NovaS3UploadSessionFileStatus = 'pending' | 'done' | 'failed';
+
+/**
+ * Cómo terminó el archivo:
+ * - registered:     el cliente llamó register / registerBatch / completeMultipart
+ * - autoRegistered: llegó a S3 pero nunca se registró => lo registró el vencimiento
+ * - notUploaded:    nunca llegó a S3
+ * - aborted:        multipart abortado (por el cliente o por el vencimiento)
+ * - registerFailed: estaba en S3 pero el registro automático falló (ver `error`)
+ */
+export type NovaS3UploadSessionFileResolution =
+  | 'registered'
+  | 'autoRegistered'
+  | 'notUploaded'
+  | 'aborted'
+  | 'registerFailed';
+
+/** Archivo esperado de una sesión de upload (una fila por archivo del presignBatch). */
+@Entity({ name: 'nova_s3_upload_session_file' })
+@Index('idx_nova_s3_upload_session_file_session', ['sessionId', 'status'])
+@Index('idx_nova_s3_upload_session_file_key', ['s3Key', 'status'])
+export class NovaS3UploadSessionFile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  sessionId: string;
+
+  @Column({ type: 'varchar', length: 1024 })
+  path: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  s3Key: string;
+
+  @Column({ type: 'bigint', nullable: true })
+  size: number | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  contentType: string | null;
+
+  @Column({ type: 'varchar', length: 16 })
+  kind: NovaS3UploadSessionFileKind;
+
+  @Column({ type: 'varchar', length: 1024, nullable: true })
+  uploadId: string | null;
+
+  @Column({ type: 'varchar', length: 16, default: 'pending' })
+  status: NovaS3UploadSessionFileStatus;
+
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  resolution: NovaS3UploadSessionFileResolution | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  error: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+}
@@ -0,0 +1,60 @@
+/* src/nova-s3/entities/nova-s3-upload-session.entity.ts */
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type NovaS3UploadSessionStatus = 'open' | 'completed' | 'expired';
+
+/**
+ * Sesión de upload directo: la crea presignBatch con la lista de archivos esperados
+ * (nova_s3_upload_session_file).
+ *
+ * ✅ register / registerBatch / completeMultipart van marcando archivos como `done`;
+ *    cuando no queda ninguno pendiente la sesión pasa a `completed`.
+ * ✅ Al vencer (URLs vencidas + margen) los pendientes se verifican con HEAD:
+ *    los que llegaron se registran solos, los que no se marcan `failed` (multipart => abort).
+ */
+@Entity({ name: 'nova_s3_upload_session' })
+@Index('idx_nova_s3_upload_session_root_emp', ['root', 'employeeNumber'])
+@Index('idx_nova_s3_upload_session_status_expires', ['status', 'expiresAt'])
+export class NovaS3UploadSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  // dueño del espacio ({root}/{employeeNumber}/...)
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  // quien sube (≠ employeeNumber en folders compartidos)
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  actorEmployeeNumber: string | null;
+
+  @Column({ type: 'varchar', length: 1024, default: '' })
+  basePath: string;
+
+  @Column({ type: 'varchar', length: 16, default: 'open' })
+  status: NovaS3UploadSessionStatus;
+
+  @Column({ type: 'int', default: 0 })
+  totalFiles: number;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null;
+}
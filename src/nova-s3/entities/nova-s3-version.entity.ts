@@ -0,0 +1,70 @@
+/* src/nova-s3/entities/nova-s3-version.entity.ts */
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Versión anterior de un archivo de `nova_s3`.
+ *
+ * - `fileId` = nova_s3.id del archivo. Sin FK a propósito: la fila puede pasar por la
+ *   papelera y volver con el mismo id, y sus versiones tienen que seguir ahí.
+ * - El objeto vive en {root}/.versions/{employeeNumber}/{fileId}/{id}: no depende del path,
+ *   así rename/move no tienen que tocar las versiones.
+ */
+@Entity({ name: 'nova_s3_version' })
+@Index('idx_nova_s3_version_file', ['fileId', 'versionNumber'])
+export class NovaS3Version {
+  // Se genera antes de copiar en S3 (la key depende del id)
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  fileId: string;
+
+  @Column({ type: 'varchar', length: 120, default: 'nova-s3' })
+  root: string;
+
+  @Index('IDX_nova_s3_version_employeeNumber')
+  @Column({ type: 'varchar', length: 50 })
+  employeeNumber: string;
+
+  // 1, 2, 3... por archivo (la versión "actual" es la fila de nova_s3, no está aquí)
+  @Column({ type: 'int' })
+  versionNumber: number;
+
+  @Column({ type: 'varchar', length: 2048 })
+  s3Key: string;
+
+  @Column({ type: 'bigint', nullable: true })
+  size: number | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  mimeType: string | null;
+
+  // ETag del contenido archivado: evita archivar dos veces el mismo contenido
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  etag: string | null;
+
+  // SHA-256 del contenido archivado (vuelve a la fila al restaurar)
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  contentHash: string | null;
+
+  // path del archivo al momento de archivar (informativo)
+  @Column({ type: 'varchar', length: 1024 })
+  pathAtArchive: string;
+
+  // updatedAt de la fila cuando este contenido era el actual
+  @Column({ type: 'timestamp', nullable: true })
+  contentUpdatedAt: Date | null;
+
+  // operación que lo reemplazó: uploadOne | presignUpload | completeMultipart | restoreVersion ...
+  @Column({ type: 'varchar', length: 64 })
+  reason: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
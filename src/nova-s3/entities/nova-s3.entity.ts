@@ -16,6 +16,14 @@ export type NovaS3ItemType =
 
 @Entity({ name: 'nova_s3' })
 @Index('uq_nova_s3_root_emp_path', ['root', 'employeeNumber', 'path'], { unique: true })
+@Index('idx_nova_s3_root_emp_mime', ['root', 'employeeNumber', 'mimeType'])
+@Index('idx_nova_s3_root_emp_updated', ['root', 'employeeNumber', 'updatedAt'])
+@Index('idx_nova_s3_root_emp_hash', ['root', 'employeeNumber', 'contentHash'])
+@Index('idx_nova_s3_root_emp_rollup', ['root', 'employeeNumber', 'rollupBytes'])
+// GIN pg_trgm sobre lower(name) para el search tolerante a typos (creado a mano en la migración)
+@Index('idx_nova_s3_name_trgm', { synchronize: false })
+// GIN sobre tags para el filtro `tags @> ...` (creado a mano en la migración)
+@Index('idx_nova_s3_tags', { synchronize: false })
 export class NovaS3 {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -48,6 +56,10 @@ export class NovaS3 {
   @Column({ type: 'varchar', length: 255, nullable: true })
   mimeType: string | null;
 
+  // ✅ SHA-256 hex del contenido. null = todavía sin calcular (direct uploads se hashean en background)
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  contentHash: string | null;
+
   // 🔴 REQUIRED (todo es por employeeNumber)
   @Index()
   @Column({ type: 'varchar', length: 50, nullable: false })
@@ -56,6 +68,21 @@ export class NovaS3 {
   @Column({ type: 'jsonb', nullable: true })
   meta: Record<string, any> | null;
 
+  // ✅ Tags visibles para el usuario ("Invoice", "2026"). `meta` queda para campos internos.
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  tags: string[];
+
+  // ✅ Propiedades clave/valor del usuario ({ client: 'ACME' })
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  properties: Record<string, string>;
+
+  // ✅ Solo folders: archivos / bytes de TODO el subárbol (NovaS3FolderSizesService los mantiene en cada write)
+  @Column({ type: 'int', default: 0 })
+  rollupFiles: number;
+
+  @Column({ type: 'bigint', default: 0 })
+  rollupBytes: number;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,237 @@
+/* src/nova-s3/nova-s3-activity.service.spec.ts */
+import { BadRequestException, Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { NovaS3ActivityService } from './nova-s3-activity.service';
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Activity } from './entities/nova-s3-activity.entity';
+
+// ── Fakes ──────────────────────────────────────────────────────────────────
+
+type Where = Record<string, unknown>;
+
+/** Chainable query builder: records the where clauses and answers getOne / getRawAndEntities. */
+const fakeQueryBuilder = (
+  entities: NovaS3Activity[] = [],
+  one: NovaS3Activity | null = null,
+) => {
+  const params: Where = {};
+  const qb: Record<string, jest.Mock> = {};
+  for (const m of ['addSelect', 'orderBy', 'addOrderBy', 'limit']) {
+    qb[m] = jest.fn(() => qb);
+  }
+  for (const m of ['where', 'andWhere']) {
+    qb[m] = jest.fn((_sql: string, p?: Where) => {
+      Object.assign(params, p);
+      return qb;
+    });
+  }
+  qb.getOne = jest.fn(() => Promise.resolve(one));
+  qb.getRawAndEntities = jest.fn(() =>
+    Promise.resolve({
+      entities,
+      raw: entities.map((a) => ({ a_id: a.id, sort_0: String(a.id) })),
+    }),
+  );
+  return { qb, params };
+};
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const ROOT = 'nova-s3';
+const OWNER = 'EMP1';
+const ITEM = '3f2504e0-4f89-41d3-9a0c-0305e82c3301';
+
+const entry = (
+  id: string,
+  action: string,
+  oldPath: string | null,
+  newPath: string | null,
+) =>
+  ({
+    id,
+    root: ROOT,
+    employeeNumber: OWNER,
+    actorEmployeeNumber: OWNER,
+    action,
+    itemId: ITEM,
+    itemType: 'file',
+    oldPath,
+    newPath,
+    meta: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  }) as unknown as NovaS3Activity;
+
+// newest first, as the page query returns them
+const HISTORY = [
+  entry('a3', 'move', 'Drafts/final.pdf', 'Archive/final.pdf'),
+  entry('a2', 'rename', 'Drafts/report.pdf', 'Drafts/final.pdf'),
+  entry('a1', 'upload', null, 'Drafts/report.pdf'),
+];
+
+describe('NovaS3ActivityService', () => {
+  let service: NovaS3ActivityService;
+  let repo: Record<string, jest.Mock>;
+  let activityRepo: Record<string, jest.Mock>;
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    repo = { findOne: jest.fn().mockResolvedValue(null), find: jest.fn() };
+    activityRepo = {
+      insert: jest.fn().mockResolvedValue({}),
+      createQueryBuilder: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NovaS3ActivityService,
+        { provide: getRepositoryToken(NovaS3), useValue: repo },
+        { provide: getRepositoryToken(NovaS3Activity), useValue: activityRepo },
+      ],
+    }).compile();
+
+    service = module.get(NovaS3ActivityService);
+  });
+
+  // ── record ───────────────────────────────────────────────────────────────
+
+  describe('record', () => {
+    it('stores the item id with the paths, in the owner space', async () => {
+      await service.record(ROOT, OWNER, null, 'rename', [
+        { itemId: ITEM, itemType: 'file', oldPath: 'a.pdf', newPath: 'b.pdf' },
+      ]);
+
+      expect(activityRepo.insert).toHaveBeenCalledWith([
+        {
+          root: ROOT,
+          employeeNumber: OWNER,
+          actorEmployeeNumber: OWNER,
+          action: 'rename',
+          itemId: ITEM,
+          itemType: 'file',
+          oldPath: 'a.pdf',
+          newPath: 'b.pdf',
+          meta: null,
+        },
+      ]);
+    });
+
+    it('never breaks the caller', async () => {
+      activityRepo.insert.mockRejectedValueOnce(new Error('deadlock'));
+
+      await expect(
+        service.record(ROOT, OWNER, 'EMP2', 'delete', [{ itemId: ITEM }]),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  // ── itemHistory ──────────────────────────────────────────────────────────
+
+  describe('itemHistory', () => {
+    it('follows the item through renames and moves (queried by id)', async () => {
+      repo.findOne.mockResolvedValue({
+        id: ITEM,
+        path: 'Archive/final.pdf',
+        name: 'final.pdf',
+        type: 'file',
+      });
+      const history = fakeQueryBuilder(HISTORY);
+      activityRepo.createQueryBuilder.mockReturnValueOnce(history.qb);
+
+      const res = await service.itemHistory({
+        root: ROOT,
+        owner: OWNER,
+        path: '/Archive/final.pdf',
+      });
+
+      expect(history.params).toMatchObject({ itemId: ITEM, owner: OWNER });
+      expect(res).toMatchObject({
+        itemId: ITEM,
+        item: { path: 'Archive/final.pdf', name: 'final.pdf' },
+        total: 3,
+        nextCursor: null,
+      });
+      expect(res.items.map((a) => a.action)).toEqual([
+        'move',
+        'rename',
+        'upload',
+      ]);
+      expect(res.items[2].newPath).toBe('Drafts/report.pdf');
+    });
+
+    it('resolves a path that is no longer live to the last item deleted from it', async () => {
+      const deleted = entry('a4', 'delete', 'Archive/final.pdf', null);
+      const lookup = fakeQueryBuilder([], deleted);
+      const history = fakeQueryBuilder([deleted, ...HISTORY]);
+      activityRepo.createQueryBuilder
+        .mockReturnValueOnce(lookup.qb)
+        .mockReturnValueOnce(history.qb);
+
+      const res = await service.itemHistory({
+        root: ROOT,
+        owner: OWNER,
+        path: 'Archive/final.pdf',
+      });
+
+      expect(lookup.params).toMatchObject({
+        action: 'delete',
+        path: 'Archive/final.pdf',
+      });
+      expect(history.params).toMatchObject({ itemId: ITEM });
+      expect(res).toMatchObject({ itemId: ITEM, item: null, total: 4 });
+    });
+
+    it('rejects a path without activity and an itemId that is not a UUID', async () => {
+      activityRepo.createQueryBuilder.mockReturnValueOnce(
+        fakeQueryBuilder().qb,
+      );
+
+      await expect(
+        service.itemHistory({ root: ROOT, owner: OWNER, path: 'nope.pdf' }),
+      ).rejects.toThrow('No activity found for that path');
+      await expect(
+        service.itemHistory({ root: ROOT, owner: OWNER, itemId: 'abc' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  // ── recent ───────────────────────────────────────────────────────────────
+
+  describe('recent', () => {
+    it('filters scope=space by the given space (shared roots)', async () => {
+      const page = fakeQueryBuilder();
+      activityRepo.createQueryBuilder.mockReturnValueOnce(page.qb);
+
+      await service.recent({
+        root: ROOT,
+        employeeNumber: OWNER,
+        space: 'shared',
+        scope: 'space',
+      });
+
+      expect(page.qb.andWhere).toHaveBeenCalledWith('a.employeeNumber = :emp', {
+        emp: 'shared',
+      });
+    });
+
+    it('filters scope=actor by the employee, whatever the space', async () => {
+      const page = fakeQueryBuilder();
+      activityRepo.createQueryBuilder.mockReturnValueOnce(page.qb);
+
+      await service.recent({
+        root: ROOT,
+        employeeNumber: OWNER,
+        space: 'shared',
+      });
+
+      expect(page.qb.andWhere).toHaveBeenCalledWith(
+        'a.actorEmployeeNumber = :emp',
+        { emp: OWNER },
+      );
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/* src/nova-s3/nova-s3-activity.service.ts
+ *
+ * NOVA S3 — log de actividad: upload, createFolder, rename, move, delete y emisión de URLs.
+ *
+ * ✅ Cada entrada guarda nova_s3.id: rename / move conservan el id, así que el historial de un item
+ *    se consulta por id y sobrevive a los cambios de path (oldPath / newPath quedan como estaban).
+ * ✅ Append-only: el borrado definitivo NO limpia el log (queda la entrada `delete` con el último path).
+ * ✅ Best-effort: los hooks nunca rompen la operación que los llama.
+ */
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isUUID } from 'class-validator';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import {
+  NovaS3Activity,
+  NovaS3ActivityAction,
+} from './entities/nova-s3-activity.entity';
+import { normPath, normRoot } from './utils/nova-s3-path.util';
+import { decodeCursor, encodeCursor } from './utils/nova-s3-cursor.util';
+
+export type NovaS3ActivityEntry = {
+  itemId: string | null;
+  itemType?: string | null;
+  oldPath?: string | null;
+  newPath?: string | null;
+};
+
+/** actor = lo que hizo el empleado (en cualquier espacio); space = todo lo que pasó en su espacio. */
+export type NovaS3ActivityScope = 'actor' | 'space';
+
+@Injectable()
+export class NovaS3ActivityService {
+  private readonly logger = new Logger(NovaS3ActivityService.name);
+
+  // tamaño de página máximo de los endpoints
+  private readonly PAGE_MAX = Number(
+    process.env.NOVA_S3_ACTIVITY_PAGE_MAX ?? 200,
+  );
+
+  // filas por INSERT (uploadFolder puede traer miles de archivos)
+  private readonly INSERT_CHUNK = 500;
+
+  constructor(
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    @InjectRepository(NovaS3Activity)
+    private readonly activityRepo: Repository<NovaS3Activity>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Hooks (NovaS3Service)
+  // ---------------------------------------------------------------------------
+
+  /** Registra entradas en el espacio de `owner`. Best-effort. */
+  async record(
+    rootIn: string,
+    owner: string | null,
+    actor: string | null | undefined,
+    action: NovaS3ActivityAction,
+    entries: NovaS3ActivityEntry[],
+    meta?: Record<string, any> | null,
+  ) {
+    if (!owner || !entries.length) return;
+
+    const root = normRoot(rootIn);
+    try {
+      const rows = entries.map((e) => ({
+        root,
+        employeeNumber: owner,
+        actorEmployeeNumber: actor || owner,
+        action,
+        itemId: e.itemId,
+        itemType: e.itemType ?? null,
+        oldPath: e.oldPath ?? null,
+        newPath: e.newPath ?? null,
+        meta: meta ?? null,
+      }));
+      for (let i = 0; i < rows.length; i += this.INSERT_CHUNK) {
+        await this.activityRepo.insert(rows.slice(i, i + this.INSERT_CHUNK));
+      }
+    } catch (e: any) {
+      this.logger.warn(
+        `[record] ${root}/${owner} (${action}) failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  /**
+   * Igual que record pero por path (uploads / createFolder / file-url): resuelve los ids en nova_s3.
+   * Paths que no están en BD se registran sin itemId.
+   */
+  async recordPaths(
+    rootIn: string,
+    owner: string | null,
+    actor: string | null | undefined,
+    action: NovaS3ActivityAction,
+    paths: string[],
+    meta?: Record<string, any> | null,
+  ) {
+    if (!owner || !paths.length) return;
+
+    const root = normRoot(rootIn);
+    try {
+      const clean = [...new Set(paths.map((p) => normPath(p)).filter(Boolean))];
+      const byPath = new Map<string, NovaS3>();
+      for (let i = 0; i < clean.length; i += this.INSERT_CHUNK) {
+        const rows = await this.repo.find({
+          where: {
+            root,
+            employeeNumber: owner,
+            path: In(clean.slice(i, i + this.INSERT_CHUNK)),
+          } as any,
+          select: { id: true, path: true, type: true } as any,
+        });
+        for (const r of rows) byPath.set(r.path, r);
+      }
+
+      await this.record(
+        root,
+        owner,
+        actor,
+        action,
+        clean.map((p) => ({
+          itemId: byPath.get(p)?.id ?? null,
+          itemType: byPath.get(p)?.type ?? null,
+          newPath: p,
+        })),
+        meta,
+      );
+    } catch (e: any) {
+      this.logger.warn(
+        `[recordPaths] ${root}/${owner} (${action}) failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Queries
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Historial de un item del espacio de `owner` (más nuevo primero), por itemId o por path.
+   * Por path: el item que está ahí hoy; si no hay ninguno, el último borrado desde ese path.
+   */
+  async itemHistory(dto: {
+    root?: string;
+    owner: string;
+    itemId?: string;
+    path?: string;
+    limit?: number;
+    cursor?: string;
+  }) {
+    const root = normRoot(dto.root);
+
+    let itemId = (dto.itemId ?? '').trim();
+    if (itemId) {
+      if (!isUUID(itemId))
+        throw new BadRequestException('itemId must be a UUID');
+    } else {
+      const path = normPath(dto.path ?? '');
+      if (!path) throw new BadRequestException('itemId or path is required');
+      itemId = (await this.resolveItemId(root, dto.owner, path)) ?? '';
+      if (!itemId)
+        throw new BadRequestException('No activity found for that path');
+    }
+
+    const current = await this.repo.findOne({
+      where: { id: itemId, root, employeeNumber: dto.owner } as any,
+    });
+
+    const qb = this.activityRepo
+      .createQueryBuilder('a')
+      .where('a.itemId = :itemId', { itemId })
+      .andWhere('a.root = :root', { root })
+      .andWhere('a.employeeNumber = :owner', { owner: dto.owner });
+    const { items, nextCursor } = await this.page(qb, dto.limit, dto.cursor);
+
+    return {
+      success: true,
+      root,
+      itemId,
+      // null = ya no existe (papelera o borrado definitivo)
+      item: current
+        ? { path: current.path, name: current.name, type: current.type }
+        : null,
+      total: items.length,
+      nextCursor,
+      items: items.map((a) => this.toEntry(a)),
+    };
+  }
+
+  /**
+   * Actividad reciente de un empleado (más nueva primero).
+   * scope=space filtra por `space` (el compartido si el root no es employee-scoped; default = el empleado).
+   */
+  async recent(dto: {
+    root?: string;
+    employeeNumber: string;
+    space?: string;
+    scope?: NovaS3ActivityScope;
+    limit?: number;
+    cursor?: string;
+  }) {
+    const root = normRoot(dto.root);
+    const scope: NovaS3ActivityScope = dto.scope ?? 'actor';
+    if (scope !== 'actor' && scope !== 'space')
+      throw new BadRequestException('scope must be actor or space');
+
+    const column =
+      scope === 'actor' ? 'a.actorEmployeeNumber' : 'a.employeeNumber';
+    const emp =
+      scope === 'actor'
+        ? dto.employeeNumber
+        : (dto.space ?? dto.employeeNumber);
+    const qb = this.activityRepo
+      .createQueryBuilder('a')
+      .where('a.root = :root', { root })
+      .andWhere(`${column} = :emp`, { emp });
+    const { items, nextCursor } = await this.page(qb, dto.limit, dto.cursor);
+
+    return {
+      success: true,
+      root,
+      scope,
+      total: items.length,
+      nextCursor,
+      items: items.map((a) => this.toEntry(a)),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private async resolveItemId(root: string, owner: string, path: string) {
+    const current = await this.repo.findOne({
+      where: { root, employeeNumber: owner, path } as any,
+      select: { id: true } as any,
+    });
+    if (current) return current.id;
+
+    const deleted = await this.activityRepo
+      .createQueryBuilder('a')
+      .where('a.root = :root', { root })
+      .andWhere('a.employeeNumber = :owner', { owner })
+      .andWhere('a.action = :action', { action: 'delete' })
+      .andWhere('a.oldPath = :path', { path })
+      .andWhere('a.itemId IS NOT NULL')
+      .orderBy('a.createdAt', 'DESC')
+      .getOne();
+    return deleted?.itemId ?? null;
+  }
+
+  /**
+   * Keyset (createdAt, id) DESC con el cursor opaco de search: un lote de uploads comparte createdAt,
+   * así que un corte solo por fecha se saltearía filas.
+   */
+  private async page(
+    qb: SelectQueryBuilder<NovaS3Activity>,
+    limitIn?: number,
+    rawCursor?: string,
+  ) {
+    const limit = Math.min(
+      Math.max(Number(limitIn) || 50, 1),
+      Math.max(this.PAGE_MAX, 1),
+    );
+
+    if (rawCursor) {
+      const cursor = decodeCursor(rawCursor, 'createdAt', 'desc');
+      if (!cursor || cursor.values.length !== 1 || !cursor.values[0])
+        throw new BadRequestException('Invalid cursor');
+      qb.andWhere(
+        '(a.createdAt, a.id) < (CAST(:cursorAt AS timestamp), CAST(:cursorId AS uuid))',
+        {
+          cursorAt: cursor.values[0],
+          cursorId: cursor.id,
+        },
+      );
+    }
+
+    // texto con microsegundos: un Date de JS los pierde y el cursor repetiría filas
+    qb.addSelect('CAST(a.createdAt AS text)', 'sort_0')
+      .orderBy('a.createdAt', 'DESC')
+      .addOrderBy('a.id', 'DESC')
+      .limit(limit + 1);
+
+    const { entities, raw } = await qb.getRawAndEntities();
+    const items = entities.slice(0, limit);
+    const last = items[items.length - 1];
+    const nextCursor =
+      entities.length > limit && last
+        ? encodeCursor({
+            sortBy: 'createdAt',
+            order: 'desc',
+            values: [raw.find((r: any) => r.a_id === last.id)?.sort_0 ?? null],
+            id: last.id,
+          })
+        : null;
+
+    return { items, nextCursor };
+  }
+
+  private toEntry(a: NovaS3Activity) {
+    return {
+      id: a.id,
+      action: a.action,
+      itemId: a.itemId,
+      itemType: a.itemType,
+      oldPath: a.oldPath,
+      newPath: a.newPath,
+      ownerEmployeeNumber: a.employeeNumber,
+      actorEmployeeNumber: a.actorEmployeeNumber,
+      meta: a.meta,
+      createdAt: a.createdAt,
+    };
+  }
+}
@@ -0,0 +1,251 @@
+/* src/nova-s3/nova-s3-archive.service.ts
+ *
+ * NOVA S3 — descarga ZIP de un folder o de una selección.
+ *
+ * - Entradas = filas de `nova_s3` (BD = source of truth), nunca un listado de S3.
+ * - Cada objeto se streamea desde S3 al ZIP, uno por vez: no se bufferiza en memoria.
+ * - Límites (total de bytes / cantidad de entradas) se validan ANTES de mandar headers,
+ *   así el cliente recibe un 400 normal y no un ZIP cortado.
+ */
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Like, Repository } from 'typeorm';
+import { Writable } from 'stream';
+import * as archiver from 'archiver';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { ZipDownloadDto } from './dto/zip.dto';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import {
+  buildTenantS3Key,
+  nameOf,
+  normPath,
+  normRoot,
+} from './utils/nova-s3-path.util';
+import { escapeLike } from './utils/nova-s3-search.util';
+import { zipEntryName, zipTopLevelName } from './utils/nova-s3-zip.util';
+
+export interface NovaS3ZipEntry {
+  name: string;
+  type: 'file' | 'folder';
+  path: string;
+  s3Key: string | null;
+  size: number;
+}
+
+export interface NovaS3ZipPlan {
+  fileName: string;
+  entries: NovaS3ZipEntry[];
+  fileCount: number;
+  totalBytes: number;
+}
+
+@Injectable()
+export class NovaS3ArchiveService {
+  private readonly logger = new Logger(NovaS3ArchiveService.name);
+
+  // ✅ Límites por ZIP (bytes según BD, entradas = files + folders)
+  private readonly ZIP_MAX_BYTES = Number(
+    process.env.NOVA_S3_ZIP_MAX_BYTES ?? 5 * 1024 * 1024 * 1024,
+  );
+  private readonly ZIP_MAX_ENTRIES = Number(
+    process.env.NOVA_S3_ZIP_MAX_ENTRIES ?? 10000,
+  );
+  // 0 = store (sin compresión) ... 9 = máxima
+  private readonly ZIP_LEVEL = Number(process.env.NOVA_S3_ZIP_LEVEL ?? 6);
+
+  constructor(
+    private readonly storage: NovaS3StorageUtil,
+
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+  ) {}
+
+  /**
+   * Arma la lista de entradas desde BD y valida límites.
+   * Un item seleccionado dentro de otro folder seleccionado no se duplica.
+   */
+  async plan(dto: ZipDownloadDto): Promise<NovaS3ZipPlan> {
+    const root = normRoot(dto.root);
+    const emp = dto.employeeNumber;
+    const paths = Array.from(
+      new Set((dto.paths ?? []).map((p) => normPath(p))),
+    );
+
+    if (!paths.length) throw new BadRequestException('paths[] is required');
+    if (paths.includes(''))
+      throw new BadRequestException(
+        'The root folder cannot be downloaded as ZIP',
+      );
+
+    const selected = await this.repo.find({
+      where: { root, employeeNumber: emp, path: In(paths) } as any,
+    });
+
+    const found = new Set(selected.map((r) => r.path));
+    const notFound = paths.filter((p) => !found.has(p));
+    if (notFound.length)
+      throw new BadRequestException(`Item not found in DB: ${notFound[0]}`);
+
+    const folders = selected
+      .filter((r) => r.type === 'folder')
+      .map((r) => r.path);
+    const tops = selected
+      .filter((r) => !folders.some((f) => r.path.startsWith(`${f}/`)))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    const entries: NovaS3ZipEntry[] = [];
+    const used = new Set<string>();
+    let totalBytes = 0;
+    let fileCount = 0;
+
+    for (const top of tops) {
+      const isFolder = top.type === 'folder';
+      const topName = zipTopLevelName(top.path, isFolder, used);
+
+      const rows = isFolder
+        ? await this.repo.find({
+            where: [
+              { root, employeeNumber: emp, path: top.path } as any,
+              {
+                root,
+                employeeNumber: emp,
+                path: Like(`${escapeLike(top.path)}/%`),
+              } as any,
+            ],
+            order: { path: 'ASC' } as any,
+          })
+        : [top];
+
+      for (const row of rows) {
+        const rowIsFolder = row.type === 'folder';
+
+        entries.push({
+          name: zipEntryName(topName, top.path, row.path, rowIsFolder),
+          type: rowIsFolder ? 'folder' : 'file',
+          path: row.path,
+          s3Key: rowIsFolder
+            ? null
+            : (row.s3Key ?? buildTenantS3Key(root, emp, row.path, false)),
+          size: rowIsFolder ? 0 : Number(row.size ?? 0),
+        });
+
+        if (!rowIsFolder) {
+          fileCount++;
+          totalBytes += Number(row.size ?? 0);
+        }
+      }
+
+      if (entries.length > this.ZIP_MAX_ENTRIES) {
+        throw new BadRequestException(
+          `Too many items for one ZIP. Max allowed: ${this.ZIP_MAX_ENTRIES}`,
+        );
+      }
+      if (totalBytes > this.ZIP_MAX_BYTES) {
+        throw new BadRequestException(
+          `Selection too large for one ZIP. Max allowed: ${this.ZIP_MAX_BYTES} bytes`,
+        );
+      }
+    }
+
+    const baseName =
+      (dto.archiveName ?? '').trim() ||
+      (tops.length === 1 ? nameOf(tops[0].path) : root);
+    const fileName = baseName.toLowerCase().endsWith('.zip')
+      ? baseName
+      : `${baseName}.zip`;
+
+    this.logger.log(
+      `[plan] ${root}/${emp}: ${entries.length} entries, ${fileCount} files, ${totalBytes} bytes`,
+    );
+
+    return { fileName, entries, fileCount, totalBytes };
+  }
+
+  /**
+   * Escribe el ZIP en `out` (la response HTTP).
+   * - Un objeto S3 por vez: el siguiente GET recién se abre cuando el anterior quedó escrito.
+   * - Objeto que ya no existe en S3: se saltea y se lista en MISSING_FILES.txt dentro del ZIP.
+   * - Si el cliente corta la descarga, se aborta el ZIP y se cierra el stream de S3 en curso.
+   * Los headers ya salieron: un error a mitad de camino solo puede cortar la conexión.
+   */
+  async stream(plan: NovaS3ZipPlan, out: Writable) {
+    const archive = archiver('zip', { zlib: { level: this.ZIP_LEVEL } });
+    const missing: string[] = [];
+
+    let clientGone = false;
+    const gone = new Promise<void>((resolve) =>
+      out.once('close', () => {
+        clientGone = true;
+        resolve();
+      }),
+    );
+
+    archive.on('warning', (err) =>
+      this.logger.warn(`[stream] ${err?.message ?? err}`),
+    );
+    archive.pipe(out);
+
+    try {
+      for (const entry of plan.entries) {
+        if (clientGone) break;
+
+        if (entry.type === 'folder') {
+          archive.append('', { name: entry.name });
+          await Promise.race([this.entryWritten(archive), gone]);
+          continue;
+        }
+
+        const body = await this.storage.getObjectStreamKey(entry.s3Key!);
+        if (!body) {
+          missing.push(entry.path);
+          continue;
+        }
+
+        archive.append(body, { name: entry.name });
+        await Promise.race([this.entryWritten(archive), gone]);
+        if (clientGone) body.destroy();
+      }
+
+      if (clientGone) {
+        archive.abort();
+        this.logger.warn('[stream] client closed the connection, ZIP aborted');
+        return;
+      }
+
+      if (missing.length) {
+        archive.append(
+          `These files are registered but were not found in storage:\n${missing.join('\n')}\n`,
+          {
+            name: 'MISSING_FILES.txt',
+          },
+        );
+      }
+
+      await archive.finalize();
+      this.logger.log(
+        `[stream] ZIP done: ${plan.fileCount - missing.length} files, ${missing.length} missing`,
+      );
+    } catch (e: any) {
+      this.logger.error(`[stream] ${e?.message ?? e}`);
+      archive.abort();
+      out.destroy(e);
+    }
+  }
+
+  /** Resuelve cuando archiver terminó de escribir la entrada actual. */
+  private entryWritten(archive: archiver.Archiver) {
+    return new Promise<void>((resolve, reject) => {
+      const onEntry = () => {
+        archive.off('error', onError);
+        resolve();
+      };
+      const onError = (err: Error) => {
+        archive.off('entry', onEntry);
+        reject(err);
+      };
+      archive.once('entry', onEntry);
+      archive.once('error', onError);
+    });
+  }
+}
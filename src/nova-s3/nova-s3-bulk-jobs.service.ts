@@ -0,0 +1,344 @@
+/* src/nova-s3/nova-s3-bulk-jobs.service.ts
+ *
+ * NOVA S3 — jobs de operaciones en lote (move / delete / copy de un multi-select).
+ *
+ * ✅ POST /bulk crea el job y responde al instante; los items corren de a uno en background.
+ * ✅ El runner vive en NovaS3Service (necesita moveFile / moveFolder / remove / copy*). Aquí solo está el estado.
+ * ✅ El claim es atómico (FOR UPDATE SKIP LOCKED): con varias instancias cada job lo corre una sola.
+ */
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isUUID } from 'class-validator';
+import { In, LessThan, Repository } from 'typeorm';
+
+import {
+  NovaS3BulkJob,
+  NovaS3BulkJobStatus,
+} from './entities/nova-s3-bulk-job.entity';
+import {
+  NovaS3BulkJobItem,
+  NovaS3BulkOp,
+} from './entities/nova-s3-bulk-job-item.entity';
+import { normPath, normRoot } from './utils/nova-s3-path.util';
+import { bulkJobCounts, isStaleBulkJob } from './utils/nova-s3-bulk.util';
+import { NovaS3ConflictStrategy } from './utils/nova-s3-conflict.util';
+
+/** Lo que necesita el runner de un job reclamado. */
+export type NovaS3ClaimedBulkJob = Pick<
+  NovaS3BulkJob,
+  'id' | 'root' | 'employeeNumber' | 'actorEmployeeNumber' | 'conflictStrategy'
+>;
+
+@Injectable()
+export class NovaS3BulkJobsService {
+  private readonly logger = new Logger(NovaS3BulkJobsService.name);
+
+  // sin heartbeat en N minutos = runner muerto (crash / deploy) => el job se puede volver a reclamar
+  private readonly STALE_MINUTES = Number(
+    process.env.NOVA_S3_BULK_STALE_MINUTES ?? 10,
+  );
+
+  constructor(
+    @InjectRepository(NovaS3BulkJob)
+    private readonly jobRepo: Repository<NovaS3BulkJob>,
+
+    @InjectRepository(NovaS3BulkJobItem)
+    private readonly itemRepo: Repository<NovaS3BulkJobItem>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Create / cancel / status (endpoints)
+  // ---------------------------------------------------------------------------
+
+  async create(dto: {
+    root?: string;
+    employeeNumber: string;
+    actorEmployeeNumber?: string | null;
+    conflictStrategy?: NovaS3ConflictStrategy;
+    items: {
+      op: NovaS3BulkOp;
+      path: string;
+      targetPath?: string | null;
+      permanent?: boolean;
+    }[];
+  }) {
+    const items = dto.items.map((i, position) => {
+      const path = normPath(i.path);
+      if (!path)
+        throw new BadRequestException(`items[${position}].path is required`);
+      return {
+        position,
+        op: i.op,
+        path,
+        targetPath: i.op === 'delete' ? null : normPath(i.targetPath ?? ''),
+        permanent: i.op === 'delete' && !!i.permanent,
+      };
+    });
+
+    const job = await this.jobRepo.save(
+      this.jobRepo.create({
+        root: normRoot(dto.root),
+        employeeNumber: dto.employeeNumber,
+        actorEmployeeNumber: dto.actorEmployeeNumber ?? null,
+        conflictStrategy: dto.conflictStrategy ?? 'fail',
+        status: 'queued',
+        totalItems: items.length,
+      }),
+    );
+    await this.itemRepo.insert(items.map((i) => ({ ...i, jobId: job.id })));
+
+    this.logger.log(
+      `[create] job=${job.id} ${job.root}/${job.employeeNumber} items=${items.length}`,
+    );
+    return job;
+  }
+
+  /**
+   * Cancelación: un job en cola se cancela en el acto; uno corriendo corta antes del próximo item.
+   * Solo el dueño del espacio o quien lo lanzó.
+   */
+  async requestCancel(jobId: string, employeeNumber: string) {
+    const job = await this.findForEmployee(jobId, employeeNumber);
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        message: 'Job already finished',
+      };
+    }
+
+    // condicionado a `queued`: si un runner lo reclamó en el medio, cae al cancelRequested de abajo
+    const queued = await this.jobRepo.update(
+      { id: job.id, status: 'queued' },
+      { status: 'cancelled', cancelRequested: true, finishedAt: new Date() },
+    );
+    if (queued.affected) {
+      await this.itemRepo.update(
+        { jobId: job.id, status: 'pending' },
+        { status: 'cancelled', finishedAt: new Date() },
+      );
+      this.logger.log(
+        `[requestCancel] job=${job.id} cancelled while queued by ${employeeNumber}`,
+      );
+      return {
+        success: true,
+        jobId: job.id,
+        status: 'cancelled' as NovaS3BulkJobStatus,
+        message: 'Job cancelled',
+      };
+    }
+
+    await this.jobRepo.update({ id: job.id }, { cancelRequested: true });
+    this.logger.log(`[requestCancel] job=${job.id} by ${employeeNumber}`);
+
+    return {
+      success: true,
+      jobId: job.id,
+      status: 'running' as NovaS3BulkJobStatus,
+      message: 'Cancellation requested: the job stops after the current item',
+    };
+  }
+
+  /** Estado + conteos + resultado por item (en orden). */
+  async status(jobId: string, employeeNumber: string) {
+    const job = await this.findForEmployee(jobId, employeeNumber);
+    const items = await this.itemRepo.find({
+      where: { jobId: job.id },
+      order: { position: 'ASC' },
+    });
+
+    return {
+      success: true,
+      jobId: job.id,
+      root: job.root,
+      employeeNumber: job.employeeNumber,
+      actorEmployeeNumber: job.actorEmployeeNumber,
+      conflictStrategy: job.conflictStrategy,
+      status: job.status,
+      cancelRequested: job.cancelRequested,
+      // running sin heartbeat: el runner murió, otra corrida del sweep lo retoma
+      stale: isStaleBulkJob(job, new Date(), this.STALE_MINUTES),
+      counts: bulkJobCounts(items),
+      lastError: job.lastError,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      items: items.map((i) => ({
+        position: i.position,
+        op: i.op,
+        path: i.path,
+        targetPath: i.targetPath,
+        permanent: i.permanent,
+        status: i.status,
+        result: i.result,
+        error: i.error,
+        finishedAt: i.finishedAt,
+      })),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Runner (NovaS3Service)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Toma el job más viejo en cola (o uno `running` sin heartbeat) y lo pasa a running.
+   * null = no hay nada que correr.
+   */
+  async claimNext(): Promise<NovaS3ClaimedBulkJob | null> {
+    const staleBefore = new Date(Date.now() - this.STALE_MINUTES * 60 * 1000);
+
+    const res = await this.jobRepo
+      .createQueryBuilder()
+      .update(NovaS3BulkJob)
+      .set({
+        status: 'running',
+        startedAt: () => 'COALESCE("startedAt", now())',
+      })
+      .where(
+        `id = (SELECT j.id FROM nova_s3_bulk_job j WHERE j.status = 'queued' OR (j.status = 'running' AND j."updatedAt" < :staleBefore) ORDER BY j."createdAt" LIMIT 1 FOR UPDATE SKIP LOCKED)`,
+        { staleBefore },
+      )
+      .returning([
+        'id',
+        'root',
+        'employeeNumber',
+        'actorEmployeeNumber',
+        'conflictStrategy',
+      ])
+      .execute();
+
+    const row = (res.raw as any[])[0];
+    if (!row) return null;
+
+    // items que quedaron `running` son de un runner que murió: no se sabe cómo terminaron
+    const interrupted = await this.itemRepo.update(
+      { jobId: row.id, status: 'running' },
+      {
+        status: 'failed',
+        error: 'Interrupted (server restart): check the item before retrying',
+        finishedAt: new Date(),
+      },
+    );
+    if (interrupted.affected)
+      this.logger.warn(
+        `[claimNext] job=${row.id} interrupted items=${interrupted.affected}`,
+      );
+
+    return {
+      id: row.id,
+      root: row.root,
+      employeeNumber: row.employeeNumber,
+      actorEmployeeNumber: row.actorEmployeeNumber,
+      conflictStrategy: row.conflictStrategy ?? 'fail',
+    };
+  }
+
+  nextItem(jobId: string) {
+    return this.itemRepo.findOne({
+      where: { jobId, status: 'pending' },
+      order: { position: 'ASC' },
+    });
+  }
+
+  async isCancelRequested(jobId: string) {
+    const job = await this.jobRepo.findOne({
+      where: { id: jobId },
+      select: { id: true, cancelRequested: true },
+    });
+    return !job || job.cancelRequested;
+  }
+
+  /** Item a running + heartbeat del job. */
+  async startItem(item: NovaS3BulkJobItem) {
+    await this.itemRepo.update({ id: item.id }, { status: 'running' });
+    await this.touch(item.jobId);
+  }
+
+  async finishItem(
+    item: NovaS3BulkJobItem,
+    outcome: { result: Record<string, any> } | { error: string },
+  ) {
+    await this.itemRepo.update(
+      { id: item.id },
+      'error' in outcome
+        ? { status: 'failed', error: outcome.error, finishedAt: new Date() }
+        : { status: 'done', result: outcome.result, finishedAt: new Date() },
+    );
+  }
+
+  /** Heartbeat (UpdateDateColumn): mientras corre un item largo, para que no parezca huérfano. */
+  async touch(jobId: string) {
+    await this.jobRepo
+      .createQueryBuilder()
+      .update(NovaS3BulkJob)
+      .set({ updatedAt: () => 'now()' })
+      .where('id = :jobId', { jobId })
+      .execute();
+  }
+
+  /** Cierra el job; cancelado => los items pendientes quedan `cancelled`. */
+  async finish(jobId: string, status: NovaS3BulkJobStatus, lastError?: string) {
+    if (status === 'cancelled') {
+      await this.itemRepo.update(
+        { jobId, status: 'pending' },
+        { status: 'cancelled', finishedAt: new Date() },
+      );
+    }
+    await this.jobRepo.update(
+      { id: jobId },
+      {
+        status,
+        finishedAt: new Date(),
+        ...(lastError ? { lastError: lastError.slice(0, 500) } : {}),
+      },
+    );
+    this.logger.log(`[finish] job=${jobId} status=${status}`);
+  }
+
+  /** Jobs terminados hace más de N días (con sus items). */
+  async pruneFinished(retentionDays: number) {
+    if (!(retentionDays > 0)) return 0;
+
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const old = await this.jobRepo.find({
+      where: {
+        status: In(['completed', 'cancelled', 'failed']),
+        finishedAt: LessThan(cutoff),
+      },
+      select: { id: true },
+      take: 500,
+    });
+    if (!old.length) return 0;
+
+    const ids = old.map((j) => j.id);
+    await this.itemRepo.delete({ jobId: In(ids) });
+    await this.jobRepo.delete({ id: In(ids) });
+
+    this.logger.log(`[pruneFinished] deleted=${ids.length}`);
+    return ids.length;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private async findForEmployee(jobId: string, employeeNumber: string) {
+    if (!isUUID(jobId)) throw new BadRequestException('jobId must be a UUID');
+    const job = await this.jobRepo.findOne({ where: { id: jobId } });
+    if (!job) throw new BadRequestException('Bulk job not found');
+    if (
+      job.employeeNumber !== employeeNumber &&
+      job.actorEmployeeNumber !== employeeNumber
+    ) {
+      throw new ForbiddenException('Bulk job belongs to another employee');
+    }
+    return job;
+  }
+}
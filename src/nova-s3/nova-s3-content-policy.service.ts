@@ -0,0 +1,92 @@
+/* src/nova-s3/nova-s3-content-policy.service.ts
+ *
+ * NOVA S3 — política de contenido por root (qué tipos y tamaños se aceptan).
+ *
+ * Política efectiva de un root:
+ * 1) NOVA_S3_CONTENT_POLICIES => JSON { "<root>": { allowedFamilies?, maxBytesByFamily?, maxBytes?, blockedExtensions?, blockedTypes? } }
+ * 2) el default (cualquier tipo, sin ejecutables ni HTML / SVG)
+ *
+ * ✅ Se aplica en los uploads multipart (bytes en memoria) y al registrar los directos (GET parcial del objeto);
+ *    el presign solo puede pre-filtrar por nombre / tipo declarado / size declarado.
+ */
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+
+import { normRoot } from './utils/nova-s3-path.util';
+import { formatBytes } from './utils/nova-s3-quota.util';
+import {
+  checkContentPolicy,
+  familyLimit,
+  NOVA_S3_DEFAULT_CONTENT_POLICY,
+  NOVA_S3_POLICY_FAMILIES,
+  NovaS3ContentCandidate,
+  NovaS3ContentPolicy,
+  NovaS3PolicyViolation,
+  parseContentPolicies,
+} from './utils/nova-s3-content-policy.util';
+
+@Injectable()
+export class NovaS3ContentPolicyService {
+  private readonly logger = new Logger(NovaS3ContentPolicyService.name);
+
+  private readonly ROOT_POLICIES = parseContentPolicies(
+    process.env.NOVA_S3_CONTENT_POLICIES,
+  );
+
+  policyFor(rootIn?: string): NovaS3ContentPolicy {
+    return (
+      this.ROOT_POLICIES[normRoot(rootIn)] ?? NOVA_S3_DEFAULT_CONTENT_POLICY
+    );
+  }
+
+  /** GET /policy: la política del root + topes legibles, para que la UI no los repita. */
+  describe(rootIn?: string) {
+    const root = normRoot(rootIn);
+    const policy = this.policyFor(root);
+    const families = policy.allowedFamilies ?? NOVA_S3_POLICY_FAMILIES;
+
+    return {
+      success: true,
+      root,
+      source: this.ROOT_POLICIES[root]
+        ? ('root' as const)
+        : ('default' as const),
+      ...policy,
+      limits: families.map((family) => {
+        const maxBytes = familyLimit(policy, family);
+        return {
+          family,
+          maxBytes,
+          max: maxBytes === null ? null : formatBytes(maxBytes),
+        };
+      }),
+    };
+  }
+
+  /** Motivo por el que el archivo no entra en el root (null = OK). */
+  check(
+    rootIn: string,
+    candidate: NovaS3ContentCandidate,
+  ): NovaS3PolicyViolation | null {
+    return checkContentPolicy(this.policyFor(rootIn), candidate);
+  }
+
+  /** Uploads de un solo archivo: 413 si es por tamaño, 400 por tipo. */
+  assertAllowed(rootIn: string, candidate: NovaS3ContentCandidate) {
+    const violation = this.check(rootIn, candidate);
+    if (violation) throw this.toException(rootIn, violation);
+  }
+
+  toException(rootIn: string, violation: NovaS3PolicyViolation) {
+    this.logger.warn(
+      `[reject] ${normRoot(rootIn)} (${violation.code}): ${violation.reason}`,
+    );
+    return violation.code === 'tooLarge'
+      ? new PayloadTooLargeException(violation.reason)
+      : new BadRequestException(violation.reason);
+  }
+}
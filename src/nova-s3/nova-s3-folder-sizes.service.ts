@@ -0,0 +1,271 @@
+/* src/nova-s3/nova-s3-folder-sizes.service.ts
+ *
+ * NOVA S3 — totales recursivos por folder (rollupFiles / rollupBytes en la fila del folder).
+ *
+ * ✅ Incrementales: cada write de NovaS3Service (upload, delete, move, copy, restore) suma / resta su delta
+ *    a los folders ancestros en un solo UPDATE; list / tree los leen sin recorrer el subárbol.
+ * ✅ Best-effort fuera de transacciones: un delta perdido (o un write concurrente al mismo path) deja el total
+ *    corrido, nunca rompe la operación. `repair` recalcula desde cero.
+ */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { normPath, normRoot } from './utils/nova-s3-path.util';
+import { escapeLike } from './utils/nova-s3-search.util';
+import {
+  folderSizeDeltas,
+  NovaS3SizeChange,
+} from './utils/nova-s3-folder-size.util';
+
+@Injectable()
+export class NovaS3FolderSizesService {
+  private readonly logger = new Logger(NovaS3FolderSizesService.name);
+
+  // folders por UPDATE (un uploadFolder / restore grande toca cientos)
+  private readonly UPDATE_CHUNK = 500;
+
+  // tamaño máximo de la lista de folders más pesados
+  private readonly LARGEST_MAX = 100;
+
+  constructor(
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Hooks (NovaS3Service y subsistemas que escriben filas file)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Suma los cambios a los folders ancestros (ver folderSizeDeltas).
+   * Con el repo de una transacción el error se propaga: un statement fallido la aborta igual.
+   */
+  async apply(
+    rootIn: string,
+    employeeNumber: string | null,
+    changes: NovaS3SizeChange[],
+    repo?: Repository<NovaS3>,
+  ) {
+    if (!employeeNumber || !changes.length) return;
+
+    const deltas = Array.from(folderSizeDeltas(changes));
+    if (!deltas.length) return;
+
+    const root = normRoot(rootIn);
+    try {
+      for (let i = 0; i < deltas.length; i += this.UPDATE_CHUNK) {
+        await this.updateChunk(
+          repo ?? this.repo,
+          root,
+          employeeNumber,
+          deltas.slice(i, i + this.UPDATE_CHUNK),
+        );
+      }
+    } catch (e: any) {
+      if (repo) throw e;
+      this.logger.warn(
+        `[apply] ${root}/${employeeNumber} folders=${deltas.length} failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  /**
+   * Cambios de un upsert de files ANTES de escribirlo: path nuevo = +1 archivo, overwrite = diferencia de size.
+   * Best-effort: si la consulta falla no hay cambios (repair corrige).
+   */
+  async upsertChanges(
+    rootIn: string,
+    employeeNumber: string | null,
+    rows: { path?: string; size?: number | string | null }[],
+  ): Promise<NovaS3SizeChange[]> {
+    if (!employeeNumber || !rows.length) return [];
+
+    const root = normRoot(rootIn);
+    try {
+      const paths = [...new Set(rows.map((r) => r.path ?? '').filter(Boolean))];
+      const current = new Map<string, NovaS3>();
+      for (let i = 0; i < paths.length; i += this.UPDATE_CHUNK) {
+        const found = await this.repo.find({
+          where: {
+            root,
+            employeeNumber,
+            path: In(paths.slice(i, i + this.UPDATE_CHUNK)),
+          } as any,
+          select: { path: true, type: true, size: true } as any,
+        });
+        for (const f of found) current.set(f.path, f);
+      }
+
+      return rows
+        .filter((r) => r.path)
+        .map((r) => {
+          const size = Number(r.size ?? 0) || 0;
+          const before = current.get(r.path!);
+          return before?.type === 'file'
+            ? {
+                path: r.path!,
+                files: 0,
+                bytes: size - (Number(before.size ?? 0) || 0),
+              }
+            : { path: r.path!, files: 1, bytes: size };
+        });
+    } catch (e: any) {
+      this.logger.warn(
+        `[upsertChanges] ${root}/${employeeNumber} failed: ${e?.message ?? e}`,
+      );
+      return [];
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Queries / admin
+  // ---------------------------------------------------------------------------
+
+  /** Folders más pesados del espacio (o debajo de `path`), por bytes. */
+  async largest(dto: {
+    root?: string;
+    employeeNumber: string;
+    path?: string;
+    limit?: number;
+  }) {
+    const root = normRoot(dto.root);
+    const path = normPath(dto.path ?? '');
+    const limit = Math.min(
+      Math.max(Number(dto.limit) || 20, 1),
+      this.LARGEST_MAX,
+    );
+
+    const qb = this.repo
+      .createQueryBuilder('n')
+      .where('n.root = :root', { root })
+      .andWhere('n.employeeNumber = :emp', { emp: dto.employeeNumber })
+      .andWhere("n.type = 'folder'")
+      .andWhere('n.rollupBytes > 0');
+    if (path)
+      qb.andWhere('n.path LIKE :subtree', { subtree: `${escapeLike(path)}/%` });
+
+    const rows = await qb
+      .orderBy('n.rollupBytes', 'DESC')
+      .addOrderBy('n.path', 'ASC')
+      .limit(limit)
+      .getMany();
+
+    return {
+      success: true,
+      root,
+      path,
+      total: rows.length,
+      items: rows.map((r) => ({
+        id: r.id,
+        path: r.path,
+        name: r.name,
+        fileCount: r.rollupFiles,
+        size: Number(r.rollupBytes),
+        lastModified: r.updatedAt,
+      })),
+    };
+  }
+
+  /**
+   * Recalcula los totales desde cero (SUM de los files de cada subárbol) y corrige los que no coinciden.
+   * Sin employeeNumber: todos los espacios del root, un statement por espacio.
+   */
+  async repair(dto: { root?: string; employeeNumber?: string | null }) {
+    const root = normRoot(dto.root);
+    const startedAt = Date.now();
+
+    let spaces: string[];
+    if (dto.employeeNumber) {
+      spaces = [dto.employeeNumber];
+    } else {
+      const raw = await this.repo
+        .createQueryBuilder('n')
+        .select('DISTINCT n.employeeNumber', 'employeeNumber')
+        .where('n.root = :root', { root })
+        .andWhere("n.type = 'folder'")
+        .getRawMany();
+      spaces = raw.map((r: any) => r.employeeNumber);
+    }
+
+    const fixed: { employeeNumber: string; folders: number }[] = [];
+    for (const emp of spaces) {
+      const folders = await this.repairSpace(root, emp);
+      if (folders) fixed.push({ employeeNumber: emp, folders });
+    }
+
+    const foldersFixed = fixed.reduce((acc, f) => acc + f.folders, 0);
+    this.logger.log(
+      `[repair] ${root}: spaces=${spaces.length} foldersFixed=${foldersFixed} (${Date.now() - startedAt}ms)`,
+    );
+
+    return { success: true, root, spaces: spaces.length, foldersFixed, fixed };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  /** Un UPDATE con CASE por path; updatedAt queda como estaba (el folder no cambió, su contenido sí). */
+  private async updateChunk(
+    repo: Repository<NovaS3>,
+    root: string,
+    employeeNumber: string,
+    deltas: [string, { files: number; bytes: number }][],
+  ) {
+    const params: Record<string, any> = {
+      root,
+      employeeNumber,
+      paths: deltas.map(([p]) => p),
+    };
+    const filesCase: string[] = [];
+    const bytesCase: string[] = [];
+    deltas.forEach(([path, d], i) => {
+      params[`p${i}`] = path;
+      params[`f${i}`] = d.files;
+      params[`b${i}`] = d.bytes;
+      filesCase.push(`WHEN :p${i} THEN CAST(:f${i} AS int)`);
+      bytesCase.push(`WHEN :p${i} THEN CAST(:b${i} AS bigint)`);
+    });
+
+    // GREATEST: un total corrido nunca se muestra negativo
+    await repo
+      .createQueryBuilder()
+      .update(NovaS3)
+      .set({
+        rollupFiles: () =>
+          `GREATEST("rollupFiles" + CASE "path" ${filesCase.join(' ')} ELSE 0 END, 0)`,
+        rollupBytes: () =>
+          `GREATEST("rollupBytes" + CASE "path" ${bytesCase.join(' ')} ELSE 0 END, 0)`,
+        updatedAt: () => '"updatedAt"',
+      })
+      .where('root = :root AND "employeeNumber" = :employeeNumber')
+      .andWhere("type = 'folder'")
+      .andWhere('path IN (:...paths)')
+      .setParameters(params)
+      .execute();
+  }
+
+  private async repairSpace(root: string, employeeNumber: string) {
+    const table = this.repo.metadata.tableName;
+    const rows = await this.repo.query(
+      `WITH totals AS (
+        SELECT d.id, COUNT(c.id)::int AS files, COALESCE(SUM(c.size), 0)::bigint AS bytes
+        FROM ${table} d
+        LEFT JOIN ${table} c ON c.root = d.root AND c."employeeNumber" = d."employeeNumber" AND c.type = 'file'
+          AND left(c.path, length(d.path) + 1) = d.path || '/'
+        WHERE d.root = $1 AND d."employeeNumber" = $2 AND d.type = 'folder'
+        GROUP BY d.id
+      ), fixed AS (
+        UPDATE ${table} f SET "rollupFiles" = t.files, "rollupBytes" = t.bytes
+        FROM totals t
+        WHERE f.id = t.id AND (f."rollupFiles" <> t.files OR f."rollupBytes" <> t.bytes)
+        RETURNING f.id
+      )
+      SELECT COUNT(*)::int AS fixed FROM fixed`,
+      [root, employeeNumber],
+    );
+    return Number(rows?.[0]?.fixed ?? 0);
+  }
+}
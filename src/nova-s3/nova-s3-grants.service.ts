@@ -0,0 +1,270 @@
+/* src/nova-s3/nova-s3-grants.service.ts
+ *
+ * NOVA S3 — folders compartidos entre empleados (viewer / editor).
+ *
+ * El dueño da acceso a un folder (subárbol completo) a otro employeeNumber.
+ * El invitado opera mandando `ownerEmployeeNumber`: el controller valida el grant con `resolveOwner`
+ * y la operación corre con el employeeNumber del DUEÑO (mismo s3BaseFolder, mismas filas de nova_s3).
+ */
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Grant, NovaS3GrantRole } from './entities/nova-s3-grant.entity';
+import { CreateGrantDto, RevokeGrantDto } from './dto/grant.dto';
+import { normPath, normRoot } from './utils/nova-s3-path.util';
+import { effectiveGrantRole, roleSatisfies } from './utils/nova-s3-grant.util';
+
+/**
+ * Un path que la operación va a tocar.
+ * - need: permiso mínimo (viewer = leer, editor = escribir)
+ * - inside: el path tiene que estar DENTRO del folder compartido (no puede ser el folder mismo).
+ *   Se usa para rename / move / delete: el invitado no puede renombrar, mover ni borrar el folder raíz del grant.
+ */
+export type NovaS3GrantCheck = {
+  path?: string | null;
+  need: NovaS3GrantRole;
+  inside?: boolean;
+};
+
+@Injectable()
+export class NovaS3GrantsService {
+  private readonly logger = new Logger(NovaS3GrantsService.name);
+
+  constructor(
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    @InjectRepository(NovaS3Grant)
+    private readonly grantRepo: Repository<NovaS3Grant>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Owner side
+  // ---------------------------------------------------------------------------
+
+  /** Crea el grant, o cambia el rol si el empleado ya tenía acceso a ese folder. */
+  async grant(dto: CreateGrantDto) {
+    const root = normRoot(dto.root);
+    const path = normPath(dto.path);
+    const grantee = (dto.granteeEmployeeNumber ?? '').trim();
+
+    if (!path)
+      throw new BadRequestException(
+        'path is required (the root cannot be shared)',
+      );
+    if (!grantee || grantee.includes('/') || grantee.includes('\\')) {
+      throw new BadRequestException('granteeEmployeeNumber is invalid');
+    }
+    if (grantee === dto.employeeNumber)
+      throw new BadRequestException('Cannot share a folder with yourself');
+
+    const folder = await this.repo.findOne({
+      where: {
+        root,
+        employeeNumber: dto.employeeNumber,
+        path,
+        type: 'folder',
+      } as any,
+    });
+    if (!folder) throw new BadRequestException('Folder not found in DB');
+
+    let grant = await this.grantRepo.findOne({
+      where: { folderId: folder.id, granteeEmployeeNumber: grantee },
+    });
+    if (grant) {
+      grant.role = dto.role;
+    } else {
+      grant = this.grantRepo.create({
+        root,
+        ownerEmployeeNumber: dto.employeeNumber,
+        folderId: folder.id,
+        granteeEmployeeNumber: grantee,
+        role: dto.role,
+      });
+    }
+    grant = await this.grantRepo.save(grant);
+
+    this.logger.log(
+      `[grant] ${root}/${dto.employeeNumber}/${path} -> ${grantee} (${dto.role})`,
+    );
+
+    return {
+      success: true,
+      message: 'Access granted',
+      ...this.toGrantDto(grant, folder),
+    };
+  }
+
+  /** Grants que dio el dueño. `path` opcional: solo los de ese folder. */
+  async listGranted(rootIn: string, employeeNumber: string, pathIn?: string) {
+    const root = normRoot(rootIn);
+    const qb = this.grantRepo
+      .createQueryBuilder('g')
+      .innerJoin(NovaS3, 'n', 'n.id = g.folderId')
+      .select([
+        'g.id',
+        'g.granteeEmployeeNumber',
+        'g.role',
+        'g.folderId',
+        'g.createdAt',
+        'g.updatedAt',
+      ])
+      .addSelect(['n.path', 'n.name'])
+      .where('g.root = :root', { root })
+      .andWhere('g.ownerEmployeeNumber = :emp', { emp: employeeNumber })
+      .orderBy('n.path', 'ASC')
+      .addOrderBy('g.granteeEmployeeNumber', 'ASC');
+
+    if (pathIn) qb.andWhere('n.path = :path', { path: normPath(pathIn) });
+
+    const rows = await qb.getRawMany();
+
+    return {
+      success: true,
+      total: rows.length,
+      items: rows.map((r) => ({
+        grantId: r.g_id,
+        folderId: r.g_folderId,
+        path: r.n_path,
+        name: r.n_name,
+        granteeEmployeeNumber: r.g_granteeEmployeeNumber,
+        role: r.g_role,
+        createdAt: r.g_createdAt,
+        updatedAt: r.g_updatedAt,
+      })),
+    };
+  }
+
+  async revoke(dto: RevokeGrantDto) {
+    const grant = await this.grantRepo.findOne({
+      where: {
+        id: dto.grantId,
+        root: normRoot(dto.root),
+        ownerEmployeeNumber: dto.employeeNumber,
+      },
+    });
+    if (!grant) throw new BadRequestException('Grant not found');
+
+    await this.grantRepo.delete({ id: grant.id });
+
+    this.logger.log(
+      `[revoke] grant ${grant.id} (${grant.granteeEmployeeNumber})`,
+    );
+    return { success: true, message: 'Access revoked', grantId: grant.id };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Grantee side
+  // ---------------------------------------------------------------------------
+
+  /**
+   * "Shared with me": folders de otros empleados a los que tengo acceso.
+   * Los folders en la papelera del dueño no aparecen (inner join con nova_s3).
+   */
+  async sharedWithMe(rootIn: string, employeeNumber: string) {
+    const root = normRoot(rootIn);
+    const rows = await this.grantRepo
+      .createQueryBuilder('g')
+      .innerJoin(NovaS3, 'n', 'n.id = g.folderId')
+      .select(['g.id', 'g.ownerEmployeeNumber', 'g.role', 'g.createdAt'])
+      .addSelect(['n.path', 'n.name', 'n.updatedAt'])
+      .where('g.root = :root', { root })
+      .andWhere('g.granteeEmployeeNumber = :emp', { emp: employeeNumber })
+      .orderBy('g.ownerEmployeeNumber', 'ASC')
+      .addOrderBy('n.path', 'ASC')
+      .getRawMany();
+
+    return {
+      success: true,
+      root,
+      total: rows.length,
+      items: rows.map((r) => ({
+        grantId: r.g_id,
+        ownerEmployeeNumber: r.g_ownerEmployeeNumber,
+        name: r.n_name,
+        path: r.n_path,
+        type: 'folder',
+        role: r.g_role,
+        lastModified: r.n_updatedAt,
+        grantedAt: r.g_createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Valida que `actor` pueda hacer la operación en el espacio de `owner`
+   * y devuelve el employeeNumber con el que tiene que correr (el del dueño).
+   *
+   * Cada path tiene que estar cubierto por algún grant (folder == path o ancestro de path)
+   * con rol suficiente. Si hay grants anidados, gana el rol más alto.
+   */
+  async resolveOwner(
+    rootIn: string | undefined,
+    actor: string,
+    owner: string,
+    checks: NovaS3GrantCheck[],
+  ) {
+    if (!owner || owner === actor) return actor;
+
+    const root = normRoot(rootIn);
+    const rows = await this.grantRepo
+      .createQueryBuilder('g')
+      .innerJoin(NovaS3, 'n', 'n.id = g.folderId')
+      .select('g.role', 'role')
+      .addSelect('n.path', 'path')
+      .where('g.root = :root', { root })
+      .andWhere('g.ownerEmployeeNumber = :owner', { owner })
+      .andWhere('g.granteeEmployeeNumber = :actor', { actor })
+      .getRawMany<{ role: NovaS3GrantRole; path: string }>();
+
+    if (!rows.length)
+      throw new ForbiddenException('No access to this employee folders');
+
+    for (const check of checks) {
+      const path = normPath(check.path ?? '');
+      const role = effectiveGrantRole(rows, path, check.inside);
+
+      if (!role) {
+        throw new ForbiddenException(
+          check.inside && rows.some((g) => g.path === path)
+            ? 'The shared folder itself cannot be renamed, moved or deleted by a grantee'
+            : `No access to "${path || '/'}"`,
+        );
+      }
+      if (!roleSatisfies(role, check.need)) {
+        throw new ForbiddenException(
+          `Editor access is required for "${path || '/'}"`,
+        );
+      }
+    }
+
+    return owner;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private toGrantDto(
+    grant: NovaS3Grant,
+    folder: Pick<NovaS3, 'path' | 'name'>,
+  ) {
+    return {
+      grantId: grant.id,
+      folderId: grant.folderId,
+      path: folder.path,
+      name: folder.name,
+      granteeEmployeeNumber: grant.granteeEmployeeNumber,
+      role: grant.role,
+      createdAt: grant.createdAt,
+      updatedAt: grant.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,361 @@
+/* src/nova-s3/nova-s3-hashes.service.ts
+ *
+ * NOVA S3 — huella de contenido (SHA-256) y reporte de duplicados.
+ *
+ * ✅ Uploads por el backend (multer): el hash se calcula del buffer y va directo en el upsert.
+ * ✅ Direct uploads (register / multipart complete): el objeto se lee de S3 en background y se hashea en stream.
+ *    Si el cliente declaró `sha256`, se verifica; si no coincide queda en `meta.hashMismatch` (el hash guardado es el real).
+ * ✅ `meta.hashJob` marca el job vigente: un overwrite reescribe `meta` => el resultado de un job viejo se descarta.
+ * ✅ Archivos sin hash (anteriores a esto, jobs perdidos por un reinicio) => POST /nova-s3/hashes/backfill.
+ */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import { buildTenantS3Key, normRoot } from './utils/nova-s3-path.util';
+import {
+  duplicateWarnings,
+  duplicateWaste,
+  normalizeSha256,
+} from './utils/nova-s3-hash.util';
+
+type NovaS3HashJob = {
+  fileId: string;
+  jobId: string;
+  sourceKey: string;
+  declared: string | null;
+};
+
+@Injectable()
+export class NovaS3HashesService {
+  private readonly logger = new Logger(NovaS3HashesService.name);
+
+  private readonly HASH_CONCURRENCY = Math.max(
+    Number(process.env.NOVA_S3_HASH_CONCURRENCY ?? 2),
+    1,
+  );
+  // paths existentes que se devuelven por grupo / warning (el count sigue siendo el real)
+  private readonly MAX_PATHS_PER_HASH = 20;
+
+  private readonly queue: NovaS3HashJob[] = [];
+  private running = 0;
+
+  constructor(
+    private readonly storage: NovaS3StorageUtil,
+
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Schedule (después de registerUpload / registerBatch / completeMultipart)
+  // ---------------------------------------------------------------------------
+
+  /** Encola el hash de los archivos en `paths` que todavía no lo tienen. Best-effort: nunca lanza. */
+  async schedule(root: string, employeeNumber: string | null, paths: string[]) {
+    try {
+      const unique = Array.from(new Set(paths));
+      for (let i = 0; i < unique.length; i += 1000) {
+        const rows = await this.repo.find({
+          where: {
+            root: normRoot(root),
+            employeeNumber,
+            path: In(unique.slice(i, i + 1000)),
+            type: 'file',
+            contentHash: IsNull(),
+          } as any,
+        });
+        await this.enqueue(rows);
+      }
+    } catch (e: any) {
+      this.logger.warn(
+        `[schedule] ${root}/${employeeNumber} (${paths.length} paths) failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  /** Encola hasta `limit` archivos sin hash del empleado (o de todo el root). */
+  async backfill(rootIn: string, employeeNumber: string | null, limit = 1000) {
+    const root = normRoot(rootIn);
+    const take = Math.min(Math.max(Number(limit) || 1000, 1), 10000);
+
+    const rows = await this.repo.find({
+      where: {
+        root,
+        type: 'file',
+        contentHash: IsNull(),
+        ...(employeeNumber ? { employeeNumber } : {}),
+      } as any,
+      order: { createdAt: 'ASC' } as any,
+      take,
+    });
+    await this.enqueue(rows);
+
+    const remaining = await this.repo.count({
+      where: {
+        root,
+        type: 'file',
+        contentHash: IsNull(),
+        ...(employeeNumber ? { employeeNumber } : {}),
+      } as any,
+    });
+
+    this.logger.log(
+      `[backfill] ${root}/${employeeNumber ?? '*'} queued=${rows.length} withoutHash=${remaining}`,
+    );
+    return {
+      success: true,
+      root,
+      employeeNumber,
+      queued: rows.length,
+      withoutHash: remaining,
+      inQueue: this.queue.length + this.running,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Duplicados
+  // ---------------------------------------------------------------------------
+
+  /** hash => paths existentes en el espacio (warnings de upload). */
+  async existingByHash(
+    root: string,
+    employeeNumber: string | null,
+    hashes: (string | null)[],
+  ) {
+    const wanted = Array.from(new Set(hashes.filter((h): h is string => !!h)));
+    const found = new Map<string, string[]>();
+    if (!wanted.length) return found;
+
+    for (let i = 0; i < wanted.length; i += 1000) {
+      const rows = await this.repo
+        .createQueryBuilder('n')
+        .select('n.contentHash', 'hash')
+        .addSelect(
+          `(array_agg(n.path ORDER BY n.path))[1:${this.MAX_PATHS_PER_HASH}]`,
+          'paths',
+        )
+        .where('n.root = :root', { root: normRoot(root) })
+        .andWhere('n.employeeNumber = :emp', { emp: employeeNumber })
+        .andWhere(`n.type = 'file'`)
+        .andWhere('n.contentHash IN (:...hashes)', {
+          hashes: wanted.slice(i, i + 1000),
+        })
+        .groupBy('n.contentHash')
+        .getRawMany<{ hash: string; paths: string[] }>();
+
+      for (const r of rows) found.set(r.hash, r.paths);
+    }
+
+    return found;
+  }
+
+  /** warnOnDuplicate: por cada archivo entrante, los archivos del espacio con el mismo contenido. */
+  async warningsFor(
+    root: string,
+    employeeNumber: string | null,
+    incoming: { path: string; sha256: string | null }[],
+  ) {
+    const existing = await this.existingByHash(
+      root,
+      employeeNumber,
+      incoming.map((i) => i.sha256),
+    );
+    return duplicateWarnings(incoming, existing);
+  }
+
+  /**
+   * Grupos de archivos idénticos (mismo hash) del empleado, o de todo el root sin employeeNumber.
+   * Los duplicados se cuentan dentro del espacio de cada empleado (no entre empleados).
+   * Ordenados por bytes desperdiciados.
+   */
+  async duplicates(dto: {
+    root: string;
+    employeeNumber?: string | null;
+    minSize?: number;
+    limit?: number;
+  }) {
+    const root = normRoot(dto.root);
+    const emp = dto.employeeNumber ?? null;
+    const minSize = Math.max(Number(dto.minSize ?? 0) || 0, 0);
+    const limit = Math.min(Math.max(Number(dto.limit ?? 100) || 100, 1), 1000);
+
+    const groupsQb = () => {
+      const qb = this.repo
+        .createQueryBuilder('n')
+        .select('n.employeeNumber', 'employeeNumber')
+        .addSelect('n.contentHash', 'hash')
+        .addSelect('MAX(n.size)', 'size')
+        .addSelect('COUNT(*)', 'count')
+        .where('n.root = :root', { root })
+        .andWhere(`n.type = 'file'`)
+        .andWhere('n.contentHash IS NOT NULL')
+        .andWhere('COALESCE(n.size, 0) >= :minSize', { minSize })
+        .groupBy('n.employeeNumber')
+        .addGroupBy('n.contentHash')
+        .having('COUNT(*) > 1');
+      if (emp) qb.andWhere('n.employeeNumber = :emp', { emp });
+      return qb;
+    };
+
+    const rows = await groupsQb()
+      .addSelect(
+        `(array_agg(n.path ORDER BY n.path))[1:${this.MAX_PATHS_PER_HASH}]`,
+        'paths',
+      )
+      .orderBy('MAX(n.size) * (COUNT(*) - 1)', 'DESC')
+      .limit(limit)
+      .getRawMany<{
+        employeeNumber: string;
+        hash: string;
+        size: string | null;
+        count: string;
+        paths: string[];
+      }>();
+
+    const totalsQb = this.repo.manager
+      .createQueryBuilder()
+      .select('COUNT(*)', 'groups')
+      .addSelect('COALESCE(SUM(g.count), 0)', 'files')
+      .addSelect('COALESCE(SUM(g.size * (g.count - 1)), 0)', 'wastedBytes')
+      .from(`(${groupsQb().getQuery()})`, 'g')
+      .setParameters(groupsQb().getParameters());
+    const totals = await totalsQb.getRawOne<{
+      groups: string;
+      files: string;
+      wastedBytes: string;
+    }>();
+
+    const withoutHash = await this.repo.count({
+      where: {
+        root,
+        type: 'file',
+        contentHash: IsNull(),
+        ...(emp ? { employeeNumber: emp } : {}),
+      } as any,
+    });
+
+    return {
+      success: true,
+      root,
+      employeeNumber: emp,
+      totalGroups: Number(totals?.groups ?? 0),
+      duplicateFiles: Number(totals?.files ?? 0),
+      wastedBytes: Number(totals?.wastedBytes ?? 0),
+      // archivos todavía sin hash: no entran en el reporte (ver POST /nova-s3/hashes/backfill)
+      withoutHash,
+      groups: rows.map((r) => {
+        const size = r.size != null ? Number(r.size) : null;
+        const count = Number(r.count);
+        return {
+          employeeNumber: r.employeeNumber,
+          sha256: r.hash,
+          size,
+          count,
+          wastedBytes: duplicateWaste(size, count),
+          paths: r.paths,
+        };
+      }),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cola
+  // ---------------------------------------------------------------------------
+
+  /** Marca `meta.hashJob` (un id por lote) y encola. */
+  private async enqueue(rows: NovaS3[]) {
+    if (!rows.length) return;
+
+    const jobId = randomUUID();
+    await this.repo
+      .createQueryBuilder()
+      .update(NovaS3)
+      .set({
+        meta: () =>
+          `COALESCE("meta", '{}'::jsonb) || jsonb_build_object('hashJob', CAST(:jobId AS text))`,
+        updatedAt: () => '"updatedAt"',
+      } as any)
+      .where('id IN (:...ids)', { ids: rows.map((r) => r.id) })
+      .setParameter('jobId', jobId)
+      .execute();
+
+    for (const row of rows) {
+      this.queue.push({
+        fileId: row.id,
+        jobId,
+        sourceKey:
+          row.s3Key ??
+          buildTenantS3Key(row.root, row.employeeNumber, row.path, false),
+        declared: normalizeSha256(row.meta?.declaredSha256),
+      });
+    }
+    this.drain();
+  }
+
+  private drain() {
+    while (this.running < this.HASH_CONCURRENCY && this.queue.length) {
+      const job = this.queue.shift()!;
+      this.running++;
+      void this.compute(job).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async compute(job: NovaS3HashJob) {
+    try {
+      const stream: Readable | null = await this.storage.getObjectStreamKey(
+        job.sourceKey,
+      );
+      if (!stream) throw new Error('Object not found in S3');
+
+      const hash = createHash('sha256');
+      for await (const chunk of stream) hash.update(chunk as Buffer);
+      const actual = hash.digest('hex');
+
+      const mismatch =
+        job.declared && job.declared !== actual
+          ? {
+              declared: job.declared,
+              actual,
+              checkedAt: new Date().toISOString(),
+            }
+          : null;
+
+      const res = await this.repo
+        .createQueryBuilder()
+        .update(NovaS3)
+        .set({
+          contentHash: actual,
+          meta: () =>
+            mismatch
+              ? `("meta" - 'hashJob') || jsonb_build_object('hashMismatch', CAST(:mismatch AS jsonb))`
+              : `"meta" - 'hashJob'`,
+          updatedAt: () => '"updatedAt"',
+        } as any)
+        .where('id = :id', { id: job.fileId })
+        .andWhere(`"meta" ->> 'hashJob' = :jobId`, { jobId: job.jobId })
+        .setParameter('mismatch', JSON.stringify(mismatch))
+        .execute();
+
+      const written = (res.affected ?? 0) > 0;
+      if (mismatch && written) {
+        this.logger.warn(
+          `[compute] ${job.fileId} declared sha256 ${job.declared} but content is ${actual}`,
+        );
+      }
+      this.logger.log(
+        `[compute] ${job.fileId} -> ${actual}${written ? '' : ' (superseded)'}`,
+      );
+    } catch (e: any) {
+      // queda sin hash: el próximo backfill lo reintenta
+      this.logger.warn(`[compute] ${job.fileId} failed: ${e?.message ?? e}`);
+    }
+  }
+}
@@ -0,0 +1,616 @@
+/* src/nova-s3/nova-s3-legacy-import.service.ts
+ *
+ * NOVA S3 — importación del layout legacy de /s3 al índice nova_s3.
+ *
+ * S3Service guarda todo como `{folder}/{employeeNumber}/...` y lo lista directo de S3; el explorer
+ * de nova-s3 solo ve lo que está en la tabla. Esto recorre un prefix legacy y crea las filas
+ * folder / file (size y fecha del objeto), copiando o moviendo los objetos a `{root}/{employeeNumber}/...`.
+ *
+ * ✅ dryRun (default): recorre todo y devuelve el reporte, no escribe nada.
+ * ✅ Reanudable: cada llamada procesa hasta maxObjects y guarda el cursor en nova_s3_legacy_import.
+ * ✅ Idempotente: paths ya importados se saltean, paths ocupados por otro contenido nunca se pisan.
+ */
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isUUID } from 'class-validator';
+import { In, Repository } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import {
+  NovaS3LegacyImport,
+  NovaS3LegacyImportIssue,
+} from './entities/nova-s3-legacy-import.entity';
+import { LegacyImportDto } from './dto/legacy-import.dto';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import { NovaS3FolderSizesService } from './nova-s3-folder-sizes.service';
+import { NovaS3SizeChange } from './utils/nova-s3-folder-size.util';
+import { NovaS3StoredObject } from './utils/nova-s3-reconcile.util';
+import {
+  buildTenantS3Key,
+  nameOf,
+  normPath,
+  normRoot,
+  parentOf,
+} from './utils/nova-s3-path.util';
+import {
+  classifyLegacyItem,
+  legacyPrefix,
+  legacyTargetPath,
+  NovaS3LegacyTransfer,
+  parseLegacyKey,
+  resolveLegacyTransfer,
+} from './utils/nova-s3-legacy-import.util';
+
+type ImportPlan = {
+  legacyFolder: string;
+  employeeNumber: string | null;
+  root: string;
+  basePath: string;
+  transfer: NovaS3LegacyTransfer;
+};
+
+type PageEntry = {
+  object: NovaS3StoredObject;
+  action: 'import' | 'alreadyImported' | 'conflict' | 'invalid' | 'unscoped';
+  reason?: string;
+  employeeNumber?: string;
+  path?: string;
+  isFolder?: boolean;
+  targetKey?: string;
+};
+
+@Injectable()
+export class NovaS3LegacyImportService {
+  private readonly logger = new Logger(NovaS3LegacyImportService.name);
+
+  private readonly IMPORT_CONCURRENCY = Math.max(
+    Number(process.env.NOVA_S3_IMPORT_CONCURRENCY ?? 8),
+    1,
+  );
+  // issues guardados por import (los conteos siempre son completos)
+  private readonly ISSUES_LIMIT = 500;
+
+  // imports procesándose en este proceso (dos llamadas al mismo id no corren a la vez)
+  private readonly running = new Set<string>();
+
+  constructor(
+    private readonly storage: NovaS3StorageUtil,
+
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    @InjectRepository(NovaS3LegacyImport)
+    private readonly importRepo: Repository<NovaS3LegacyImport>,
+
+    private readonly folderSizes: NovaS3FolderSizesService,
+  ) {}
+
+  async run(dto: LegacyImportDto) {
+    const maxObjects = dto.maxObjects ?? 5000;
+
+    if (dto.importId) {
+      const job = await this.importRepo.findOne({
+        where: { id: dto.importId },
+      });
+      if (!job) throw new BadRequestException('Import not found');
+      if (job.status === 'completed') return this.toReport(job, true);
+      return this.process(job, maxObjects);
+    }
+
+    const plan = this.planFrom(dto);
+    if (dto.dryRun !== false) return this.dryRun(plan, dto.sampleSize ?? 200);
+
+    const job = await this.importRepo.save(
+      this.importRepo.create({ ...plan, status: 'running', issues: [] }),
+    );
+    this.logger.log(
+      `[run] import ${job.id} created: ${legacyPrefix(plan.legacyFolder, plan.employeeNumber)} -> ${plan.root} (${plan.transfer})`,
+    );
+    return this.process(job, maxObjects);
+  }
+
+  async status(importId: string) {
+    if (!isUUID(importId))
+      throw new BadRequestException('importId must be a UUID');
+    const job = await this.importRepo.findOne({ where: { id: importId } });
+    if (!job) throw new BadRequestException('Import not found');
+    return this.toReport(job, job.status === 'completed');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Dry run
+  // ---------------------------------------------------------------------------
+
+  private async dryRun(plan: ImportPlan, sample: number) {
+    const prefix = legacyPrefix(plan.legacyFolder, plan.employeeNumber);
+    const totals = {
+      objects: 0,
+      folderMarkers: 0,
+      files: 0,
+      bytes: 0,
+      alreadyImported: 0,
+      conflicts: 0,
+      invalid: 0,
+      unscoped: 0,
+    };
+    const employees = new Map<
+      string,
+      { employeeNumber: string; folders: number; files: number; bytes: number }
+    >();
+    const items: {
+      key: string;
+      employeeNumber: string;
+      path: string;
+      type: 'folder' | 'file';
+      size: number;
+    }[] = [];
+    const issues: NovaS3LegacyImportIssue[] = [];
+
+    let cursor: string | null = null;
+    for (;;) {
+      const page = await this.storage.listObjectsPage(prefix, cursor);
+      if (!page.objects.length) break;
+
+      for (const e of await this.classifyPage(plan, page.objects)) {
+        totals.objects++;
+        if (e.action === 'unscoped') {
+          totals.unscoped++;
+          continue;
+        }
+        if (e.action === 'invalid' || e.action === 'conflict') {
+          if (e.action === 'invalid') totals.invalid++;
+          else totals.conflicts++;
+          if (issues.length < sample)
+            issues.push({
+              key: e.object.key,
+              reason: e.action,
+              detail: e.reason,
+            });
+          continue;
+        }
+        if (e.action === 'alreadyImported') {
+          totals.alreadyImported++;
+          continue;
+        }
+
+        const emp = employees.get(e.employeeNumber!) ?? {
+          employeeNumber: e.employeeNumber!,
+          folders: 0,
+          files: 0,
+          bytes: 0,
+        };
+        employees.set(e.employeeNumber!, emp);
+        if (e.isFolder) {
+          totals.folderMarkers++;
+          emp.folders++;
+        } else {
+          totals.files++;
+          totals.bytes += e.object.size;
+          emp.files++;
+          emp.bytes += e.object.size;
+        }
+        if (items.length < sample) {
+          items.push({
+            key: e.object.key,
+            employeeNumber: e.employeeNumber!,
+            path: e.path!,
+            type: e.isFolder ? 'folder' : 'file',
+            size: e.object.size,
+          });
+        }
+      }
+
+      cursor = page.objects[page.objects.length - 1].key;
+      if (page.done) break;
+    }
+
+    this.logger.log(`[dryRun] ${prefix}: ${JSON.stringify(totals)}`);
+    return {
+      success: true,
+      dryRun: true,
+      prefix,
+      ...plan,
+      totals,
+      employees: Array.from(employees.values())
+        .sort((a, b) => b.bytes - a.bytes)
+        .slice(0, sample),
+      items,
+      issues,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Import (reanudable)
+  // ---------------------------------------------------------------------------
+
+  private async process(job: NovaS3LegacyImport, maxObjects: number) {
+    if (this.running.has(job.id))
+      throw new ConflictException('Import is already running');
+    this.running.add(job.id);
+
+    const plan: ImportPlan = {
+      legacyFolder: job.legacyFolder,
+      employeeNumber: job.employeeNumber,
+      root: job.root,
+      basePath: job.basePath,
+      transfer: job.transfer as NovaS3LegacyTransfer,
+    };
+    const prefix = legacyPrefix(plan.legacyFolder, plan.employeeNumber);
+    const startedAt = Date.now();
+    let processed = 0;
+
+    try {
+      job.lastError = null;
+      while (processed < maxObjects) {
+        const page = await this.storage.listObjectsPage(
+          prefix,
+          job.cursor,
+          Math.min(1000, maxObjects - processed),
+        );
+        if (page.objects.length) {
+          await this.importPage(
+            job,
+            plan,
+            await this.classifyPage(plan, page.objects),
+          );
+          processed += page.objects.length;
+          job.scanned += page.objects.length;
+          // el cursor avanza recién con la página entera aplicada (si se corta, la página se repite: es idempotente)
+          job.cursor = page.objects[page.objects.length - 1].key;
+        }
+
+        if (page.done || !page.objects.length) {
+          job.status = 'completed';
+          job.finishedAt = new Date();
+        }
+        await this.importRepo.save(job);
+        if (job.status === 'completed') break;
+      }
+    } catch (e: any) {
+      job.lastError = String(e?.message ?? e).slice(0, 500);
+      await this.importRepo.save(job).catch(() => undefined);
+      this.logger.error(
+        `[process] import ${job.id} stopped at ${job.cursor ?? '(start)'}: ${job.lastError}`,
+      );
+      throw e;
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    this.logger.log(
+      `[process] import ${job.id}: processed=${processed} status=${job.status} ` +
+        `files=${job.files} folders=${job.folders} skipped=${job.skipped} failed=${job.failed} (${Date.now() - startedAt}ms)`,
+    );
+    return this.toReport(job, job.status === 'completed');
+  }
+
+  /**
+   * Aplica una página ya clasificada:
+   * folders (cadena completa, insert ignore) -> archivos (copy -> fila -> delete si move).
+   */
+  private async importPage(
+    job: NovaS3LegacyImport,
+    plan: ImportPlan,
+    entries: PageEntry[],
+  ) {
+    const addIssue = (issue: NovaS3LegacyImportIssue) => {
+      if (job.issues.length < this.ISSUES_LIMIT)
+        job.issues = [...job.issues, issue];
+    };
+
+    for (const e of entries) {
+      if (e.action === 'invalid' || e.action === 'conflict') {
+        job.skipped++;
+        addIssue({ key: e.object.key, reason: e.action, detail: e.reason });
+      } else if (e.action === 'alreadyImported') {
+        job.alreadyImported++;
+      }
+    }
+
+    // folders por empleado: markers + padres de todo lo que se importa
+    const foldersByEmp = new Map<string, Set<string>>();
+    for (const e of entries) {
+      if (e.action !== 'import') continue;
+      const set = foldersByEmp.get(e.employeeNumber!) ?? new Set<string>();
+      foldersByEmp.set(e.employeeNumber!, set);
+      if (e.isFolder) set.add(e.path!);
+      for (let p = parentOf(e.path!); p; p = parentOf(p)) set.add(p);
+    }
+    for (const [emp, paths] of foldersByEmp) {
+      job.folders += await this.insertFolders(
+        plan.root,
+        emp,
+        Array.from(paths).sort(),
+        job.id,
+      );
+    }
+
+    const legacyToDelete: string[] = [];
+    const files = entries.filter((e) => !e.isFolder && e.action === 'import');
+    // totales de folders: un UPDATE por empleado al final de la página
+    const sizeChanges = new Map<string, NovaS3SizeChange[]>();
+
+    for (let i = 0; i < files.length; i += this.IMPORT_CONCURRENCY) {
+      await Promise.all(
+        files.slice(i, i + this.IMPORT_CONCURRENCY).map(async (e) => {
+          try {
+            const head = await this.storage.headObjectKey(e.object.key);
+            if (!head.exists) {
+              // borrado entre el listado y ahora
+              job.skipped++;
+              addIssue({
+                key: e.object.key,
+                reason: 'failed',
+                detail: 'object disappeared',
+              });
+              return;
+            }
+            if (plan.transfer !== 'none')
+              await this.storage.copyObjectKey(e.object.key, e.targetKey!);
+
+            const inserted = await this.insertFile(
+              plan.root,
+              e,
+              head.contentType ?? null,
+              job.id,
+            );
+            if (!inserted) {
+              // otro request creó el path mientras tanto
+              job.skipped++;
+              addIssue({
+                key: e.object.key,
+                reason: 'conflict',
+                detail: 'path created during import',
+              });
+              return;
+            }
+            job.files++;
+            job.bytes = Number(job.bytes) + e.object.size;
+            const changes = sizeChanges.get(e.employeeNumber!) ?? [];
+            sizeChanges.set(e.employeeNumber!, changes);
+            changes.push({ path: e.path!, files: 1, bytes: e.object.size });
+            if (plan.transfer === 'move') legacyToDelete.push(e.object.key);
+          } catch (err: any) {
+            job.failed++;
+            addIssue({
+              key: e.object.key,
+              reason: 'failed',
+              detail: String(err?.message ?? err).slice(0, 200),
+            });
+          }
+        }),
+      );
+    }
+
+    for (const [emp, changes] of sizeChanges)
+      await this.folderSizes.apply(plan.root, emp, changes);
+
+    // move: markers importados y restos de una corrida cortada entre la fila y el delete
+    if (plan.transfer === 'move') {
+      for (const e of entries) {
+        if (
+          e.action === 'alreadyImported' ||
+          (e.isFolder && e.action === 'import')
+        )
+          legacyToDelete.push(e.object.key);
+      }
+      if (legacyToDelete.length)
+        await this.storage.deleteObjectKeys(legacyToDelete);
+    }
+  }
+
+  private async insertFolders(
+    root: string,
+    emp: string,
+    paths: string[],
+    importId: string,
+  ) {
+    let inserted = 0;
+    for (let i = 0; i < paths.length; i += 500) {
+      const res = await this.repo
+        .createQueryBuilder()
+        .insert()
+        .into(NovaS3)
+        .values(
+          paths.slice(i, i + 500).map((path) => ({
+            root,
+            path,
+            parentPath: parentOf(path),
+            name: nameOf(path),
+            type: 'folder' as const,
+            s3Key: buildTenantS3Key(root, emp, path, true),
+            employeeNumber: emp,
+            meta: { op: 'legacyImport', importId } as any,
+          })),
+        )
+        .orIgnore()
+        .execute();
+      inserted += (res.raw as unknown[] | undefined)?.length ?? 0;
+    }
+    return inserted;
+  }
+
+  /** Fila file con size / fecha del objeto legacy. false = el path ya estaba ocupado. */
+  private async insertFile(
+    root: string,
+    e: PageEntry,
+    mimeType: string | null,
+    importId: string,
+  ) {
+    const modified = e.object.lastModified ?? new Date();
+    const res = await this.repo
+      .createQueryBuilder()
+      .insert()
+      .into(NovaS3)
+      .values({
+        root,
+        path: e.path!,
+        parentPath: parentOf(e.path!),
+        name: nameOf(e.path!),
+        type: 'file',
+        s3Key: e.targetKey!,
+        employeeNumber: e.employeeNumber!,
+        size: e.object.size,
+        mimeType,
+        contentHash: null,
+        createdAt: modified,
+        updatedAt: modified,
+        meta: {
+          op: 'legacyImport',
+          importedFrom: e.object.key,
+          importId,
+        } as any,
+      })
+      .orIgnore()
+      .execute();
+    return ((res.raw as unknown[] | undefined)?.length ?? 0) > 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private planFrom(dto: LegacyImportDto): ImportPlan {
+    const legacyFolder = normPath(dto.legacyFolder);
+    if (!legacyFolder)
+      throw new BadRequestException('legacyFolder is required');
+
+    const employeeNumber = (dto.employeeNumber ?? '').trim() || null;
+    if (
+      employeeNumber &&
+      (employeeNumber.includes('/') || employeeNumber.includes('\\'))
+    ) {
+      throw new BadRequestException('employeeNumber cannot contain slashes');
+    }
+
+    const root = normRoot(dto.root);
+    const basePath = normPath(dto.basePath);
+    const resolved = resolveLegacyTransfer(
+      legacyFolder,
+      root,
+      basePath,
+      dto.transfer,
+    );
+    if ('error' in resolved) throw new BadRequestException(resolved.error);
+
+    return {
+      legacyFolder,
+      employeeNumber,
+      root,
+      basePath,
+      transfer: resolved.transfer,
+    };
+  }
+
+  /** key legacy -> acción, mirando las filas que ya existen en los paths destino. */
+  private async classifyPage(
+    plan: ImportPlan,
+    objects: NovaS3StoredObject[],
+  ): Promise<PageEntry[]> {
+    const entries: PageEntry[] = objects.map((object) => {
+      const parsed = parseLegacyKey(
+        plan.legacyFolder,
+        object.key,
+        plan.employeeNumber,
+      );
+      if (parsed.kind === 'unscoped') return { object, action: 'unscoped' };
+      if (parsed.kind === 'invalid')
+        return { object, action: 'invalid', reason: parsed.reason };
+
+      const path = legacyTargetPath(plan.basePath, parsed.path);
+      if (!path)
+        return { object, action: 'invalid', reason: 'path longer than 1024' };
+
+      const targetKey = buildTenantS3Key(
+        plan.root,
+        parsed.employeeNumber,
+        path,
+        parsed.isFolder,
+      );
+      if (plan.transfer === 'none' && targetKey !== object.key) {
+        return {
+          object,
+          action: 'invalid',
+          reason: 'key is not in the nova-s3 layout',
+        };
+      }
+
+      return {
+        object,
+        action: 'import',
+        employeeNumber: parsed.employeeNumber,
+        path,
+        isFolder: parsed.isFolder,
+        targetKey,
+      };
+    });
+
+    const byEmp = new Map<string, PageEntry[]>();
+    for (const e of entries) {
+      if (e.action !== 'import') continue;
+      byEmp.set(e.employeeNumber!, [
+        ...(byEmp.get(e.employeeNumber!) ?? []),
+        e,
+      ]);
+    }
+
+    for (const [emp, list] of byEmp) {
+      const existing = await this.repo.find({
+        where: {
+          root: plan.root,
+          employeeNumber: emp,
+          path: In(list.map((e) => e.path!)),
+        } as any,
+        select: { id: true, path: true, type: true, s3Key: true, meta: true },
+      });
+      const byPath = new Map(existing.map((r) => [r.path, r]));
+
+      for (const e of list) {
+        e.action = classifyLegacyItem(
+          byPath.get(e.path!),
+          { key: e.object.key, isFolder: !!e.isFolder },
+          e.targetKey!,
+        );
+        if (e.action === 'conflict') e.reason = 'path already used in nova-s3';
+      }
+    }
+
+    return entries;
+  }
+
+  private toReport(job: NovaS3LegacyImport, done: boolean) {
+    return {
+      success: true,
+      dryRun: false,
+      importId: job.id,
+      done,
+      status: job.status,
+      prefix: legacyPrefix(job.legacyFolder, job.employeeNumber),
+      legacyFolder: job.legacyFolder,
+      employeeNumber: job.employeeNumber,
+      root: job.root,
+      basePath: job.basePath,
+      transfer: job.transfer,
+      cursor: job.cursor,
+      totals: {
+        scanned: job.scanned,
+        folders: job.folders,
+        files: job.files,
+        bytes: Number(job.bytes),
+        alreadyImported: job.alreadyImported,
+        skipped: job.skipped,
+        failed: job.failed,
+      },
+      issues: job.issues,
+      lastError: job.lastError,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      finishedAt: job.finishedAt,
+    };
+  }
+}
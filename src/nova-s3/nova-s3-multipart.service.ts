@@ -0,0 +1,302 @@
+/* src/nova-s3/nova-s3-multipart.service.ts
+ *
+ * NOVA S3 — registro y sweeper de multipart uploads (presignBatch, archivos grandes).
+ *
+ * ✅ presignBatch registra cada upload creado (root, empleado, path, uploadId); complete / abort lo cierran.
+ * ✅ Sweeper (al iniciar + cada N minutos + POST /nova-s3/multipart/sweep):
+ *    - aborta en S3 los uploads viejos, registrados o no (ListMultipartUploads bajo {root}/)
+ *    - cierra como `missing` los registrados que S3 ya no tiene
+ * ✅ Nada de esto toca `nova_s3`: un upload abortado nunca llegó a registrarse.
+ */
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+
+import {
+  NovaS3Multipart,
+  NovaS3MultipartCloseReason,
+  NovaS3MultipartStatus,
+} from './entities/nova-s3-multipart.entity';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import { normRoot } from './utils/nova-s3-path.util';
+import {
+  isStaleUpload,
+  planMultipartSweep,
+} from './utils/nova-s3-multipart.util';
+
+@Injectable()
+export class NovaS3MultipartService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NovaS3MultipartService.name);
+
+  // ✅ Un multipart sin completar después de N horas se considera abandonado
+  private readonly STALE_HOURS = Number(
+    process.env.NOVA_S3_MULTIPART_STALE_HOURS ?? 24,
+  );
+  // cada cuánto corre el sweeper (0 = desactivado)
+  private readonly SWEEP_INTERVAL_MINUTES = Number(
+    process.env.NOVA_S3_MULTIPART_SWEEP_INTERVAL_MINUTES ?? 60,
+  );
+  // roots que barre el sweeper además de los que tienen uploads registrados (untracked viven ahí)
+  private readonly SWEEP_ROOTS = (
+    process.env.NOVA_S3_MULTIPART_SWEEP_ROOTS ?? 'nova-s3'
+  )
+    .split(',')
+    .map((r) => r.trim())
+    .filter(Boolean);
+
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private sweepRunning = false;
+
+  constructor(
+    private readonly storage: NovaS3StorageUtil,
+
+    @InjectRepository(NovaS3Multipart)
+    private readonly multipartRepo: Repository<NovaS3Multipart>,
+  ) {}
+
+  onModuleInit() {
+    const everyMs = this.SWEEP_INTERVAL_MINUTES * 60 * 1000;
+    if (!(everyMs > 0)) {
+      this.logger.log('[onModuleInit] multipart sweeper disabled');
+      return;
+    }
+
+    this.runScheduledSweep();
+    this.sweepTimer = setInterval(() => this.runScheduledSweep(), everyMs);
+    // no mantener vivo el proceso solo por el timer
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Hooks (presignBatch / completeMultipart / abortMultipart)
+  // ---------------------------------------------------------------------------
+
+  /** Registra un multipart recién creado. Best-effort: si falla, el sweeper lo encuentra igual vía S3. */
+  async track(row: {
+    root: string;
+    employeeNumber: string;
+    path: string;
+    s3Key: string;
+    uploadId: string;
+    size?: number | null;
+    contentType?: string | null;
+  }) {
+    try {
+      await this.multipartRepo.insert({
+        root: normRoot(row.root),
+        employeeNumber: row.employeeNumber,
+        path: row.path,
+        s3Key: row.s3Key,
+        uploadId: row.uploadId,
+        size: row.size ?? null,
+        contentType: row.contentType ?? null,
+        status: 'open',
+      });
+    } catch (e: any) {
+      this.logger.warn(
+        `[track] ${row.s3Key} (${row.uploadId}) failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  /** Cierra el registro (si estaba abierto). */
+  async markClosed(
+    uploadId: string,
+    status: Exclude<NovaS3MultipartStatus, 'open'>,
+    reason: NovaS3MultipartCloseReason,
+  ) {
+    try {
+      await this.multipartRepo.update(
+        { uploadId, status: 'open' },
+        { status, closeReason: reason, closedAt: new Date() },
+      );
+    } catch (e: any) {
+      this.logger.warn(
+        `[markClosed] ${uploadId} -> ${status} failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Admin
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Uploads abiertos de un root: los registrados en BD + (includeUntracked) los que S3 tiene en curso sin registro.
+   * `stale` = más viejos que olderThanHours (default NOVA_S3_MULTIPART_STALE_HOURS) => el sweeper los aborta.
+   */
+  async listOpen(dto: {
+    root?: string;
+    olderThanHours?: number;
+    includeUntracked?: boolean;
+  }) {
+    const root = normRoot(dto.root);
+    const hours = this.staleHours(dto.olderThanHours);
+    const now = new Date();
+
+    const tracked = await this.multipartRepo.find({
+      where: { root, status: 'open' },
+      order: { createdAt: 'ASC' },
+    });
+
+    const items: any[] = tracked.map((t) => ({
+      tracked: true,
+      uploadId: t.uploadId,
+      s3Key: t.s3Key,
+      path: t.path,
+      employeeNumber: t.employeeNumber,
+      size: t.size != null ? Number(t.size) : null,
+      initiated: t.createdAt,
+      stale: isStaleUpload(t.createdAt, now, hours),
+    }));
+
+    if (dto.includeUntracked) {
+      const known = new Set(tracked.map((t) => t.uploadId));
+      const inS3 = await this.storage.listMultipartUploads(`${root}/`);
+      for (const u of inS3) {
+        if (known.has(u.uploadId)) continue;
+        items.push({
+          tracked: false,
+          uploadId: u.uploadId,
+          s3Key: u.key,
+          path: null,
+          employeeNumber: null,
+          size: null,
+          initiated: u.initiated ?? null,
+          stale: isStaleUpload(u.initiated, now, hours),
+        });
+      }
+    }
+
+    return {
+      success: true,
+      root,
+      olderThanHours: hours,
+      total: items.length,
+      stale: items.filter((i) => i.stale).length,
+      items,
+    };
+  }
+
+  /**
+   * Aborta en S3 los uploads viejos del root (registrados o no) y cierra los registros.
+   * dryRun => solo devuelve el plan.
+   */
+  async sweep(dto: {
+    root?: string;
+    olderThanHours?: number;
+    dryRun?: boolean;
+  }) {
+    const root = normRoot(dto.root);
+    const hours = this.staleHours(dto.olderThanHours);
+    const now = new Date();
+
+    const tracked = await this.multipartRepo.find({
+      where: { root, status: 'open' },
+    });
+    const inS3 = await this.storage.listMultipartUploads(`${root}/`);
+    const plan = planMultipartSweep(tracked, inS3, now, hours);
+
+    if (dto.dryRun) {
+      return {
+        success: true,
+        root,
+        dryRun: true,
+        olderThanHours: hours,
+        aborted: 0,
+        missing: plan.missing.length,
+        plan,
+      };
+    }
+
+    let aborted = 0;
+    const failed: { uploadId: string; key: string; error: string }[] = [];
+
+    for (const item of plan.abort) {
+      const res = await this.storage.abortMultipartUpload(
+        item.key,
+        item.uploadId,
+      );
+      if (res.success) {
+        aborted++;
+        if (item.tracked)
+          await this.markClosed(item.uploadId, 'aborted', 'sweep');
+      } else {
+        failed.push({
+          uploadId: item.uploadId,
+          key: item.key,
+          error: res.message,
+        });
+      }
+    }
+
+    if (plan.missing.length) {
+      await this.multipartRepo.update(
+        { uploadId: In(plan.missing), status: 'open' },
+        { status: 'aborted', closeReason: 'missing', closedAt: now },
+      );
+    }
+
+    this.logger.log(
+      `[sweep] ${root} aborted=${aborted} (untracked=${plan.abort.filter((a) => !a.tracked).length}) ` +
+        `missing=${plan.missing.length} failed=${failed.length}`,
+    );
+
+    return {
+      success: failed.length === 0,
+      root,
+      dryRun: false,
+      olderThanHours: hours,
+      aborted,
+      untracked: plan.abort.filter((a) => !a.tracked).length,
+      missing: plan.missing.length,
+      failed,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private staleHours(hours?: number) {
+    const h = Number(hours ?? this.STALE_HOURS);
+    return Number.isFinite(h) && h >= 0 ? h : this.STALE_HOURS;
+  }
+
+  /** Roots configurados + roots con uploads registrados viejos. Nunca se solapan dos corridas. */
+  private runScheduledSweep() {
+    if (this.sweepRunning) return;
+    this.sweepRunning = true;
+
+    void (async () => {
+      try {
+        const cutoff = new Date(Date.now() - this.STALE_HOURS * 60 * 60 * 1000);
+        const rows = await this.multipartRepo
+          .createQueryBuilder('m')
+          .select('DISTINCT m.root', 'root')
+          .where({ status: 'open', createdAt: LessThan(cutoff) })
+          .getRawMany<{ root: string }>();
+
+        const roots = new Set([
+          ...this.SWEEP_ROOTS.map((r) => normRoot(r)),
+          ...rows.map((r) => r.root),
+        ]);
+        for (const root of roots) await this.sweep({ root });
+      } catch (e: any) {
+        this.logger.error(`[runScheduledSweep] failed: ${e?.message ?? e}`);
+      } finally {
+        this.sweepRunning = false;
+      }
+    })();
+  }
+}
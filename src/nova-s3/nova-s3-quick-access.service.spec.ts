@@ -0,0 +1,280 @@
+/* src/nova-s3/nova-s3-quick-access.service.spec.ts */
+import { BadRequestException, Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+
+import { NovaS3QuickAccessService } from './nova-s3-quick-access.service';
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Star } from './entities/nova-s3-star.entity';
+import { NovaS3Recent } from './entities/nova-s3-recent.entity';
+
+// ── Fakes ──────────────────────────────────────────────────────────────────
+
+type Where = Record<string, unknown>;
+
+const matches = (row: object, where: Where) =>
+  Object.entries(where).every(([key, value]) => {
+    const field = (row as Where)[key];
+    if (value instanceof FindOperator && value.type === 'in') {
+      return (value.value as unknown[]).includes(field);
+    }
+    return field === value;
+  });
+
+/** In-memory star repo: findOne / insert / delete by where. */
+const fakeStarRepo = () => {
+  const repo: { rows: Where[] } = { rows: [] };
+  return Object.assign(repo, {
+    findOne: jest.fn(({ where }: { where: Where }) =>
+      Promise.resolve(repo.rows.find((r) => matches(r, where)) ?? null),
+    ),
+    insert: jest.fn((row: Where) => {
+      repo.rows.push({ ...row });
+      return Promise.resolve({});
+    }),
+    delete: jest.fn((where: Where) => {
+      const before = repo.rows.length;
+      repo.rows = repo.rows.filter((r) => !matches(r, where));
+      return Promise.resolve({ affected: before - repo.rows.length });
+    }),
+  });
+};
+
+/** Chainable query builder: records the where clauses and returns the given rows. */
+const fakeQueryBuilder = (entities: NovaS3[], raw: Where[]) => {
+  const conditions: { sql: string; params?: Where }[] = [];
+  const qb: Record<string, jest.Mock> = {};
+  for (const m of [
+    'innerJoin',
+    'addSelect',
+    'orderBy',
+    'limit',
+    'select',
+    'from',
+  ]) {
+    qb[m] = jest.fn(() => qb);
+  }
+  for (const m of ['where', 'andWhere']) {
+    qb[m] = jest.fn((sql: string, params?: Where) => {
+      conditions.push({ sql, params });
+      return qb;
+    });
+  }
+  qb.subQuery = jest.fn(() => qb);
+  qb.getQuery = jest.fn(() => '(SELECT 1 FROM grants)');
+  qb.getRawAndEntities = jest.fn(() => Promise.resolve({ entities, raw }));
+  return { qb, conditions };
+};
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const ROOT = 'nova-s3';
+const ACTOR = 'EMP1';
+
+const item = (id: string, path: string, employeeNumber = ACTOR) =>
+  ({
+    id,
+    root: ROOT,
+    employeeNumber,
+    path,
+    name: path.split('/').pop(),
+    type: 'file',
+    size: '2048',
+    mimeType: 'application/pdf',
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  }) as unknown as NovaS3;
+
+describe('NovaS3QuickAccessService', () => {
+  let service: NovaS3QuickAccessService;
+  let files: NovaS3[];
+  let repo: Record<string, jest.Mock>;
+  let stars: ReturnType<typeof fakeStarRepo>;
+  let recent: Record<string, jest.Mock>;
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    files = [item('id-report', 'Finance/report.pdf')];
+    repo = {
+      findOne: jest.fn(({ where }: { where: Where }) =>
+        Promise.resolve(files.find((f) => matches(f, where)) ?? null),
+      ),
+      find: jest.fn(() => Promise.resolve(files)),
+      createQueryBuilder: jest.fn(),
+    };
+    stars = fakeStarRepo();
+    recent = {
+      upsert: jest.fn().mockResolvedValue({}),
+      find: jest.fn().mockResolvedValue([]),
+      delete: jest.fn().mockResolvedValue({ affected: 0 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NovaS3QuickAccessService,
+        { provide: getRepositoryToken(NovaS3), useValue: repo },
+        { provide: getRepositoryToken(NovaS3Star), useValue: stars },
+        { provide: getRepositoryToken(NovaS3Recent), useValue: recent },
+      ],
+    }).compile();
+
+    service = module.get(NovaS3QuickAccessService);
+  });
+
+  // ── star / unstar ────────────────────────────────────────────────────────
+
+  describe('star / unstar', () => {
+    it('stars the item by id, once', async () => {
+      await expect(
+        service.star(ROOT, ACTOR, ACTOR, '/Finance/report.pdf'),
+      ).resolves.toMatchObject({
+        message: 'Starred',
+        itemId: 'id-report',
+        path: 'Finance/report.pdf',
+      });
+      await expect(
+        service.star(ROOT, ACTOR, ACTOR, 'Finance/report.pdf'),
+      ).resolves.toMatchObject({ message: 'Already starred' });
+
+      expect(stars.rows).toEqual([
+        { root: ROOT, employeeNumber: ACTOR, itemId: 'id-report' },
+      ]);
+    });
+
+    it('keeps following the item after a move (the star is keyed by id)', async () => {
+      await service.star(ROOT, ACTOR, ACTOR, 'Finance/report.pdf');
+
+      // moveFile / cascadeUpdatePrefix keep the id and only rewrite the path
+      files[0] = item('id-report', 'Archive/2025/report.pdf');
+
+      await expect(
+        service.star(ROOT, ACTOR, ACTOR, 'Archive/2025/report.pdf'),
+      ).resolves.toMatchObject({ message: 'Already starred' });
+      await expect(
+        service.unstar(ROOT, ACTOR, ACTOR, 'Archive/2025/report.pdf'),
+      ).resolves.toMatchObject({
+        message: 'Unstarred',
+        path: 'Archive/2025/report.pdf',
+      });
+      expect(stars.rows).toEqual([]);
+    });
+
+    it('keeps each employee stars apart', async () => {
+      await service.star(ROOT, ACTOR, ACTOR, 'Finance/report.pdf');
+      await service.star(ROOT, 'EMP2', ACTOR, 'Finance/report.pdf');
+
+      await service.unstar(ROOT, 'EMP2', ACTOR, 'Finance/report.pdf');
+
+      expect(stars.rows).toEqual([
+        { root: ROOT, employeeNumber: ACTOR, itemId: 'id-report' },
+      ]);
+    });
+
+    it('rejects a path that is not in the DB', async () => {
+      await expect(
+        service.star(ROOT, ACTOR, ACTOR, 'Finance/missing.pdf'),
+      ).rejects.toThrow(BadRequestException);
+      expect(stars.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── listing ──────────────────────────────────────────────────────────────
+
+  describe('listStarred', () => {
+    it('lists the current path and filters by the actor space', async () => {
+      const moved = item('id-report', 'Archive/report.pdf', 'shared');
+      const { qb, conditions } = fakeQueryBuilder(
+        [moved],
+        [{ n_id: 'id-report', starred_at: '2026-02-01T00:00:00Z' }],
+      );
+      repo.createQueryBuilder.mockReturnValue(qb);
+
+      const res = await service.listStarred(ROOT, ACTOR, 'shared');
+
+      expect(res.items).toEqual([
+        expect.objectContaining({
+          itemId: 'id-report',
+          path: 'Archive/report.pdf',
+          size: 2048,
+          shared: false,
+          starredAt: '2026-02-01T00:00:00Z',
+        }),
+      ]);
+      expect(conditions).toContainEqual({
+        sql: '(n.employeeNumber = :space OR EXISTS (SELECT 1 FROM grants))',
+        params: { actor: ACTOR, space: 'shared' },
+      });
+    });
+
+    it("flags items of someone else's shared folder", async () => {
+      const { qb } = fakeQueryBuilder([item('id-x', 'Team/x.pdf', 'EMP9')], []);
+      repo.createQueryBuilder.mockReturnValue(qb);
+
+      const res = await service.listStarred(ROOT, ACTOR);
+
+      expect(res.items[0]).toMatchObject({
+        ownerEmployeeNumber: 'EMP9',
+        shared: true,
+        starredAt: null,
+      });
+    });
+  });
+
+  // ── recent / cleanup ─────────────────────────────────────────────────────
+
+  describe('recordRecent', () => {
+    it('upserts one row per file for the actor', async () => {
+      await service.recordRecent(
+        ROOT,
+        ACTOR,
+        'EMP2',
+        ['Finance/report.pdf'],
+        'view',
+      );
+
+      expect(recent.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            employeeNumber: 'EMP2',
+            itemId: 'id-report',
+            action: 'view',
+          }),
+        ],
+        ['employeeNumber', 'itemId'],
+      );
+    });
+
+    it('never breaks the caller', async () => {
+      recent.upsert.mockRejectedValueOnce(new Error('deadlock'));
+
+      await expect(
+        service.recordRecent(ROOT, ACTOR, null, ['Finance/report.pdf'], 'view'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('deleteForItems', () => {
+    it('removes stars and recents of every employee, in chunks', async () => {
+      stars.rows = [
+        { root: ROOT, employeeNumber: ACTOR, itemId: 'id-report' },
+        { root: ROOT, employeeNumber: 'EMP2', itemId: 'id-report' },
+        { root: ROOT, employeeNumber: ACTOR, itemId: 'id-keep' },
+      ];
+      recent.delete.mockResolvedValue({ affected: 1 });
+      const ids = [
+        'id-report',
+        ...Array.from({ length: 1200 }, (_, i) => `id-${i}`),
+      ];
+
+      await expect(service.deleteForItems(ids)).resolves.toBe(4);
+
+      expect(stars.rows.map((r) => r.itemId)).toEqual(['id-keep']);
+      expect(stars.delete).toHaveBeenCalledTimes(2);
+      expect(recent.delete).toHaveBeenCalledTimes(2);
+    });
+  });
+});
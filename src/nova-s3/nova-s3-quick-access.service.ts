@@ -0,0 +1,315 @@
+/* src/nova-s3/nova-s3-quick-access.service.ts
+ *
+ * NOVA S3 — accesos rápidos del explorer: estrellas y recientes por empleado.
+ *
+ * ✅ Ambos guardan nova_s3.id (no el path): rename / move (cascadeUpdatePrefix) conservan el id,
+ *    así que siguen al item sin tocar nada; el path que se devuelve es siempre el actual (JOIN con nova_s3).
+ * ✅ Item en la papelera => no se lista (no hay fila en nova_s3). Borrado definitivo => se limpian (deleteForItems).
+ * ✅ `employeeNumber` es quien actúa: un invitado puede marcar / ver items del folder compartido del dueño
+ *    mientras el grant siga vigente.
+ * ✅ `space` = espacio propio del actor en el root (el compartido si el root no es employee-scoped):
+ *    las estrellas / recientes son de cada uno, los items viven en el espacio.
+ */
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Grant } from './entities/nova-s3-grant.entity';
+import { NovaS3Star } from './entities/nova-s3-star.entity';
+import {
+  NovaS3Recent,
+  NovaS3RecentAction,
+} from './entities/nova-s3-recent.entity';
+import { normPath, normRoot } from './utils/nova-s3-path.util';
+
+@Injectable()
+export class NovaS3QuickAccessService {
+  private readonly logger = new Logger(NovaS3QuickAccessService.name);
+
+  // recientes que se guardan por empleado (y root)
+  private readonly RECENT_MAX = Number(process.env.NOVA_S3_RECENT_MAX ?? 100);
+
+  constructor(
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    @InjectRepository(NovaS3Star)
+    private readonly starRepo: Repository<NovaS3Star>,
+
+    @InjectRepository(NovaS3Recent)
+    private readonly recentRepo: Repository<NovaS3Recent>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Starred
+  // ---------------------------------------------------------------------------
+
+  /** `owner` = espacio donde vive el item (el mismo actor si no es un folder compartido). */
+  async star(
+    rootIn: string | undefined,
+    actor: string,
+    owner: string,
+    pathIn: string,
+  ) {
+    const root = normRoot(rootIn);
+    const item = await this.findItem(root, owner, pathIn);
+
+    const existing = await this.starRepo.findOne({
+      where: { employeeNumber: actor, itemId: item.id },
+    });
+    if (!existing)
+      await this.starRepo.insert({
+        root,
+        employeeNumber: actor,
+        itemId: item.id,
+      });
+
+    this.logger.log(`[star] ${actor} -> ${root}/${owner}/${item.path}`);
+
+    return {
+      success: true,
+      message: existing ? 'Already starred' : 'Starred',
+      itemId: item.id,
+      path: item.path,
+    };
+  }
+
+  async unstar(
+    rootIn: string | undefined,
+    actor: string,
+    owner: string,
+    pathIn: string,
+  ) {
+    const root = normRoot(rootIn);
+    const item = await this.findItem(root, owner, pathIn);
+
+    const res = await this.starRepo.delete({
+      employeeNumber: actor,
+      itemId: item.id,
+    });
+
+    this.logger.log(`[unstar] ${actor} -> ${root}/${owner}/${item.path}`);
+
+    return {
+      success: true,
+      message: res.affected ? 'Unstarred' : 'Not starred',
+      itemId: item.id,
+      path: item.path,
+    };
+  }
+
+  /** Estrellas del empleado (más nuevas primero), con el path actual de cada item. */
+  async listStarred(rootIn: string, actor: string, space = actor) {
+    const root = normRoot(rootIn);
+
+    const qb = this.repo
+      .createQueryBuilder('n')
+      .innerJoin(NovaS3Star, 's', 's.itemId = n.id')
+      .addSelect('s.createdAt', 'starred_at')
+      .where('s.root = :root', { root })
+      .andWhere('s.employeeNumber = :actor', { actor })
+      .orderBy('s.createdAt', 'DESC');
+    this.visibleTo(qb, actor, space);
+
+    const { entities, raw } = await qb.getRawAndEntities();
+    const rawById = new Map(raw.map((r: any) => [r.n_id, r]));
+
+    return {
+      success: true,
+      root,
+      total: entities.length,
+      items: entities.map((n) => ({
+        ...this.toQuickItem(n, space),
+        starredAt: rawById.get(n.id)?.starred_at ?? null,
+      })),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Recent
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Registra acceso a archivos de `owner` (por path). Best-effort: nunca rompe la operación que lo llama.
+   * En lotes grandes solo cuentan los últimos RECENT_MAX paths.
+   */
+  async recordRecent(
+    rootIn: string,
+    owner: string | null,
+    actor: string | null | undefined,
+    paths: string[],
+    action: NovaS3RecentAction,
+  ) {
+    const who = actor || owner;
+    if (!who || !owner || !paths.length || !(this.RECENT_MAX > 0)) return;
+
+    const root = normRoot(rootIn);
+    try {
+      const latest = paths.slice(-this.RECENT_MAX).map((p) => normPath(p));
+      const rows = await this.repo.find({
+        where: {
+          root,
+          employeeNumber: owner,
+          path: In(latest),
+          type: 'file',
+        } as any,
+        select: { id: true } as any,
+      });
+      if (!rows.length) return;
+
+      const accessedAt = new Date();
+      await this.recentRepo.upsert(
+        rows.map((r) => ({
+          root,
+          employeeNumber: who,
+          itemId: r.id,
+          action,
+          accessedAt,
+        })),
+        ['employeeNumber', 'itemId'],
+      );
+
+      await this.trimRecent(root, who);
+    } catch (e: any) {
+      this.logger.warn(
+        `[recordRecent] ${root}/${who} (${action}) failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  /** Archivos recientes del empleado (más nuevos primero). */
+  async listRecent(
+    rootIn: string,
+    actor: string,
+    limitIn?: number,
+    space = actor,
+  ) {
+    const root = normRoot(rootIn);
+    const limit = Math.min(
+      Math.max(Number(limitIn) || 50, 1),
+      Math.max(this.RECENT_MAX, 1),
+    );
+
+    const qb = this.repo
+      .createQueryBuilder('n')
+      .innerJoin(NovaS3Recent, 'r', 'r.itemId = n.id')
+      .addSelect('r.accessedAt', 'accessed_at')
+      .addSelect('r.action', 'recent_action')
+      .where('r.root = :root', { root })
+      .andWhere('r.employeeNumber = :actor', { actor })
+      .orderBy('r.accessedAt', 'DESC')
+      .limit(limit);
+    this.visibleTo(qb, actor, space);
+
+    const { entities, raw } = await qb.getRawAndEntities();
+    const rawById = new Map(raw.map((r: any) => [r.n_id, r]));
+
+    return {
+      success: true,
+      root,
+      total: entities.length,
+      items: entities.map((n) => ({
+        ...this.toQuickItem(n, space),
+        action: rawById.get(n.id)?.recent_action ?? null,
+        accessedAt: rawById.get(n.id)?.accessed_at ?? null,
+      })),
+    };
+  }
+
+  async clearRecent(rootIn: string, actor: string) {
+    const root = normRoot(rootIn);
+    const res = await this.recentRepo.delete({ root, employeeNumber: actor });
+
+    this.logger.log(
+      `[clearRecent] ${root}/${actor} deleted=${res.affected ?? 0}`,
+    );
+
+    return { success: true, deleted: res.affected ?? 0 };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cleanup
+  // ---------------------------------------------------------------------------
+
+  /** Items borrados definitivamente: fuera de estrellas y recientes (de todos los empleados). */
+  async deleteForItems(itemIds: string[]) {
+    let deleted = 0;
+    for (let i = 0; i < itemIds.length; i += 1000) {
+      const chunk = itemIds.slice(i, i + 1000);
+      const stars = await this.starRepo.delete({ itemId: In(chunk) });
+      const recent = await this.recentRepo.delete({ itemId: In(chunk) });
+      deleted += (stars.affected ?? 0) + (recent.affected ?? 0);
+    }
+    return deleted;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private async findItem(root: string, employeeNumber: string, pathIn: string) {
+    const path = normPath(pathIn);
+    if (!path) throw new BadRequestException('path is required');
+
+    const item = await this.repo.findOne({
+      where: { root, employeeNumber, path } as any,
+    });
+    if (!item) throw new BadRequestException('Item not found in DB');
+    return item;
+  }
+
+  /** Más viejos que los RECENT_MAX últimos => fuera. */
+  private async trimRecent(root: string, employeeNumber: string) {
+    const stale = await this.recentRepo.find({
+      where: { root, employeeNumber },
+      order: { accessedAt: 'DESC' },
+      skip: this.RECENT_MAX,
+      select: { id: true },
+    });
+    if (stale.length)
+      await this.recentRepo.delete({ id: In(stale.map((r) => r.id)) });
+  }
+
+  /**
+   * Solo items del espacio del actor o de un folder compartido con él (grant vigente sobre el item o un ancestro).
+   * Si el dueño revoca el grant, la estrella / reciente deja de listarse.
+   */
+  private visibleTo(
+    qb: SelectQueryBuilder<NovaS3>,
+    actor: string,
+    space: string,
+  ) {
+    const granted = qb
+      .subQuery()
+      .select('1')
+      .from(NovaS3Grant, 'g')
+      .innerJoin(NovaS3, 'f', 'f.id = g.folderId')
+      .where('g.granteeEmployeeNumber = :actor')
+      .andWhere('g.root = n.root')
+      .andWhere('f.employeeNumber = n.employeeNumber')
+      .andWhere(
+        `(n.path = f.path OR left(n.path, length(f.path) + 1) = f.path || '/')`,
+      )
+      .getQuery();
+
+    return qb.andWhere(`(n.employeeNumber = :space OR EXISTS ${granted})`, {
+      actor,
+      space,
+    });
+  }
+
+  private toQuickItem(n: NovaS3, space: string) {
+    return {
+      itemId: n.id,
+      path: n.path,
+      name: n.name,
+      type: n.type,
+      size: n.size != null ? Number(n.size) : null,
+      mimeType: n.mimeType,
+      ownerEmployeeNumber: n.employeeNumber,
+      shared: n.employeeNumber !== space,
+      updatedAt: n.updatedAt,
+    };
+  }
+}
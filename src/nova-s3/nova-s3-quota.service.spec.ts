@@ -0,0 +1,161 @@
+/* src/nova-s3/nova-s3-quota.service.spec.ts */
+import { Logger, PayloadTooLargeException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { NovaS3QuotaService } from './nova-s3-quota.service';
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Quota } from './entities/nova-s3-quota.entity';
+import { NovaS3Trash } from './entities/nova-s3-trash.entity';
+import { NovaS3Version } from './entities/nova-s3-version.entity';
+
+// ── Fakes ──────────────────────────────────────────────────────────────────
+
+/** Repo whose SUM query answers `total` (live files, versions or trash). */
+const fakeSumRepo = (total: number) => {
+  const qb: Record<string, jest.Mock> = {};
+  for (const m of ['select', 'where', 'andWhere']) {
+    qb[m] = jest.fn(() => qb);
+  }
+  qb.getRawOne = jest.fn(() => Promise.resolve({ total: String(total) }));
+  return { createQueryBuilder: jest.fn(() => qb) };
+};
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const ROOT = 'nova-s3';
+const EMP = 'EMP1';
+const MB = 1024 * 1024;
+
+const override = (quotaBytes: number | null, warnPercent: number | null) =>
+  ({
+    id: 'q1',
+    root: ROOT,
+    employeeNumber: EMP,
+    quotaBytes: quotaBytes === null ? null : String(quotaBytes),
+    warnPercent,
+    note: null,
+  }) as unknown as NovaS3Quota;
+
+describe('NovaS3QuotaService', () => {
+  let service: NovaS3QuotaService;
+  let quotaRepo: Record<string, jest.Mock>;
+  let files: ReturnType<typeof fakeSumRepo>;
+  const env = { ...process.env };
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    // the limits are read from the env when the service is built
+    process.env.NOVA_S3_QUOTA_DEFAULT_BYTES = String(100 * MB);
+    process.env.NOVA_S3_ROOT_QUOTAS = JSON.stringify({ legal: 500 * MB });
+    process.env.NOVA_S3_QUOTA_WARN_PERCENT = '90';
+
+    quotaRepo = { findOne: jest.fn().mockResolvedValue(null) };
+    // 60 MB live + 15 MB of versions + 5 MB in the trash = 80 MB used
+    files = fakeSumRepo(60 * MB);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NovaS3QuotaService,
+        { provide: getRepositoryToken(NovaS3), useValue: files },
+        { provide: getRepositoryToken(NovaS3Quota), useValue: quotaRepo },
+        {
+          provide: getRepositoryToken(NovaS3Version),
+          useValue: fakeSumRepo(15 * MB),
+        },
+        {
+          provide: getRepositoryToken(NovaS3Trash),
+          useValue: fakeSumRepo(5 * MB),
+        },
+      ],
+    }).compile();
+
+    service = module.get(NovaS3QuotaService);
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  // ── usage ────────────────────────────────────────────────────────────────
+
+  describe('usage', () => {
+    it('counts live files, versions and trash against the default quota', async () => {
+      await expect(service.usage(ROOT, EMP)).resolves.toMatchObject({
+        source: 'root',
+        used: 80 * MB,
+        limit: 100 * MB,
+        remaining: 20 * MB,
+        percentUsed: 80,
+        warning: false,
+        breakdown: { files: 60 * MB, versions: 15 * MB, trash: 5 * MB },
+      });
+    });
+
+    it('applies the employee override and its own warning threshold', async () => {
+      quotaRepo.findOne.mockResolvedValue(override(85 * MB, 75));
+
+      await expect(service.usage(ROOT, EMP)).resolves.toMatchObject({
+        source: 'override',
+        limit: 85 * MB,
+        warnPercent: 75,
+        warning: true,
+        exceeded: false,
+      });
+    });
+
+    it('flags the warning at the root threshold when the override has none', async () => {
+      quotaRepo.findOne.mockResolvedValue(override(88 * MB, null));
+
+      await expect(service.usage(ROOT, EMP)).resolves.toMatchObject({
+        warnPercent: 90,
+        percentUsed: 90.91,
+        warning: true,
+      });
+    });
+  });
+
+  // ── assertWithinQuota ────────────────────────────────────────────────────
+
+  describe('assertWithinQuota', () => {
+    it('rejects an upload that does not fit in what is left', async () => {
+      await expect(
+        service.assertWithinQuota(ROOT, EMP, 20 * MB),
+      ).resolves.toBeUndefined();
+      await expect(
+        service.assertWithinQuota(ROOT, EMP, 20 * MB + 1),
+      ).rejects.toThrow(PayloadTooLargeException);
+    });
+
+    it('uses the root quota over the default', async () => {
+      await expect(
+        service.assertWithinQuota('legal', EMP, 400 * MB),
+      ).resolves.toBeUndefined();
+    });
+
+    it('lets an override raise the limit or remove it', async () => {
+      quotaRepo.findOne.mockResolvedValueOnce(override(200 * MB, null));
+      await expect(
+        service.assertWithinQuota(ROOT, EMP, 100 * MB),
+      ).resolves.toBeUndefined();
+
+      // unlimited: not even the usage query runs
+      quotaRepo.findOne.mockResolvedValueOnce(override(null, null));
+      files.createQueryBuilder.mockClear();
+      await expect(
+        service.assertWithinQuota(ROOT, EMP, 10_000 * MB),
+      ).resolves.toBeUndefined();
+      expect(files.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('has no quota without an employee (not a tenant root)', async () => {
+      await expect(
+        service.assertWithinQuota(ROOT, null, 10_000 * MB),
+      ).resolves.toBeUndefined();
+      expect(quotaRepo.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
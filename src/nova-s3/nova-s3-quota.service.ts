@@ -0,0 +1,253 @@
+/* src/nova-s3/nova-s3-quota.service.ts
+ *
+ * NOVA S3 — cuotas de almacenamiento por empleado.
+ *
+ * Límite efectivo (por empleado dentro de un root):
+ * 1) override en `nova_s3_quota` (quotaBytes null = sin límite)
+ * 2) NOVA_S3_ROOT_QUOTAS  => JSON { "<root>": bytes }
+ * 3) NOVA_S3_QUOTA_DEFAULT_BYTES (0 = sin límite)
+ *
+ * Uso = archivos vivos + versiones anteriores + papelera (todo ocupa espacio en S3).
+ */
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Quota } from './entities/nova-s3-quota.entity';
+import { NovaS3Trash } from './entities/nova-s3-trash.entity';
+import { NovaS3Version } from './entities/nova-s3-version.entity';
+import { RemoveQuotaDto, SetQuotaDto } from './dto/quota.dto';
+import { normRoot } from './utils/nova-s3-path.util';
+import {
+  exceedsQuota,
+  formatBytes,
+  parseRootQuotas,
+  quotaUsage,
+} from './utils/nova-s3-quota.util';
+
+@Injectable()
+export class NovaS3QuotaService {
+  private readonly logger = new Logger(NovaS3QuotaService.name);
+
+  private readonly DEFAULT_QUOTA_BYTES = Number(
+    process.env.NOVA_S3_QUOTA_DEFAULT_BYTES ?? 0,
+  );
+  private readonly ROOT_QUOTAS = parseRootQuotas(
+    process.env.NOVA_S3_ROOT_QUOTAS,
+  );
+  private readonly WARN_PERCENT = Number(
+    process.env.NOVA_S3_QUOTA_WARN_PERCENT ?? 90,
+  );
+
+  constructor(
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    @InjectRepository(NovaS3Quota)
+    private readonly quotaRepo: Repository<NovaS3Quota>,
+
+    @InjectRepository(NovaS3Version)
+    private readonly versionRepo: Repository<NovaS3Version>,
+
+    @InjectRepository(NovaS3Trash)
+    private readonly trashRepo: Repository<NovaS3Trash>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Límite / uso
+  // ---------------------------------------------------------------------------
+
+  /** Límite del root sin overrides (null = sin límite). */
+  rootLimit(root: string): number | null {
+    const bytes = this.ROOT_QUOTAS[root] ?? this.DEFAULT_QUOTA_BYTES;
+    return bytes > 0 ? bytes : null;
+  }
+
+  private async resolveLimit(root: string, employeeNumber: string) {
+    const override = await this.quotaRepo.findOne({
+      where: { root, employeeNumber },
+    });
+    if (override) {
+      return {
+        limit:
+          override.quotaBytes === null ? null : Number(override.quotaBytes),
+        warnPercent: override.warnPercent ?? this.WARN_PERCENT,
+        source: 'override' as const,
+      };
+    }
+    return {
+      limit: this.rootLimit(root),
+      warnPercent: this.WARN_PERCENT,
+      source: 'root' as const,
+    };
+  }
+
+  private async usedBytes(root: string, employeeNumber: string) {
+    const [files, versions, trash] = await Promise.all([
+      this.repo
+        .createQueryBuilder('n')
+        .select('COALESCE(SUM(n.size), 0)', 'total')
+        .where('n.root = :root', { root })
+        .andWhere('n.employeeNumber = :emp', { emp: employeeNumber })
+        .andWhere(`n.type = 'file'`)
+        .getRawOne(),
+      this.versionRepo
+        .createQueryBuilder('v')
+        .select('COALESCE(SUM(v.size), 0)', 'total')
+        .where('v.root = :root', { root })
+        .andWhere('v.employeeNumber = :emp', { emp: employeeNumber })
+        .getRawOne(),
+      this.trashRepo
+        .createQueryBuilder('t')
+        .select('COALESCE(SUM(t.totalSize), 0)', 'total')
+        .where('t.root = :root', { root })
+        .andWhere('t.employeeNumber = :emp', { emp: employeeNumber })
+        .getRawOne(),
+    ]);
+
+    const breakdown = {
+      files: Number(files?.total) || 0,
+      versions: Number(versions?.total) || 0,
+      trash: Number(trash?.total) || 0,
+    };
+
+    return {
+      used: breakdown.files + breakdown.versions + breakdown.trash,
+      breakdown,
+    };
+  }
+
+  /** GET /nova-s3/quota/usage */
+  async usage(rootIn: string, employeeNumber: string) {
+    const root = normRoot(rootIn);
+    const [{ limit, warnPercent, source }, { used, breakdown }] =
+      await Promise.all([
+        this.resolveLimit(root, employeeNumber),
+        this.usedBytes(root, employeeNumber),
+      ]);
+
+    return {
+      success: true,
+      root,
+      employeeNumber,
+      source,
+      ...quotaUsage(used, limit, warnPercent),
+      breakdown,
+    };
+  }
+
+  /**
+   * Corta la subida ANTES de tocar S3 si `incomingBytes` no entra en la cuota.
+   * Sin límite no hace ni la query de uso. Sin employeeNumber (no tenant) no hay cuota.
+   */
+  async assertWithinQuota(
+    rootIn: string,
+    employeeNumber: string | null,
+    incomingBytes: number,
+  ) {
+    if (!employeeNumber) return;
+
+    const root = normRoot(rootIn);
+    const { limit } = await this.resolveLimit(root, employeeNumber);
+    if (limit === null) return;
+
+    const incoming = Math.max(Number(incomingBytes) || 0, 0);
+    const { used } = await this.usedBytes(root, employeeNumber);
+
+    if (exceedsQuota(used, incoming, limit)) {
+      const remaining = Math.max(limit - used, 0);
+      this.logger.warn(
+        `[assertWithinQuota] ${root}/${employeeNumber} used=${used} incoming=${incoming} limit=${limit}`,
+      );
+      throw new PayloadTooLargeException(
+        `Storage quota exceeded: this upload needs ${formatBytes(incoming)} but only ${formatBytes(remaining)} ` +
+          `of ${formatBytes(limit)} is left (${formatBytes(used)} used)`,
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Overrides por empleado
+  // ---------------------------------------------------------------------------
+
+  /** Crea o actualiza el override. quotaBytes null = sin límite para este empleado. */
+  async setOverride(dto: SetQuotaDto) {
+    const root = normRoot(dto.root);
+
+    let row = await this.quotaRepo.findOne({
+      where: { root, employeeNumber: dto.employeeNumber },
+    });
+    if (!row)
+      row = this.quotaRepo.create({ root, employeeNumber: dto.employeeNumber });
+
+    row.quotaBytes = dto.quotaBytes ?? null;
+    row.warnPercent = dto.warnPercent ?? null;
+    row.note = dto.note?.trim() || null;
+    row = await this.quotaRepo.save(row);
+
+    this.logger.log(
+      `[setOverride] ${root}/${dto.employeeNumber} quotaBytes=${row.quotaBytes ?? 'unlimited'}`,
+    );
+
+    return {
+      success: true,
+      message: 'Quota saved',
+      override: this.toOverrideDto(row),
+    };
+  }
+
+  /** Quita el override: el empleado vuelve a la cuota del root. */
+  async removeOverride(dto: RemoveQuotaDto) {
+    const root = normRoot(dto.root);
+    const row = await this.quotaRepo.findOne({
+      where: { root, employeeNumber: dto.employeeNumber },
+    });
+    if (!row) throw new BadRequestException('Quota override not found');
+
+    await this.quotaRepo.delete({ id: row.id });
+
+    this.logger.log(`[removeOverride] ${root}/${dto.employeeNumber}`);
+
+    return {
+      success: true,
+      message: 'Quota override removed',
+      rootLimit: this.rootLimit(root),
+    };
+  }
+
+  async listOverrides(rootIn: string) {
+    const root = normRoot(rootIn);
+    const rows = await this.quotaRepo.find({
+      where: { root },
+      order: { employeeNumber: 'ASC' },
+    });
+
+    return {
+      success: true,
+      root,
+      rootLimit: this.rootLimit(root),
+      warnPercent: this.WARN_PERCENT,
+      total: rows.length,
+      items: rows.map((r) => this.toOverrideDto(r)),
+    };
+  }
+
+  private toOverrideDto(row: NovaS3Quota) {
+    return {
+      id: row.id,
+      root: row.root,
+      employeeNumber: row.employeeNumber,
+      quotaBytes: row.quotaBytes === null ? null : Number(row.quotaBytes),
+      warnPercent: row.warnPercent,
+      note: row.note,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
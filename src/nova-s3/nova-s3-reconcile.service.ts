@@ -0,0 +1,325 @@
+/* src/nova-s3/nova-s3-reconcile.service.ts
+ *
+ * NOVA S3 — reconciliación BD (nova_s3) vs S3 para el prefix de un empleado.
+ *
+ * Un delete con falla de S3 después del delete en BD, o un movePrefix cortado a la mitad,
+ * dejan la tabla y el bucket desincronizados. Esto recorre {root}/{employeeNumber}/ con ListObjectsV2,
+ * lo compara contra las filas y reporta:
+ * - orphans:    objetos sin fila
+ * - missing:    filas file sin objeto
+ * - mismatches: size (y mime, opcional con HEAD) distintos
+ *
+ * Por defecto SOLO reporta. Cada clase tiene su reparación opt-in (ver ReconcileDto).
+ */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { ReconcileDto } from './dto/reconcile.dto';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import { NovaS3VersionsService } from './nova-s3-versions.service';
+import { NovaS3FolderSizesService } from './nova-s3-folder-sizes.service';
+import {
+  buildTenantS3Key,
+  nameOf,
+  normRoot,
+  parentOf,
+  s3BaseFolder,
+} from './utils/nova-s3-path.util';
+import {
+  diffStorageIndex,
+  NovaS3IndexedRow,
+} from './utils/nova-s3-reconcile.util';
+
+type Mismatch = {
+  id: string;
+  path: string;
+  s3Key: string;
+  dbSize: number | null;
+  s3Size: number;
+  dbMimeType: string | null;
+  s3MimeType: string | null;
+};
+
+@Injectable()
+export class NovaS3ReconcileService {
+  private readonly logger = new Logger(NovaS3ReconcileService.name);
+
+  // ✅ Lo tocado en los últimos N minutos se ignora (presigned PUT sin register, ops en curso)
+  private readonly GRACE_MINUTES = Number(
+    process.env.NOVA_S3_RECONCILE_GRACE_MINUTES ?? 60,
+  );
+
+  constructor(
+    private readonly storage: NovaS3StorageUtil,
+
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    private readonly versions: NovaS3VersionsService,
+
+    private readonly folderSizes: NovaS3FolderSizesService,
+  ) {}
+
+  async reconcile(dto: ReconcileDto) {
+    const root = normRoot(dto.root);
+    const emp = dto.employeeNumber;
+    const baseFolder = s3BaseFolder(root, emp);
+    const sample = dto.sampleSize ?? 200;
+    const startedAt = Date.now();
+
+    const objects = await this.storage.listObjectsUnderKeyPrefix(
+      `${baseFolder}/`,
+    );
+    const rows = await this.repo.find({
+      where: { root, employeeNumber: emp } as any,
+    });
+    const byId = new Map(rows.map((r) => [r.id, r]));
+
+    const indexed: NovaS3IndexedRow[] = rows.map((r) => ({
+      id: r.id,
+      path: r.path,
+      type: r.type,
+      s3Key:
+        r.s3Key ?? buildTenantS3Key(root, emp, r.path, r.type === 'folder'),
+      size: r.size != null ? Number(r.size) : null,
+      updatedAt: r.updatedAt,
+    }));
+
+    const graceBefore = new Date(Date.now() - this.GRACE_MINUTES * 60 * 1000);
+    const diff = diffStorageIndex(baseFolder, objects, indexed, graceBefore);
+
+    // size: viene del listado. mime: solo con checkMime (un HEAD por archivo emparejado)
+    const mismatches = new Map<string, Mismatch>();
+    const toMismatch = (row: NovaS3IndexedRow, s3Size: number): Mismatch => ({
+      id: row.id,
+      path: row.path,
+      s3Key: row.s3Key,
+      dbSize: row.size,
+      s3Size,
+      dbMimeType: byId.get(row.id)?.mimeType ?? null,
+      s3MimeType: null,
+    });
+
+    for (const m of diff.sizeMismatches)
+      mismatches.set(m.row.id, toMismatch(m.row, m.object.size));
+
+    if (dto.checkMime) {
+      for (const m of diff.matched) {
+        const head = await this.storage.headObjectKey(m.row.s3Key);
+        if (!head.exists || !head.contentType) continue;
+
+        const current = mismatches.get(m.row.id);
+        if (current) current.s3MimeType = head.contentType;
+
+        const dbMime = byId.get(m.row.id)?.mimeType ?? null;
+        if (dbMime && dbMime !== head.contentType && !current) {
+          mismatches.set(m.row.id, {
+            ...toMismatch(m.row, m.object.size),
+            s3MimeType: head.contentType,
+          });
+        }
+      }
+    }
+
+    const repaired = {
+      orphans: 0,
+      missing: 0,
+      mismatches: 0,
+      unmarked: 0,
+      folderSizes: 0,
+    };
+
+    // -------------------------------------------------------------------------
+    // Repairs (opt-in)
+    // -------------------------------------------------------------------------
+
+    if (dto.orphans === 'delete') {
+      for (const o of diff.orphans) {
+        await this.storage.deleteObjectKey(o.key);
+        repaired.orphans++;
+      }
+    } else if (dto.orphans === 'reindex') {
+      repaired.orphans = await this.reindexOrphans(root, emp, diff.orphans);
+    }
+
+    if (dto.missing === 'markMissing') {
+      const detectedAt = new Date().toISOString();
+      for (const r of diff.missing) {
+        const row = byId.get(r.id)!;
+        if (row.meta?.missing) continue;
+        await this.repo.update(
+          { id: row.id },
+          {
+            meta: {
+              ...(row.meta ?? {}),
+              missing: true,
+              missingDetectedAt: detectedAt,
+            } as any,
+          },
+        );
+        repaired.missing++;
+      }
+
+      // el objeto volvió (ej: restore manual en S3) => sacar la marca
+      for (const m of diff.matched) {
+        const row = byId.get(m.row.id)!;
+        if (!row.meta?.missing) continue;
+        const meta = { ...row.meta };
+        delete meta.missing;
+        delete meta.missingDetectedAt;
+        await this.repo.update({ id: row.id }, { meta: meta as any });
+        repaired.unmarked++;
+      }
+    } else if (dto.missing === 'delete') {
+      const ids = diff.missing.map((r) => r.id);
+      for (let i = 0; i < ids.length; i += 1000) {
+        const res = await this.repo.delete({ id: In(ids.slice(i, i + 1000)) });
+        repaired.missing += res.affected ?? 0;
+      }
+      if (ids.length) await this.versions.deleteForFiles(root, emp, ids);
+    }
+
+    if (dto.mismatches === 'reindex') {
+      for (const m of mismatches.values()) {
+        await this.repo.update({ id: m.id }, {
+          size: m.s3Size,
+          ...(m.s3MimeType ? { mimeType: m.s3MimeType } : {}),
+        } as any);
+        repaired.mismatches++;
+      }
+    }
+
+    // filas creadas / borradas / con otro size: los totales de folders del espacio se recalculan de una
+    const rowsChanged =
+      (dto.orphans === 'reindex' && repaired.orphans) ||
+      (dto.missing === 'delete' && repaired.missing) ||
+      repaired.mismatches;
+    if (rowsChanged) {
+      repaired.folderSizes = (
+        await this.folderSizes.repair({ root, employeeNumber: emp })
+      ).foldersFixed;
+    }
+
+    const mismatchList = Array.from(mismatches.values());
+
+    this.logger.log(
+      `[reconcile] ${baseFolder}: objects=${objects.length} rows=${rows.length} ` +
+        `orphans=${diff.orphans.length} missing=${diff.missing.length} mismatches=${mismatchList.length} ` +
+        `repaired=${JSON.stringify(repaired)} (${Date.now() - startedAt}ms)`,
+    );
+
+    return {
+      success: true,
+      root,
+      employeeNumber: emp,
+      prefix: `${baseFolder}/`,
+      scanned: { objects: objects.length, rows: rows.length },
+      graceMinutes: this.GRACE_MINUTES,
+      modes: {
+        orphans: dto.orphans ?? 'report',
+        missing: dto.missing ?? 'report',
+        mismatches: dto.mismatches ?? 'report',
+        checkMime: !!dto.checkMime,
+      },
+      orphans: {
+        total: diff.orphans.length,
+        items: diff.orphans.slice(0, sample).map((o) => ({
+          key: o.key,
+          path: o.path,
+          size: o.size,
+          lastModified: o.lastModified,
+          folderMarker: o.isFolderMarker,
+        })),
+      },
+      missing: {
+        total: diff.missing.length,
+        items: diff.missing.slice(0, sample).map((r) => ({
+          id: r.id,
+          path: r.path,
+          s3Key: r.s3Key,
+          size: r.size,
+        })),
+      },
+      mismatches: {
+        total: mismatchList.length,
+        items: mismatchList.slice(0, sample),
+      },
+      repaired,
+    };
+  }
+
+  /**
+   * Crea filas para objetos huérfanos (+ la cadena de folders padre que falte).
+   * Mime desde HEAD (Content-Type guardado en S3).
+   */
+  private async reindexOrphans(
+    root: string,
+    emp: string,
+    orphans: {
+      key: string;
+      path: string;
+      size: number;
+      isFolderMarker: boolean;
+    }[],
+  ) {
+    if (!orphans.length) return 0;
+
+    const folderPaths = new Set<string>();
+    for (const o of orphans) {
+      if (o.isFolderMarker) folderPaths.add(o.path);
+      for (let p = parentOf(o.path); p; p = parentOf(p)) folderPaths.add(p);
+    }
+
+    const folders = Array.from(folderPaths)
+      .sort()
+      .map((path) => ({
+        root,
+        path,
+        parentPath: parentOf(path),
+        name: nameOf(path),
+        type: 'folder' as const,
+        s3Key: buildTenantS3Key(root, emp, path, true),
+        employeeNumber: emp,
+        meta: { op: 'reconcileReindex' } as any,
+      }));
+
+    for (let i = 0; i < folders.length; i += 500) {
+      await this.repo
+        .createQueryBuilder()
+        .insert()
+        .into(NovaS3)
+        .values(folders.slice(i, i + 500))
+        .orIgnore()
+        .execute();
+    }
+
+    const files: Partial<NovaS3>[] = [];
+    for (const o of orphans) {
+      if (o.isFolderMarker) continue;
+      const head = await this.storage.headObjectKey(o.key);
+      files.push({
+        root,
+        path: o.path,
+        parentPath: parentOf(o.path),
+        name: nameOf(o.path),
+        type: 'file',
+        s3Key: o.key,
+        employeeNumber: emp,
+        size: o.size,
+        mimeType: head.contentType ?? null,
+        meta: { op: 'reconcileReindex' },
+      });
+    }
+
+    for (let i = 0; i < files.length; i += 500) {
+      await this.repo.upsert(
+        files.slice(i, i + 500) as any,
+        ['root', 'employeeNumber', 'path'] as any,
+      );
+    }
+
+    return orphans.length;
+  }
+}
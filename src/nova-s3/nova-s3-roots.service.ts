@@ -0,0 +1,323 @@
+/* src/nova-s3/nova-s3-roots.service.ts
+ *
+ * NOVA S3 — registro de roots (nova_s3_root).
+ *
+ * ✅ Solo se aceptan roots registrados y habilitados (antes cualquier string era un root nuevo).
+ * ✅ Cada root define bucket, basePrefix, si es por empleado, la expiración default de las URLs
+ *    y qué empleados lo pueden usar.
+ * ✅ Los lookups son síncronos (el storage traduce keys en cada llamada a S3): se sirven de una copia
+ *    en memoria que se carga al iniciar, se refresca después de cada cambio y cada NOVA_S3_ROOTS_REFRESH_SECONDS
+ *    (los cambios hechos en otra instancia llegan en ese intervalo).
+ */
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Multipart } from './entities/nova-s3-multipart.entity';
+import { NovaS3Root } from './entities/nova-s3-root.entity';
+import { NovaS3Trash } from './entities/nova-s3-trash.entity';
+import { NovaS3Version } from './entities/nova-s3-version.entity';
+import { RemoveRootDto, UpsertRootDto } from './dto/root.dto';
+import { clampExpiry, normRoot } from './utils/nova-s3-path.util';
+import {
+  canUseRoot,
+  isValidRootName,
+  normBasePrefix,
+  NovaS3RootConfig,
+  physicalLocation,
+  prefixesOverlap,
+  rootOfKey,
+  rootPrefix,
+  spaceOwner,
+} from './utils/nova-s3-root.util';
+
+@Injectable()
+export class NovaS3RootsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NovaS3RootsService.name);
+
+  // 0 = sin refresco periódico (solo al iniciar y después de cada cambio local)
+  private readonly REFRESH_SECONDS = Number(
+    process.env.NOVA_S3_ROOTS_REFRESH_SECONDS ?? 60,
+  );
+
+  private roots = new Map<string, NovaS3RootConfig>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly config: ConfigService,
+
+    @InjectRepository(NovaS3Root)
+    private readonly rootRepo: Repository<NovaS3Root>,
+
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    @InjectRepository(NovaS3Trash)
+    private readonly trashRepo: Repository<NovaS3Trash>,
+
+    @InjectRepository(NovaS3Version)
+    private readonly versionRepo: Repository<NovaS3Version>,
+
+    @InjectRepository(NovaS3Multipart)
+    private readonly multipartRepo: Repository<NovaS3Multipart>,
+  ) {}
+
+  async onModuleInit() {
+    // ✅ antes de aceptar requests: sin registro cargado todo root sería "desconocido"
+    await this.refresh();
+
+    const everyMs = this.REFRESH_SECONDS * 1000;
+    if (!(everyMs > 0)) return;
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch((e) =>
+        this.logger.error(`[refresh] ERROR: ${e?.message ?? e}`),
+      );
+    }, everyMs);
+    // no mantener vivo el proceso solo por el timer
+    this.refreshTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  async refresh() {
+    const rows = await this.rootRepo.find();
+    this.roots = new Map(rows.map((r) => [r.name, this.toConfig(r)]));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lookups (síncronos, desde la copia en memoria)
+  // ---------------------------------------------------------------------------
+
+  /** Config del root (habilitado o no); undefined = no registrado. */
+  find(rootIn?: string) {
+    return this.roots.get(normRoot(rootIn));
+  }
+
+  /** Nombres de los roots habilitados (sweepers / recorridos por root). */
+  names() {
+    return [...this.roots.values()].filter((r) => r.enabled).map((r) => r.name);
+  }
+
+  /** Root registrado y habilitado; si no => 400. */
+  require(rootIn?: string) {
+    const root = normRoot(rootIn);
+    const config = this.roots.get(root);
+    if (!config) throw new BadRequestException(`Unknown root "${root}"`);
+    if (!config.enabled)
+      throw new BadRequestException(`Root "${root}" is disabled`);
+    return config;
+  }
+
+  /** require + el empleado tiene que estar en allowedEmployees (si hay lista) => 403. */
+  assertAccess(rootIn: string | undefined, employeeNumber: string) {
+    const config = this.require(rootIn);
+    if (!canUseRoot(config, employeeNumber)) {
+      this.logger.warn(
+        `[assertAccess] ${employeeNumber} denied on ${config.name}`,
+      );
+      throw new ForbiddenException(
+        `Employee ${employeeNumber} cannot use root "${config.name}"`,
+      );
+    }
+    return config;
+  }
+
+  /** Espacio donde opera el empleado dentro del root (el suyo, o el compartido). */
+  spaceOf(rootIn: string | undefined, employeeNumber: string) {
+    return spaceOwner(
+      this.assertAccess(rootIn, employeeNumber),
+      employeeNumber,
+    );
+  }
+
+  /** Expiración de una URL firmada: la pedida, si no el default del root, si no el del endpoint. */
+  urlExpiry(
+    rootIn: string | undefined,
+    seconds: number | undefined,
+    def: number,
+  ) {
+    return clampExpiry(
+      seconds,
+      this.find(rootIn)?.defaultUrlExpirySeconds ?? def,
+    );
+  }
+
+  /** Key lógica => bucket (null = BUCKET) + key física (ver nova-s3-root.util). */
+  locate(key: string) {
+    return physicalLocation(key, this.roots.get(rootOfKey(key)));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Admin
+  // ---------------------------------------------------------------------------
+
+  async list() {
+    const rows = await this.rootRepo.find({ order: { name: 'ASC' } });
+    return {
+      success: true,
+      total: rows.length,
+      items: rows.map((r) => this.toDto(r)),
+    };
+  }
+
+  /**
+   * Crea o actualiza un root. Los campos que no vienen quedan como estaban (o con el default al crear).
+   * ✅ Si el root ya tiene archivos no se puede cambiar dónde viven (bucket / basePrefix) ni employeeScoped:
+   *    las keys guardadas dejarían de apuntar a los objetos.
+   */
+  async upsert(dto: UpsertRootDto) {
+    const name = (dto.name ?? '').trim();
+    if (!isValidRootName(name)) {
+      throw new BadRequestException(
+        'Invalid root name (letters, digits, ".", "_", "-"; cannot start with "." or contain "/")',
+      );
+    }
+
+    let row = await this.rootRepo.findOne({ where: { name } });
+    const created = !row;
+    const before = row ? this.toConfig(row) : null;
+    if (!row) row = this.rootRepo.create({ name });
+
+    if (dto.bucket !== undefined) row.bucket = dto.bucket?.trim() || null;
+    if (dto.basePrefix !== undefined)
+      row.basePrefix = normBasePrefix(dto.basePrefix);
+    if (dto.employeeScoped !== undefined)
+      row.employeeScoped = dto.employeeScoped;
+    if (dto.defaultUrlExpirySeconds !== undefined)
+      row.defaultUrlExpirySeconds = dto.defaultUrlExpirySeconds;
+    if (dto.allowedEmployees !== undefined) {
+      row.allowedEmployees = dto.allowedEmployees
+        ? [
+            ...new Set(
+              dto.allowedEmployees.map((e) => e.trim()).filter(Boolean),
+            ),
+          ]
+        : null;
+    }
+    if (dto.enabled !== undefined) row.enabled = dto.enabled;
+    if (dto.note !== undefined) row.note = dto.note.trim() || null;
+
+    const after = this.toConfig(row);
+    await this.assertFreeLocation(after);
+
+    const relocated =
+      before &&
+      (before.bucket !== after.bucket ||
+        rootPrefix(before) !== rootPrefix(after) ||
+        before.employeeScoped !== after.employeeScoped);
+    if (relocated && (await this.hasData(name))) {
+      throw new ConflictException(
+        `Root "${name}" already has files: bucket, basePrefix and employeeScoped cannot change (disable it and create a new root instead)`,
+      );
+    }
+
+    row = await this.rootRepo.save(row);
+    await this.refresh();
+
+    this.logger.log(
+      `[upsert] ${name} ${created ? 'created' : 'updated'} | ${JSON.stringify(after)}`,
+    );
+    return {
+      success: true,
+      message: created ? 'Root created' : 'Root updated',
+      root: this.toDto(row),
+    };
+  }
+
+  /** Solo roots sin archivos; uno con datos se deshabilita (enabled: false). */
+  async remove(dto: RemoveRootDto) {
+    const name = (dto.name ?? '').trim();
+    const row = await this.rootRepo.findOne({ where: { name } });
+    if (!row) throw new BadRequestException('Root not found');
+
+    if (await this.hasData(name)) {
+      throw new ConflictException(
+        `Root "${name}" has files: disable it (enabled: false) instead of removing it`,
+      );
+    }
+
+    await this.rootRepo.delete({ id: row.id });
+    await this.refresh();
+
+    this.logger.log(`[remove] ${name}`);
+    return { success: true, message: 'Root removed' };
+  }
+
+  /** Dos roots en el mismo bucket no pueden compartir ni anidar su prefijo físico. */
+  private async assertFreeLocation(root: NovaS3RootConfig) {
+    const others = await this.rootRepo.find({
+      where: { name: Not(root.name) },
+    });
+    const bucketOf = (r: { bucket: string | null }) =>
+      r.bucket ?? this.config.get<string>('BUCKET') ?? null;
+
+    const clash = others.find(
+      (o) =>
+        bucketOf(o) === bucketOf(root) &&
+        prefixesOverlap(rootPrefix(o), rootPrefix(root)),
+    );
+    if (clash) {
+      throw new ConflictException(
+        `Root "${root.name}" would share its storage location (${rootPrefix(root)}) with root "${clash.name}" (${rootPrefix(clash)})`,
+      );
+    }
+  }
+
+  /**
+   * Objetos del root en S3 según la BD: archivos vivos, papelera (.trash), versiones (.versions)
+   * y multipart abiertos. Los thumbnails (.thumbs) son de archivos vivos o en la papelera.
+   */
+  private async hasData(name: string) {
+    const found = await Promise.all([
+      this.repo.findOne({ where: { root: name }, select: { id: true } }),
+      this.trashRepo.findOne({ where: { root: name }, select: { id: true } }),
+      this.versionRepo.findOne({ where: { root: name }, select: { id: true } }),
+      this.multipartRepo.findOne({
+        where: { root: name, status: 'open' },
+        select: { id: true },
+      }),
+    ]);
+    return found.some((row) => !!row);
+  }
+
+  private toConfig(row: NovaS3Root): NovaS3RootConfig {
+    return {
+      name: row.name,
+      bucket: row.bucket ?? null,
+      basePrefix: row.basePrefix ?? null,
+      employeeScoped: row.employeeScoped ?? true,
+      defaultUrlExpirySeconds: row.defaultUrlExpirySeconds ?? null,
+      allowedEmployees: row.allowedEmployees ?? null,
+      enabled: row.enabled ?? true,
+    };
+  }
+
+  private toDto(row: NovaS3Root) {
+    const config = this.toConfig(row);
+    return {
+      id: row.id,
+      ...config,
+      // dónde quedan realmente los objetos
+      effectiveBucket:
+        config.bucket ?? this.config.get<string>('BUCKET') ?? null,
+      effectivePrefix: rootPrefix(config),
+      note: row.note,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
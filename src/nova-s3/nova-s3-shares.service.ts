@@ -0,0 +1,352 @@
+/* src/nova-s3/nova-s3-shares.service.ts
+ *
+ * NOVA S3 — links públicos (share links) para files y folders.
+ *
+ * El dueño crea el link (expiry / password / límite de descargas opcionales) y lo revoca.
+ * Quien tiene el token lo resuelve SIN employeeNumber:
+ * - file share   => presigned GET fresco (cuenta como descarga)
+ * - folder share => listado del folder (o de una subcarpeta), o presigned GET de un archivo interno
+ *
+ * Nunca se expone el path real del dueño: los paths de la respuesta son relativos al item compartido.
+ */
+import {
+  BadRequestException,
+  GoneException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Share } from './entities/nova-s3-share.entity';
+import {
+  CreateShareDto,
+  ResolveShareDto,
+  RevokeShareDto,
+} from './dto/share.dto';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import {
+  buildTenantS3Key,
+  clampExpiry,
+  joinPath,
+  normPath,
+  normRoot,
+} from './utils/nova-s3-path.util';
+import {
+  generateShareToken,
+  hashSharePassword,
+  verifySharePassword,
+} from './utils/nova-s3-share.util';
+
+@Injectable()
+export class NovaS3SharesService {
+  private readonly logger = new Logger(NovaS3SharesService.name);
+
+  // ✅ Vida de la presigned URL que devuelve un link (el link puede durar días, la URL no)
+  private readonly SHARE_URL_EXPIRES_SECONDS = clampExpiry(
+    Number(process.env.NOVA_S3_SHARE_URL_EXPIRES_SECONDS ?? 300),
+    300,
+  );
+
+  constructor(
+    private readonly storage: NovaS3StorageUtil,
+
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    @InjectRepository(NovaS3Share)
+    private readonly shareRepo: Repository<NovaS3Share>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Owner side (employeeNumber requerido)
+  // ---------------------------------------------------------------------------
+
+  async create(dto: CreateShareDto) {
+    const root = normRoot(dto.root);
+    const path = normPath(dto.path);
+    if (!path) throw new BadRequestException('path is required');
+
+    const item = await this.repo.findOne({
+      where: { root, employeeNumber: dto.employeeNumber, path } as any,
+    });
+    if (!item) throw new BadRequestException('Item not found in DB');
+
+    const share = await this.shareRepo.save(
+      this.shareRepo.create({
+        token: generateShareToken(),
+        root,
+        employeeNumber: dto.employeeNumber,
+        itemId: item.id,
+        itemType: item.type,
+        expiresAt: dto.expiresInHours
+          ? new Date(Date.now() + dto.expiresInHours * 60 * 60 * 1000)
+          : null,
+        passwordHash: dto.password ? hashSharePassword(dto.password) : null,
+        maxDownloads: dto.maxDownloads ?? null,
+      }),
+    );
+
+    this.logger.log(
+      `[create] share ${share.id} for ${root}/${dto.employeeNumber}/${path} (${item.type})`,
+    );
+
+    return {
+      success: true,
+      message: 'Share link created',
+      ...this.toShareDto(share, item),
+    };
+  }
+
+  /**
+   * Links del dueño. `path` opcional: solo los del item en ese path.
+   */
+  async list(rootIn: string, employeeNumber: string, pathIn?: string) {
+    const root = normRoot(rootIn);
+    const where: any = { root, employeeNumber };
+
+    if (pathIn) {
+      const item = await this.repo.findOne({
+        where: { root, employeeNumber, path: normPath(pathIn) } as any,
+        select: { id: true } as any,
+      });
+      if (!item) return { success: true, total: 0, items: [] };
+      where.itemId = item.id;
+    }
+
+    const shares = await this.shareRepo.find({
+      where,
+      order: { createdAt: 'DESC' },
+    });
+
+    // path ACTUAL de cada item (puede haber cambiado por rename/move)
+    const ids = Array.from(new Set(shares.map((s) => s.itemId)));
+    const items = ids.length
+      ? await this.repo
+          .createQueryBuilder('n')
+          .select(['n.id', 'n.path', 'n.name', 'n.type'])
+          .where('n.id IN (:...ids)', { ids })
+          .getMany()
+      : [];
+    const byId = new Map(items.map((i) => [i.id, i]));
+
+    return {
+      success: true,
+      total: shares.length,
+      items: shares.map((s) => this.toShareDto(s, byId.get(s.itemId) ?? null)),
+    };
+  }
+
+  async revoke(dto: RevokeShareDto) {
+    const share = await this.shareRepo.findOne({
+      where: {
+        id: dto.shareId,
+        root: normRoot(dto.root),
+        employeeNumber: dto.employeeNumber,
+      },
+    });
+    if (!share) throw new BadRequestException('Share link not found');
+
+    if (!share.revokedAt) {
+      share.revokedAt = new Date();
+      await this.shareRepo.save(share);
+    }
+
+    this.logger.log(`[revoke] share ${share.id}`);
+    return {
+      success: true,
+      message: 'Share link revoked',
+      shareId: share.id,
+      revokedAt: share.revokedAt,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Public side (solo token)
+  // ---------------------------------------------------------------------------
+
+  async resolve(token: string, dto: ResolveShareDto) {
+    const share = await this.shareRepo.findOne({ where: { token } });
+    if (!share) throw new NotFoundException('Share link not found');
+
+    if (share.revokedAt) throw new GoneException('This share link was revoked');
+    if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) {
+      throw new GoneException('This share link has expired');
+    }
+
+    if (share.passwordHash) {
+      if (!dto.password)
+        throw new UnauthorizedException('This share link requires a password');
+      if (!verifySharePassword(dto.password, share.passwordHash)) {
+        throw new UnauthorizedException('Invalid password');
+      }
+    }
+
+    const item = await this.repo.findOne({ where: { id: share.itemId } });
+    if (!item)
+      throw new GoneException('The shared item is no longer available');
+
+    await this.shareRepo
+      .createQueryBuilder()
+      .update(NovaS3Share)
+      .set({
+        accessCount: () => '"accessCount" + 1',
+        lastAccessedAt: () => 'now()',
+      })
+      .where('id = :id', { id: share.id })
+      .execute();
+
+    if (item.type !== 'folder') {
+      return this.issueFileUrl(share, item, item.name);
+    }
+
+    // Folder share: path interno (relativo al folder compartido)
+    const inner = normPath(dto.path);
+    if (!inner) return this.listInside(share, item, item.path);
+
+    const target = await this.repo.findOne({
+      where: {
+        root: item.root,
+        employeeNumber: item.employeeNumber,
+        path: joinPath(item.path, inner),
+      } as any,
+    });
+    if (!target)
+      throw new NotFoundException('Item not found in this shared folder');
+
+    return target.type === 'folder'
+      ? this.listInside(share, item, target.path)
+      : this.issueFileUrl(share, target, inner);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Cuenta la descarga con un UPDATE condicional (atómico): dos requests simultáneos
+   * no pueden pasarse del límite.
+   */
+  private async issueFileUrl(
+    share: NovaS3Share,
+    file: NovaS3,
+    relPath: string,
+  ) {
+    const res = await this.shareRepo
+      .createQueryBuilder()
+      .update(NovaS3Share)
+      .set({ downloadCount: () => '"downloadCount" + 1' })
+      .where('id = :id', { id: share.id })
+      .andWhere('("maxDownloads" IS NULL OR "downloadCount" < "maxDownloads")')
+      .execute();
+
+    if (!res.affected)
+      throw new GoneException('This share link reached its download limit');
+
+    const key =
+      file.s3Key ??
+      buildTenantS3Key(file.root, file.employeeNumber, file.path, false);
+    const signed = await this.storage.presignedGetUrlForKey(
+      key,
+      this.SHARE_URL_EXPIRES_SECONDS,
+      file.name,
+    );
+    if (!signed?.success || !signed?.url) {
+      throw new BadRequestException(
+        signed?.error ?? 'Failed to generate presigned url',
+      );
+    }
+
+    return {
+      success: true,
+      type: 'file',
+      name: file.name,
+      path: relPath,
+      size: file.size != null ? Number(file.size) : null,
+      mimeType: file.mimeType,
+      url: signed.url,
+      expiresSeconds: this.SHARE_URL_EXPIRES_SECONDS,
+      downloadsLeft:
+        share.maxDownloads !== null
+          ? Math.max(share.maxDownloads - share.downloadCount - 1, 0)
+          : null,
+    };
+  }
+
+  private async listInside(
+    share: NovaS3Share,
+    sharedFolder: NovaS3,
+    folderPath: string,
+  ) {
+    const children = await this.repo.find({
+      where: {
+        root: sharedFolder.root,
+        employeeNumber: sharedFolder.employeeNumber,
+        parentPath: folderPath,
+      } as any,
+      order: { type: 'ASC', name: 'ASC' } as any,
+    });
+
+    const strip = (p: string) =>
+      p === sharedFolder.path ? '' : p.slice(sharedFolder.path.length + 1);
+
+    return {
+      success: true,
+      type: 'folder',
+      name: sharedFolder.name,
+      path: strip(folderPath),
+      total: children.length,
+      items: children.map((c) => ({
+        name: c.name,
+        path: strip(c.path),
+        type: c.type === 'folder' ? 'folder' : 'file',
+        size: c.size != null ? Number(c.size) : null,
+        mimeType: c.mimeType,
+        lastModified: c.updatedAt,
+      })),
+      downloadsLeft:
+        share.maxDownloads !== null
+          ? Math.max(share.maxDownloads - share.downloadCount, 0)
+          : null,
+    };
+  }
+
+  /** Shape público del link para el dueño (sin passwordHash). */
+  private toShareDto(
+    share: NovaS3Share,
+    item: Pick<NovaS3, 'path' | 'name' | 'type'> | null,
+  ) {
+    const now = Date.now();
+    const status = share.revokedAt
+      ? 'revoked'
+      : share.expiresAt && share.expiresAt.getTime() <= now
+        ? 'expired'
+        : share.maxDownloads !== null &&
+            share.downloadCount >= share.maxDownloads
+          ? 'exhausted'
+          : !item
+            ? 'unavailable'
+            : 'active';
+
+    return {
+      shareId: share.id,
+      token: share.token,
+      itemId: share.itemId,
+      itemType: share.itemType,
+      path: item?.path ?? null,
+      name: item?.name ?? null,
+      expiresAt: share.expiresAt,
+      hasPassword: !!share.passwordHash,
+      maxDownloads: share.maxDownloads,
+      downloadCount: share.downloadCount,
+      accessCount: share.accessCount,
+      lastAccessedAt: share.lastAccessedAt,
+      revokedAt: share.revokedAt,
+      createdAt: share.createdAt,
+      status,
+    };
+  }
+}
@@ -0,0 +1,235 @@
+/* src/nova-s3/nova-s3-tags.service.ts
+ *
+ * NOVA S3 — tags y properties de usuario sobre files / folders.
+ *
+ * ✅ Viven en la misma fila de nova_s3 (`tags` text[], `properties` jsonb):
+ *    rename / move no tienen que hacer nada, copy y papelera los llevan con la fila.
+ * ✅ Un tag es único por empleado sin distinguir mayúsculas: si "Invoice" ya existe,
+ *    agregar "invoice" reutiliza "Invoice" (así el filtro `tags @> ...` puede usar el índice GIN).
+ */
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { BulkTagDto, UpdatePropertiesDto, UpdateTagsDto } from './dto/tags.dto';
+import { normPath, normRoot } from './utils/nova-s3-path.util';
+import {
+  mergeProperties,
+  mergeTags,
+  normalizeTags,
+} from './utils/nova-s3-tags.util';
+
+@Injectable()
+export class NovaS3TagsService {
+  private readonly logger = new Logger(NovaS3TagsService.name);
+
+  constructor(
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Tags
+  // ---------------------------------------------------------------------------
+
+  /** Agrega / quita tags de UN item. */
+  async updateTags(dto: UpdateTagsDto) {
+    const root = normRoot(dto.root);
+    const emp = dto.employeeNumber;
+    const item = await this.findItem(root, emp, dto.path);
+
+    const add = await this.canonicalTags(root, emp, normalizeTags(dto.add));
+    const tags = mergeTags(item.tags, add, dto.remove ?? []);
+
+    await this.repo.update({ id: item.id }, { tags });
+
+    this.logger.log(
+      `[updateTags] ${root}/${emp}/${item.path} -> [${tags.join(', ')}]`,
+    );
+
+    return {
+      success: true,
+      message: 'Tags updated',
+      item: this.toTaggedItem({ ...item, tags }),
+    };
+  }
+
+  /**
+   * Tags en lote sobre una selección (el folder en sí, no su subárbol).
+   * Paths inexistentes o que pasarían el máximo de tags se reportan sin frenar el resto.
+   */
+  async bulkTag(dto: BulkTagDto) {
+    const root = normRoot(dto.root);
+    const emp = dto.employeeNumber;
+
+    if (!dto.add?.length && !dto.remove?.length) {
+      throw new BadRequestException('Nothing to do: send add and/or remove');
+    }
+
+    const paths = [
+      ...new Set(dto.paths.map((p) => normPath(p)).filter(Boolean)),
+    ];
+    const add = await this.canonicalTags(root, emp, normalizeTags(dto.add));
+    const remove = dto.remove ?? [];
+
+    const rows = await this.repo.find({
+      where: { root, employeeNumber: emp, path: In(paths) } as any,
+    });
+    const found = new Set(rows.map((r) => r.path));
+
+    const changes: { id: string; tags: string[] }[] = [];
+    const failed: { path: string; error: string }[] = [];
+    let unchanged = 0;
+
+    for (const row of rows) {
+      try {
+        const current = row.tags ?? [];
+        const tags = mergeTags(current, add, remove);
+        const same =
+          tags.length === current.length &&
+          tags.every((t, i) => t === current[i]);
+        if (same) unchanged++;
+        else changes.push({ id: row.id, tags });
+      } catch (e: any) {
+        failed.push({ path: row.path, error: e?.message ?? String(e) });
+      }
+    }
+
+    if (changes.length) {
+      await this.repo.manager.transaction(async (em) => {
+        for (const change of changes)
+          await em.update(NovaS3, { id: change.id }, { tags: change.tags });
+      });
+    }
+
+    this.logger.log(
+      `[bulkTag] ${root}/${emp} updated=${changes.length} unchanged=${unchanged} failed=${failed.length}`,
+    );
+
+    return {
+      success: true,
+      updated: changes.length,
+      unchanged,
+      notFound: paths.filter((p) => !found.has(p)),
+      failed,
+    };
+  }
+
+  /** Tags que usa el empleado con la cantidad de items de cada uno (más usados primero). */
+  async tagCounts(rootIn: string, employeeNumber: string) {
+    const root = normRoot(rootIn);
+
+    const rows = await this.repo.manager
+      .createQueryBuilder()
+      .select('x.tag', 'tag')
+      .addSelect('COUNT(*)', 'count')
+      .from((qb) => this.unnestTags(qb.subQuery(), root, employeeNumber), 'x')
+      .groupBy('x.tag')
+      .orderBy('COUNT(*)', 'DESC')
+      .addOrderBy('x.tag', 'ASC')
+      .getRawMany();
+
+    return {
+      success: true,
+      root,
+      total: rows.length,
+      items: rows.map((r) => ({ tag: r.tag, count: Number(r.count) })),
+    };
+  }
+
+  /**
+   * Reemplaza cada tag por la grafía que el empleado ya usa (case-insensitive).
+   * La usan los writes y también los filtros de list / search.
+   */
+  async canonicalTags(
+    root: string,
+    employeeNumber: string | null,
+    tags: string[],
+  ) {
+    if (!tags.length) return tags;
+
+    const rows = await this.repo.manager
+      .createQueryBuilder()
+      .select('DISTINCT x.tag', 'tag')
+      .from((qb) => this.unnestTags(qb.subQuery(), root, employeeNumber), 'x')
+      .where('lower(x.tag) IN (:...lowered)', {
+        lowered: tags.map((t) => t.toLowerCase()),
+      })
+      .getRawMany();
+
+    const existing = new Map<string, string>(
+      rows.map((r) => [String(r.tag).toLowerCase(), r.tag]),
+    );
+    return tags.map((t) => existing.get(t.toLowerCase()) ?? t);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Properties
+  // ---------------------------------------------------------------------------
+
+  async updateProperties(dto: UpdatePropertiesDto) {
+    const root = normRoot(dto.root);
+    const emp = dto.employeeNumber;
+    const item = await this.findItem(root, emp, dto.path);
+
+    if (!dto.set && !dto.unset?.length)
+      throw new BadRequestException('Nothing to do: send set and/or unset');
+
+    const properties = mergeProperties(
+      item.properties,
+      dto.set ?? {},
+      dto.unset ?? [],
+    );
+    await this.repo.update({ id: item.id }, { properties });
+
+    this.logger.log(
+      `[updateProperties] ${root}/${emp}/${item.path} keys=${Object.keys(properties).length}`,
+    );
+
+    return {
+      success: true,
+      message: 'Properties updated',
+      item: this.toTaggedItem({ ...item, properties }),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private async findItem(root: string, employeeNumber: string, pathIn: string) {
+    const path = normPath(pathIn);
+    if (!path) throw new BadRequestException('path is required');
+
+    const item = await this.repo.findOne({
+      where: { root, employeeNumber, path } as any,
+    });
+    if (!item) throw new BadRequestException('Item not found in DB');
+    return item;
+  }
+
+  /** SELECT unnest(tags) AS tag de los items del empleado (subquery para agrupar / filtrar). */
+  private unnestTags(
+    qb: SelectQueryBuilder<any>,
+    root: string,
+    employeeNumber: string | null,
+  ) {
+    return qb
+      .select('unnest(n.tags)', 'tag')
+      .from(NovaS3, 'n')
+      .where('n.root = :tagRoot', { tagRoot: root })
+      .andWhere('n.employeeNumber = :tagEmp', { tagEmp: employeeNumber });
+  }
+
+  private toTaggedItem(item: NovaS3) {
+    return {
+      id: item.id,
+      path: item.path,
+      name: item.name,
+      type: item.type,
+      tags: item.tags ?? [],
+      properties: item.properties ?? {},
+    };
+  }
+}
@@ -0,0 +1,357 @@
+/* src/nova-s3/nova-s3-thumbnails.service.ts
+ *
+ * NOVA S3 — thumbnails de imágenes (y primera página de PDFs si libvips puede leerlos).
+ *
+ * ✅ Derivado oculto por id de archivo: {root}/.thumbs/{employeeNumber}/{fileId}.webp
+ *    - rename / move conservan el id => el thumbnail los sigue sin copiar nada
+ *    - papelera lo conserva (restore = mismo id); borrado definitivo / purge lo borran
+ * ✅ Estado en `nova_s3.meta.thumbnail` (processing | ready | failed). Un overwrite reescribe `meta`
+ *    => el estado viejo desaparece y el próximo schedule / GET lo regenera.
+ * ✅ Cola en memoria con concurrencia limitada: nunca bloquea ni rompe el upload que lo dispara.
+ */
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3RootsService } from './nova-s3-roots.service';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import {
+  buildTenantS3Key,
+  normPath,
+  normRoot,
+} from './utils/nova-s3-path.util';
+import { mimeFamilyOf } from './utils/nova-s3-search.util';
+import {
+  needsThumbnail,
+  NovaS3ThumbnailKind,
+  NovaS3ThumbnailState,
+  thumbnailKey,
+  thumbnailKind,
+} from './utils/nova-s3-thumbnail.util';
+
+type NovaS3ThumbnailJob = {
+  fileId: string;
+  jobId: string;
+  kind: NovaS3ThumbnailKind;
+  root: string;
+  employeeNumber: string | null;
+  sourceKey: string;
+  buffer?: Buffer;
+};
+
+@Injectable()
+export class NovaS3ThumbnailsService {
+  private readonly logger = new Logger(NovaS3ThumbnailsService.name);
+
+  // lado mayor del thumbnail (px)
+  private readonly THUMB_SIZE = Number(process.env.NOVA_S3_THUMB_SIZE ?? 256);
+  // originales más grandes no se procesan (se leen enteros en memoria)
+  private readonly THUMB_MAX_SOURCE_BYTES = Number(
+    process.env.NOVA_S3_THUMB_MAX_SOURCE_BYTES ?? 50 * 1024 * 1024,
+  );
+  private readonly THUMB_CONCURRENCY = Math.max(
+    Number(process.env.NOVA_S3_THUMB_CONCURRENCY ?? 2),
+    1,
+  );
+  // `processing` sin terminar después de esto => se reencola (reinicio a mitad del job)
+  private readonly THUMB_STALE_MINUTES = Number(
+    process.env.NOVA_S3_THUMB_STALE_MINUTES ?? 10,
+  );
+
+  // el build prearmado de sharp no trae poppler: PDFs solo si libvips los lee
+  private readonly PDF_SUPPORTED = !!sharp.format.pdf?.input?.buffer;
+
+  private readonly queue: NovaS3ThumbnailJob[] = [];
+  private running = 0;
+
+  constructor(
+    private readonly storage: NovaS3StorageUtil,
+
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    private readonly roots: NovaS3RootsService,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Schedule (después de uploadOne / registerUpload / completeMultipart)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Encola el thumbnail del archivo en `path` (si es imagen / PDF). Best-effort: nunca lanza.
+   * `buffer`: contenido ya en memoria (uploadOne) => no se vuelve a bajar de S3.
+   */
+  async schedule(
+    root: string,
+    employeeNumber: string | null,
+    path: string,
+    buffer?: Buffer,
+  ) {
+    try {
+      const row = await this.repo.findOne({
+        where: {
+          root: normRoot(root),
+          employeeNumber,
+          path: normPath(path),
+          type: 'file',
+        } as any,
+      });
+      if (row) await this.enqueue(row, buffer);
+    } catch (e: any) {
+      this.logger.warn(
+        `[schedule] ${root}/${employeeNumber}/${path} failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // GET /nova-s3/thumbnail
+  // ---------------------------------------------------------------------------
+
+  /**
+   * ready => presigned URL del thumbnail.
+   * Sin thumbnail todavía => lo encola y devuelve `processing` + placeholder (familia del mimeType para el ícono).
+   */
+  async getThumbnail(dto: {
+    root: string;
+    path: string;
+    employeeNumber: string;
+    expiresSeconds?: number;
+  }) {
+    const root = normRoot(dto.root);
+    const path = normPath(dto.path);
+    if (!path) throw new BadRequestException('path is required');
+
+    const row = await this.repo.findOne({
+      where: {
+        root,
+        employeeNumber: dto.employeeNumber,
+        path,
+        type: 'file',
+      } as any,
+    });
+    if (!row) throw new BadRequestException('File not found in DB');
+
+    const placeholder = mimeFamilyOf(row.mimeType) ?? 'file';
+    const base = { success: true, path, placeholder };
+
+    if (!thumbnailKind(row.mimeType, row.name, this.PDF_SUPPORTED)) {
+      return { ...base, status: 'unsupported', url: null };
+    }
+
+    let state = (row.meta?.thumbnail ?? null) as NovaS3ThumbnailState | null;
+    if (needsThumbnail(state, new Date(), this.THUMB_STALE_MINUTES)) {
+      state = await this.enqueue(row);
+    }
+
+    if (state?.status === 'ready' && state.key) {
+      const exp = this.roots.urlExpiry(row.root, dto.expiresSeconds, 60 * 60);
+      const signed = await this.storage.presignedGetUrlForKey(state.key, exp);
+      if (!signed?.success || !signed?.url) {
+        throw new BadRequestException(
+          signed?.error ?? 'Failed to generate presigned url',
+        );
+      }
+      return {
+        ...base,
+        status: 'ready',
+        url: signed.url,
+        width: state.width,
+        height: state.height,
+        expiresSeconds: exp,
+      };
+    }
+
+    return {
+      ...base,
+      status: state?.status ?? 'processing',
+      url: null,
+      error: state?.error,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cleanup (borrado definitivo / purge de papelera)
+  // ---------------------------------------------------------------------------
+
+  async deleteForFiles(
+    root: string,
+    employeeNumber: string | null,
+    fileIds: string[],
+  ) {
+    if (!fileIds.length) return 0;
+    const raw = await this.storage.deleteObjectKeys(
+      fileIds.map((id) => thumbnailKey(root, employeeNumber, id)),
+    );
+    return Number(raw?.deletedCount ?? 0);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cola
+  // ---------------------------------------------------------------------------
+
+  /** Marca `processing` con un jobId nuevo y encola. null si el archivo no admite thumbnail. */
+  private async enqueue(
+    row: NovaS3,
+    buffer?: Buffer,
+  ): Promise<NovaS3ThumbnailState | null> {
+    const kind = thumbnailKind(row.mimeType, row.name, this.PDF_SUPPORTED);
+    if (!kind) return null;
+
+    const state: NovaS3ThumbnailState = {
+      status: 'processing',
+      jobId: randomUUID(),
+      startedAt: new Date().toISOString(),
+    };
+
+    if (row.size != null && Number(row.size) > this.THUMB_MAX_SOURCE_BYTES) {
+      const failed: NovaS3ThumbnailState = {
+        ...state,
+        status: 'failed',
+        error: 'Source file too large for a preview',
+      };
+      await this.writeState(row.id, failed);
+      return failed;
+    }
+
+    await this.writeState(row.id, state);
+
+    this.queue.push({
+      fileId: row.id,
+      jobId: state.jobId,
+      kind,
+      root: row.root,
+      employeeNumber: row.employeeNumber,
+      sourceKey:
+        row.s3Key ??
+        buildTenantS3Key(row.root, row.employeeNumber, row.path, false),
+      buffer:
+        buffer && buffer.length <= this.THUMB_MAX_SOURCE_BYTES
+          ? buffer
+          : undefined,
+    });
+    this.drain();
+
+    return state;
+  }
+
+  private drain() {
+    while (this.running < this.THUMB_CONCURRENCY && this.queue.length) {
+      const job = this.queue.shift()!;
+      this.running++;
+      void this.generate(job).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async generate(job: NovaS3ThumbnailJob) {
+    const key = thumbnailKey(job.root, job.employeeNumber, job.fileId);
+
+    try {
+      const input = job.buffer ?? (await this.readSource(job.sourceKey));
+
+      const { data, info } = await sharp(input, {
+        failOn: 'none',
+        page: 0,
+        pages: 1,
+      })
+        .rotate()
+        .resize(this.THUMB_SIZE, this.THUMB_SIZE, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .webp({ quality: 75 })
+        .toBuffer({ resolveWithObject: true });
+
+      const slash = key.lastIndexOf('/');
+      await this.storage.uploadFileGeneral(
+        data,
+        key.slice(slash + 1),
+        'image/webp',
+        key.slice(0, slash),
+      );
+
+      const written = await this.writeState(
+        job.fileId,
+        {
+          status: 'ready',
+          jobId: job.jobId,
+          key,
+          width: info.width,
+          height: info.height,
+          generatedAt: new Date().toISOString(),
+        },
+        job.jobId,
+      );
+      this.logger.log(
+        `[generate] ${job.kind} ${job.fileId} -> ${key}${written ? '' : ' (superseded)'}`,
+      );
+    } catch (e: any) {
+      this.logger.warn(
+        `[generate] ${job.kind} ${job.fileId} failed: ${e?.message ?? e}`,
+      );
+      await this.writeState(
+        job.fileId,
+        {
+          status: 'failed',
+          jobId: job.jobId,
+          error: String(e?.message ?? e).slice(0, 300),
+        },
+        job.jobId,
+      ).catch(() => undefined);
+    }
+  }
+
+  /** Baja el original con tope de bytes (los thumbnails se arman en memoria). */
+  private async readSource(key: string) {
+    const stream: Readable | null = await this.storage.getObjectStreamKey(key);
+    if (!stream) throw new Error('Source object not found in S3');
+
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for await (const chunk of stream) {
+      total += (chunk as Buffer).length;
+      if (total > this.THUMB_MAX_SOURCE_BYTES) {
+        stream.destroy();
+        throw new Error('Source file too large for a preview');
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Escribe meta.thumbnail sin tocar el resto de `meta` ni `updatedAt` (no es un cambio del archivo).
+   * Con `expectedJobId`: solo si ese job sigue siendo el vigente (un overwrite / job nuevo gana).
+   */
+  private async writeState(
+    fileId: string,
+    state: NovaS3ThumbnailState,
+    expectedJobId?: string,
+  ) {
+    const qb = this.repo
+      .createQueryBuilder()
+      .update(NovaS3)
+      .set({
+        meta: () =>
+          `COALESCE("meta", '{}'::jsonb) || jsonb_build_object('thumbnail', CAST(:thumb AS jsonb))`,
+        updatedAt: () => '"updatedAt"',
+      } as any)
+      .where('id = :id', { id: fileId })
+      .setParameter('thumb', JSON.stringify(state));
+
+    if (expectedJobId)
+      qb.andWhere(`"meta" -> 'thumbnail' ->> 'jobId' = :jobId`, {
+        jobId: expectedJobId,
+      });
+
+    const res = await qb.execute();
+    return (res.affected ?? 0) > 0;
+  }
+}
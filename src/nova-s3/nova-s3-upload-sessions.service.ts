@@ -0,0 +1,312 @@
+/* src/nova-s3/nova-s3-upload-sessions.service.ts
+ *
+ * NOVA S3 — sesiones de upload directo (presignBatch -> PUTs del browser -> registerBatch).
+ *
+ * ✅ presignBatch crea la sesión con los archivos esperados.
+ * ✅ register / registerBatch / completeMultipart los marcan `done` por s3Key (el cliente no manda nada nuevo).
+ * ✅ El vencimiento (HEAD + auto-register / abort) lo corre NovaS3Service: necesita su registerBatch.
+ *    Aquí solo está el estado.
+ */
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isUUID } from 'class-validator';
+import { In, LessThan, Repository, UpdateQueryBuilder } from 'typeorm';
+
+import { NovaS3UploadSession } from './entities/nova-s3-upload-session.entity';
+import {
+  NovaS3UploadSessionFile,
+  NovaS3UploadSessionFileKind,
+  NovaS3UploadSessionFileResolution,
+  NovaS3UploadSessionFileStatus,
+} from './entities/nova-s3-upload-session-file.entity';
+import { normRoot } from './utils/nova-s3-path.util';
+import {
+  sessionCounts,
+  sessionExpiresAt,
+} from './utils/nova-s3-upload-session.util';
+
+@Injectable()
+export class NovaS3UploadSessionsService {
+  private readonly logger = new Logger(NovaS3UploadSessionsService.name);
+
+  // margen después del vencimiento de las URLs (un PUT que empezó justo antes puede seguir subiendo)
+  private readonly GRACE_MINUTES = Number(
+    process.env.NOVA_S3_UPLOAD_SESSION_GRACE_MINUTES ?? 60,
+  );
+
+  constructor(
+    @InjectRepository(NovaS3UploadSession)
+    private readonly sessionRepo: Repository<NovaS3UploadSession>,
+
+    @InjectRepository(NovaS3UploadSessionFile)
+    private readonly fileRepo: Repository<NovaS3UploadSessionFile>,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Hooks (presignBatch / register* / abortMultipart)
+  // ---------------------------------------------------------------------------
+
+  async create(dto: {
+    root: string;
+    employeeNumber: string;
+    actorEmployeeNumber?: string | null;
+    basePath: string;
+    urlExpiresSeconds: number;
+    files: {
+      path: string;
+      s3Key: string;
+      size: number;
+      contentType: string;
+      kind: NovaS3UploadSessionFileKind;
+      uploadId?: string | null;
+    }[];
+  }) {
+    const session = await this.sessionRepo.save(
+      this.sessionRepo.create({
+        root: normRoot(dto.root),
+        employeeNumber: dto.employeeNumber,
+        actorEmployeeNumber: dto.actorEmployeeNumber ?? null,
+        basePath: dto.basePath,
+        status: 'open',
+        totalFiles: dto.files.length,
+        expiresAt: sessionExpiresAt(
+          new Date(),
+          dto.urlExpiresSeconds,
+          this.GRACE_MINUTES,
+        ),
+      }),
+    );
+
+    for (let i = 0; i < dto.files.length; i += 1000) {
+      await this.fileRepo.insert(
+        dto.files.slice(i, i + 1000).map((f) => ({
+          sessionId: session.id,
+          path: f.path,
+          s3Key: f.s3Key,
+          size: f.size,
+          contentType: f.contentType,
+          kind: f.kind,
+          uploadId: f.uploadId ?? null,
+          status: 'pending' as const,
+        })),
+      );
+    }
+
+    this.logger.log(
+      `[create] ${session.id} ${session.root}/${session.employeeNumber} files=${dto.files.length}`,
+    );
+    return session;
+  }
+
+  /**
+   * Marca `done` los archivos pendientes con estas keys en las sesiones abiertas del espacio.
+   * Best-effort: el registro del archivo ya ocurrió, la sesión es solo seguimiento.
+   */
+  async markRegistered(root: string, employeeNumber: string, s3Keys: string[]) {
+    if (!s3Keys.length) return;
+
+    try {
+      const touched = new Set<string>();
+      for (let i = 0; i < s3Keys.length; i += 1000) {
+        const ids = await this.resolvePending('done', 'registered', (qb) =>
+          qb
+            .andWhere('"s3Key" IN (:...keys)', {
+              keys: s3Keys.slice(i, i + 1000),
+            })
+            .andWhere(
+              `"sessionId" IN (SELECT s.id FROM nova_s3_upload_session s
+                WHERE s.root = :root AND s."employeeNumber" = :emp AND s.status = 'open')`,
+              { root: normRoot(root), emp: employeeNumber },
+            ),
+        );
+        ids.forEach((id) => touched.add(id));
+      }
+      if (touched.size) await this.completeIfDone(Array.from(touched));
+    } catch (e: any) {
+      this.logger.warn(
+        `[markRegistered] ${root}/${employeeNumber} (${s3Keys.length} keys) failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  /** Multipart abortado por el cliente => `failed` (uploadId es único, no hace falta el empleado). */
+  async markAborted(s3Key: string, uploadId: string) {
+    try {
+      const ids = await this.resolvePending('failed', 'aborted', (qb) =>
+        qb
+          .andWhere('"s3Key" = :key', { key: s3Key })
+          .andWhere('"uploadId" = :uploadId', { uploadId }),
+      );
+      if (ids.length) await this.completeIfDone(ids);
+    } catch (e: any) {
+      this.logger.warn(
+        `[markAborted] ${s3Key} (${uploadId}) failed: ${e?.message ?? e}`,
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Status
+  // ---------------------------------------------------------------------------
+
+  /** Sesión con conteos y archivos. Solo el dueño del espacio o quien subió. */
+  async status(sessionId: string, employeeNumber: string) {
+    if (!isUUID(sessionId))
+      throw new BadRequestException('sessionId must be a UUID');
+    const session = await this.sessionRepo.findOne({
+      where: { id: sessionId },
+    });
+    if (!session) throw new BadRequestException('Upload session not found');
+    if (
+      session.employeeNumber !== employeeNumber &&
+      session.actorEmployeeNumber !== employeeNumber
+    ) {
+      throw new ForbiddenException(
+        'Upload session belongs to another employee',
+      );
+    }
+
+    const files = await this.fileRepo.find({
+      where: { sessionId },
+      order: { path: 'ASC' },
+    });
+
+    return {
+      success: true,
+      session: {
+        id: session.id,
+        root: session.root,
+        employeeNumber: session.employeeNumber,
+        actorEmployeeNumber: session.actorEmployeeNumber,
+        basePath: session.basePath,
+        status: session.status,
+        expiresAt: session.expiresAt,
+        createdAt: session.createdAt,
+        closedAt: session.closedAt,
+      },
+      counts: sessionCounts(files),
+      files: files.map((f) => ({
+        path: f.path,
+        s3Key: f.s3Key,
+        kind: f.kind,
+        size: f.size != null ? Number(f.size) : null,
+        status: f.status,
+        resolution: f.resolution,
+        error: f.error,
+        resolvedAt: f.resolvedAt,
+      })),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Vencimiento (lo maneja NovaS3Service)
+  // ---------------------------------------------------------------------------
+
+  /** Sesiones abiertas ya vencidas, las más viejas primero. */
+  async dueForExpiry(limit = 50) {
+    return this.sessionRepo.find({
+      where: { status: 'open', expiresAt: LessThan(new Date()) },
+      order: { expiresAt: 'ASC' },
+      take: limit,
+    });
+  }
+
+  async pendingFiles(sessionId: string) {
+    return this.fileRepo.find({
+      where: { sessionId, status: 'pending' },
+      order: { path: 'ASC' },
+    });
+  }
+
+  async resolveFiles(
+    ids: string[],
+    status: Exclude<NovaS3UploadSessionFileStatus, 'pending'>,
+    resolution: NovaS3UploadSessionFileResolution,
+    error?: string | null,
+  ) {
+    for (let i = 0; i < ids.length; i += 1000) {
+      await this.fileRepo.update(
+        { id: In(ids.slice(i, i + 1000)), status: 'pending' },
+        {
+          status,
+          resolution,
+          error: error ? error.slice(0, 500) : null,
+          resolvedAt: new Date(),
+        },
+      );
+    }
+  }
+
+  /** El auto-register falló después de marcar `autoRegistered` => failed con el motivo. */
+  async markRegisterFailed(ids: string[], error: string) {
+    for (let i = 0; i < ids.length; i += 1000) {
+      await this.fileRepo.update(
+        { id: In(ids.slice(i, i + 1000)), resolution: 'autoRegistered' },
+        {
+          status: 'failed',
+          resolution: 'registerFailed',
+          error: error.slice(0, 500),
+          resolvedAt: new Date(),
+        },
+      );
+    }
+  }
+
+  /** Cierra la sesión vencida (los archivos ya quedaron resueltos). */
+  async closeExpired(sessionId: string) {
+    const files = await this.fileRepo.find({
+      where: { sessionId },
+      select: { id: true, status: true },
+    });
+    await this.sessionRepo.update(
+      { id: sessionId, status: 'open' },
+      { status: 'expired', closedAt: new Date() },
+    );
+    return sessionCounts(files);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  /** Resuelve los archivos pendientes que cumplan `scope`. Devuelve los ids de sesión tocados. */
+  private async resolvePending(
+    status: Exclude<NovaS3UploadSessionFileStatus, 'pending'>,
+    resolution: NovaS3UploadSessionFileResolution,
+    scope: (
+      qb: UpdateQueryBuilder<NovaS3UploadSessionFile>,
+    ) => UpdateQueryBuilder<NovaS3UploadSessionFile>,
+  ) {
+    const qb = this.fileRepo
+      .createQueryBuilder()
+      .update(NovaS3UploadSessionFile)
+      .set({ status, resolution, resolvedAt: new Date() })
+      .where('status = :pending', { pending: 'pending' });
+
+    const res = await scope(qb).returning(['sessionId']).execute();
+    return Array.from(
+      new Set(
+        ((res.raw ?? []) as { sessionId: string }[]).map((r) => r.sessionId),
+      ),
+    );
+  }
+
+  /** Sesiones sin archivos pendientes => completed. */
+  private async completeIfDone(sessionIds: string[]) {
+    await this.sessionRepo
+      .createQueryBuilder()
+      .update(NovaS3UploadSession)
+      .set({ status: 'completed', closedAt: () => 'now()' })
+      .where('id IN (:...ids)', { ids: sessionIds })
+      .andWhere(`status = 'open'`)
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM nova_s3_upload_session_file f WHERE f."sessionId" = nova_s3_upload_session.id AND f.status = 'pending')`,
+      )
+      .execute();
+  }
+}
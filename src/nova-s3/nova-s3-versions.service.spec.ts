@@ -0,0 +1,140 @@
+/* src/nova-s3/nova-s3-versions.service.spec.ts */
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { NovaS3VersionsService } from './nova-s3-versions.service';
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Version } from './entities/nova-s3-version.entity';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import { NovaS3FolderSizesService } from './nova-s3-folder-sizes.service';
+import { NovaS3RootsService } from './nova-s3-roots.service';
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const ROOT = 'nova-s3';
+const EMP = 'EMP1';
+const FILE_ID = '3f2504e0-4f89-41d3-9a0c-0305e82c3301';
+const LIVE_KEY = `${ROOT}/${EMP}/Finance/report.pdf`;
+const PENDING_KEY = `${ROOT}/.versions/${EMP}/${FILE_ID}/pending`;
+
+const FILE = {
+  id: FILE_ID,
+  root: ROOT,
+  employeeNumber: EMP,
+  path: 'Finance/report.pdf',
+  type: 'file',
+  s3Key: LIVE_KEY,
+  size: '100',
+  mimeType: 'application/pdf',
+  contentHash: null,
+} as unknown as NovaS3;
+
+describe('NovaS3VersionsService — presigned PUT', () => {
+  let service: NovaS3VersionsService;
+  let storage: Record<string, jest.Mock>;
+  let versionRepo: Record<string, jest.Mock>;
+  // objects in S3 by key: the HEAD answers from here
+  let objects: Map<string, { size: number; etag: string }>;
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    objects = new Map([[LIVE_KEY, { size: 100, etag: '"old"' }]]);
+    storage = {
+      headObjectKey: jest.fn((key: string) => {
+        const o = objects.get(key);
+        return Promise.resolve(o ? { exists: true, ...o } : { exists: false });
+      }),
+      copyObjectKey: jest.fn((from: string, to: string) => {
+        objects.set(to, objects.get(from)!);
+        return Promise.resolve({ success: true });
+      }),
+      deleteObjectKey: jest.fn((key: string) => {
+        objects.delete(key);
+        return Promise.resolve({ success: true });
+      }),
+      deleteObjectKeys: jest.fn().mockResolvedValue({ success: true }),
+    };
+    versionRepo = {
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((v: object) => v),
+      save: jest.fn((v: object) => Promise.resolve(v)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NovaS3VersionsService,
+        { provide: NovaS3StorageUtil, useValue: storage },
+        {
+          provide: getRepositoryToken(NovaS3),
+          useValue: { find: jest.fn().mockResolvedValue([FILE]) },
+        },
+        { provide: getRepositoryToken(NovaS3Version), useValue: versionRepo },
+        { provide: NovaS3FolderSizesService, useValue: {} },
+        { provide: NovaS3RootsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(NovaS3VersionsService);
+  });
+
+  it('snapshots the current content on presign without recording a version', async () => {
+    await expect(
+      service.snapshotByPaths(ROOT, EMP, ['Finance/report.pdf']),
+    ).resolves.toBe(1);
+
+    expect(storage.copyObjectKey).toHaveBeenCalledWith(LIVE_KEY, PENDING_KEY);
+    expect(versionRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('turns the snapshot into a version on register and drops it', async () => {
+    await service.snapshotByPaths(ROOT, EMP, ['Finance/report.pdf']);
+    // the browser PUT overwrites the live object
+    objects.set(LIVE_KEY, { size: 150, etag: '"new"' });
+
+    await expect(
+      service.commitPendingByPaths(
+        ROOT,
+        EMP,
+        ['Finance/report.pdf'],
+        'registerUpload',
+      ),
+    ).resolves.toBe(1);
+
+    expect(versionRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fileId: FILE_ID,
+        versionNumber: 1,
+        size: 100,
+        etag: '"old"',
+        reason: 'registerUpload',
+      }),
+    );
+    const [[saved]] = versionRepo.save.mock.calls as [{ s3Key: string }][];
+    expect(objects.get(saved.s3Key)).toEqual({ size: 100, etag: '"old"' });
+    expect(objects.has(PENDING_KEY)).toBe(false);
+  });
+
+  it('records nothing on register when there is no snapshot (new file or multipart)', async () => {
+    await expect(
+      service.commitPendingByPaths(
+        ROOT,
+        EMP,
+        ['Finance/report.pdf'],
+        'registerUpload',
+      ),
+    ).resolves.toBe(0);
+
+    expect(versionRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('deletes the snapshot of a file deleted before registering', async () => {
+    await service.deleteForFiles(ROOT, EMP, [FILE_ID]);
+
+    expect(storage.deleteObjectKeys).toHaveBeenCalledWith([PENDING_KEY]);
+  });
+});
@@ -0,0 +1,525 @@
+/* src/nova-s3/nova-s3-versions.service.ts
+ *
+ * NOVA S3 — historial de versiones por archivo.
+ *
+ * Cada overwrite (uploadOne, upload multiple/folder, presigned PUT, multipart complete,
+ * restore) copia ANTES el contenido actual a {root}/.versions/{employeeNumber}/{fileId}/{versionId}
+ * y registra la fila en `nova_s3_version`. La versión "actual" sigue siendo la fila de `nova_s3`.
+ *
+ * Presigned PUT: el browser sobrescribe sin pasar por el backend, así que el presign solo deja
+ * una copia pendiente ({fileId}/pending); la versión se registra en el register, cuando el
+ * overwrite está confirmado. Un presign sin upload no deja versión.
+ */
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Version } from './entities/nova-s3-version.entity';
+import { PruneVersionsDto, RestoreVersionDto } from './dto/versions.dto';
+import {
+  NovaS3HeadResult,
+  NovaS3StorageUtil,
+} from './utils/nova-s3-storage.util';
+import { NovaS3FolderSizesService } from './nova-s3-folder-sizes.service';
+import { NovaS3RootsService } from './nova-s3-roots.service';
+import {
+  buildTenantS3Key,
+  normPath,
+  normRoot,
+  systemS3Prefix,
+} from './utils/nova-s3-path.util';
+
+/** Lo mínimo para ubicar los objetos de versiones de un archivo (también de uno ya borrado). */
+type NovaS3FileRef = {
+  root: string;
+  employeeNumber: string | null;
+  id: string;
+};
+
+@Injectable()
+export class NovaS3VersionsService {
+  private readonly logger = new Logger(NovaS3VersionsService.name);
+
+  // ✅ Máximo de versiones que se conservan por archivo (0 = sin límite)
+  private readonly KEEP_PER_FILE = Number(
+    process.env.NOVA_S3_VERSIONS_KEEP ?? 20,
+  );
+
+  constructor(
+    private readonly storage: NovaS3StorageUtil,
+
+    @InjectRepository(NovaS3)
+    private readonly repo: Repository<NovaS3>,
+
+    @InjectRepository(NovaS3Version)
+    private readonly versionRepo: Repository<NovaS3Version>,
+
+    private readonly folderSizes: NovaS3FolderSizesService,
+
+    private readonly roots: NovaS3RootsService,
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Hooks (los llama NovaS3Service ANTES de sobrescribir un objeto)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Archiva el contenido actual de `row` como nueva versión.
+   * - Solo files con objeto existente en S3.
+   * - Si la última versión tiene el mismo ETag, no duplica.
+   */
+  async archiveCurrent(
+    row: NovaS3,
+    reason: string,
+  ): Promise<NovaS3Version | null> {
+    if (row.type !== 'file') return null;
+
+    const liveKey =
+      row.s3Key ??
+      buildTenantS3Key(row.root, row.employeeNumber, row.path, false);
+    const head = await this.storage.headObjectKey(liveKey);
+    if (!head.exists) return null;
+
+    return this.saveVersion(row, liveKey, head, reason);
+  }
+
+  /** archiveCurrent por path (si el archivo todavía no existe en BD, no hace nada). */
+  async archiveByPath(
+    root: string,
+    employeeNumber: string | null,
+    path: string,
+    reason: string,
+  ) {
+    const row = await this.repo.findOne({
+      where: { root, employeeNumber, path, type: 'file' } as any,
+    });
+    return row ? this.archiveCurrent(row, reason) : null;
+  }
+
+  /**
+   * archiveCurrent para muchos paths (uploads múltiples / batch).
+   * Una query por cada 1000 paths, solo archiva los que ya existían.
+   */
+  async archiveByPaths(
+    root: string,
+    employeeNumber: string | null,
+    paths: string[],
+    reason: string,
+  ) {
+    let archived = 0;
+    for (const row of await this.findFiles(root, employeeNumber, paths)) {
+      if (await this.archiveCurrent(row, reason)) archived++;
+    }
+    return archived;
+  }
+
+  /**
+   * Presigned PUT: copia el contenido actual a la key pendiente del archivo, sin versión.
+   * Un presign repetido la pisa con el contenido de ese momento. Devuelve cuántos copió.
+   */
+  async snapshotByPaths(
+    root: string,
+    employeeNumber: string | null,
+    paths: string[],
+  ) {
+    let copied = 0;
+    for (const row of await this.findFiles(root, employeeNumber, paths)) {
+      const liveKey =
+        row.s3Key ??
+        buildTenantS3Key(row.root, row.employeeNumber, row.path, false);
+      const head = await this.storage.headObjectKey(liveKey);
+      if (!head.exists) continue;
+
+      await this.storage.copyObjectKey(liveKey, this.pendingKey(row));
+      copied++;
+    }
+    return copied;
+  }
+
+  /**
+   * Register de un presigned PUT: el overwrite está confirmado => la copia pendiente
+   * pasa a ser versión (mismo criterio de ETag que archiveCurrent) y la key pendiente se borra.
+   * Sin copia pendiente (archivo nuevo o multipart, que archiva en el complete) no hace nada.
+   */
+  async commitPendingByPaths(
+    root: string,
+    employeeNumber: string | null,
+    paths: string[],
+    reason: string,
+  ) {
+    let committed = 0;
+    for (const row of await this.findFiles(root, employeeNumber, paths)) {
+      const pendingKey = this.pendingKey(row);
+      const head = await this.storage.headObjectKey(pendingKey);
+      if (!head.exists) continue;
+
+      if (await this.saveVersion(row, pendingKey, head, reason)) committed++;
+      await this.storage.deleteObjectKey(pendingKey);
+    }
+    return committed;
+  }
+
+  /** Copia `sourceKey` (contenido de `row` antes del overwrite) como nueva versión. */
+  private async saveVersion(
+    row: NovaS3,
+    sourceKey: string,
+    head: NovaS3HeadResult,
+    reason: string,
+  ): Promise<NovaS3Version | null> {
+    const latest = await this.versionRepo.findOne({
+      where: { fileId: row.id },
+      order: { versionNumber: 'DESC' },
+    });
+    if (latest?.etag && head.etag && latest.etag === head.etag) return null;
+
+    const id = randomUUID();
+    const s3Key = `${this.fileVersionsPrefix(row)}/${id}`;
+
+    await this.storage.copyObjectKey(sourceKey, s3Key);
+
+    const saved = await this.versionRepo.save(
+      this.versionRepo.create({
+        id,
+        fileId: row.id,
+        root: row.root,
+        employeeNumber: row.employeeNumber,
+        versionNumber: (latest?.versionNumber ?? 0) + 1,
+        s3Key,
+        size: head.size ?? (row.size != null ? Number(row.size) : null),
+        mimeType: head.contentType ?? row.mimeType,
+        etag: head.etag ?? null,
+        contentHash: row.contentHash ?? null,
+        pathAtArchive: row.path,
+        contentUpdatedAt: row.updatedAt ?? null,
+        reason,
+      }),
+    );
+
+    this.logger.log(
+      `[archiveCurrent] ${row.path} -> v${saved.versionNumber} (${reason})`,
+    );
+
+    if (this.KEEP_PER_FILE > 0)
+      await this.pruneFile(row.id, this.KEEP_PER_FILE, null);
+
+    return saved;
+  }
+
+  /**
+   * Vuelve a poner en el path el objeto de su última versión SIN tocar la fila.
+   * Deshace un PUT directo que nunca se registró (upload rechazado por la política de contenido / cuota):
+   * register / completeMultipart archivaron el contenido anterior justo antes.
+   * false = el archivo no existía o no tiene versiones (no hay nada que restaurar).
+   */
+  async restoreLatestObject(
+    root: string,
+    employeeNumber: string | null,
+    path: string,
+  ) {
+    const row = await this.repo.findOne({
+      where: { root, employeeNumber, path, type: 'file' } as any,
+    });
+    if (!row) return false;
+
+    const latest = await this.versionRepo.findOne({
+      where: { fileId: row.id },
+      order: { versionNumber: 'DESC' },
+    });
+    if (!latest) return false;
+
+    await this.storage.copyObjectKey(
+      latest.s3Key,
+      row.s3Key ??
+        buildTenantS3Key(row.root, row.employeeNumber, row.path, false),
+    );
+    this.logger.log(
+      `[restoreLatestObject] ${row.path} <- v${latest.versionNumber} (rejected upload)`,
+    );
+    return true;
+  }
+
+  /**
+   * Borrado definitivo de todas las versiones de estos archivos (S3 + BD),
+   * incluida la copia pendiente de un presign que nunca se registró.
+   * Lo usan el delete permanente y el purge de la papelera.
+   */
+  async deleteForFiles(
+    root: string,
+    employeeNumber: string | null,
+    fileIds: string[],
+  ) {
+    let deleted = 0;
+
+    for (let i = 0; i < fileIds.length; i += 1000) {
+      const chunk = fileIds.slice(i, i + 1000);
+      const versions = await this.versionRepo.find({
+        where: { fileId: In(chunk) },
+      });
+      deleted += await this.deleteVersions(versions);
+      await this.storage.deleteObjectKeys(
+        chunk.map((id) => this.pendingKey({ root, employeeNumber, id })),
+      );
+    }
+
+    return deleted;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Endpoints
+  // ---------------------------------------------------------------------------
+
+  async list(rootIn: string, employeeNumber: string, pathIn: string) {
+    const row = await this.findFile(rootIn, employeeNumber, pathIn);
+
+    const versions = await this.versionRepo.find({
+      where: { fileId: row.id },
+      order: { versionNumber: 'DESC' },
+    });
+
+    return {
+      success: true,
+      file: {
+        id: row.id,
+        path: row.path,
+        size: row.size != null ? Number(row.size) : null,
+        mimeType: row.mimeType,
+        updatedAt: row.updatedAt,
+      },
+      total: versions.length,
+      versions: versions.map((v) => ({
+        id: v.id,
+        versionNumber: v.versionNumber,
+        size: v.size != null ? Number(v.size) : null,
+        mimeType: v.mimeType,
+        pathAtArchive: v.pathAtArchive,
+        contentUpdatedAt: v.contentUpdatedAt,
+        archivedAt: v.createdAt,
+        reason: v.reason,
+      })),
+    };
+  }
+
+  async getUrl(dto: {
+    root: string;
+    path: string;
+    employeeNumber: string;
+    versionId: string;
+    expiresSeconds?: number;
+  }) {
+    const row = await this.findFile(dto.root, dto.employeeNumber, dto.path);
+    const version = await this.findVersion(row, dto.versionId);
+    const exp = this.roots.urlExpiry(row.root, dto.expiresSeconds, 60 * 5);
+
+    const signed = await this.storage.presignedGetUrlForKey(
+      version.s3Key,
+      exp,
+      row.name,
+    );
+    if (!signed?.success || !signed?.url) {
+      throw new BadRequestException(
+        signed?.error ?? 'Failed to generate presigned url',
+      );
+    }
+
+    return {
+      success: true,
+      url: signed.url,
+      versionId: version.id,
+      versionNumber: version.versionNumber,
+      expiresSeconds: exp,
+    };
+  }
+
+  /**
+   * Restaura una versión como actual.
+   * El contenido actual se archiva primero (restore también es un overwrite),
+   * así que restaurar nunca pierde nada.
+   */
+  async restore(dto: RestoreVersionDto) {
+    const row = await this.findFile(
+      dto.root ?? 'nova-s3',
+      dto.employeeNumber,
+      dto.path,
+    );
+    const version = await this.findVersion(row, dto.versionId);
+    const liveKey =
+      row.s3Key ??
+      buildTenantS3Key(row.root, row.employeeNumber, row.path, false);
+
+    const archived = await this.archiveCurrent(row, 'restoreVersion');
+    await this.storage.copyObjectKey(version.s3Key, liveKey);
+
+    const sizeDelta = Number(version.size ?? 0) - Number(row.size ?? 0);
+    row.size = version.size;
+    row.mimeType = version.mimeType;
+    row.contentHash = version.contentHash;
+    row.meta = {
+      ...(row.meta ?? {}),
+      op: 'restoreVersion',
+      restoredVersionId: version.id,
+    };
+    await this.repo.save(row);
+    await this.folderSizes.apply(row.root, row.employeeNumber, [
+      { path: row.path, files: 0, bytes: sizeDelta },
+    ]);
+
+    this.logger.log(`[restore] ${row.path} <- v${version.versionNumber}`);
+
+    return {
+      success: true,
+      message: `Restored version ${version.versionNumber}`,
+      path: row.path,
+      restoredVersionId: version.id,
+      previousVersionId: archived?.id ?? null,
+    };
+  }
+
+  /**
+   * Poda por cantidad (keepLast) y/o antigüedad (olderThanDays).
+   * Sin path => todos los archivos del empleado en ese root.
+   */
+  async prune(dto: PruneVersionsDto) {
+    if (dto.keepLast === undefined && dto.olderThanDays === undefined) {
+      throw new BadRequestException('keepLast or olderThanDays is required');
+    }
+
+    const cutoff =
+      dto.olderThanDays !== undefined
+        ? new Date(Date.now() - dto.olderThanDays * 24 * 60 * 60 * 1000)
+        : null;
+
+    let fileIds: string[];
+    if (dto.path) {
+      fileIds = [
+        (
+          await this.findFile(
+            dto.root ?? 'nova-s3',
+            dto.employeeNumber,
+            dto.path,
+          )
+        ).id,
+      ];
+    } else {
+      const rows = await this.versionRepo
+        .createQueryBuilder('v')
+        .select('DISTINCT v.fileId', 'fileId')
+        .where('v.root = :root', { root: normRoot(dto.root) })
+        .andWhere('v.employeeNumber = :emp', { emp: dto.employeeNumber })
+        .getRawMany<{ fileId: string }>();
+      fileIds = rows.map((r) => r.fileId);
+    }
+
+    let deleted = 0;
+    for (const fileId of fileIds) {
+      deleted += await this.pruneFile(fileId, dto.keepLast ?? null, cutoff);
+    }
+
+    return {
+      success: true,
+      files: fileIds.length,
+      deleted,
+      message: `Pruned ${deleted} versions`,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private async findFile(
+    rootIn: string,
+    employeeNumber: string,
+    pathIn: string,
+  ) {
+    const root = normRoot(rootIn);
+    const path = normPath(pathIn);
+    if (!path) throw new BadRequestException('path is required');
+
+    const row = await this.repo.findOne({
+      where: { root, employeeNumber, path, type: 'file' } as any,
+    });
+    if (!row) throw new BadRequestException('File not found in DB');
+    return row;
+  }
+
+  /** Files que ya existen en esos paths (una query por cada 1000). */
+  private async findFiles(
+    root: string,
+    employeeNumber: string | null,
+    paths: string[],
+  ) {
+    const unique = Array.from(new Set(paths));
+    const rows: NovaS3[] = [];
+
+    for (let i = 0; i < unique.length; i += 1000) {
+      rows.push(
+        ...(await this.repo.find({
+          where: {
+            root,
+            employeeNumber,
+            path: In(unique.slice(i, i + 1000)),
+            type: 'file',
+          } as any,
+        })),
+      );
+    }
+
+    return rows;
+  }
+
+  private fileVersionsPrefix(row: NovaS3FileRef) {
+    return `${systemS3Prefix(row.root, 'versions', row.employeeNumber)}/${row.id}`;
+  }
+
+  /** Contenido previo a un presigned PUT todavía no registrado (ver snapshotByPaths). */
+  private pendingKey(row: NovaS3FileRef) {
+    return `${this.fileVersionsPrefix(row)}/pending`;
+  }
+
+  private async findVersion(row: NovaS3, versionId: string) {
+    const version = await this.versionRepo.findOne({
+      where: { id: versionId, fileId: row.id },
+    });
+    if (!version)
+      throw new BadRequestException('Version not found for this file');
+    return version;
+  }
+
+  private async pruneFile(
+    fileId: string,
+    keepLast: number | null,
+    cutoff: Date | null,
+  ) {
+    const versions = await this.versionRepo.find({
+      where: { fileId },
+      order: { versionNumber: 'DESC' },
+    });
+
+    const doomed = versions.filter(
+      (v, idx) =>
+        (keepLast !== null && idx >= keepLast) ||
+        (cutoff !== null && v.createdAt < cutoff),
+    );
+
+    return this.deleteVersions(doomed);
+  }
+
+  /** S3 primero; si un objeto no se puede borrar, su fila queda (se reintenta en el próximo prune). */
+  private async deleteVersions(versions: NovaS3Version[]) {
+    let deleted = 0;
+
+    for (const v of versions) {
+      try {
+        await this.storage.deleteObjectKey(v.s3Key);
+        await this.versionRepo.delete({ id: v.id });
+        deleted++;
+      } catch (e: any) {
+        this.logger.error(`[deleteVersions] ${v.s3Key}: ${e?.message ?? e}`);
+      }
+    }
+
+    return deleted;
+  }
+}
@@ -4,15 +4,37 @@ import {
   Controller,
   Delete,
   Get,
+  Param,
   Patch,
   Post,
+  Put,
   Query,
+  Res,
   UploadedFile,
   UploadedFiles,
   UseInterceptors,
 } from '@nestjs/common';
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
 import { NovaS3Service, NovaS3TreeResponseDto } from './nova-s3.service';
+import { NovaS3VersionsService } from './nova-s3-versions.service';
+import { NovaS3SharesService } from './nova-s3-shares.service';
+import { NovaS3GrantCheck, NovaS3GrantsService } from './nova-s3-grants.service';
+import { NovaS3ArchiveService } from './nova-s3-archive.service';
+import { NovaS3ReconcileService } from './nova-s3-reconcile.service';
+import { NovaS3QuotaService } from './nova-s3-quota.service';
+import { NovaS3TagsService } from './nova-s3-tags.service';
+import { NovaS3QuickAccessService } from './nova-s3-quick-access.service';
+import { NovaS3ThumbnailsService } from './nova-s3-thumbnails.service';
+import { NovaS3HashesService } from './nova-s3-hashes.service';
+import { NovaS3MultipartService } from './nova-s3-multipart.service';
+import { NovaS3UploadSessionsService } from './nova-s3-upload-sessions.service';
+import { NovaS3LegacyImportService } from './nova-s3-legacy-import.service';
+import { NovaS3ActivityScope, NovaS3ActivityService } from './nova-s3-activity.service';
+import { NovaS3BulkJobsService } from './nova-s3-bulk-jobs.service';
+import { NovaS3FolderSizesService } from './nova-s3-folder-sizes.service';
+import { NovaS3ContentPolicyService } from './nova-s3-content-policy.service';
+import { NovaS3RootsService } from './nova-s3-roots.service';
 
 import { CreateFolderDto } from './dto/create-folder.dto';
 import { ListFolderDto } from './dto/list-folder.dto';
@@ -20,11 +42,30 @@ import { RenameDto } from './dto/rename.dto';
 import { MoveFileDto } from './dto/move-file.dto';
 import { MoveFolderDto } from './dto/move-folder.dto';
 import { DeleteDto } from './dto/delete.dto';
+import { CopyFileDto, CopyFolderDto } from './dto/copy.dto';
+import { ZipDownloadDto } from './dto/zip.dto';
+import { ReconcileDto } from './dto/reconcile.dto';
+import { SearchDto } from './dto/search.dto';
+import { RecoverOperationsDto } from './dto/operation.dto';
+import { RemoveQuotaDto, SetQuotaDto } from './dto/quota.dto';
+import { BulkTagDto, UpdatePropertiesDto, UpdateTagsDto } from './dto/tags.dto';
+import { StarDto } from './dto/star.dto';
+import { SweepMultipartDto } from './dto/multipart.dto';
+import { LegacyImportDto } from './dto/legacy-import.dto';
+import { BulkJobDto, CancelBulkJobDto } from './dto/bulk.dto';
 import { PresignUploadDto } from './dto/presign-upload.dto';
 import { PresignBatchDto } from './dto/presign-batch.dto';
 import { CompleteMultipartDto, AbortMultipartDto } from './dto/complete-multipart.dto';
 import { RegisterUploadDto } from './dto/register-upload.dto';
 import { RegisterBatchDto } from './dto/register-batch.dto';
+import { PurgeTrashDto, RestoreTrashDto } from './dto/trash.dto';
+import { PruneVersionsDto, RestoreVersionDto } from './dto/versions.dto';
+import { CreateShareDto, ResolveShareDto, RevokeShareDto } from './dto/share.dto';
+import { CreateGrantDto, RevokeGrantDto } from './dto/grant.dto';
+import { RemoveRootDto, UpsertRootDto } from './dto/root.dto';
+import { parentOf } from './utils/nova-s3-path.util';
+import { NOVA_S3_CONFLICT_STRATEGIES, NovaS3ConflictStrategy } from './utils/nova-s3-conflict.util';
+import { spaceOwner } from './utils/nova-s3-root.util';
 
 import {
   ApiBadRequestResponse,
@@ -46,7 +87,27 @@ export class NovaS3Controller {
   private readonly MAX_MULTI_FILES = Number(process.env.NOVA_S3_MAX_MULTI_FILES ?? 3000);
   private readonly MAX_FOLDER_FILES = Number(process.env.NOVA_S3_MAX_FOLDER_FILES ?? 10000);
 
-  constructor(private readonly novaS3Service: NovaS3Service) { }
+  constructor(
+    private readonly novaS3Service: NovaS3Service,
+    private readonly versionsService: NovaS3VersionsService,
+    private readonly sharesService: NovaS3SharesService,
+    private readonly grantsService: NovaS3GrantsService,
+    private readonly archiveService: NovaS3ArchiveService,
+    private readonly reconcileService: NovaS3ReconcileService,
+    private readonly quotaService: NovaS3QuotaService,
+    private readonly tagsService: NovaS3TagsService,
+    private readonly quickAccessService: NovaS3QuickAccessService,
+    private readonly thumbnailsService: NovaS3ThumbnailsService,
+    private readonly hashesService: NovaS3HashesService,
+    private readonly multipartService: NovaS3MultipartService,
+    private readonly uploadSessionsService: NovaS3UploadSessionsService,
+    private readonly legacyImportService: NovaS3LegacyImportService,
+    private readonly activityService: NovaS3ActivityService,
+    private readonly bulkJobsService: NovaS3BulkJobsService,
+    private readonly folderSizesService: NovaS3FolderSizesService,
+    private readonly contentPolicyService: NovaS3ContentPolicyService,
+    private readonly rootsService: NovaS3RootsService,
+  ) { }
 
   // ---------------------------------------------------------------------------
   // Helpers (guard rails)
@@ -60,6 +121,54 @@ export class NovaS3Controller {
     return emp;
   }
 
+  /** Root registrado y habilitado (400 si no). Endpoints admin / sin empleado. */
+  private requireRoot(root?: string) {
+    return this.rootsService.require(root).name;
+  }
+
+  /** requireEmployee + el root existe y el empleado lo puede usar (400 / 403). Devuelve el empleado. */
+  private requireMember(root: string | undefined, employeeNumber?: string) {
+    const emp = this.requireEmployee(employeeNumber);
+    this.rootsService.assertAccess(root, emp);
+    return emp;
+  }
+
+  /**
+   * Como requireMember, pero devuelve el ESPACIO donde corre la operación:
+   * el del empleado, o el compartido si el root no es employee-scoped.
+   */
+  private requireSpace(root: string | undefined, employeeNumber?: string) {
+    return this.rootsService.spaceOf(root, this.requireEmployee(employeeNumber));
+  }
+
+  /**
+   * Folders compartidos: si viene ownerEmployeeNumber (≠ employeeNumber) valida el grant
+   * y devuelve el employeeNumber del DUEÑO => la operación corre en su espacio ({root}/{owner}/...).
+   * Sin ownerEmployeeNumber es lo mismo que requireSpace.
+   * ✅ Root no employee-scoped: todos operan en el espacio compartido (no hay grants que resolver).
+   */
+  private async scopeEmployee(
+    root: string | undefined,
+    employeeNumber: string | undefined,
+    ownerEmployeeNumber: string | undefined,
+    checks: NovaS3GrantCheck[],
+  ) {
+    const emp = this.requireEmployee(employeeNumber);
+    const config = this.rootsService.assertAccess(root, emp);
+    if (!config.employeeScoped) return spaceOwner(config, emp);
+    if (!ownerEmployeeNumber?.trim()) return emp;
+    return this.grantsService.resolveOwner(root, emp, this.requireEmployee(ownerEmployeeNumber), checks);
+  }
+
+  /** `conflictStrategy` de los uploads multipart (query string, sin DTO que lo valide). */
+  private parseConflictStrategy(value?: string): NovaS3ConflictStrategy | undefined {
+    if (!value) return undefined;
+    if (!(NOVA_S3_CONFLICT_STRATEGIES as readonly string[]).includes(value)) {
+      throw new BadRequestException(`conflictStrategy must be one of: ${NOVA_S3_CONFLICT_STRATEGIES.join(', ')}`);
+    }
+    return value as NovaS3ConflictStrategy;
+  }
+
   /**
    * LIST (DB): Lista el contenido de un folder desde la tabla `nova_s3`.
    *
@@ -80,7 +189,8 @@ export class NovaS3Controller {
     description:
       'Lists the contents of a folder directly from the database table `nova_s3` (source of truth). ' +
       'This endpoint does NOT hit S3. It returns the children items whose `parentPath` matches the provided `path`. ' +
-      'Use it to render the right panel after selecting a folder in the tree.',
+      'Use it to render the right panel after selecting a folder in the tree. ' +
+      'Folders come with `size` (bytes of their whole subtree) and `fileCount`; sortBy=size orders folders by that total.',
   })
   @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
   @ApiQuery({
@@ -103,6 +213,29 @@ export class NovaS3Controller {
     description: 'name | type | size | createdAt | updatedAt',
   })
   @ApiQuery({ name: 'order', required: false, example: 'asc', description: 'asc | desc' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    example: 200,
+    description: 'Page size (max 1000). Without limit the whole folder is returned.',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: 'Keyset cursor: `nextCursor` of the previous page (same sortBy / order). Stable while items are added or removed.',
+  })
+  @ApiQuery({
+    name: 'tags',
+    required: false,
+    example: 'Invoice,2026',
+    description: 'Only items with ALL these tags (comma separated; case-insensitive)',
+  })
+  @ApiQuery({
+    name: 'ownerEmployeeNumber',
+    required: false,
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
   @ApiOkResponse({
     description: 'Folder listing from DB',
     schema: {
@@ -112,11 +245,15 @@ export class NovaS3Controller {
         path: 'Marketing/Creatives',
         total: 2,
         items: [],
+        hasMore: false,
+        nextCursor: null,
       },
     },
   })
-  list(@Query() dto: ListFolderDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
+  async list(@Query() dto: ListFolderDto) {
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'viewer' },
+    ]);
     return this.novaS3Service.list(dto);
   }
 
@@ -136,7 +273,7 @@ export class NovaS3Controller {
     description:
       'Builds an explorer tree structure directly from the database table `nova_s3` (source of truth). ' +
       'This endpoint does NOT hit S3. It is intended for the left tree panel of the explorer. ' +
-      'If your dataset grows, you can later switch to lazy loading (list by parentPath). ' +
+      'For large spaces use `depth` (levels below `path`) and lazy-load folders with `hasChildren: true` on expand. ' +
       'All results are scoped by employeeNumber (tenant).',
   })
   @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
@@ -146,6 +283,24 @@ export class NovaS3Controller {
     example: 'NOVAJG232701',
     description: 'Multi-tenant key (REQUIRED). There is no global tree.',
   })
+  @ApiQuery({
+    name: 'path',
+    required: false,
+    example: 'Marketing',
+    description: 'Optional subtree: the response root node becomes this folder. Required with ownerEmployeeNumber.',
+  })
+  @ApiQuery({
+    name: 'depth',
+    required: false,
+    example: 1,
+    description: 'Levels to load below `path` (default: whole subtree). Deeper folders come with `hasChildren` and empty children.',
+  })
+  @ApiQuery({
+    name: 'ownerEmployeeNumber',
+    required: false,
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
   @ApiOkResponse({
     description: 'Tree structure from DB',
     schema: {
@@ -160,11 +315,15 @@ export class NovaS3Controller {
               name: 'Marketing',
               path: 'Marketing',
               type: 'folder',
+              size: 7516192768,
+              fileCount: 412,
               children: [
                 {
                   name: 'Creatives',
                   path: 'Marketing/Creatives',
                   type: 'folder',
+                  size: 0,
+                  fileCount: 0,
                   children: [],
                 },
               ],
@@ -183,31 +342,46 @@ export class NovaS3Controller {
       },
     },
   })
-  tree(
+  async tree(
     @Query('root') root = 'nova-s3',
     @Query('employeeNumber') employeeNumber?: string,
     @Query('foldersOnly') foldersOnly?: string,
+    @Query('path') path = '',
+    @Query('ownerEmployeeNumber') ownerEmployeeNumber?: string,
+    @Query('depth') depth?: string,
   ): Promise<NovaS3TreeResponseDto> {
-    return this.novaS3Service.tree(root, this.requireEmployee(employeeNumber), foldersOnly === 'true');
+    const emp = await this.scopeEmployee(root, employeeNumber, ownerEmployeeNumber, [{ path, need: 'viewer' }]);
+    return this.novaS3Service.tree(root, emp, foldersOnly === 'true', path, depth ? Number(depth) : undefined);
   }
 
   @Get('search')
   @ApiOperation({
-    summary: 'Search files/folders by name (DB LIKE — server-side)',
-    description: 'Searches nova_s3 by name LIKE %query%. Much faster than client-side recursion on large datasets.',
+    summary: 'Advanced search: typo-tolerant name match, filters, sorting and cursor pagination',
+    description:
+      'Searches nova_s3 by name with Postgres trigrams (`q` tolerates typos; results ranked by relevance), ' +
+      'combined (AND) with optional filters: type, mimeType (exact or "image/*"), family, size range, created/updated range ' +
+      'and `path` (only inside that folder subtree). Without `q` at least one filter is required. ' +
+      'Pagination is keyset based: pass `nextCursor` as `cursor` with the same sortBy / order.',
   })
-  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
-  @ApiQuery({ name: 'q', required: true, example: 'invoice' })
-  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
-  @ApiQuery({ name: 'limit', required: false, example: 200 })
-  search(
-    @Query('root') root = 'nova-s3',
-    @Query('q') query = '',
-    @Query('employeeNumber') employeeNumber?: string,
-    @Query('limit') limit?: string,
-  ) {
-    const emp = this.requireEmployee(employeeNumber);
-    return this.novaS3Service.search({ root, query, employeeNumber: emp, limit: limit ? Number(limit) : undefined });
+  @ApiOkResponse({
+    description: 'One page of results',
+    schema: {
+      example: {
+        success: true,
+        results: [{ name: 'Invoice-2026-01.pdf', path: 'Finance/Invoice-2026-01.pdf', type: 'file', score: 0.93 }],
+        total: 1,
+        hasMore: true,
+        nextCursor: 'WyJyZWxldmFuY2UiLCJkZXNjIiwiMC45MyIsIjhkM2UuLi4iXQ',
+        sortBy: 'relevance',
+        order: 'desc',
+      },
+    },
+  })
+  async search(@Query() dto: SearchDto) {
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'viewer' },
+    ]);
+    return this.novaS3Service.search(dto);
   }
 
   @Get('stats')
@@ -221,7 +395,7 @@ export class NovaS3Controller {
     @Query('root') root = 'nova-s3',
     @Query('employeeNumber') employeeNumber?: string,
   ) {
-    const emp = this.requireEmployee(employeeNumber);
+    const emp = this.requireSpace(root, employeeNumber);
     return this.novaS3Service.stats(root, emp);
   }
 
@@ -231,18 +405,60 @@ export class NovaS3Controller {
   @ApiQuery({ name: 'path', required: true, example: 'ChatGPT Image.png' })
   @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
   @ApiQuery({ name: 'expiresSeconds', required: false, example: 300 })
-  getFileUrl(
+  @ApiQuery({
+    name: 'ownerEmployeeNumber',
+    required: false,
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  async getFileUrl(
     @Query('root') root = 'nova-s3',
     @Query('path') path?: string,
     @Query('employeeNumber') employeeNumber?: string,
     @Query('expiresSeconds') expiresSeconds?: string,
+    @Query('ownerEmployeeNumber') ownerEmployeeNumber?: string,
   ) {
     if (!path) throw new BadRequestException('path is required');
-    const emp = this.requireEmployee(employeeNumber);
+    const actor = this.requireEmployee(employeeNumber);
+    const emp = await this.scopeEmployee(root, employeeNumber, ownerEmployeeNumber, [{ path, need: 'viewer' }]);
     const exp = expiresSeconds ? Number(expiresSeconds) : undefined;
-    return this.novaS3Service.getFileUrl({ root, path, employeeNumber: emp, expiresSeconds: exp });
+    return this.novaS3Service.getFileUrl({ root, path, employeeNumber: emp, expiresSeconds: exp, actorEmployeeNumber: actor });
   }
 
+  /**
+   * DOWNLOAD ZIP (DB + S3 stream)
+   *
+   * - Folder completo o selección múltiple en un solo .zip
+   * - Entradas desde BD; cada objeto se streamea desde S3 (sin bufferizar)
+   * - Límites de bytes / entradas validados antes de empezar a enviar
+   */
+  @Post('download/zip')
+  @ApiOperation({
+    summary: 'Download folder(s) / selection as a streamed ZIP',
+    description:
+      'Builds a ZIP on the fly from the `nova_s3` rows of the selected `paths` (DB is the source of truth). ' +
+      'Folders include their whole subtree and keep their structure (empty folders included). ' +
+      'Each object is streamed from S3 into the archive, one at a time, without buffering it in memory. ' +
+      'Limits: NOVA_S3_ZIP_MAX_BYTES (default 5GB) and NOVA_S3_ZIP_MAX_ENTRIES (default 10000) -> 400 before streaming starts. ' +
+      'Files registered in DB but missing in S3 are skipped and listed in MISSING_FILES.txt inside the ZIP.',
+  })
+  @ApiBody({ type: ZipDownloadDto })
+  @ApiOkResponse({ description: 'ZIP stream (application/zip)' })
+  async downloadZip(@Body() dto: ZipDownloadDto, @Res() res: Response) {
+    dto.employeeNumber = await this.scopeEmployee(
+      dto.root,
+      dto.employeeNumber,
+      dto.ownerEmployeeNumber,
+      (dto.paths ?? []).map((path) => ({ path, need: 'viewer' as const })),
+    );
+
+    const plan = await this.archiveService.plan(dto);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(plan.fileName)}`);
+
+    await this.archiveService.stream(plan, res);
+  }
 
   /**
    * CREATE FOLDER (DB + S3)
@@ -301,9 +517,12 @@ export class NovaS3Controller {
     description: 'Validation error',
     schema: { example: { statusCode: 400, message: 'name is required', error: 'Bad Request' } },
   })
-  createFolder(@Body() dto: CreateFolderDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.createFolder(dto);
+  async createFolder(@Body() dto: CreateFolderDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'editor' },
+    ]);
+    return this.novaS3Service.createFolder(dto, actor);
   }
 
   /**
@@ -324,6 +543,7 @@ export class NovaS3Controller {
     description:
       'Uploads a single file to S3 under `root/path` and persists the file record in `nova_s3`. ' +
       'The backend also ensures that missing parent folders exist in DB so that the DB-driven tree/list stays consistent. ' +
+      'The root content policy (GET /nova-s3/policy) is checked on the sniffed type: 400 for a blocked type, 413 over its size cap. ' +
       'Tenant rule: employeeNumber is REQUIRED and the physical file is stored under `{root}/{employeeNumber}/...`.',
   })
   @ApiConsumes('multipart/form-data')
@@ -336,6 +556,26 @@ export class NovaS3Controller {
     description:
       'REQUIRED. The physical upload will be under `{root}/{employeeNumber}/...` and DB records will be tagged with this value.',
   })
+  @ApiQuery({
+    name: 'ownerEmployeeNumber',
+    required: false,
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @ApiQuery({
+    name: 'warnOnDuplicate',
+    required: false,
+    example: 'true',
+    description: 'Adds `duplicates` to the response when the same content (SHA-256) already exists in the space. Never blocks.',
+  })
+  @ApiQuery({
+    name: 'conflictStrategy',
+    required: false,
+    enum: NOVA_S3_CONFLICT_STRATEGIES,
+    description:
+      'If a path already exists: replace (default, previous content kept as a version), keepBoth ("report (2).pdf"), ' +
+      'skip or fail (409, nothing uploaded). Per-file result in `outcomes`.',
+  })
   @ApiBody({
     schema: {
       type: 'object',
@@ -355,20 +595,38 @@ export class NovaS3Controller {
       example: {
         success: true,
         message: 'Uploaded',
-        path: 'Marketing/Creatives/logo.png',
-        s3Key: 'nova-s3/NOVAJG232701/Marketing/Creatives/logo.png',
+        path: 'Marketing/Creatives/logo (2).png',
+        s3Key: 'nova-s3/NOVAJG232701/Marketing/Creatives/logo (2).png',
+        outcomes: [
+          { path: 'Marketing/Creatives/logo.png', finalPath: 'Marketing/Creatives/logo (2).png', action: 'renamed' },
+        ],
       },
     },
   })
-  uploadOne(
+  async uploadOne(
     @UploadedFile() file: Express.Multer.File,
     @Query('root') root = 'nova-s3',
     @Query('path') path = '',
     @Query('employeeNumber') employeeNumber?: string,
+    @Query('ownerEmployeeNumber') ownerEmployeeNumber?: string,
+    @Query('warnOnDuplicate') warnOnDuplicate?: string,
+    @Query('conflictStrategy') conflictStrategy?: string,
   ) {
     if (!file) throw new BadRequestException('file is required');
-    const emp = this.requireEmployee(employeeNumber);
-    return this.novaS3Service.uploadOne({ root, path, employeeNumber: emp }, file);
+    const strategy = this.parseConflictStrategy(conflictStrategy);
+    const actor = this.requireEmployee(employeeNumber);
+    const emp = await this.scopeEmployee(root, employeeNumber, ownerEmployeeNumber, [{ path, need: 'editor' }]);
+    return this.novaS3Service.uploadOne(
+      {
+        root,
+        path,
+        employeeNumber: emp,
+        actorEmployeeNumber: actor,
+        warnOnDuplicate: warnOnDuplicate === 'true',
+        conflictStrategy: strategy,
+      },
+      file,
+    );
   }
 
   /**
@@ -388,12 +646,33 @@ export class NovaS3Controller {
     description:
       'Uploads multiple files to S3 under the same `root/path` and persists one DB record per file. ' +
       'The backend ensures parent folders exist in DB to keep tree/list consistent. ' +
+      'Files rejected by the root content policy (GET /nova-s3/policy) are not uploaded and come back as `failed` in `outcomes`. ' +
       'Tenant rule: employeeNumber is REQUIRED and files are stored under `{root}/{employeeNumber}/...`.',
   })
   @ApiConsumes('multipart/form-data')
   @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
   @ApiQuery({ name: 'path', required: false, example: 'Marketing/Creatives' })
   @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({
+    name: 'ownerEmployeeNumber',
+    required: false,
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @ApiQuery({
+    name: 'warnOnDuplicate',
+    required: false,
+    example: 'true',
+    description: 'Adds `duplicates` to the response when the same content (SHA-256) already exists in the space. Never blocks.',
+  })
+  @ApiQuery({
+    name: 'conflictStrategy',
+    required: false,
+    enum: NOVA_S3_CONFLICT_STRATEGIES,
+    description:
+      'If a path already exists: replace (default, previous content kept as a version), keepBoth ("report (2).pdf"), ' +
+      'skip or fail (409, nothing uploaded). Per-file result in `outcomes`.',
+  })
   @ApiBody({
     schema: {
       type: 'object',
@@ -409,13 +688,32 @@ export class NovaS3Controller {
   })
   @ApiOkResponse({
     description: 'Files uploaded',
-    schema: { example: { success: true, message: 'Uploaded 3 files', count: 3 } },
+    schema: {
+      example: {
+        success: true,
+        message: 'Uploaded 2 files',
+        count: 2,
+        outcomes: [
+          { path: 'Marketing/Creatives/a.png', finalPath: 'Marketing/Creatives/a.png', action: 'created' },
+          { path: 'Marketing/Creatives/b.png', finalPath: 'Marketing/Creatives/b.png', action: 'replaced' },
+          {
+            path: 'Marketing/Creatives/c.png',
+            finalPath: null,
+            action: 'skipped',
+            reason: 'An item with this name already exists',
+          },
+        ],
+      },
+    },
   })
-  uploadMultiple(
+  async uploadMultiple(
     @UploadedFiles() files: Express.Multer.File[],
     @Query('root') root = 'nova-s3',
     @Query('path') path = '',
     @Query('employeeNumber') employeeNumber?: string,
+    @Query('ownerEmployeeNumber') ownerEmployeeNumber?: string,
+    @Query('warnOnDuplicate') warnOnDuplicate?: string,
+    @Query('conflictStrategy') conflictStrategy?: string,
   ) {
     if (!files?.length) throw new BadRequestException('files[] is required');
 
@@ -423,8 +721,20 @@ export class NovaS3Controller {
       throw new BadRequestException(`Too many files. Max allowed: ${this.MAX_MULTI_FILES}`);
     }
 
-    const emp = this.requireEmployee(employeeNumber);
-    return this.novaS3Service.uploadMultiple({ root, path, employeeNumber: emp }, files);
+    const strategy = this.parseConflictStrategy(conflictStrategy);
+    const actor = this.requireEmployee(employeeNumber);
+    const emp = await this.scopeEmployee(root, employeeNumber, ownerEmployeeNumber, [{ path, need: 'editor' }]);
+    return this.novaS3Service.uploadMultiple(
+      {
+        root,
+        path,
+        employeeNumber: emp,
+        actorEmployeeNumber: actor,
+        warnOnDuplicate: warnOnDuplicate === 'true',
+        conflictStrategy: strategy,
+      },
+      files,
+    );
   }
 
   /**
@@ -448,6 +758,7 @@ export class NovaS3Controller {
       'Uploads a folder (possibly nested) in one request. ' +
       '✅ Recommended: send `paths[]` (same order as files[]) to preserve structure exactly. ' +
       'Fallback: if no paths[] is sent, server will try to infer from `file.originalname` (may lose subfolders). ' +
+      'Files rejected by the root content policy (GET /nova-s3/policy) are not uploaded and come back as `failed` in `outcomes`. ' +
       'Tenant rule: employeeNumber is REQUIRED and everything is stored under `{root}/{employeeNumber}/...`.',
   })
   @ApiConsumes('multipart/form-data')
@@ -459,6 +770,26 @@ export class NovaS3Controller {
     description: 'Optional basePath: everything will be uploaded inside this folder.',
   })
   @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({
+    name: 'ownerEmployeeNumber',
+    required: false,
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @ApiQuery({
+    name: 'warnOnDuplicate',
+    required: false,
+    example: 'true',
+    description: 'Adds `duplicates` to the response when the same content (SHA-256) already exists in the space. Never blocks.',
+  })
+  @ApiQuery({
+    name: 'conflictStrategy',
+    required: false,
+    enum: NOVA_S3_CONFLICT_STRATEGIES,
+    description:
+      'If a path already exists: replace (default, previous content kept as a version), keepBoth ("report (2).pdf"), ' +
+      'skip or fail (409, nothing uploaded). Per-file result in `outcomes`.',
+  })
   @ApiBody({
     schema: {
       type: 'object',
@@ -475,14 +806,24 @@ export class NovaS3Controller {
   })
   @ApiOkResponse({
     description: 'Folder uploaded',
-    schema: { example: { success: true, message: 'Uploaded folder', count: 25 } },
+    schema: {
+      example: {
+        success: true,
+        message: 'Uploaded folder',
+        count: 25,
+        outcomes: [{ path: 'Marketing/Q1/brief.pdf', finalPath: 'Marketing/Q1/brief.pdf', action: 'created' }],
+      },
+    },
   })
-  uploadFolder(
+  async uploadFolder(
     @UploadedFiles() files: Express.Multer.File[],
     @Body('paths') paths: any,
     @Query('root') root = 'nova-s3',
     @Query('path') basePath = '',
     @Query('employeeNumber') employeeNumber?: string,
+    @Query('ownerEmployeeNumber') ownerEmployeeNumber?: string,
+    @Query('warnOnDuplicate') warnOnDuplicate?: string,
+    @Query('conflictStrategy') conflictStrategy?: string,
   ) {
     if (!files?.length) throw new BadRequestException('files[] is required');
 
@@ -490,8 +831,23 @@ export class NovaS3Controller {
       throw new BadRequestException(`Too many files. Max allowed: ${this.MAX_FOLDER_FILES}`);
     }
 
-    const emp = this.requireEmployee(employeeNumber);
-    return this.novaS3Service.uploadFolder({ root, basePath, employeeNumber: emp, paths }, files);
+    const strategy = this.parseConflictStrategy(conflictStrategy);
+    const actor = this.requireEmployee(employeeNumber);
+    const emp = await this.scopeEmployee(root, employeeNumber, ownerEmployeeNumber, [
+      { path: basePath, need: 'editor' },
+    ]);
+    return this.novaS3Service.uploadFolder(
+      {
+        root,
+        basePath,
+        employeeNumber: emp,
+        actorEmployeeNumber: actor,
+        warnOnDuplicate: warnOnDuplicate === 'true',
+        conflictStrategy: strategy,
+        paths,
+      },
+      files,
+    );
   }
 
   /**
@@ -514,13 +870,31 @@ export class NovaS3Controller {
       'Renames a file or folder. The DB is the source of truth, so the backend validates the item exists in DB first. ' +
       'Then it performs the physical rename operation in S3 and updates the DB (source of truth) so tree/list reflect the change. ' +
       'If it is a folder, the backend cascades the rename across all descendants. ' +
+      'Folder renames are journaled (copy -> DB -> delete, see GET /nova-s3/operations): a failure before the DB commit is rolled back; ' +
+      'a failure while deleting the old objects returns `pendingCleanup: true` and is finished by the recovery. ' +
+      'If the folder already has an item with the new name, `conflictStrategy` decides: fail (default, 409), skip, ' +
+      'keepBoth ("file (2).pdf") or replace (the existing item goes to the recycle bin). The result is in `outcome`. ' +
       'Tenant rule: employeeNumber is REQUIRED and the operation is applied under `{root}/{employeeNumber}/...`.',
   })
   @ApiBody({ type: RenameDto })
-  @ApiOkResponse({ description: 'Renamed' })
-  rename(@Body() dto: RenameDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.rename(dto);
+  @ApiOkResponse({
+    description: 'Renamed',
+    schema: {
+      example: {
+        success: true,
+        message: 'Renamed file',
+        oldPath: 'Finance/draft.pdf',
+        newPath: 'Finance/report (2).pdf',
+        outcome: { path: 'Finance/draft.pdf', finalPath: 'Finance/report (2).pdf', action: 'renamed' },
+      },
+    },
+  })
+  async rename(@Body() dto: RenameDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.oldPath, need: 'editor', inside: true },
+    ]);
+    return this.novaS3Service.rename(dto, actor);
   }
 
   /**
@@ -539,13 +913,30 @@ export class NovaS3Controller {
     description:
       'Moves a file from `sourcePath` to `targetPath` (destination folder). The DB is the source of truth; the backend validates the file exists in DB first. ' +
       'Then it performs the S3 move and updates the DB record. After this, DB-driven tree/list will show the file in the new location. ' +
+      'If the destination already has an item with the same name, `conflictStrategy` decides: fail (default, 409), skip, ' +
+      'keepBoth ("file (2).pdf") or replace (the existing file goes to the recycle bin). The result is in `outcome`. ' +
       'Tenant rule: employeeNumber is REQUIRED and the operation is applied under `{root}/{employeeNumber}/...`.',
   })
   @ApiBody({ type: MoveFileDto })
-  @ApiOkResponse({ description: 'Moved' })
-  moveFile(@Body() dto: MoveFileDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.moveFile(dto);
+  @ApiOkResponse({
+    description: 'Moved',
+    schema: {
+      example: {
+        success: true,
+        message: 'Moved file',
+        oldPath: 'Inbox/report.pdf',
+        newPath: 'Finance/report (2).pdf',
+        outcome: { path: 'Inbox/report.pdf', finalPath: 'Finance/report (2).pdf', action: 'renamed' },
+      },
+    },
+  })
+  async moveFile(@Body() dto: MoveFileDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.sourcePath, need: 'editor', inside: true },
+      { path: dto.targetPath, need: 'editor' },
+    ]);
+    return this.novaS3Service.moveFile(dto, actor);
   }
 
   /**
@@ -564,13 +955,85 @@ export class NovaS3Controller {
     description:
       'Moves a folder (prefix) from `sourcePath` to `targetPath` (destination folder). The DB is the source of truth; the backend validates the folder exists in DB first. ' +
       'Then it performs the S3 move and updates the DB in cascade: the folder itself and all descendants paths/parentPath/s3Key are updated. ' +
+      'The move is journaled (copy -> DB -> delete, see GET /nova-s3/operations): a failure before the DB commit is rolled back; ' +
+      'a failure while deleting the old objects returns `pendingCleanup: true` and is finished by the recovery. ' +
+      'Name conflicts in the destination follow `conflictStrategy` (fail by default; replace only replaces another folder, ' +
+      'which goes to the recycle bin with its contents). The result is in `outcome`. ' +
       'Tenant rule: employeeNumber is REQUIRED and the operation is applied under `{root}/{employeeNumber}/...`.',
   })
   @ApiBody({ type: MoveFolderDto })
   @ApiOkResponse({ description: 'Folder moved' })
-  moveFolder(@Body() dto: MoveFolderDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.moveFolder(dto);
+  async moveFolder(@Body() dto: MoveFolderDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.sourcePath, need: 'editor', inside: true },
+      { path: dto.targetPath, need: 'editor' },
+    ]);
+    return this.novaS3Service.moveFolder(dto, actor);
+  }
+
+  /**
+   * COPY FILE (S3 server-side copy + DB)
+   *
+   * - Copia el objeto en S3 (sin descargar) y crea la fila nueva en BD
+   * - Si el nombre ya existe en destino => "Copy of X", "Copy of X (2)"...
+   *
+   * ✅ Tenant rule:
+   * - employeeNumber: 🔴 REQUERIDO
+   * - opera dentro de {root}/{employeeNumber}/...
+   */
+  @Post('copy-file')
+  @ApiOperation({
+    summary: 'Copy file (S3 server-side copy + DB)',
+    description:
+      'Copies a file from `sourcePath` into `targetPath` (destination folder, may be the same or a different parent). ' +
+      'The object is copied server-side in S3 and a new `nova_s3` row is created. ' +
+      'If the name is taken in the destination the copy is named "Copy of X", then "Copy of X (2)", ... ' +
+      'Tenant rule: employeeNumber is REQUIRED and the operation is applied under `{root}/{employeeNumber}/...`.',
+  })
+  @ApiBody({ type: CopyFileDto })
+  @ApiOkResponse({
+    description: 'Copied',
+    schema: { example: { success: true, message: 'File copied', newPath: 'Marketing/Copy of logo.png' } },
+  })
+  async copyFile(@Body() dto: CopyFileDto) {
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.sourcePath, need: 'viewer' },
+      { path: dto.targetPath, need: 'editor' },
+    ]);
+    return this.novaS3Service.copyFile(dto);
+  }
+
+  /**
+   * COPY FOLDER (S3 server-side copy + DB cascade)
+   *
+   * - Copia carpeta + todos sus descendientes (objetos S3 y filas BD)
+   * - Si el nombre ya existe en destino => "Copy of X", "Copy of X (2)"...
+   *
+   * ✅ Tenant rule:
+   * - employeeNumber: 🔴 REQUERIDO
+   * - opera dentro de {root}/{employeeNumber}/...
+   */
+  @Post('copy-folder')
+  @ApiOperation({
+    summary: 'Copy folder with all descendants (S3 server-side copy + DB)',
+    description:
+      'Copies the folder `sourcePath` and its whole subtree into `targetPath` (destination folder, may be the same or a different parent). ' +
+      'Every descendant row is read from DB (source of truth), its object is copied server-side in S3 and a matching `nova_s3` row is created. ' +
+      'If the name is taken in the destination the copy is named "Copy of X", then "Copy of X (2)", ... ' +
+      'Tenant rule: employeeNumber is REQUIRED and the operation is applied under `{root}/{employeeNumber}/...`.',
+  })
+  @ApiBody({ type: CopyFolderDto })
+  @ApiOkResponse({
+    description: 'Copied',
+    schema: { example: { success: true, message: 'Folder copied', newPath: 'Archive/Creatives', copiedCount: 27 } },
+  })
+  async copyFolder(@Body() dto: CopyFolderDto) {
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.sourcePath, need: 'viewer' },
+      { path: dto.targetPath, need: 'editor' },
+    ]);
+    return this.novaS3Service.copyFolder(dto);
   }
 
   // ---------------------------------------------------------------------------
@@ -588,11 +1051,15 @@ export class NovaS3Controller {
     description:
       'Returns a presigned PUT URL so the browser can upload the file directly to S3 without routing through the backend. ' +
       'After the direct upload succeeds, call POST /nova-s3/register to persist the file in DB. ' +
-      'This avoids double-transfer and is dramatically faster for large files.',
+      'This avoids double-transfer and is dramatically faster for large files. ' +
+      'Name conflicts are resolved here (`conflictStrategy`): upload to the returned `path` / URL; skipped files get no URL. ' +
+      'The root content policy is pre-checked on the declared name / type / size (400 / 413); the content is checked again on register.',
   })
   @ApiBody({ type: PresignUploadDto })
-  presignUpload(@Body() dto: PresignUploadDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
+  async presignUpload(@Body() dto: PresignUploadDto) {
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'editor' },
+    ]);
     return this.novaS3Service.presignUpload(dto);
   }
 
@@ -608,12 +1075,18 @@ export class NovaS3Controller {
     description:
       'Generates presigned URLs for all files in one round trip. ' +
       'Small files get a single presigned PUT URL. Large files (>= threshold) get a multipart upload with per-part presigned URLs. ' +
-      'Upload all files directly to S3 in parallel, then call POST /nova-s3/register/batch to persist them in DB.',
+      'Upload all files directly to S3 in parallel, then call POST /nova-s3/register/batch to persist them in DB. ' +
+      'The response includes a `sessionId`: follow progress with GET /nova-s3/upload-sessions/status. ' +
+      'Name conflicts are resolved here (`conflictStrategy`, per-file result in `outcomes`): only files with a destination are presigned, ' +
+      'renamed ones under their new `path`. Files whose declared name / type / size break the root content policy are `failed` and not presigned.',
   })
   @ApiBody({ type: PresignBatchDto })
-  presignBatch(@Body() dto: PresignBatchDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.presignBatch(dto);
+  async presignBatch(@Body() dto: PresignBatchDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.basePath, need: 'editor' },
+    ]);
+    return this.novaS3Service.presignBatch(dto, actor);
   }
 
   /**
@@ -626,12 +1099,17 @@ export class NovaS3Controller {
     summary: 'Complete multipart upload and register file in DB',
     description:
       'Assembles all uploaded parts into the final S3 object and persists the file record in DB. ' +
-      'Send the parts array with { partNumber, etag } from each part upload response header.',
+      'Send the parts array with { partNumber, etag } from each part upload response header. ' +
+      'Size is read from the assembled object and its type is sniffed from the first bytes (mismatches are recorded). ' +
+      'If the content breaks the root content policy the object is discarded (previous version restored) and 400 / 413 is returned.',
   })
   @ApiBody({ type: CompleteMultipartDto })
-  completeMultipart(@Body() dto: CompleteMultipartDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.completeMultipart(dto);
+  async completeMultipart(@Body() dto: CompleteMultipartDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: parentOf(dto.path), need: 'editor' },
+    ]);
+    return this.novaS3Service.completeMultipart(dto, actor);
   }
 
   /**
@@ -661,12 +1139,17 @@ export class NovaS3Controller {
     summary: 'Register file in DB after direct S3 upload',
     description:
       'Persists a file record in the nova_s3 DB table after the frontend uploaded it directly to S3 via presigned URL. ' +
-      'Also ensures all parent folders exist in DB.',
+      'Also ensures all parent folders exist in DB. ' +
+      'The object must exist in S3 (HeadObject, 400 otherwise); size comes from S3 and the type is sniffed from the first bytes (mismatches are recorded). ' +
+      'If the content breaks the root content policy the object is discarded (previous version restored) and 400 / 413 is returned.',
   })
   @ApiBody({ type: RegisterUploadDto })
-  registerUpload(@Body() dto: RegisterUploadDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.registerUpload(dto);
+  async registerUpload(@Body() dto: RegisterUploadDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: parentOf(dto.path), need: 'editor' },
+    ]);
+    return this.novaS3Service.registerUpload(dto, actor);
   }
 
   /**
@@ -678,12 +1161,22 @@ export class NovaS3Controller {
     summary: 'Register multiple files in DB after direct S3 batch upload',
     description:
       'Bulk-registers file records in DB after a batch of direct S3 uploads via presigned URLs. ' +
-      'Ensures all parent folder chains exist in DB before inserting.',
+      'Ensures all parent folder chains exist in DB before inserting. ' +
+      'Every object must exist in S3 or nothing is registered (400 listing the missing keys). ' +
+      'Sizes come from S3 and types are sniffed from the first bytes; mismatches are returned in contentTypeMismatches. ' +
+      '`outcomes` reports created / replaced per path (a path taken by a folder is skipped, never overwritten). ' +
+      'Objects whose content breaks the root content policy are discarded and reported as `failed`.',
   })
   @ApiBody({ type: RegisterBatchDto })
-  registerBatch(@Body() dto: RegisterBatchDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.registerBatch(dto);
+  async registerBatch(@Body() dto: RegisterBatchDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(
+      dto.root,
+      dto.employeeNumber,
+      dto.ownerEmployeeNumber,
+      (dto.items ?? []).map((i) => ({ path: parentOf(i.path), need: 'editor' as const })),
+    );
+    return this.novaS3Service.registerBatch(dto, actor);
   }
 
   /**
@@ -698,19 +1191,1544 @@ export class NovaS3Controller {
    */
   @Delete()
   @ApiOperation({
-    summary: 'Delete file or folder (DB source of truth + S3 sync)',
+    summary: 'Delete file or folder (moves to recycle bin by default)',
     description:
       'Deletes a file or folder. The DB is the source of truth; the backend validates the item exists in DB first. ' +
-      'Then it performs the S3 delete and deletes matching records from DB. For folders, it cascades deletion across all descendants (path LIKE folder/%). ' +
+      'By default the item (and, for folders, every descendant) is moved to the employee recycle bin: ' +
+      'S3 objects go to `{root}/.trash/{employeeNumber}/{trashId}/...` and the rows leave `nova_s3`, so it can be restored later. ' +
+      'Send `permanent: true` to skip the recycle bin and delete for good. ' +
+      'Grantees (ownerEmployeeNumber) delete into the OWNER recycle bin. ' +
       'Tenant rule: employeeNumber is REQUIRED and the delete is applied under `{root}/{employeeNumber}/...`.',
   })
   @ApiBody({ type: DeleteDto })
   @ApiOkResponse({
     description: 'Deleted',
-    schema: { example: { success: true, message: 'Deleted', deletedCount: 27 } },
+    schema: { example: { success: true, message: 'Folder moved to trash', trashId: '6f1c7d0e-...', deletedCount: 27 } },
   })
-  remove(@Body() dto: DeleteDto) {
-    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
-    return this.novaS3Service.remove(dto);
+  async remove(@Body() dto: DeleteDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'editor', inside: true },
+    ]);
+    return this.novaS3Service.remove(dto, actor);
+  }
+
+  // ---------------------------------------------------------------------------
+  // TRASH — papelera por empleado (list / restore / purge)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * LIST TRASH
+   * Entradas de la papelera del empleado (una por cada delete), más recientes primero.
+   */
+  @Get('trash')
+  @ApiOperation({
+    summary: 'List recycle bin entries',
+    description:
+      'Lists the recycle bin of the employee. Each entry is one delete operation (a file, or a folder with all its descendants). ' +
+      'Entries are purged automatically once `expiresAt` passes (NOVA_S3_TRASH_RETENTION_DAYS, default 30).',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  listTrash(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+  ) {
+    return this.novaS3Service.listTrash(root, this.requireSpace(root, employeeNumber));
+  }
+
+  /**
+   * RESTORE FROM TRASH
+   * Devuelve el item a su carpeta original o a `targetPath`.
+   */
+  @Post('trash/restore')
+  @ApiOperation({
+    summary: 'Restore a recycle bin entry',
+    description:
+      'Moves the S3 objects back and re-creates the DB rows (same ids). ' +
+      'Without `targetPath` the item goes back to its original parent folder (re-created if needed). ' +
+      'If the name is taken: `onConflict=fail` (default) returns 409, `onConflict=rename` restores as "name (2)".',
+  })
+  @ApiBody({ type: RestoreTrashDto })
+  @ApiOkResponse({
+    description: 'Restored',
+    schema: { example: { success: true, message: 'Folder restored', path: 'Marketing/Creatives', restoredCount: 27 } },
+  })
+  restoreTrash(@Body() dto: RestoreTrashDto) {
+    dto.employeeNumber = this.requireSpace(dto.root, dto.employeeNumber);
+    return this.novaS3Service.restoreTrash(dto);
+  }
+
+  /**
+   * PURGE TRASH
+   * Borrado definitivo de una entrada (trashId) o de toda la papelera.
+   */
+  @Delete('trash')
+  @ApiOperation({
+    summary: 'Purge recycle bin (one entry or all)',
+    description: 'Permanently deletes the S3 objects of the entry (or of every entry if `trashId` is omitted) and removes it from the recycle bin.',
+  })
+  @ApiBody({ type: PurgeTrashDto })
+  @ApiOkResponse({
+    description: 'Purged',
+    schema: { example: { success: true, message: 'Purged 1 trash entry', purged: 1, deletedObjects: 27 } },
+  })
+  purgeTrash(@Body() dto: PurgeTrashDto) {
+    dto.employeeNumber = this.requireSpace(dto.root, dto.employeeNumber);
+    return this.novaS3Service.purgeTrash(dto);
+  }
+
+  // ---------------------------------------------------------------------------
+  // VERSIONS — historial de versiones por archivo
+  // ---------------------------------------------------------------------------
+
+  /**
+   * LIST VERSIONS
+   * Versiones anteriores de un archivo (la actual es la fila de nova_s3).
+   */
+  @Get('versions')
+  @ApiOperation({
+    summary: 'List previous versions of a file',
+    description:
+      'Every overwrite (upload with the same name, presigned PUT, multipart complete, version restore) archives the previous content first. ' +
+      'A presigned PUT records its version on register, once the overwrite is confirmed (a presign without upload leaves none). ' +
+      'This endpoint lists those archived versions, newest first. The current content is the `file` itself.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'path', required: true, example: 'Marketing/report.pdf' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  listVersions(
+    @Query('root') root = 'nova-s3',
+    @Query('path') path?: string,
+    @Query('employeeNumber') employeeNumber?: string,
+  ) {
+    if (!path) throw new BadRequestException('path is required');
+    return this.versionsService.list(root, this.requireSpace(root, employeeNumber), path);
+  }
+
+  /**
+   * VERSION URL
+   * Presigned GET de una versión puntual (descarga con el nombre actual del archivo).
+   */
+  @Get('versions/url')
+  @ApiOperation({ summary: 'Get presigned GET url for a specific version' })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'path', required: true, example: 'Marketing/report.pdf' })
+  @ApiQuery({ name: 'versionId', required: true, example: '0b7f4a8e-5a1d-4c55-8f0e-2d7c1e9a3b10' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'expiresSeconds', required: false, example: 300 })
+  getVersionUrl(
+    @Query('root') root = 'nova-s3',
+    @Query('path') path?: string,
+    @Query('versionId') versionId?: string,
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('expiresSeconds') expiresSeconds?: string,
+  ) {
+    if (!path) throw new BadRequestException('path is required');
+    if (!versionId) throw new BadRequestException('versionId is required');
+    const emp = this.requireSpace(root, employeeNumber);
+    const exp = expiresSeconds ? Number(expiresSeconds) : undefined;
+    return this.versionsService.getUrl({ root, path, employeeNumber: emp, versionId, expiresSeconds: exp });
+  }
+
+  /**
+   * RESTORE VERSION
+   * La versión elegida pasa a ser la actual; la actual se archiva (no se pierde nada).
+   */
+  @Post('versions/restore')
+  @ApiOperation({
+    summary: 'Restore a version as the current content',
+    description: 'Archives the current content as a new version, then copies the selected version over the live object and updates size/mimeType in DB.',
+  })
+  @ApiBody({ type: RestoreVersionDto })
+  restoreVersion(@Body() dto: RestoreVersionDto) {
+    dto.employeeNumber = this.requireSpace(dto.root, dto.employeeNumber);
+    return this.versionsService.restore(dto);
+  }
+
+  /**
+   * PRUNE VERSIONS
+   * Borra versiones viejas por cantidad (keepLast) y/o antigüedad (olderThanDays).
+   */
+  @Post('versions/prune')
+  @ApiOperation({
+    summary: 'Prune old versions by count and/or age',
+    description:
+      'Deletes archived versions beyond `keepLast` (per file) and/or archived more than `olderThanDays` ago. ' +
+      'Without `path` it applies to every file of the employee in that root.',
+  })
+  @ApiBody({ type: PruneVersionsDto })
+  pruneVersions(@Body() dto: PruneVersionsDto) {
+    dto.employeeNumber = this.requireSpace(dto.root, dto.employeeNumber);
+    return this.versionsService.prune(dto);
+  }
+
+  // ---------------------------------------------------------------------------
+  // SHARES — links públicos para files y folders
+  // ---------------------------------------------------------------------------
+
+  /**
+   * CREATE SHARE LINK
+   * Token opaco atado al item (sigue al item en rename/move).
+   */
+  @Post('shares')
+  @ApiOperation({
+    summary: 'Create a public share link for a file or folder',
+    description:
+      'Creates an opaque token tied to the `nova_s3` item (it keeps working after rename/move). ' +
+      'Optional: `expiresInHours`, `password`, `maxDownloads`. Resolve it with POST /nova-s3/shares/public/{token}.',
+  })
+  @ApiBody({ type: CreateShareDto })
+  @ApiOkResponse({
+    description: 'Share link created',
+    schema: { example: { success: true, shareId: '2c1b7a8e-...', token: 'q3Zx...', status: 'active' } },
+  })
+  createShare(@Body() dto: CreateShareDto) {
+    dto.employeeNumber = this.requireSpace(dto.root, dto.employeeNumber);
+    return this.sharesService.create(dto);
+  }
+
+  /**
+   * LIST SHARE LINKS (owner)
+   */
+  @Get('shares')
+  @ApiOperation({ summary: 'List share links created by the employee (optionally for one path)' })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'path', required: false, example: 'Marketing/report.pdf' })
+  listShares(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('path') path?: string,
+  ) {
+    return this.sharesService.list(root, this.requireSpace(root, employeeNumber), path);
+  }
+
+  /**
+   * REVOKE SHARE LINK (owner)
+   */
+  @Delete('shares')
+  @ApiOperation({ summary: 'Revoke a share link', description: 'The token stops resolving immediately (410 Gone).' })
+  @ApiBody({ type: RevokeShareDto })
+  revokeShare(@Body() dto: RevokeShareDto) {
+    dto.employeeNumber = this.requireSpace(dto.root, dto.employeeNumber);
+    return this.sharesService.revoke(dto);
+  }
+
+  /**
+   * RESOLVE SHARE LINK (público — solo token)
+   * POST para que el password viaje en el body y no en la URL.
+   */
+  @Post('shares/public/:token')
+  @ApiOperation({
+    summary: 'Resolve a share link (public, token only)',
+    description:
+      'File share: returns a fresh short-lived presigned GET url (counts against `maxDownloads`). ' +
+      'Folder share: returns the listing of the folder, or of `path` inside it; if `path` is a file, returns its presigned url. ' +
+      'Returns 404 for unknown tokens, 401 for missing/invalid password and 410 when revoked, expired, exhausted or the item was deleted.',
+  })
+  @ApiBody({ type: ResolveShareDto })
+  resolveShare(@Param('token') token: string, @Body() dto: ResolveShareDto) {
+    return this.sharesService.resolve(token, dto);
+  }
+
+  // ---------------------------------------------------------------------------
+  // GRANTS — folders compartidos entre empleados (viewer / editor)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * GRANT ACCESS (owner)
+   * Da acceso a un folder (subárbol completo). Si ya existía, cambia el rol.
+   */
+  @Post('grants')
+  @ApiOperation({
+    summary: 'Share a folder with another employee (viewer | editor)',
+    description:
+      'Grants `granteeEmployeeNumber` access to the folder and its whole subtree. Calling it again updates the role. ' +
+      'viewer: list / tree / file-url. editor: also upload / create folder / rename / move / delete inside the folder. ' +
+      'The grantee operates by sending `ownerEmployeeNumber` on those endpoints; everything runs in the owner space.',
+  })
+  @ApiBody({ type: CreateGrantDto })
+  @ApiOkResponse({
+    description: 'Access granted',
+    schema: { example: { success: true, grantId: '8d3e1f0a-...', path: 'Marketing/Campaigns', role: 'editor' } },
+  })
+  createGrant(@Body() dto: CreateGrantDto) {
+    dto.employeeNumber = this.requireSpace(dto.root, dto.employeeNumber);
+    return this.grantsService.grant(dto);
+  }
+
+  /**
+   * LIST GRANTS (owner)
+   */
+  @Get('grants')
+  @ApiOperation({ summary: 'List folder grants given by the employee (optionally for one folder)' })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'path', required: false, example: 'Marketing/Campaigns' })
+  listGrants(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('path') path?: string,
+  ) {
+    return this.grantsService.listGranted(root, this.requireSpace(root, employeeNumber), path);
+  }
+
+  /**
+   * REVOKE GRANT (owner)
+   */
+  @Delete('grants')
+  @ApiOperation({ summary: 'Revoke a folder grant', description: 'The grantee loses access immediately.' })
+  @ApiBody({ type: RevokeGrantDto })
+  revokeGrant(@Body() dto: RevokeGrantDto) {
+    dto.employeeNumber = this.requireSpace(dto.root, dto.employeeNumber);
+    return this.grantsService.revoke(dto);
+  }
+
+  /**
+   * SHARED WITH ME (grantee)
+   * Folders de otros empleados a los que tengo acceso.
+   */
+  @Get('shared-with-me')
+  @ApiOperation({
+    summary: 'Folders other employees shared with me',
+    description:
+      'Each item includes `ownerEmployeeNumber`, `path` and `role`. Browse it with list/tree sending ' +
+      '`ownerEmployeeNumber` and the item `path`.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  sharedWithMe(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+  ) {
+    return this.grantsService.sharedWithMe(root, this.requireMember(root, employeeNumber));
+  }
+
+  // ---------------------------------------------------------------------------
+  // RECONCILE — BD (nova_s3) vs S3
+  // ---------------------------------------------------------------------------
+
+  /**
+   * RECONCILE
+   * Recorre {root}/{employeeNumber}/ en S3 y lo compara con la tabla.
+   * Por defecto solo reporta; cada clase de diferencia tiene su reparación opt-in.
+   */
+  @Post('reconcile')
+  @ApiOperation({
+    summary: 'Reconcile the nova_s3 index against S3 (report + opt-in repairs)',
+    description:
+      'Walks `{root}/{employeeNumber}/` with ListObjectsV2 and compares it against the `nova_s3` rows. ' +
+      'Reports orphan objects (no row), missing objects (file row without object) and size mismatches ' +
+      '(plus Content-Type mismatches with `checkMime: true`). ' +
+      'Repairs are opt-in per class: orphans=delete|reindex, missing=markMissing|delete, mismatches=reindex. ' +
+      'Items touched within NOVA_S3_RECONCILE_GRACE_MINUTES (default 60) are ignored to avoid flagging uploads in progress.',
+  })
+  @ApiBody({ type: ReconcileDto })
+  @ApiOkResponse({
+    description: 'Reconciliation report',
+    schema: {
+      example: {
+        success: true,
+        scanned: { objects: 1520, rows: 1534 },
+        orphans: { total: 3, items: [] },
+        missing: { total: 17, items: [] },
+        mismatches: { total: 1, items: [] },
+        repaired: { orphans: 0, missing: 0, mismatches: 0, unmarked: 0, folderSizes: 0 },
+      },
+    },
+  })
+  reconcile(@Body() dto: ReconcileDto) {
+    this.requireRoot(dto.root);
+    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
+    return this.reconcileService.reconcile(dto);
+  }
+
+  // ---------------------------------------------------------------------------
+  // OPERATIONS — journal de move / rename de folders (resume / rollback)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * LIST OPERATIONS
+   * Move / rename de folders del empleado con su paso actual y progreso.
+   */
+  @Get('operations')
+  @ApiOperation({
+    summary: 'List journaled folder move/rename operations',
+    description:
+      'Each folder move/rename is journaled in steps: copy (S3) -> db (one transaction) -> delete (old objects). ' +
+      '`running` / `failed` operations were interrupted or are in progress; see POST /nova-s3/operations/recover.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'status', required: false, example: 'failed', description: 'running | failed | completed | rolledBack' })
+  listOperations(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('status') status?: string,
+  ) {
+    return this.novaS3Service.listOperations(root, this.requireSpace(root, employeeNumber), status);
+  }
+
+  /**
+   * RECOVER OPERATIONS
+   * Retoma o deshace move / rename interrumpidos (también corre solo al iniciar y cada N minutos).
+   */
+  @Post('operations/recover')
+  @ApiOperation({
+    summary: 'Resume or roll back interrupted folder move/rename operations',
+    description:
+      'Before the DB commit the source is intact: `rollback` deletes the partial copies, `resume` finishes the move. ' +
+      'After the DB commit only `resume` (delete the old objects) is possible. ' +
+      '`auto` rolls back while copying and resumes once the copy is complete. ' +
+      'A `running` operation is only touched after NOVA_S3_OP_STALE_MINUTES (default 10) without progress.',
+  })
+  @ApiBody({ type: RecoverOperationsDto })
+  @ApiOkResponse({
+    description: 'Recovery result',
+    schema: {
+      example: {
+        success: true,
+        recovered: 1,
+        total: 1,
+        items: [{ operationId: '8d3e1f0a-...', action: 'rollback', status: 'rolledBack', error: null }],
+      },
+    },
+  })
+  recoverOperations(@Body() dto: RecoverOperationsDto) {
+    return this.novaS3Service.recoverOperations({
+      root: dto.root,
+      employeeNumber: this.requireSpace(dto.root, dto.employeeNumber),
+      operationId: dto.operationId,
+      action: dto.action,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // QUOTA — cuotas de almacenamiento por root / empleado
+  // ---------------------------------------------------------------------------
+
+  /**
+   * QUOTA USAGE
+   * Usado / límite / restante del empleado. Cuenta archivos + versiones + papelera.
+   */
+  @Get('quota/usage')
+  @ApiOperation({
+    summary: 'Get storage quota usage (used / limit / remaining)',
+    description:
+      'Used bytes = live files + previous versions + recycle bin. ' +
+      'Limit: per-employee override, else NOVA_S3_ROOT_QUOTAS[root], else NOVA_S3_QUOTA_DEFAULT_BYTES (0 = unlimited). ' +
+      '`warning` is true from `warnPercent` (default NOVA_S3_QUOTA_WARN_PERCENT = 90). ' +
+      'Uploads and presigns that would exceed the limit are rejected with 413.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiOkResponse({
+    description: 'Quota usage',
+    schema: {
+      example: {
+        success: true,
+        root: 'nova-s3',
+        employeeNumber: 'NOVAJG232701',
+        source: 'root',
+        used: 9663676416,
+        limit: 10737418240,
+        remaining: 1073741824,
+        percentUsed: 90,
+        warnPercent: 90,
+        warning: true,
+        exceeded: false,
+        breakdown: { files: 9000000000, versions: 600000000, trash: 63676416 },
+      },
+    },
+  })
+  quotaUsage(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+  ) {
+    return this.quotaService.usage(root, this.requireSpace(root, employeeNumber));
+  }
+
+  /**
+   * SET QUOTA
+   * Override por empleado (crea o actualiza). quotaBytes null = sin límite.
+   */
+  @Put('quota')
+  @ApiOperation({
+    summary: 'Set a per-employee quota override',
+    description: 'Overrides the root quota for one employee. `quotaBytes: null` removes the limit for that employee.',
+  })
+  @ApiBody({ type: SetQuotaDto })
+  setQuota(@Body() dto: SetQuotaDto) {
+    this.requireRoot(dto.root);
+    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
+    return this.quotaService.setOverride(dto);
+  }
+
+  /**
+   * REMOVE QUOTA
+   * Quita el override: el empleado vuelve a la cuota del root.
+   */
+  @Delete('quota')
+  @ApiOperation({ summary: 'Remove a per-employee quota override (falls back to the root quota)' })
+  @ApiBody({ type: RemoveQuotaDto })
+  removeQuota(@Body() dto: RemoveQuotaDto) {
+    this.requireRoot(dto.root);
+    dto.employeeNumber = this.requireEmployee(dto.employeeNumber);
+    return this.quotaService.removeOverride(dto);
+  }
+
+  @Get('quota/overrides')
+  @ApiOperation({ summary: 'List per-employee quota overrides of a root (plus the root default)' })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  listQuotaOverrides(@Query('root') root = 'nova-s3') {
+    return this.quotaService.listOverrides(this.requireRoot(root));
+  }
+
+  // ---------------------------------------------------------------------------
+  // POLICY — tipos / tamaños aceptados por root
+  // ---------------------------------------------------------------------------
+
+  /**
+   * CONTENT POLICY
+   * Qué acepta el root (familias, topes por familia, extensiones / tipos bloqueados).
+   * La UI lo usa para filtrar antes de subir; el backend lo aplica igual sobre el tipo real.
+   */
+  @Get('policy')
+  @ApiOperation({
+    summary: 'Get the content policy of a root (allowed types, size caps, blocked extensions)',
+    description:
+      'Policy: NOVA_S3_CONTENT_POLICIES[root], else the default (any type, no size cap, executables and HTML / SVG blocked). ' +
+      'Families are the search families plus `other`; `limits` has the effective cap per family (null = quota only). ' +
+      'Multipart uploads and register / complete check the type sniffed from the content, not the declared one; presigns only the declared values.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        root: 'photos',
+        source: 'root',
+        allowedFamilies: ['image', 'pdf'],
+        maxBytesByFamily: { image: 20971520 },
+        maxBytes: 52428800,
+        blockedExtensions: ['.exe', '.msi', '.html', '.svg'],
+        blockedTypes: ['application/x-msdownload', 'text/html', 'image/svg+xml'],
+        limits: [
+          { family: 'image', maxBytes: 20971520, max: '20 MB' },
+          { family: 'pdf', maxBytes: 52428800, max: '50 MB' },
+        ],
+      },
+    },
+  })
+  contentPolicy(@Query('root') root = 'nova-s3') {
+    return this.contentPolicyService.describe(this.requireRoot(root));
+  }
+
+  // ---------------------------------------------------------------------------
+  // ROOTS — registro de roots (bucket, prefijo, acceso) (admin)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * LIST ROOTS
+   * Todos los roots registrados (habilitados o no) con dónde quedan sus objetos.
+   */
+  @Get('roots')
+  @ApiOperation({
+    summary: 'List registered roots (admin)',
+    description:
+      'Every endpoint rejects a root that is not registered or is disabled (400); employees outside `allowedEmployees` get 403. ' +
+      '`effectiveBucket` / `effectivePrefix` show where the objects of the root live.',
+  })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        total: 2,
+        items: [
+          {
+            id: '5b1f...',
+            name: 'hr',
+            bucket: 'nova-hr-files',
+            basePrefix: 'drive/hr',
+            employeeScoped: false,
+            defaultUrlExpirySeconds: 300,
+            allowedEmployees: ['NOVAJG232701'],
+            enabled: true,
+            effectiveBucket: 'nova-hr-files',
+            effectivePrefix: 'drive/hr',
+            note: 'HR documents (restricted)',
+          },
+          {
+            id: '0c9a...',
+            name: 'nova-s3',
+            bucket: null,
+            basePrefix: null,
+            employeeScoped: true,
+            defaultUrlExpirySeconds: null,
+            allowedEmployees: null,
+            enabled: true,
+            effectiveBucket: 'nova-bucket',
+            effectivePrefix: 'nova-s3',
+            note: null,
+          },
+        ],
+      },
+    },
+  })
+  listRoots() {
+    return this.rootsService.list();
+  }
+
+  /**
+   * UPSERT ROOT
+   * Crea o actualiza un root. Los campos que no vienen no cambian.
+   */
+  @Put('roots')
+  @ApiOperation({
+    summary: 'Create or update a root (admin)',
+    description:
+      'bucket null = BUCKET; basePrefix null = the root name (keys `{basePrefix}/{employeeNumber}/...`). ' +
+      'employeeScoped false = a single shared space for every allowed employee. ' +
+      'defaultUrlExpirySeconds is used by file-url, presigns, version and thumbnail URLs when the client does not send an expiry. ' +
+      'Two roots cannot share or nest their location in the same bucket (409). ' +
+      'Once a root has files its bucket, basePrefix and employeeScoped cannot change (409).',
+  })
+  @ApiBody({ type: UpsertRootDto })
+  upsertRoot(@Body() dto: UpsertRootDto) {
+    return this.rootsService.upsert(dto);
+  }
+
+  /**
+   * REMOVE ROOT
+   * Solo sin archivos; uno con datos se deshabilita (enabled: false).
+   */
+  @Delete('roots')
+  @ApiOperation({ summary: 'Remove a root without files (admin). A root with files can only be disabled (409)' })
+  @ApiBody({ type: RemoveRootDto })
+  removeRoot(@Body() dto: RemoveRootDto) {
+    return this.rootsService.remove(dto);
+  }
+
+  // ---------------------------------------------------------------------------
+  // TAGS — tags y properties de usuario (files / folders)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * TAG COUNTS
+   * Todos los tags del empleado con cuántos items tiene cada uno.
+   */
+  @Get('tags')
+  @ApiOperation({
+    summary: 'List the tags used by an employee with item counts',
+    description: 'Most used first. Use these values for the `tags` filter of GET /nova-s3/list and GET /nova-s3/search.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiOkResponse({
+    description: 'Tag counts',
+    schema: {
+      example: {
+        success: true,
+        root: 'nova-s3',
+        total: 2,
+        items: [{ tag: 'Invoice', count: 42 }, { tag: '2026', count: 17 }],
+      },
+    },
+  })
+  tagCounts(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+  ) {
+    return this.tagsService.tagCounts(root, this.requireSpace(root, employeeNumber));
+  }
+
+  /**
+   * UPDATE TAGS
+   * Agrega / quita tags de un file o folder.
+   */
+  @Patch('tags')
+  @ApiOperation({
+    summary: 'Add / remove tags on a file or folder',
+    description:
+      'Tags are case-insensitive per employee: adding "invoice" when "Invoice" is already used reuses "Invoice". ' +
+      'Max 50 tags per item, 64 characters per tag, no commas.',
+  })
+  @ApiBody({ type: UpdateTagsDto })
+  @ApiOkResponse({
+    description: 'Updated item',
+    schema: {
+      example: {
+        success: true,
+        message: 'Tags updated',
+        item: { id: '8d3e1f0a-...', path: 'Finance/2026/invoice-001.pdf', name: 'invoice-001.pdf', type: 'file', tags: ['Invoice', '2026'], properties: {} },
+      },
+    },
+  })
+  async updateTags(@Body() dto: UpdateTagsDto) {
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'editor' },
+    ]);
+    return this.tagsService.updateTags(dto);
+  }
+
+  /**
+   * BULK TAG
+   * Mismos add / remove sobre una selección (cada folder como item, sin su subárbol).
+   */
+  @Post('tags/bulk')
+  @ApiOperation({
+    summary: 'Add / remove tags on a selection of files and folders',
+    description: 'Folders are tagged as items (their subtree is not touched). Missing paths are reported in `notFound`.',
+  })
+  @ApiBody({ type: BulkTagDto })
+  @ApiOkResponse({
+    description: 'Bulk tag result',
+    schema: { example: { success: true, updated: 12, unchanged: 1, notFound: ['Finance/old.pdf'], failed: [] } },
+  })
+  async bulkTag(@Body() dto: BulkTagDto) {
+    dto.employeeNumber = await this.scopeEmployee(
+      dto.root,
+      dto.employeeNumber,
+      dto.ownerEmployeeNumber,
+      (dto.paths ?? []).map((path) => ({ path, need: 'editor' as const })),
+    );
+    return this.tagsService.bulkTag(dto);
+  }
+
+  /**
+   * UPDATE PROPERTIES
+   * Set / unset de propiedades clave/valor (ej. client=ACME).
+   */
+  @Patch('properties')
+  @ApiOperation({
+    summary: 'Set / unset key-value properties on a file or folder',
+    description: 'Keys: letters, digits, "_", "-", "." (max 64). Values are stored as strings (max 512). Max 50 properties per item.',
+  })
+  @ApiBody({ type: UpdatePropertiesDto })
+  async updateProperties(@Body() dto: UpdatePropertiesDto) {
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'editor' },
+    ]);
+    return this.tagsService.updateProperties(dto);
+  }
+
+  // ---------------------------------------------------------------------------
+  // QUICK ACCESS — estrellas y recientes del empleado
+  // ---------------------------------------------------------------------------
+
+  /**
+   * STAR
+   * Marca un file / folder (propio o de un folder compartido con ownerEmployeeNumber).
+   */
+  @Post('starred')
+  @ApiOperation({
+    summary: 'Star a file or folder',
+    description: 'Stars follow the item when it is renamed or moved. Trashed items are hidden; permanently deleted items are removed.',
+  })
+  @ApiBody({ type: StarDto })
+  async star(@Body() dto: StarDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    const owner = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'viewer' },
+    ]);
+    return this.quickAccessService.star(dto.root, actor, owner, dto.path);
+  }
+
+  @Delete('starred')
+  @ApiOperation({ summary: 'Unstar a file or folder' })
+  @ApiBody({ type: StarDto })
+  async unstar(@Body() dto: StarDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    const owner = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, [
+      { path: dto.path, need: 'viewer' },
+    ]);
+    return this.quickAccessService.unstar(dto.root, actor, owner, dto.path);
+  }
+
+  /**
+   * LIST STARRED
+   * Con el path ACTUAL de cada item; los de folders compartidos traen ownerEmployeeNumber.
+   */
+  @Get('starred')
+  @ApiOperation({
+    summary: 'List starred items (newest first)',
+    description:
+      'Items from shared folders have `shared: true` and `ownerEmployeeNumber` (send it back to open them). ' +
+      'They are hidden once the grant is revoked.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiOkResponse({
+    description: 'Starred items',
+    schema: {
+      example: {
+        success: true,
+        root: 'nova-s3',
+        total: 1,
+        items: [
+          {
+            itemId: '8d3e1f0a-...',
+            path: 'Finance/2026/invoice-001.pdf',
+            name: 'invoice-001.pdf',
+            type: 'file',
+            size: 52344,
+            mimeType: 'application/pdf',
+            ownerEmployeeNumber: 'NOVAJG232701',
+            shared: false,
+            starredAt: '2026-10-01T10:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  listStarred(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+  ) {
+    const actor = this.requireMember(root, employeeNumber);
+    return this.quickAccessService.listStarred(root, actor, this.rootsService.spaceOf(root, actor));
+  }
+
+  /**
+   * RECENT
+   * Se alimenta solo: file-url (view), uploads / register / multipart complete (upload), rename.
+   */
+  @Get('recent')
+  @ApiOperation({
+    summary: 'List recently used files (newest first)',
+    description:
+      'Fed automatically by GET /nova-s3/file-url, uploads (multer, register, multipart complete) and renames. ' +
+      'Keeps the last NOVA_S3_RECENT_MAX (default 100) files per employee. Files follow renames / moves.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'limit', required: false, example: 50 })
+  listRecent(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const actor = this.requireMember(root, employeeNumber);
+    return this.quickAccessService.listRecent(
+      root,
+      actor,
+      limit ? Number(limit) : undefined,
+      this.rootsService.spaceOf(root, actor),
+    );
+  }
+
+  @Delete('recent')
+  @ApiOperation({ summary: 'Clear the recent files list of an employee' })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  clearRecent(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+  ) {
+    return this.quickAccessService.clearRecent(root, this.requireMember(root, employeeNumber));
+  }
+
+  // ---------------------------------------------------------------------------
+  // THUMBNAILS — previews de imágenes / PDFs
+  // ---------------------------------------------------------------------------
+
+  /**
+   * THUMBNAIL
+   * - Se generan en background después de upload / register / multipart complete (webp, NOVA_S3_THUMB_SIZE px)
+   * - Viven bajo el prefijo oculto {root}/.thumbs/{employee}/{fileId}.webp => siguen moves / renames sin copiar nada
+   * - Mientras se generan (o si el tipo no aplica) devuelve url null + placeholder (family del mime)
+   */
+  @Get('thumbnail')
+  @ApiOperation({
+    summary: 'Get a presigned thumbnail url (or a placeholder while processing)',
+    description:
+      'Thumbnails are generated in the background after uploads, register-upload and multipart complete, ' +
+      'and stored under the hidden `{root}/.thumbs/{employee}/` prefix keyed by file id (they follow renames / moves ' +
+      'and are removed on permanent delete). status: ready (url) | processing | failed | unsupported (url null, use `placeholder`). ' +
+      'Missing thumbnails (e.g. files uploaded before this feature) are queued on first request. ' +
+      'PDFs need a sharp/libvips build with PDF support; otherwise they are reported as unsupported.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'path', required: true, example: 'Photos/team.jpg' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'expiresSeconds', required: false, example: 300 })
+  @ApiQuery({
+    name: 'ownerEmployeeNumber',
+    required: false,
+    example: 'NOVAMR118402',
+    description: 'Shared folders: owner of the space. Requires a grant for employeeNumber.',
+  })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        path: 'Photos/team.jpg',
+        placeholder: 'image',
+        status: 'ready',
+        url: 'https://...',
+        width: 256,
+        height: 171,
+        expiresSeconds: 300,
+      },
+    },
+  })
+  async getThumbnail(
+    @Query('root') root = 'nova-s3',
+    @Query('path') path?: string,
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('expiresSeconds') expiresSeconds?: string,
+    @Query('ownerEmployeeNumber') ownerEmployeeNumber?: string,
+  ) {
+    if (!path) throw new BadRequestException('path is required');
+    const emp = await this.scopeEmployee(root, employeeNumber, ownerEmployeeNumber, [{ path, need: 'viewer' }]);
+    const exp = expiresSeconds ? Number(expiresSeconds) : undefined;
+    return this.thumbnailsService.getThumbnail({ root, path, employeeNumber: emp, expiresSeconds: exp });
+  }
+
+  // ---------------------------------------------------------------------------
+  // HASHES — SHA-256 de contenido y archivos duplicados
+  // ---------------------------------------------------------------------------
+
+  /**
+   * DUPLICATES
+   * - Con employeeNumber: duplicados dentro del espacio de ese empleado
+   * - Sin employeeNumber: reporte de todo el root (admin), agrupado por empleado
+   */
+  @Get('duplicates')
+  @ApiOperation({
+    summary: 'Report groups of identical files (same SHA-256) and the wasted bytes',
+    description:
+      'Groups files with the same content hash inside each employee space, largest waste first ' +
+      '(wastedBytes = size * (copies - 1)). Without employeeNumber the whole root is reported (admin). ' +
+      'Files still without hash (`withoutHash`) are not included: see POST /nova-s3/hashes/backfill.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: false, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'minSize', required: false, example: 1048576, description: 'Ignore files smaller than this (bytes)' })
+  @ApiQuery({ name: 'limit', required: false, example: 100, description: 'Max groups (default 100, max 1000)' })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        root: 'nova-s3',
+        employeeNumber: 'NOVAJG232701',
+        totalGroups: 1,
+        duplicateFiles: 3,
+        wastedBytes: 209715200,
+        withoutHash: 0,
+        groups: [
+          {
+            employeeNumber: 'NOVAJG232701',
+            sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+            size: 104857600,
+            count: 3,
+            wastedBytes: 209715200,
+            paths: ['Archive/video.mp4', 'Marketing/video.mp4', 'Marketing/video (1).mp4'],
+          },
+        ],
+      },
+    },
+  })
+  duplicates(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('minSize') minSize?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.hashesService.duplicates({
+      root: this.requireRoot(root),
+      employeeNumber: employeeNumber ? this.requireSpace(root, employeeNumber) : null,
+      minSize: minSize ? Number(minSize) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+  }
+
+  /**
+   * HASH BACKFILL
+   * Archivos sin hash (anteriores a esta feature / jobs cortados por un reinicio) => se encolan.
+   */
+  @Post('hashes/backfill')
+  @ApiOperation({
+    summary: 'Queue SHA-256 computation for files without content hash',
+    description:
+      'Reads each object from S3 in background (NOVA_S3_HASH_CONCURRENCY, default 2). ' +
+      'Call again until `withoutHash` reaches 0. Without employeeNumber the whole root is processed (admin).',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: false, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'limit', required: false, example: 1000, description: 'Max files queued per call (default 1000, max 10000)' })
+  backfillHashes(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.hashesService.backfill(
+      this.requireRoot(root),
+      employeeNumber ? this.requireEmployee(employeeNumber) : null,
+      limit ? Number(limit) : undefined,
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // MULTIPART — uploads grandes abandonados (admin)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * OPEN MULTIPART UPLOADS
+   * Registrados por presignBatch y todavía sin complete / abort (+ los que S3 tiene sin registro).
+   */
+  @Get('multipart/uploads')
+  @ApiOperation({
+    summary: 'List in-progress multipart uploads of a root (admin)',
+    description:
+      'Tracked uploads (created by POST /nova-s3/upload/presign/batch) that were never completed or aborted. ' +
+      'With includeUntracked=true also lists uploads S3 reports under `{root}/` without a tracking row (ListMultipartUploads). ' +
+      '`stale` ones are aborted by the sweeper.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'olderThanHours', required: false, example: 24, description: 'Default NOVA_S3_MULTIPART_STALE_HOURS (24)' })
+  @ApiQuery({ name: 'includeUntracked', required: false, example: 'true' })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        root: 'nova-s3',
+        olderThanHours: 24,
+        total: 1,
+        stale: 1,
+        items: [
+          {
+            tracked: true,
+            uploadId: 'AQIDBAUGBwgJCg...',
+            s3Key: 'nova-s3/NOVAJG232701/Marketing/video.mp4',
+            path: 'Marketing/video.mp4',
+            employeeNumber: 'NOVAJG232701',
+            size: 1073741824,
+            initiated: '2026-10-01T10:00:00.000Z',
+            stale: true,
+          },
+        ],
+      },
+    },
+  })
+  listMultipartUploads(
+    @Query('root') root = 'nova-s3',
+    @Query('olderThanHours') olderThanHours?: string,
+    @Query('includeUntracked') includeUntracked?: string,
+  ) {
+    return this.multipartService.listOpen({
+      root: this.requireRoot(root),
+      olderThanHours: olderThanHours ? Number(olderThanHours) : undefined,
+      includeUntracked: includeUntracked === 'true',
+    });
+  }
+
+  /**
+   * SWEEP MULTIPART UPLOADS
+   * También corre solo (al iniciar y cada NOVA_S3_MULTIPART_SWEEP_INTERVAL_MINUTES).
+   */
+  @Post('multipart/sweep')
+  @ApiOperation({
+    summary: 'Abort stale multipart uploads (tracked and untracked) of a root (admin)',
+    description:
+      'Aborts every in-progress upload under `{root}/` older than olderThanHours, so its parts stop being billed. ' +
+      'Tracked uploads S3 no longer has are closed as `missing`. ' +
+      'Runs automatically every NOVA_S3_MULTIPART_SWEEP_INTERVAL_MINUTES (default 60, 0 = off) for NOVA_S3_MULTIPART_SWEEP_ROOTS.',
+  })
+  @ApiBody({ type: SweepMultipartDto })
+  @ApiOkResponse({
+    schema: {
+      example: { success: true, root: 'nova-s3', dryRun: false, olderThanHours: 24, aborted: 3, untracked: 1, missing: 0, failed: [] },
+    },
+  })
+  sweepMultipartUploads(@Body() dto: SweepMultipartDto) {
+    this.requireRoot(dto.root);
+    return this.multipartService.sweep(dto);
+  }
+
+  // ---------------------------------------------------------------------------
+  // UPLOAD SESSIONS — seguimiento de presignBatch -> register
+  // ---------------------------------------------------------------------------
+
+  /**
+   * UPLOAD SESSION STATUS
+   * Archivos de la sesión: done (registrados), pending (sin register todavía) y failed.
+   */
+  @Get('upload-sessions/status')
+  @ApiOperation({
+    summary: 'Status of a direct upload session (created by presign/batch)',
+    description:
+      'Files are marked done when registered (register, register/batch or multipart/complete). ' +
+      'When the session expires (URL expiry + NOVA_S3_UPLOAD_SESSION_GRACE_MINUTES) every pending file is checked with HEAD: ' +
+      'objects that arrived are registered automatically, missing ones are marked failed and unfinished multipart uploads are aborted. ' +
+      'Only the space owner or the uploader can read it.',
+  })
+  @ApiQuery({ name: 'sessionId', required: true, example: '4b0c5a8e-2f5e-4d8b-9a3c-1f2e3d4c5b6a' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        session: {
+          id: '4b0c5a8e-2f5e-4d8b-9a3c-1f2e3d4c5b6a',
+          root: 'nova-s3',
+          employeeNumber: 'NOVAJG232701',
+          actorEmployeeNumber: 'NOVAJG232701',
+          basePath: 'Marketing',
+          status: 'open',
+          expiresAt: '2026-10-18T12:00:00.000Z',
+          createdAt: '2026-10-18T10:00:00.000Z',
+          closedAt: null,
+        },
+        counts: { total: 3, done: 1, pending: 1, failed: 1 },
+        files: [
+          { path: 'Marketing/logo.png', s3Key: 'nova-s3/NOVAJG232701/Marketing/logo.png', kind: 'put', size: 4096, status: 'done', resolution: 'registered', error: null, resolvedAt: '2026-10-18T10:01:00.000Z' },
+        ],
+      },
+    },
+  })
+  uploadSessionStatus(@Query('sessionId') sessionId: string, @Query('employeeNumber') employeeNumber: string) {
+    if (!sessionId) throw new BadRequestException('sessionId is required');
+    return this.uploadSessionsService.status(sessionId, this.requireEmployee(employeeNumber));
+  }
+
+  /**
+   * EXPIRE UPLOAD SESSIONS
+   * También corre solo cada NOVA_S3_UPLOAD_SESSION_SWEEP_MINUTES.
+   */
+  @Post('upload-sessions/expire')
+  @ApiOperation({
+    summary: 'Resolve expired upload sessions now (admin)',
+    description:
+      'Runs the same job as the timer (NOVA_S3_UPLOAD_SESSION_SWEEP_MINUTES, default 15, 0 = off): ' +
+      'auto-registers pending files found in S3, fails the rest and aborts their multipart uploads.',
+  })
+  @ApiOkResponse({ schema: { example: { sessions: 2, autoRegistered: 5, failed: 1 } } })
+  expireUploadSessions() {
+    return this.novaS3Service.expireUploadSessions();
+  }
+
+  // ---------------------------------------------------------------------------
+  // LEGACY IMPORT — layout /s3 ({folder}/{employeeNumber}/...) -> nova_s3 (admin)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * LEGACY IMPORT
+   * dryRun (default) = solo reporte. Con dryRun=false crea el import y procesa hasta maxObjects;
+   * volver a llamar con importId hasta que `done` sea true.
+   */
+  @Post('legacy-import')
+  @ApiOperation({
+    summary: 'Import legacy /s3 employee folders into the nova-s3 index (admin)',
+    description:
+      'Walks {legacyFolder}/{employeeNumber}/... (or every employee under the folder) and creates nova_s3 folder and file rows ' +
+      'with the size and last-modified date of each object. Objects are copied (default) or moved into {root}/{employeeNumber}/...; ' +
+      'transfer "none" only indexes and is only valid when legacyFolder is the root itself. ' +
+      'dryRun=true (default) returns the report without writing anything. ' +
+      'Otherwise each call processes up to maxObjects and stores a cursor: call again with importId to resume. ' +
+      'Already imported paths are skipped and paths used by other content are never overwritten (reported as conflicts). ' +
+      'Failed objects are listed in `issues`; a new import of the same folder retries them. Run POST /nova-s3/hashes/backfill afterwards to hash the imported files.',
+  })
+  @ApiBody({ type: LegacyImportDto })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        dryRun: true,
+        prefix: 'documents/',
+        legacyFolder: 'documents',
+        employeeNumber: null,
+        root: 'nova-s3',
+        basePath: 'Legacy/documents',
+        transfer: 'copy',
+        totals: { objects: 1250, folderMarkers: 40, files: 1200, bytes: 734003200, alreadyImported: 0, conflicts: 2, invalid: 1, unscoped: 7 },
+        employees: [{ employeeNumber: 'NOVAJG232701', folders: 12, files: 310, bytes: 209715200 }],
+        items: [{ key: 'documents/NOVAJG232701/Payroll/jan.pdf', employeeNumber: 'NOVAJG232701', path: 'Legacy/documents/Payroll/jan.pdf', type: 'file', size: 52340 }],
+        issues: [{ key: 'documents/NOVAJG232701/a//b.pdf', reason: 'invalid', detail: 'invalid path segment' }],
+      },
+    },
+  })
+  legacyImport(@Body() dto: LegacyImportDto) {
+    this.requireRoot(dto.root);
+    return this.legacyImportService.run(dto);
+  }
+
+  /**
+   * LEGACY IMPORT STATUS
+   */
+  @Get('legacy-import/status')
+  @ApiOperation({ summary: 'Progress of a legacy import (admin)' })
+  @ApiQuery({ name: 'importId', required: true, example: 'e2f1c3a4-5b6d-4e7f-8a9b-0c1d2e3f4a5b' })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        dryRun: false,
+        importId: 'e2f1c3a4-5b6d-4e7f-8a9b-0c1d2e3f4a5b',
+        done: false,
+        status: 'running',
+        prefix: 'documents/',
+        transfer: 'copy',
+        cursor: 'documents/NOVAJG232701/Payroll/jan.pdf',
+        totals: { scanned: 5000, folders: 120, files: 4850, bytes: 2147483648, alreadyImported: 20, skipped: 3, failed: 0 },
+        issues: [],
+        lastError: null,
+      },
+    },
+  })
+  legacyImportStatus(@Query('importId') importId: string) {
+    if (!importId) throw new BadRequestException('importId is required');
+    return this.legacyImportService.status(importId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // ACTIVITY — historial por item y actividad reciente
+  // ---------------------------------------------------------------------------
+
+  /**
+   * ITEM HISTORY
+   * - Por itemId (sigue al item en rename / move) o por path (el item que está ahí hoy o el último borrado desde ahí).
+   * - Folders compartidos: ownerEmployeeNumber + path (el grant se valida sobre el path).
+   */
+  @Get('activity/item')
+  @ApiOperation({
+    summary: 'Activity history of one file or folder (newest first)',
+    description:
+      'Records upload, createFolder, rename, move, delete and url (GET /nova-s3/file-url) with the actor, old / new path and time. ' +
+      'Entries are keyed by item id, so the history survives renames and moves (also of a parent folder) and trash + restore. ' +
+      'Without itemId, `path` resolves to the item at that path or, if none, to the last item deleted from it. ' +
+      'Paginate with `nextCursor`.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'ownerEmployeeNumber', required: false, example: 'NOVAAB100200' })
+  @ApiQuery({ name: 'path', required: false, example: 'Finance/2026/invoice-001.pdf' })
+  @ApiQuery({ name: 'itemId', required: false, example: '8d3e1f0a-2b4c-4d6e-8f0a-1b2c3d4e5f60' })
+  @ApiQuery({ name: 'limit', required: false, example: 50 })
+  @ApiQuery({ name: 'cursor', required: false })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        root: 'nova-s3',
+        itemId: '8d3e1f0a-2b4c-4d6e-8f0a-1b2c3d4e5f60',
+        item: { path: 'Finance/2026/invoice-001.pdf', name: 'invoice-001.pdf', type: 'file' },
+        total: 2,
+        nextCursor: null,
+        items: [
+          {
+            id: 'b71f...',
+            action: 'move',
+            itemId: '8d3e1f0a-2b4c-4d6e-8f0a-1b2c3d4e5f60',
+            itemType: 'file',
+            oldPath: 'Inbox/invoice-001.pdf',
+            newPath: 'Finance/2026/invoice-001.pdf',
+            ownerEmployeeNumber: 'NOVAJG232701',
+            actorEmployeeNumber: 'NOVAJG232701',
+            meta: null,
+            createdAt: '2026-10-02T09:30:00.000Z',
+          },
+          {
+            id: 'a03c...',
+            action: 'upload',
+            itemId: '8d3e1f0a-2b4c-4d6e-8f0a-1b2c3d4e5f60',
+            itemType: 'file',
+            oldPath: null,
+            newPath: 'Inbox/invoice-001.pdf',
+            ownerEmployeeNumber: 'NOVAJG232701',
+            actorEmployeeNumber: 'NOVAJG232701',
+            meta: null,
+            createdAt: '2026-10-01T10:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  async itemActivity(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('ownerEmployeeNumber') ownerEmployeeNumber?: string,
+    @Query('path') path?: string,
+    @Query('itemId') itemId?: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    if (ownerEmployeeNumber?.trim() && !path?.trim()) {
+      throw new BadRequestException('path is required for shared folders');
+    }
+    const owner = await this.scopeEmployee(root, employeeNumber, ownerEmployeeNumber, [{ path, need: 'viewer' }]);
+    return this.activityService.itemHistory({
+      root,
+      owner,
+      itemId,
+      path,
+      limit: limit ? Number(limit) : undefined,
+      cursor,
+    });
+  }
+
+  /**
+   * RECENT ACTIVITY
+   * - scope=actor (default): lo que hizo el empleado, en su espacio o en folders compartidos.
+   * - scope=space: todo lo que pasó en su espacio (incluye lo que hicieron invitados).
+   */
+  @Get('activity/recent')
+  @ApiOperation({
+    summary: 'Recent activity of an employee (newest first)',
+    description:
+      'scope=actor (default) lists what the employee did; scope=space lists everything done in their space, including guests of shared folders. ' +
+      'Paths are the ones at the time of each action. Paginate with `nextCursor`.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'scope', required: false, enum: ['actor', 'space'], example: 'actor' })
+  @ApiQuery({ name: 'limit', required: false, example: 50 })
+  @ApiQuery({ name: 'cursor', required: false })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        root: 'nova-s3',
+        scope: 'actor',
+        total: 1,
+        nextCursor: 'WyJjcmVhdGVkQXQiLCJkZXNjIixbIjIwMjYtMTAtMDIgMDk6MzA6MDAuMTIzNDU2Il0sImI3MWYuLi4iXQ',
+        items: [
+          {
+            id: 'b71f...',
+            action: 'rename',
+            itemId: '0c9a...',
+            itemType: 'folder',
+            oldPath: 'Finance/2025',
+            newPath: 'Finance/2025-closed',
+            ownerEmployeeNumber: 'NOVAJG232701',
+            actorEmployeeNumber: 'NOVAJG232701',
+            meta: null,
+            createdAt: '2026-10-02T09:30:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  recentActivity(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('scope') scope?: NovaS3ActivityScope,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    const actor = this.requireMember(root, employeeNumber);
+    return this.activityService.recent({
+      root,
+      employeeNumber: actor,
+      space: this.rootsService.spaceOf(root, actor),
+      scope,
+      limit: limit ? Number(limit) : undefined,
+      cursor,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // BULK — operaciones en lote (multi-select) como job en background
+  // ---------------------------------------------------------------------------
+
+  /**
+   * BULK
+   * - Responde al instante con jobId; los items corren de a uno, en orden, con las mismas reglas que
+   *   move-file / move-folder / copy-* / DELETE (file o folder se decide con la BD).
+   * - Folders compartidos: los grants se validan para todos los items ANTES de crear el job.
+   */
+  @Post('bulk')
+  @ApiOperation({
+    summary: 'Run move / delete / copy on many items as a background job',
+    description:
+      'Returns a jobId immediately and processes the items one by one, in order (a failed item does not stop the job). ' +
+      'Each item runs the same operation as the single-item endpoint: move (move-file / move-folder), copy (copy-file / copy-folder) ' +
+      'or delete (trash, or permanent=true). Poll GET /nova-s3/bulk/status for progress and per-item results; ' +
+      'POST /nova-s3/bulk/cancel stops the job between items. Max 1000 items. ' +
+      '`conflictStrategy` applies to every move item (each item result includes its `outcome`).',
+  })
+  @ApiBody({ type: BulkJobDto })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        jobId: '3c2b1a09-8f7e-4d6c-9b5a-4f3e2d1c0b9a',
+        status: 'queued',
+        total: 3,
+        message: 'Bulk job queued: poll GET /nova-s3/bulk/status',
+      },
+    },
+  })
+  async bulk(@Body() dto: BulkJobDto) {
+    const actor = this.requireEmployee(dto.employeeNumber);
+    const checks: NovaS3GrantCheck[] = dto.items.flatMap((i): NovaS3GrantCheck[] => {
+      if (i.op === 'delete') return [{ path: i.path, need: 'editor', inside: true }];
+      return [
+        i.op === 'move' ? { path: i.path, need: 'editor', inside: true } : { path: i.path, need: 'viewer' },
+        { path: i.targetPath, need: 'editor' },
+      ];
+    });
+    dto.employeeNumber = await this.scopeEmployee(dto.root, dto.employeeNumber, dto.ownerEmployeeNumber, checks);
+    return this.novaS3Service.startBulkJob(dto, actor);
+  }
+
+  /**
+   * BULK STATUS
+   * Conteos + resultado / error de cada item. Solo el dueño del espacio o quien lanzó el job.
+   */
+  @Get('bulk/status')
+  @ApiOperation({
+    summary: 'Progress and per-item results of a bulk job',
+    description:
+      'status: queued | running | completed | cancelled | failed (failed = the runner itself failed, see lastError). ' +
+      'Items: pending | running | done | failed | cancelled. `stale: true` means the runner stopped (restart) and the job will be resumed.',
+  })
+  @ApiQuery({ name: 'jobId', required: true, example: '3c2b1a09-8f7e-4d6c-9b5a-4f3e2d1c0b9a' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        jobId: '3c2b1a09-8f7e-4d6c-9b5a-4f3e2d1c0b9a',
+        root: 'nova-s3',
+        employeeNumber: 'NOVAJG232701',
+        actorEmployeeNumber: 'NOVAJG232701',
+        status: 'running',
+        cancelRequested: false,
+        stale: false,
+        counts: { total: 3, pending: 1, running: 1, done: 1, failed: 0, cancelled: 0, processed: 1, percent: 33 },
+        lastError: null,
+        createdAt: '2026-10-18T10:00:00.000Z',
+        startedAt: '2026-10-18T10:00:00.200Z',
+        finishedAt: null,
+        items: [
+          {
+            position: 0,
+            op: 'move',
+            path: 'Inbox/invoice-001.pdf',
+            targetPath: 'Finance/2026',
+            permanent: false,
+            status: 'done',
+            result: { message: 'Moved file', newPath: 'Finance/2026/invoice-001.pdf' },
+            error: null,
+            finishedAt: '2026-10-18T10:00:01.000Z',
+          },
+          { position: 1, op: 'move', path: 'Inbox/Scans', targetPath: 'Archive', permanent: false, status: 'running', result: null, error: null, finishedAt: null },
+          { position: 2, op: 'delete', path: 'Inbox/old.txt', targetPath: null, permanent: false, status: 'pending', result: null, error: null, finishedAt: null },
+        ],
+      },
+    },
+  })
+  bulkStatus(@Query('jobId') jobId?: string, @Query('employeeNumber') employeeNumber?: string) {
+    if (!jobId) throw new BadRequestException('jobId is required');
+    return this.bulkJobsService.status(jobId, this.requireEmployee(employeeNumber));
+  }
+
+  /**
+   * BULK CANCEL
+   * En cola => se cancela ya. Corriendo => termina el item en curso y el resto queda `cancelled`.
+   */
+  @Post('bulk/cancel')
+  @ApiOperation({
+    summary: 'Cancel a bulk job',
+    description:
+      'A queued job is cancelled immediately. A running job stops before the next item: the current item finishes ' +
+      'and the remaining items are marked cancelled. Items already processed are not undone.',
+  })
+  @ApiBody({ type: CancelBulkJobDto })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        jobId: '3c2b1a09-8f7e-4d6c-9b5a-4f3e2d1c0b9a',
+        status: 'running',
+        message: 'Cancellation requested: the job stops after the current item',
+      },
+    },
+  })
+  cancelBulk(@Body() dto: CancelBulkJobDto) {
+    return this.bulkJobsService.requestCancel(dto.jobId, this.requireEmployee(dto.employeeNumber));
+  }
+
+  // ---------------------------------------------------------------------------
+  // FOLDER SIZES — totales recursivos por folder
+  // ---------------------------------------------------------------------------
+
+  /**
+   * LARGEST FOLDERS
+   * Los folders que más ocupan (bytes de todo su subárbol). Con path: solo debajo de ese folder.
+   * Folders compartidos: ownerEmployeeNumber + path (el grant se valida sobre el path).
+   */
+  @Get('folders/largest')
+  @ApiOperation({
+    summary: 'Largest folders of a space by recursive size',
+    description:
+      'Folders ordered by the bytes of their whole subtree (kept up to date on every upload, delete, move, copy and restore). ' +
+      'Nested folders are listed too, so a parent always ranks above its heaviest child. ' +
+      'The same totals come as `size` / `fileCount` on folders in GET /nova-s3/list and GET /nova-s3/tree.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: true, example: 'NOVAJG232701' })
+  @ApiQuery({ name: 'ownerEmployeeNumber', required: false, example: 'NOVAAB100200' })
+  @ApiQuery({ name: 'path', required: false, example: 'Marketing', description: 'Only folders inside this one' })
+  @ApiQuery({ name: 'limit', required: false, example: 20, description: 'Default 20, max 100' })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        success: true,
+        root: 'nova-s3',
+        path: '',
+        total: 2,
+        items: [
+          { id: '8d3e...', path: 'Marketing', name: 'Marketing', fileCount: 412, size: 7516192768, lastModified: '2026-10-01T10:00:00.000Z' },
+          { id: '1f0a...', path: 'Marketing/Videos', name: 'Videos', fileCount: 37, size: 6442450944, lastModified: '2026-09-12T08:00:00.000Z' },
+        ],
+      },
+    },
+  })
+  async largestFolders(
+    @Query('root') root = 'nova-s3',
+    @Query('employeeNumber') employeeNumber?: string,
+    @Query('ownerEmployeeNumber') ownerEmployeeNumber?: string,
+    @Query('path') path?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (ownerEmployeeNumber?.trim() && !path?.trim()) {
+      throw new BadRequestException('path is required for shared folders');
+    }
+    const owner = await this.scopeEmployee(root, employeeNumber, ownerEmployeeNumber, [{ path, need: 'viewer' }]);
+    return this.folderSizesService.largest({
+      root,
+      employeeNumber: owner,
+      path,
+      limit: limit ? Number(limit) : undefined,
+    });
+  }
+
+  /**
+   * REPAIR FOLDER SIZES
+   * Recalcula los totales desde las filas file (después de tocar la tabla a mano, o si un delta se perdió).
+   */
+  @Post('folder-sizes/repair')
+  @ApiOperation({
+    summary: 'Recompute folder sizes from scratch (admin)',
+    description:
+      'Sums the files of every folder subtree and fixes the folders whose stored totals differ. ' +
+      'Without employeeNumber every space of the root is processed (one statement per space). ' +
+      'Reconcile runs it automatically for the space after repairs that create, delete or resize rows.',
+  })
+  @ApiQuery({ name: 'root', required: false, example: 'nova-s3' })
+  @ApiQuery({ name: 'employeeNumber', required: false, example: 'NOVAJG232701' })
+  @ApiOkResponse({
+    schema: {
+      example: { success: true, root: 'nova-s3', spaces: 1, foldersFixed: 2, fixed: [{ employeeNumber: 'NOVAJG232701', folders: 2 }] },
+    },
+  })
+  repairFolderSizes(@Query('root') root = 'nova-s3', @Query('employeeNumber') employeeNumber?: string) {
+    return this.folderSizesService.repair({
+      root: this.requireRoot(root),
+      employeeNumber: employeeNumber ? this.requireEmployee(employeeNumber) : null,
+    });
   }
 }
@@ -4,6 +4,40 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { NovaS3Service } from './nova-s3.service';
 import { NovaS3Controller } from './nova-s3.controller';
 import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Trash } from './entities/nova-s3-trash.entity';
+import { NovaS3Version } from './entities/nova-s3-version.entity';
+import { NovaS3VersionsService } from './nova-s3-versions.service';
+import { NovaS3Share } from './entities/nova-s3-share.entity';
+import { NovaS3SharesService } from './nova-s3-shares.service';
+import { NovaS3Grant } from './entities/nova-s3-grant.entity';
+import { NovaS3Operation } from './entities/nova-s3-operation.entity';
+import { NovaS3Quota } from './entities/nova-s3-quota.entity';
+import { NovaS3Star } from './entities/nova-s3-star.entity';
+import { NovaS3Recent } from './entities/nova-s3-recent.entity';
+import { NovaS3Multipart } from './entities/nova-s3-multipart.entity';
+import { NovaS3UploadSession } from './entities/nova-s3-upload-session.entity';
+import { NovaS3UploadSessionFile } from './entities/nova-s3-upload-session-file.entity';
+import { NovaS3LegacyImport } from './entities/nova-s3-legacy-import.entity';
+import { NovaS3Activity } from './entities/nova-s3-activity.entity';
+import { NovaS3BulkJob } from './entities/nova-s3-bulk-job.entity';
+import { NovaS3BulkJobItem } from './entities/nova-s3-bulk-job-item.entity';
+import { NovaS3Root } from './entities/nova-s3-root.entity';
+import { NovaS3GrantsService } from './nova-s3-grants.service';
+import { NovaS3ArchiveService } from './nova-s3-archive.service';
+import { NovaS3ReconcileService } from './nova-s3-reconcile.service';
+import { NovaS3QuotaService } from './nova-s3-quota.service';
+import { NovaS3TagsService } from './nova-s3-tags.service';
+import { NovaS3QuickAccessService } from './nova-s3-quick-access.service';
+import { NovaS3ThumbnailsService } from './nova-s3-thumbnails.service';
+import { NovaS3HashesService } from './nova-s3-hashes.service';
+import { NovaS3MultipartService } from './nova-s3-multipart.service';
+import { NovaS3UploadSessionsService } from './nova-s3-upload-sessions.service';
+import { NovaS3LegacyImportService } from './nova-s3-legacy-import.service';
+import { NovaS3ActivityService } from './nova-s3-activity.service';
+import { NovaS3BulkJobsService } from './nova-s3-bulk-jobs.service';
+import { NovaS3FolderSizesService } from './nova-s3-folder-sizes.service';
+import { NovaS3ContentPolicyService } from './nova-s3-content-policy.service';
+import { NovaS3RootsService } from './nova-s3-roots.service';
 import { S3Module } from 'src/s3/s3.module';
 import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
 
@@ -11,11 +45,29 @@ import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
 
 
 @Module({
-  imports: [S3Module, TypeOrmModule.forFeature([NovaS3])],
+  imports: [S3Module, TypeOrmModule.forFeature([NovaS3, NovaS3Trash, NovaS3Version, NovaS3Share, NovaS3Grant, NovaS3Operation, NovaS3Quota, NovaS3Star, NovaS3Recent, NovaS3Multipart, NovaS3UploadSession, NovaS3UploadSessionFile, NovaS3LegacyImport, NovaS3Activity, NovaS3BulkJob, NovaS3BulkJobItem, NovaS3Root])],
   controllers: [NovaS3Controller],
   providers: [
     NovaS3Service,
     NovaS3StorageUtil, // ✅ ESTE ES EL FIX del error
+    NovaS3VersionsService,
+    NovaS3SharesService,
+    NovaS3GrantsService,
+    NovaS3ArchiveService,
+    NovaS3ReconcileService,
+    NovaS3QuotaService,
+    NovaS3TagsService,
+    NovaS3QuickAccessService,
+    NovaS3ThumbnailsService,
+    NovaS3HashesService,
+    NovaS3MultipartService,
+    NovaS3UploadSessionsService,
+    NovaS3LegacyImportService,
+    NovaS3ActivityService,
+    NovaS3BulkJobsService,
+    NovaS3FolderSizesService,
+    NovaS3ContentPolicyService,
+    NovaS3RootsService,
   ],
   exports: [NovaS3Service],
 })
@@ -0,0 +1,2252 @@
+/* src/nova-s3/nova-s3.service.spec.ts */
+import { randomUUID } from 'crypto';
+import { PassThrough, Readable } from 'stream';
+import { inflateRawSync } from 'zlib';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  Logger,
+  PayloadTooLargeException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+
+import { NovaS3Service } from './nova-s3.service';
+import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Trash } from './entities/nova-s3-trash.entity';
+import { NovaS3Operation } from './entities/nova-s3-operation.entity';
+import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import { NovaS3VersionsService } from './nova-s3-versions.service';
+import { NovaS3QuotaService } from './nova-s3-quota.service';
+import { NovaS3TagsService } from './nova-s3-tags.service';
+import { NovaS3QuickAccessService } from './nova-s3-quick-access.service';
+import { NovaS3ThumbnailsService } from './nova-s3-thumbnails.service';
+import { NovaS3HashesService } from './nova-s3-hashes.service';
+import { NovaS3MultipartService } from './nova-s3-multipart.service';
+import { NovaS3UploadSessionsService } from './nova-s3-upload-sessions.service';
+import { NovaS3ActivityService } from './nova-s3-activity.service';
+import { NovaS3BulkJobsService } from './nova-s3-bulk-jobs.service';
+import { NovaS3FolderSizesService } from './nova-s3-folder-sizes.service';
+import { NovaS3ContentPolicyService } from './nova-s3-content-policy.service';
+import { NovaS3RootsService } from './nova-s3-roots.service';
+import { NovaS3SharesService } from './nova-s3-shares.service';
+import { NovaS3Share } from './entities/nova-s3-share.entity';
+import { CreateShareDto } from './dto/share.dto';
+import { NovaS3GrantsService } from './nova-s3-grants.service';
+import { NovaS3Grant, NovaS3GrantRole } from './entities/nova-s3-grant.entity';
+import { NovaS3Controller } from './nova-s3.controller';
+import { NovaS3ArchiveService } from './nova-s3-archive.service';
+import { NovaS3ReconcileService } from './nova-s3-reconcile.service';
+import { NovaS3LegacyImportService } from './nova-s3-legacy-import.service';
+import { RenameDto } from './dto/rename.dto';
+import { SearchDto } from './dto/search.dto';
+import { buildTenantS3Key, nameOf, parentOf } from './utils/nova-s3-path.util';
+
+// ── In-memory repositories ─────────────────────────────────────────────────
+
+type Where = Record<string, unknown>;
+
+const field = (row: object, key: string) => (row as Where)[key];
+
+/** Postgres LIKE (default escape `\`) as a RegExp, so the fake filters exactly like the DB would. */
+const likeToRegExp = (pattern: string) => {
+  const literal = (c: string) => c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  let re = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') re += literal(pattern[++i] ?? '');
+    else if (c === '%') re += '.*';
+    else if (c === '_') re += '.';
+    else re += literal(c);
+  }
+  return new RegExp(`^${re}$`, 's');
+};
+
+const matches = (row: object, where: Where) =>
+  Object.entries(where).every(([key, v]) => {
+    const value = field(row, key);
+    if (v instanceof FindOperator) {
+      if (v.type === 'like')
+        return likeToRegExp(String(v.value)).test(String(value));
+      if (v.type === 'in') return (v.value as unknown[]).includes(value);
+      if (v.type === 'lessThan') return (value as Date) < (v.value as Date);
+      throw new Error(`fake repo: unsupported operator ${v.type}`);
+    }
+    return (value ?? null) === (v ?? null);
+  });
+
+class FakeRepo<T extends object> {
+  rows: T[] = [];
+  manager: unknown;
+
+  private filter(where?: Where | Where[]) {
+    const list = Array.isArray(where) ? where : [where ?? {}];
+    return this.rows.filter((r) => list.some((w) => matches(r, w)));
+  }
+
+  private put(item: T) {
+    const row = item as Where;
+    row.id ??= randomUUID();
+    row.createdAt ??= new Date();
+    const i = this.rows.findIndex((r) => field(r, 'id') === row.id);
+    if (i >= 0) this.rows[i] = { ...this.rows[i], ...item };
+    else this.rows.push({ ...item });
+  }
+
+  create = jest.fn((v: T) => ({ ...v }));
+  find = jest.fn((opts: { where?: Where | Where[]; take?: number } = {}) =>
+    Promise.resolve(
+      this.filter(opts.where)
+        .slice(0, opts.take)
+        .map((r) => ({ ...r })),
+    ),
+  );
+  findOne = jest.fn((opts: { where?: Where | Where[] }) => {
+    const found = this.filter(opts.where)[0];
+    return Promise.resolve(found ? { ...found } : null);
+  });
+  save = jest.fn((v: T | T[]) => {
+    (Array.isArray(v) ? v : [v]).forEach((item) => this.put(item));
+    return Promise.resolve(v);
+  });
+  insert = jest.fn((v: T | T[]) => {
+    (Array.isArray(v) ? v : [v]).forEach((item) => this.put({ ...item }));
+    return Promise.resolve({});
+  });
+  upsert = jest.fn((v: T | T[], conflictPaths: string[]) => {
+    for (const item of Array.isArray(v) ? v : [v]) {
+      const key = Object.fromEntries(
+        conflictPaths.map((k) => [k, field(item, k)]),
+      );
+      const hit = this.filter(key)[0];
+      if (hit) Object.assign(hit, item);
+      else this.put({ ...item });
+    }
+    return Promise.resolve({});
+  });
+  update = jest.fn((where: Where, patch: Partial<T>) => {
+    const hit = this.filter(where);
+    hit.forEach((r) => Object.assign(r, patch));
+    return Promise.resolve({ affected: hit.length });
+  });
+  delete = jest.fn((where: Where) => {
+    const hit = new Set(this.filter(where));
+    this.rows = this.rows.filter((r) => !hit.has(r));
+    return Promise.resolve({ affected: hit.size });
+  });
+}
+
+/** nova_s3, nova_s3_trash and nova_s3_operation sharing one manager; transactions run against the same repos. */
+const fakeStore = () => {
+  const files = new FakeRepo<NovaS3>();
+  const trash = new FakeRepo<NovaS3Trash>();
+  const ops = new FakeRepo<NovaS3Operation>();
+
+  const of = (entity: unknown) =>
+    (entity === NovaS3
+      ? files
+      : entity === NovaS3Trash
+        ? trash
+        : ops) as unknown as FakeRepo<object>;
+  const em = {
+    getRepository: of,
+    save: (entity: unknown, v: object) => of(entity).save(v),
+    insert: (entity: unknown, v: object[]) => of(entity).insert(v),
+    update: (entity: unknown, where: Where, patch: object) =>
+      of(entity).update(where, patch),
+    delete: (entity: unknown, where: Where) => of(entity).delete(where),
+  };
+  const manager = {
+    ...em,
+    transaction: jest.fn((cb: (m: typeof em) => Promise<unknown>) => cb(em)),
+  };
+  [files, trash, ops].forEach((t) => (t.manager = manager));
+
+  return { files, trash, ops };
+};
+
+/** Sort keys of the search query (`sort_0` / keyset) as Postgres computes them. Relevance needs pg_trgm: not emulated. */
+const SEARCH_SORT_KEYS: Record<string, (r: NovaS3) => string | number> = {
+  'lower(n.name)': (r) => r.name.toLowerCase(),
+  'COALESCE(n.size, -1)': (r) => Number(r.size ?? -1),
+};
+
+/** Conditions of the search query. The trigram half (`:q <% name`) is not emulated: the fake only matches substrings. */
+const SEARCH_CONDITIONS: Record<string, (r: NovaS3, p: Where) => boolean> = {
+  'n.root = :root': (r, p) => r.root === p.root,
+  'n.employeeNumber = :emp': (r, p) => r.employeeNumber === p.emp,
+  '(lower(n.name) LIKE :like OR :q <% lower(n.name))': (r, p) =>
+    likeToRegExp(String(p.like)).test(r.name.toLowerCase()),
+  'n.path LIKE :subtree': (r, p) =>
+    likeToRegExp(String(p.subtree)).test(r.path),
+  'n.type = :type': (r, p) => r.type === p.type,
+  'n.size >= :minSize': (r, p) => Number(r.size) >= Number(p.minSize),
+  'n.size <= :maxSize': (r, p) => Number(r.size) <= Number(p.maxSize),
+};
+
+/**
+ * `repo.createQueryBuilder('n')` for NovaS3Service.search over the fake rows:
+ * the known conditions, ORDER BY (key, id), the keyset `(key, n.id) > (:cursor0, :cursorId)` and LIMIT.
+ */
+const searchQuery = (files: FakeRepo<NovaS3>) => {
+  const params: Where = {};
+  const filters: ((r: NovaS3) => boolean)[] = [];
+  let sortKey = (r: NovaS3): string | number => r.id;
+  let desc = false;
+  let take = Infinity;
+
+  const compare = (a: string | number, b: string | number) =>
+    typeof a === 'number' ? a - Number(b) : a < b ? -1 : a > b ? 1 : 0;
+  const sortThenId = (r: NovaS3, key: string | number, id: string) =>
+    compare(sortKey(r), key) || compare(r.id, id);
+
+  const qb = {
+    where: (sql: string, p?: Where) => qb.andWhere(sql, p),
+    andWhere: (sql: string, p?: Where) => {
+      Object.assign(params, p);
+      const keyset = /^\((.+), n\.id\) ([<>]) \(/.exec(sql);
+      if (keyset) {
+        const after = keyset[2] === '>';
+        filters.push((r) => {
+          const c = sortThenId(
+            r,
+            String(params.cursor0),
+            String(params.cursorId),
+          );
+          return after ? c > 0 : c < 0;
+        });
+      } else {
+        const condition = SEARCH_CONDITIONS[sql];
+        if (!condition)
+          throw new Error(`fake search: unsupported condition ${sql}`);
+        filters.push((r) => condition(r, params));
+      }
+      return qb;
+    },
+    setParameters: (p: Where) => {
+      Object.assign(params, p);
+      return qb;
+    },
+    addSelect: () => qb,
+    orderBy: (expr: string, dir: 'ASC' | 'DESC') => {
+      if (!SEARCH_SORT_KEYS[expr])
+        throw new Error(`fake search: unsupported order ${expr}`);
+      sortKey = SEARCH_SORT_KEYS[expr];
+      desc = dir === 'DESC';
+      return qb;
+    },
+    addOrderBy: () => qb,
+    limit: (n: number) => {
+      take = n;
+      return qb;
+    },
+    getRawAndEntities: () => {
+      const entities = files.rows
+        .filter((r) => filters.every((f) => f(r)))
+        .sort((a, b) => (desc ? -1 : 1) * sortThenId(a, sortKey(b), b.id))
+        .slice(0, take);
+      return Promise.resolve({
+        entities,
+        raw: entities.map((r) => ({ n_id: r.id, sort_0: String(sortKey(r)) })),
+      });
+    },
+  };
+  return qb;
+};
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const ROOT = 'nova-s3';
+const EMP = 'EMP1';
+const DAY = 24 * 60 * 60 * 1000;
+
+const item = (path: string, type: 'file' | 'folder' = 'file', size = 100) =>
+  ({
+    id: randomUUID(),
+    root: ROOT,
+    employeeNumber: EMP,
+    path,
+    parentPath: parentOf(path),
+    name: nameOf(path),
+    type,
+    s3Key: buildTenantS3Key(ROOT, EMP, path, type === 'folder'),
+    size: type === 'file' ? size : null,
+    mimeType: type === 'file' ? 'application/pdf' : null,
+    contentHash: null,
+    meta: null,
+    tags: [],
+    properties: {},
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  }) as unknown as NovaS3;
+
+const paths = (rows: { path: string }[]) => rows.map((r) => r.path).sort();
+
+describe('NovaS3Service', () => {
+  let service: NovaS3Service;
+  let db: ReturnType<typeof fakeStore>;
+  let storage: Record<string, jest.Mock>;
+  let versions: Record<string, jest.Mock>;
+  let thumbnails: Record<string, jest.Mock>;
+  let quickAccess: Record<string, jest.Mock>;
+  let bulkJobs: Record<string, jest.Mock>;
+  let folderSizes: Record<string, jest.Mock>;
+  let quotas: Record<string, jest.Mock>;
+
+  beforeAll(() => {
+    // the service logs every step (and the expected failures below) at log / error level
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    db = fakeStore();
+    storage = {
+      moveKeyPrefix: jest.fn().mockResolvedValue({ success: true }),
+      moveObjectKey: jest.fn().mockResolvedValue({ success: true }),
+      moveFile: jest.fn().mockResolvedValue({ success: true }),
+      renameFile: jest.fn().mockResolvedValue({ success: true }),
+      copyObjectKey: jest.fn().mockResolvedValue({ success: true }),
+      deleteKeyPrefix: jest
+        .fn()
+        .mockResolvedValue({ success: true, deletedCount: 2 }),
+      copyKeyPrefix: jest
+        .fn()
+        .mockResolvedValue({ success: true, copiedCount: 2, totalObjects: 2 }),
+      listObjectsUnderKeyPrefix: jest.fn().mockResolvedValue([]),
+      deleteObjectKeys: jest
+        .fn()
+        .mockResolvedValue({ success: true, deletedCount: 0 }),
+      createFolderMarker: jest.fn().mockResolvedValue({ success: true }),
+      headObjectKey: jest.fn().mockResolvedValue({ exists: true }),
+      getObjectHeadBytesKey: jest.fn().mockResolvedValue(Buffer.from('%PDF')),
+      deleteObjectKey: jest.fn().mockResolvedValue({ success: true }),
+      uploadFileGeneral: jest.fn().mockResolvedValue({ success: true }),
+      presignedPutUrl: jest.fn().mockResolvedValue({ url: 'https://put' }),
+      completeMultipartUpload: jest.fn().mockResolvedValue({ success: true }),
+      createMultipartUpload: jest.fn((_base: string, rel: string) =>
+        Promise.resolve({
+          uploadId: 'upload-1',
+          key: buildTenantS3Key(ROOT, EMP, rel),
+        }),
+      ),
+      presignedUploadPart: jest.fn().mockResolvedValue({ url: 'https://part' }),
+    };
+    versions = {
+      deleteForFiles: jest.fn().mockResolvedValue(0),
+      archiveByPath: jest.fn().mockResolvedValue(null),
+      archiveByPaths: jest.fn().mockResolvedValue(0),
+      snapshotByPaths: jest.fn().mockResolvedValue(0),
+      commitPendingByPaths: jest.fn().mockResolvedValue(0),
+      restoreLatestObject: jest.fn().mockResolvedValue(false),
+    };
+    thumbnails = {
+      deleteForFiles: jest.fn().mockResolvedValue(0),
+      schedule: jest.fn(),
+    };
+    quickAccess = {
+      deleteForItems: jest.fn().mockResolvedValue(0),
+      recordRecent: jest.fn(),
+    };
+    bulkJobs = {
+      create: jest.fn(),
+      claimNext: jest.fn().mockResolvedValue(null),
+      isCancelRequested: jest.fn().mockResolvedValue(false),
+      nextItem: jest.fn().mockResolvedValue(null),
+      startItem: jest.fn(),
+      finishItem: jest.fn(),
+      finish: jest.fn(),
+      touch: jest.fn().mockResolvedValue(undefined),
+    };
+    folderSizes = {
+      apply: jest.fn(),
+      upsertChanges: jest.fn().mockResolvedValue([]),
+    };
+    quotas = { assertWithinQuota: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NovaS3Service,
+        { provide: getRepositoryToken(NovaS3), useValue: db.files },
+        { provide: getRepositoryToken(NovaS3Trash), useValue: db.trash },
+        { provide: getRepositoryToken(NovaS3Operation), useValue: db.ops },
+        { provide: NovaS3StorageUtil, useValue: storage },
+        { provide: NovaS3VersionsService, useValue: versions },
+        { provide: NovaS3QuotaService, useValue: quotas },
+        { provide: NovaS3TagsService, useValue: {} },
+        { provide: NovaS3QuickAccessService, useValue: quickAccess },
+        { provide: NovaS3ThumbnailsService, useValue: thumbnails },
+        {
+          provide: NovaS3HashesService,
+          useValue: { schedule: jest.fn(), warningsFor: jest.fn() },
+        },
+        {
+          provide: NovaS3MultipartService,
+          useValue: { markClosed: jest.fn(), track: jest.fn() },
+        },
+        {
+          provide: NovaS3UploadSessionsService,
+          useValue: {
+            markRegistered: jest.fn(),
+            create: jest.fn().mockResolvedValue({ id: 'session-1' }),
+          },
+        },
+        {
+          provide: NovaS3ActivityService,
+          useValue: { record: jest.fn(), recordPaths: jest.fn() },
+        },
+        { provide: NovaS3BulkJobsService, useValue: bulkJobs },
+        { provide: NovaS3FolderSizesService, useValue: folderSizes },
+        {
+          provide: NovaS3ContentPolicyService,
+          useValue: { assertAllowed: jest.fn(), check: jest.fn(() => null) },
+        },
+        {
+          provide: NovaS3RootsService,
+          useValue: { urlExpiry: jest.fn(() => 3600) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(NovaS3Service);
+  });
+
+  // ── recycle bin ──────────────────────────────────────────────────────────
+
+  describe('trash — move to trash', () => {
+    beforeEach(() => {
+      db.files.rows = [
+        item('2024_Q1', 'folder'),
+        item('2024_Q1/report.pdf'),
+        item('2024-Q1', 'folder'),
+        item('2024-Q1/other.pdf'),
+        item('2024XQ1/keep.pdf'),
+      ];
+    });
+
+    it('moves the folder subtree to the trash prefix and snapshots every row', async () => {
+      const res = await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: '2024_Q1',
+        kind: 'folder',
+      });
+
+      const [entry] = db.trash.rows;
+      expect(res).toMatchObject({
+        success: true,
+        trashId: entry.id,
+        deletedCount: 2,
+      });
+      expect(entry.s3Prefix).toBe(`${ROOT}/.trash/${EMP}/${entry.id}`);
+      expect(paths(entry.items)).toEqual(['2024_Q1', '2024_Q1/report.pdf']);
+      expect(storage.moveKeyPrefix).toHaveBeenCalledWith(
+        `${ROOT}/${EMP}/2024_Q1`,
+        `${entry.s3Prefix}/2024_Q1`,
+      );
+    });
+
+    it('treats "_" in the folder name literally (siblings like "2024-Q1" stay live)', async () => {
+      await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: '2024_Q1',
+        kind: 'folder',
+      });
+
+      expect(paths(db.files.rows)).toEqual([
+        '2024-Q1',
+        '2024-Q1/other.pdf',
+        '2024XQ1/keep.pdf',
+      ]);
+    });
+
+    it('keeps the entry for the retention period', async () => {
+      await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: '2024_Q1/report.pdf',
+        kind: 'file',
+      });
+
+      const [entry] = db.trash.rows;
+      expect(entry.expiresAt.getTime() - Date.now()).toBeGreaterThan(29 * DAY);
+      expect(entry.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(
+        30 * DAY,
+      );
+      expect(storage.moveObjectKey).toHaveBeenCalledWith(
+        `${ROOT}/${EMP}/2024_Q1/report.pdf`,
+        `${entry.s3Prefix}/2024_Q1/report.pdf`,
+      );
+    });
+
+    it('moves each row from its own key (legacy and copied rows)', async () => {
+      const legacy = item('2024_Q1/legacy.pdf');
+      legacy.s3Key = 's3/EMP1/old/legacy.pdf';
+      db.files.rows.push(legacy);
+
+      await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: '2024_Q1',
+        kind: 'folder',
+      });
+      const [entry] = db.trash.rows;
+      expect(storage.moveObjectKey).toHaveBeenCalledWith(
+        's3/EMP1/old/legacy.pdf',
+        `${entry.s3Prefix}/2024_Q1/legacy.pdf`,
+      );
+      expect(storage.moveObjectKey).toHaveBeenCalledTimes(1);
+
+      const file = item('2024-Q1/copy.pdf');
+      file.s3Key = 's3/EMP1/copy.pdf';
+      db.files.rows.push(file);
+      await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: '2024-Q1/copy.pdf',
+        kind: 'file',
+      });
+      expect(storage.moveObjectKey).toHaveBeenLastCalledWith(
+        's3/EMP1/copy.pdf',
+        `${db.trash.rows[1].s3Prefix}/2024-Q1/copy.pdf`,
+      );
+    });
+
+    it('trashes a row whose object is missing in S3 and restores it', async () => {
+      storage.headObjectKey.mockResolvedValue({ exists: false });
+
+      const res = await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: '2024-Q1/other.pdf',
+        kind: 'file',
+      });
+
+      const [entry] = db.trash.rows;
+      expect(res).toMatchObject({ success: true, trashId: entry.id });
+      expect(storage.moveObjectKey).not.toHaveBeenCalled();
+      expect(paths(db.files.rows)).not.toContain('2024-Q1/other.pdf');
+
+      await service.restoreTrash({
+        root: ROOT,
+        employeeNumber: EMP,
+        trashId: entry.id,
+      });
+      expect(paths(db.files.rows)).toContain('2024-Q1/other.pdf');
+      expect(storage.moveObjectKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trash — restore', () => {
+    let trashId: string;
+    let ids: Record<string, string>;
+
+    beforeEach(async () => {
+      db.files.rows = [
+        item('2024_Q1', 'folder'),
+        item('2024_Q1/report.pdf'),
+        item('2024-Q1/other.pdf'),
+      ];
+      ids = Object.fromEntries(db.files.rows.map((r) => [r.path, r.id]));
+      const trashed = await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: '2024_Q1',
+        kind: 'folder',
+      });
+      trashId = trashed.trashId as string;
+      storage.moveKeyPrefix.mockClear();
+    });
+
+    it('restores into the original path with the same ids', async () => {
+      const res = await service.restoreTrash({
+        root: ROOT,
+        employeeNumber: EMP,
+        trashId,
+      });
+
+      expect(res).toMatchObject({
+        success: true,
+        path: '2024_Q1',
+        restoredCount: 2,
+      });
+      expect(db.trash.rows).toHaveLength(0);
+      expect(
+        db.files.rows.find((r) => r.path === '2024_Q1/report.pdf')?.id,
+      ).toBe(ids['2024_Q1/report.pdf']);
+      expect(storage.moveKeyPrefix).toHaveBeenCalledWith(
+        `${ROOT}/.trash/${EMP}/${trashId}/2024_Q1`,
+        `${ROOT}/${EMP}/2024_Q1`,
+      );
+    });
+
+    it('restores into another folder, creating it, and rewrites paths and keys', async () => {
+      await service.restoreTrash({
+        root: ROOT,
+        employeeNumber: EMP,
+        trashId,
+        targetPath: 'Archive',
+      });
+
+      const restored = db.files.rows.find(
+        (r) => r.id === ids['2024_Q1/report.pdf'],
+      )!;
+      expect(restored).toMatchObject({
+        path: 'Archive/2024_Q1/report.pdf',
+        parentPath: 'Archive/2024_Q1',
+        s3Key: `${ROOT}/${EMP}/Archive/2024_Q1/report.pdf`,
+      });
+      expect(
+        db.files.rows.some((r) => r.path === 'Archive' && r.type === 'folder'),
+      ).toBe(true);
+      expect(storage.createFolderMarker).toHaveBeenCalledWith(
+        `${ROOT}/${EMP}`,
+        'Archive',
+      );
+    });
+
+    it('fails with 409 when the name is taken again, unless asked to rename', async () => {
+      db.files.rows.push(item('2024_Q1', 'folder'));
+
+      await expect(
+        service.restoreTrash({ root: ROOT, employeeNumber: EMP, trashId }),
+      ).rejects.toThrow(ConflictException);
+      expect(db.trash.rows).toHaveLength(1);
+
+      const res = await service.restoreTrash({
+        root: ROOT,
+        employeeNumber: EMP,
+        trashId,
+        onConflict: 'rename',
+      });
+      expect(res.path).toBe('2024_Q1 (2)');
+      expect(
+        db.files.rows.find((r) => r.id === ids['2024_Q1/report.pdf'])?.path,
+      ).toBe('2024_Q1 (2)/report.pdf');
+    });
+  });
+
+  describe('trash — purge and retention', () => {
+    beforeEach(async () => {
+      db.files.rows = [
+        item('2024_Q1', 'folder'),
+        item('2024_Q1/report.pdf'),
+        item('old.pdf'),
+      ];
+      await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: '2024_Q1',
+        kind: 'folder',
+      });
+      await service.remove({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: 'old.pdf',
+        kind: 'file',
+      });
+    });
+
+    it('purges one entry: S3 prefix, snapshot row, versions, thumbnails and quick access', async () => {
+      const entry = db.trash.rows.find((e) => e.originalPath === '2024_Q1')!;
+      const fileId = entry.items.find((i) => i.type === 'file')!.id;
+
+      const res = await service.purgeTrash({
+        root: ROOT,
+        employeeNumber: EMP,
+        trashId: entry.id,
+      });
+
+      expect(res).toMatchObject({ success: true, purged: 1 });
+      expect(storage.deleteKeyPrefix).toHaveBeenCalledWith(entry.s3Prefix);
+      expect(db.trash.rows.map((e) => e.originalPath)).toEqual(['old.pdf']);
+      expect(versions.deleteForFiles).toHaveBeenCalledWith(ROOT, EMP, [fileId]);
+      expect(thumbnails.deleteForFiles).toHaveBeenCalledWith(ROOT, EMP, [
+        fileId,
+      ]);
+      expect(quickAccess.deleteForItems).toHaveBeenCalledWith(
+        entry.items.map((i) => i.id),
+      );
+    });
+
+    it('auto-purges only the entries past their expiry', async () => {
+      db.trash.rows.find((e) => e.originalPath === 'old.pdf')!.expiresAt =
+        new Date(Date.now() - DAY);
+
+      await expect(service.purgeExpiredTrash()).resolves.toEqual({ purged: 1 });
+      expect(db.trash.rows.map((e) => e.originalPath)).toEqual(['2024_Q1']);
+    });
+
+    it('keeps an entry whose S3 delete failed, for the next run', async () => {
+      db.trash.rows.forEach((e) => (e.expiresAt = new Date(Date.now() - DAY)));
+      storage.deleteKeyPrefix.mockRejectedValueOnce(new Error('S3 down'));
+
+      await expect(service.purgeExpiredTrash()).resolves.toEqual({ purged: 1 });
+      expect(db.trash.rows).toHaveLength(1);
+    });
+  });
+
+  // ── journaled folder move ────────────────────────────────────────────────
+
+  describe('moveFolder — operation journal', () => {
+    const before = new Date('2026-01-01T00:00:00Z');
+    const move = () =>
+      service.moveFolder({
+        root: ROOT,
+        employeeNumber: EMP,
+        sourcePath: 'Finance/2025',
+        targetPath: 'Archive',
+      });
+
+    beforeEach(() => {
+      db.files.rows = [
+        item('Finance', 'folder'),
+        item('Finance/2025', 'folder'),
+        item('Finance/2025/a.pdf'),
+        item('Archive', 'folder'),
+      ];
+      storage.listObjectsUnderKeyPrefix.mockResolvedValue([
+        { key: `${ROOT}/${EMP}/Finance/2025/`, lastModified: before },
+        { key: `${ROOT}/${EMP}/Finance/2025/a.pdf`, lastModified: before },
+      ]);
+    });
+
+    it('copies, commits the rows and deletes the originals', async () => {
+      const res = await move();
+
+      const [op] = db.ops.rows;
+      expect(op).toMatchObject({
+        kind: 'moveFolder',
+        phase: 'done',
+        status: 'completed',
+        dbRows: 2,
+      });
+      expect(res).toMatchObject({
+        success: true,
+        operationId: op.id,
+        newPath: 'Archive/2025',
+        pendingCleanup: false,
+      });
+      expect(storage.copyKeyPrefix).toHaveBeenCalledWith(
+        `${ROOT}/${EMP}/Finance/2025`,
+        `${ROOT}/${EMP}/Archive/2025`,
+        expect.any(Function),
+      );
+      expect(storage.deleteObjectKeys).toHaveBeenCalledWith([
+        `${ROOT}/${EMP}/Finance/2025/`,
+        `${ROOT}/${EMP}/Finance/2025/a.pdf`,
+      ]);
+      expect(paths(db.files.rows)).toEqual([
+        'Archive',
+        'Archive/2025',
+        'Archive/2025/a.pdf',
+        'Finance',
+      ]);
+      expect(db.files.rows.find((r) => r.name === 'a.pdf')?.s3Key).toBe(
+        `${ROOT}/${EMP}/Archive/2025/a.pdf`,
+      );
+    });
+
+    it('rolls back the copies when the copy fails, leaving the rows untouched', async () => {
+      storage.copyKeyPrefix.mockRejectedValueOnce(new Error('S3 timeout'));
+
+      await expect(move()).rejects.toThrow('S3 timeout');
+
+      expect(db.ops.rows[0]).toMatchObject({
+        phase: 'done',
+        status: 'rolledBack',
+        lastError: 'S3 timeout',
+      });
+      expect(storage.deleteObjectKeys).toHaveBeenCalledWith([
+        `${ROOT}/${EMP}/Archive/2025/`,
+        `${ROOT}/${EMP}/Archive/2025/a.pdf`,
+      ]);
+      expect(paths(db.files.rows)).toEqual([
+        'Archive',
+        'Finance',
+        'Finance/2025',
+        'Finance/2025/a.pdf',
+      ]);
+    });
+
+    it('answers OK with pending cleanup when only the delete of the originals fails', async () => {
+      storage.deleteObjectKeys.mockRejectedValueOnce(new Error('S3 down'));
+
+      const res = await move();
+
+      expect(res).toMatchObject({ success: true, pendingCleanup: true });
+      expect(db.ops.rows[0]).toMatchObject({
+        phase: 'delete',
+        status: 'failed',
+        lastError: 'S3 down',
+      });
+      expect(paths(db.files.rows)).toContain('Archive/2025/a.pdf');
+    });
+
+    it('refuses a second operation on a path with an open one', async () => {
+      storage.deleteObjectKeys.mockRejectedValueOnce(new Error('S3 down'));
+      await move();
+
+      await expect(
+        service.moveFolder({
+          root: ROOT,
+          employeeNumber: EMP,
+          sourcePath: 'Archive/2025',
+          targetPath: 'Finance',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(storage.copyKeyPrefix).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('moveFolder — replace', () => {
+    const replace = (sourcePath: string, targetPath: string) =>
+      service.moveFolder({
+        root: ROOT,
+        employeeNumber: EMP,
+        sourcePath,
+        targetPath,
+        conflictStrategy: 'replace',
+      });
+
+    beforeEach(() => {
+      db.files.rows = [
+        item('Finance', 'folder'),
+        item('Finance/2025', 'folder'),
+        item('Finance/2025/a.pdf'),
+        item('Archive', 'folder'),
+        item('Archive/2025', 'folder'),
+        item('Archive/2025/old.pdf'),
+      ];
+    });
+
+    it('sends the occupant to the trash and moves into its place', async () => {
+      const res = await replace('Finance/2025', 'Archive');
+
+      expect(res).toMatchObject({ success: true, newPath: 'Archive/2025' });
+      expect(paths(db.trash.rows[0].items)).toEqual([
+        'Archive/2025',
+        'Archive/2025/old.pdf',
+      ]);
+      expect(paths(db.files.rows)).toEqual([
+        'Archive',
+        'Archive/2025',
+        'Archive/2025/a.pdf',
+        'Finance',
+      ]);
+    });
+
+    it('never replaces a folder that contains the source', async () => {
+      db.files.rows = [
+        item('A', 'folder'),
+        item('A/A', 'folder'),
+        item('A/A/x.pdf'),
+      ];
+
+      await expect(replace('A/A', '')).rejects.toThrow(ConflictException);
+
+      expect(db.trash.rows).toEqual([]);
+      expect(paths(db.files.rows)).toEqual(['A', 'A/A', 'A/A/x.pdf']);
+    });
+
+    it('restores the occupant when the move fails', async () => {
+      storage.copyKeyPrefix.mockRejectedValueOnce(new Error('S3 timeout'));
+
+      await expect(replace('Finance/2025', 'Archive')).rejects.toThrow(
+        'S3 timeout',
+      );
+
+      expect(db.trash.rows).toEqual([]);
+      expect(paths(db.files.rows)).toEqual([
+        'Archive',
+        'Archive/2025',
+        'Archive/2025/old.pdf',
+        'Finance',
+        'Finance/2025',
+        'Finance/2025/a.pdf',
+      ]);
+    });
+  });
+
+  // ── rename ───────────────────────────────────────────────────────────────
+
+  describe('rename — conflictStrategy', () => {
+    const rename = (
+      conflictStrategy?: 'fail' | 'skip' | 'keepBoth' | 'replace',
+    ) =>
+      service.rename({
+        root: ROOT,
+        employeeNumber: EMP,
+        oldPath: 'Finance/draft.pdf',
+        newName: 'report.pdf',
+        conflictStrategy,
+      });
+
+    beforeEach(() => {
+      db.files.rows = [
+        item('Finance', 'folder'),
+        item('Finance/draft.pdf'),
+        item('Finance/report.pdf'),
+      ];
+    });
+
+    it('fails with 409 by default and leaves both items alone', async () => {
+      await expect(rename()).rejects.toThrow(ConflictException);
+
+      expect(storage.renameFile).not.toHaveBeenCalled();
+      expect(paths(db.files.rows)).toEqual([
+        'Finance',
+        'Finance/draft.pdf',
+        'Finance/report.pdf',
+      ]);
+    });
+
+    it('keepBoth renames to the next free name', async () => {
+      const res = await rename('keepBoth');
+
+      expect(res).toMatchObject({
+        newPath: 'Finance/report (2).pdf',
+        outcome: {
+          path: 'Finance/draft.pdf',
+          finalPath: 'Finance/report (2).pdf',
+          action: 'renamed',
+        },
+      });
+      expect(storage.renameFile).toHaveBeenCalledWith(
+        `${ROOT}/${EMP}`,
+        'Finance/draft.pdf',
+        'Finance/report (2).pdf',
+      );
+      expect(paths(db.files.rows)).toEqual([
+        'Finance',
+        'Finance/report (2).pdf',
+        'Finance/report.pdf',
+      ]);
+    });
+
+    it('skip leaves the item where it was', async () => {
+      const res = await rename('skip');
+
+      expect(res).toMatchObject({
+        success: true,
+        newPath: null,
+        outcome: { finalPath: null, action: 'skipped' },
+      });
+      expect(storage.renameFile).not.toHaveBeenCalled();
+      expect(paths(db.files.rows)).toEqual([
+        'Finance',
+        'Finance/draft.pdf',
+        'Finance/report.pdf',
+      ]);
+    });
+
+    it('replace sends the occupant to the trash and takes its name', async () => {
+      const occupant = db.files.rows[2].id;
+
+      const res = await rename('replace');
+
+      expect(res).toMatchObject({
+        newPath: 'Finance/report.pdf',
+        outcome: { action: 'replaced' },
+      });
+      expect(db.trash.rows[0].items.map((r) => r.id)).toEqual([occupant]);
+      expect(paths(db.files.rows)).toEqual(['Finance', 'Finance/report.pdf']);
+      expect(db.files.rows[1].id).not.toBe(occupant);
+    });
+
+    it('replace restores the occupant when the S3 rename fails', async () => {
+      storage.renameFile.mockRejectedValueOnce(new Error('S3 timeout'));
+
+      await expect(rename('replace')).rejects.toThrow('S3 timeout');
+
+      expect(db.trash.rows).toEqual([]);
+      expect(paths(db.files.rows)).toEqual([
+        'Finance',
+        'Finance/draft.pdf',
+        'Finance/report.pdf',
+      ]);
+    });
+  });
+
+  // ── copy ─────────────────────────────────────────────────────────────────
+
+  describe('copy', () => {
+    const copyFolder = (targetPath: string) =>
+      service.copyFolder({
+        root: ROOT,
+        employeeNumber: EMP,
+        sourcePath: 'Finance',
+        targetPath,
+      });
+    const copyFile = () =>
+      service.copyFile({
+        root: ROOT,
+        employeeNumber: EMP,
+        sourcePath: 'Finance/report.pdf',
+        targetPath: 'Finance',
+      });
+
+    beforeEach(() => {
+      db.files.rows = [
+        item('Finance', 'folder'),
+        item('Finance/report.pdf', 'file', 100),
+        item('Finance/2025', 'folder'),
+        item('Finance/2025/a.pdf', 'file', 50),
+      ];
+    });
+
+    it('names copies in the same folder "Copy of X", then "Copy of X (2)"', async () => {
+      await expect(copyFile()).resolves.toMatchObject({
+        newPath: 'Finance/Copy of report.pdf',
+      });
+      await expect(copyFile()).resolves.toMatchObject({
+        newPath: 'Finance/Copy of report (2).pdf',
+      });
+
+      expect(storage.copyObjectKey).toHaveBeenLastCalledWith(
+        buildTenantS3Key(ROOT, EMP, 'Finance/report.pdf'),
+        buildTenantS3Key(ROOT, EMP, 'Finance/Copy of report (2).pdf'),
+      );
+      expect(folderSizes.apply).toHaveBeenLastCalledWith(ROOT, EMP, [
+        { path: 'Finance/Copy of report (2).pdf', files: 1, bytes: 100 },
+      ]);
+    });
+
+    it('copies a folder with every descendant row and adds their sizes', async () => {
+      const res = await copyFolder('');
+
+      expect(res).toMatchObject({
+        newPath: 'Copy of Finance',
+        copiedCount: 4,
+        copiedObjects: 2,
+      });
+      const copies = db.files.rows.filter((r) =>
+        r.path.startsWith('Copy of Finance'),
+      );
+      expect(paths(copies)).toEqual([
+        'Copy of Finance',
+        'Copy of Finance/2025',
+        'Copy of Finance/2025/a.pdf',
+        'Copy of Finance/report.pdf',
+      ]);
+      const a = copies.find((r) => r.path === 'Copy of Finance/2025/a.pdf');
+      expect(a).toMatchObject({
+        parentPath: 'Copy of Finance/2025',
+        size: 50,
+        s3Key: buildTenantS3Key(ROOT, EMP, 'Copy of Finance/2025/a.pdf'),
+      });
+      expect(folderSizes.apply).toHaveBeenCalledWith(
+        ROOT,
+        EMP,
+        expect.arrayContaining([
+          { path: 'Copy of Finance/report.pdf', files: 1, bytes: 100 },
+          { path: 'Copy of Finance/2025/a.pdf', files: 1, bytes: 50 },
+        ]),
+      );
+      // every batch in one transaction
+      const { transaction } = db.files.manager as { transaction: jest.Mock };
+      expect(transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects copying a folder into a subfolder of itself', async () => {
+      await expect(copyFolder('Finance/2025')).rejects.toThrow(
+        BadRequestException,
+      );
+
+      expect(storage.copyObjectKey).not.toHaveBeenCalled();
+      expect(db.files.rows).toHaveLength(4);
+    });
+
+    it('deletes the copied keys when the rows cannot be inserted', async () => {
+      db.files.insert.mockRejectedValueOnce(new Error('deadlock'));
+
+      await expect(copyFolder('')).rejects.toThrow('deadlock');
+
+      expect(storage.deleteObjectKeys).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          buildTenantS3Key(ROOT, EMP, 'Copy of Finance', true),
+          buildTenantS3Key(ROOT, EMP, 'Copy of Finance/2025/a.pdf'),
+          buildTenantS3Key(ROOT, EMP, 'Copy of Finance/report.pdf'),
+        ]),
+      );
+      expect(paths(db.files.rows)).toEqual([
+        'Finance',
+        'Finance/2025',
+        'Finance/2025/a.pdf',
+        'Finance/report.pdf',
+      ]);
+      expect(folderSizes.apply).not.toHaveBeenCalled();
+    });
+
+    it('deletes a copied file when its row cannot be inserted', async () => {
+      db.files.insert.mockRejectedValueOnce(new Error('deadlock'));
+
+      await expect(copyFile()).rejects.toThrow('deadlock');
+
+      expect(storage.deleteObjectKeys).toHaveBeenCalledWith([
+        buildTenantS3Key(ROOT, EMP, 'Finance/Copy of report.pdf'),
+      ]);
+      expect(db.files.rows).toHaveLength(4);
+    });
+  });
+
+  // ── quota ────────────────────────────────────────────────────────────────
+
+  describe('quota', () => {
+    const overQuota = () =>
+      new PayloadTooLargeException('Storage quota exceeded');
+    const pdf = (originalname: string, size: number) =>
+      ({
+        originalname,
+        mimetype: 'application/pdf',
+        size,
+        buffer: Buffer.from('%PDF-1.7'),
+      }) as Express.Multer.File;
+    const keyOf = (path: string) => buildTenantS3Key(ROOT, EMP, path);
+    const inS3 = (size: number) =>
+      storage.headObjectKey.mockResolvedValue({
+        exists: true,
+        size,
+        contentType: 'application/pdf',
+      });
+
+    beforeEach(() => {
+      db.files.rows = [
+        item('Finance', 'folder'),
+        item('Finance/report.pdf', 'file', 100),
+      ];
+    });
+
+    it('rejects uploads over quota before writing to S3', async () => {
+      quotas.assertWithinQuota.mockRejectedValue(overQuota());
+      const ctx = { root: ROOT, employeeNumber: EMP, path: 'Finance' };
+
+      await expect(service.uploadOne(ctx, pdf('a.pdf', 300))).rejects.toThrow(
+        PayloadTooLargeException,
+      );
+      await expect(
+        service.uploadMultiple(ctx, [pdf('a.pdf', 300), pdf('b.pdf', 200)]),
+      ).rejects.toThrow(PayloadTooLargeException);
+      await expect(
+        service.uploadFolder(
+          { root: ROOT, employeeNumber: EMP, basePath: 'Finance' },
+          [pdf('Q1/a.pdf', 300), pdf('Q1/b.pdf', 200)],
+        ),
+      ).rejects.toThrow(PayloadTooLargeException);
+
+      expect(quotas.assertWithinQuota.mock.calls).toEqual([
+        [ROOT, EMP, 300],
+        [ROOT, EMP, 500],
+        [ROOT, EMP, 500],
+      ]);
+      expect(storage.uploadFileGeneral).not.toHaveBeenCalled();
+      expect(versions.archiveByPath).not.toHaveBeenCalled();
+      expect(versions.archiveByPaths).not.toHaveBeenCalled();
+      expect(paths(db.files.rows)).toEqual(['Finance', 'Finance/report.pdf']);
+    });
+
+    it('rejects presigns over quota before signing anything', async () => {
+      quotas.assertWithinQuota.mockRejectedValue(overQuota());
+
+      await expect(
+        service.presignUpload({
+          root: ROOT,
+          employeeNumber: EMP,
+          path: 'Finance',
+          filename: 'a.pdf',
+          contentType: 'application/pdf',
+          size: 300,
+        }),
+      ).rejects.toThrow(PayloadTooLargeException);
+      await expect(
+        service.presignBatch({
+          root: ROOT,
+          employeeNumber: EMP,
+          basePath: 'Finance',
+          files: [
+            {
+              filename: 'a.pdf',
+              relativePath: 'a.pdf',
+              contentType: 'application/pdf',
+              size: 300,
+            },
+            {
+              filename: 'b.pdf',
+              relativePath: 'b.pdf',
+              contentType: 'application/pdf',
+              size: 200,
+            },
+          ],
+        }),
+      ).rejects.toThrow(PayloadTooLargeException);
+
+      expect(quotas.assertWithinQuota.mock.calls).toEqual([
+        [ROOT, EMP, 300],
+        [ROOT, EMP, 500],
+      ]);
+      expect(storage.presignedPutUrl).not.toHaveBeenCalled();
+      expect(versions.archiveByPath).not.toHaveBeenCalled();
+      expect(versions.archiveByPaths).not.toHaveBeenCalled();
+    });
+
+    it('checks only the growth of a replaced file, with the size read from S3', async () => {
+      inS3(150);
+
+      await service.registerUpload({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: 'Finance/report.pdf',
+        s3Key: keyOf('Finance/report.pdf'),
+        mimeType: 'application/pdf',
+        size: 1,
+      });
+
+      expect(quotas.assertWithinQuota).toHaveBeenCalledWith(ROOT, EMP, 50);
+      expect(
+        db.files.rows.find((r) => r.path === 'Finance/report.pdf'),
+      ).toMatchObject({ size: 150 });
+    });
+
+    it('skips the check when a replaced file shrinks', async () => {
+      inS3(80);
+
+      await service.registerUpload({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: 'Finance/report.pdf',
+        s3Key: keyOf('Finance/report.pdf'),
+        mimeType: 'application/pdf',
+      });
+
+      expect(quotas.assertWithinQuota).not.toHaveBeenCalled();
+    });
+
+    it('discards the registered objects when their real size does not fit', async () => {
+      inS3(400);
+      quotas.assertWithinQuota.mockRejectedValue(overQuota());
+
+      await expect(
+        service.registerBatch({
+          root: ROOT,
+          employeeNumber: EMP,
+          items: [
+            {
+              path: 'Finance/a.pdf',
+              s3Key: keyOf('Finance/a.pdf'),
+              mimeType: 'application/pdf',
+              size: 10,
+            },
+            {
+              path: 'Finance/b.pdf',
+              s3Key: keyOf('Finance/b.pdf'),
+              mimeType: 'application/pdf',
+              size: 10,
+            },
+          ],
+        }),
+      ).rejects.toThrow(PayloadTooLargeException);
+
+      expect(quotas.assertWithinQuota).toHaveBeenCalledWith(ROOT, EMP, 800);
+      expect(storage.deleteObjectKey.mock.calls).toEqual([
+        [keyOf('Finance/a.pdf')],
+        [keyOf('Finance/b.pdf')],
+      ]);
+      expect(paths(db.files.rows)).toEqual(['Finance', 'Finance/report.pdf']);
+    });
+
+    it('discards a completed multipart upload that does not fit', async () => {
+      inS3(5000);
+      quotas.assertWithinQuota.mockRejectedValue(overQuota());
+
+      await expect(
+        service.completeMultipart({
+          root: ROOT,
+          employeeNumber: EMP,
+          path: 'Finance/video.pdf',
+          filename: 'video.pdf',
+          s3Key: keyOf('Finance/video.pdf'),
+          uploadId: 'upload-1',
+          mimeType: 'application/pdf',
+          parts: [{ partNumber: 1, etag: '"e1"' }],
+        }),
+      ).rejects.toThrow(PayloadTooLargeException);
+
+      expect(quotas.assertWithinQuota).toHaveBeenCalledWith(ROOT, EMP, 5000);
+      expect(storage.deleteObjectKey).toHaveBeenCalledWith(
+        keyOf('Finance/video.pdf'),
+      );
+      expect(paths(db.files.rows)).toEqual(['Finance', 'Finance/report.pdf']);
+    });
+  });
+
+  // ── presigned PUT versions ───────────────────────────────────────────────
+
+  describe('presigned PUT — versions', () => {
+    const keyOf = (path: string) => buildTenantS3Key(ROOT, EMP, path);
+    const register = () =>
+      service.registerUpload({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: 'Finance/report.pdf',
+        s3Key: keyOf('Finance/report.pdf'),
+        mimeType: 'application/pdf',
+      });
+
+    beforeEach(() => {
+      db.files.rows = [
+        item('Finance', 'folder'),
+        item('Finance/report.pdf', 'file', 100),
+      ];
+      storage.headObjectKey.mockResolvedValue({
+        exists: true,
+        size: 120,
+        contentType: 'application/pdf',
+      });
+    });
+
+    it('only snapshots the current content when signing', async () => {
+      db.files.rows.push(item('Finance/video.pdf', 'file', 4000));
+
+      await service.presignUpload({
+        root: ROOT,
+        employeeNumber: EMP,
+        path: 'Finance',
+        filename: 'report.pdf',
+        contentType: 'application/pdf',
+        size: 120,
+      });
+      await service.presignBatch({
+        root: ROOT,
+        employeeNumber: EMP,
+        basePath: 'Finance',
+        multipartThreshold: 1000,
+        files: [
+          {
+            filename: 'report.pdf',
+            relativePath: 'report.pdf',
+            contentType: 'application/pdf',
+            size: 120,
+          },
+          {
+            filename: 'video.pdf',
+            relativePath: 'video.pdf',
+            contentType: 'application/pdf',
+            size: 5000,
+          },
+        ],
+      });
+
+      expect(versions.snapshotByPaths.mock.calls).toEqual([
+        [ROOT, EMP, ['Finance/report.pdf']],
+        // the multipart upload archives on complete
+        [ROOT, EMP, ['Finance/report.pdf']],
+      ]);
+      expect(versions.archiveByPath).not.toHaveBeenCalled();
+      expect(versions.archiveByPaths).not.toHaveBeenCalled();
+      expect(versions.commitPendingByPaths).not.toHaveBeenCalled();
+    });
+
+    it('records the version on register, once the object is in S3', async () => {
+      await register();
+
+      expect(versions.commitPendingByPaths).toHaveBeenCalledWith(
+        ROOT,
+        EMP,
+        ['Finance/report.pdf'],
+        'registerUpload',
+      );
+      expect(
+        db.files.rows.find((r) => r.path === 'Finance/report.pdf'),
+      ).toMatchObject({ size: 120 });
+    });
+
+    it('records no version when the object was never uploaded', async () => {
+      storage.headObjectKey.mockResolvedValue({ exists: false });
+
+      await expect(register()).rejects.toThrow(BadRequestException);
+
+      expect(versions.commitPendingByPaths).not.toHaveBeenCalled();
+    });
+
+    it('restores from the recorded version when the upload is rejected', async () => {
+      quotas.assertWithinQuota.mockRejectedValue(
+        new PayloadTooLargeException('Storage quota exceeded'),
+      );
+      versions.restoreLatestObject.mockResolvedValue(true);
+
+      await expect(register()).rejects.toThrow(PayloadTooLargeException);
+
+      const committed =
+        versions.commitPendingByPaths.mock.invocationCallOrder[0];
+      const restored = versions.restoreLatestObject.mock.invocationCallOrder[0];
+      expect(committed).toBeLessThan(restored);
+      expect(storage.deleteObjectKey).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── search ───────────────────────────────────────────────────────────────
+
+  describe('search', () => {
+    let query: jest.Mock;
+
+    const search = (dto: Partial<SearchDto>) =>
+      service.search({ root: ROOT, employeeNumber: EMP, ...dto }) as Promise<{
+        results: NovaS3[];
+        total: number;
+        hasMore: boolean;
+        nextCursor: string | null;
+      }>;
+
+    /** Every page of a search, following nextCursor. */
+    const allPages = async (dto: Partial<SearchDto>) => {
+      const pages: { paths: string[]; hasMore: boolean }[] = [];
+      let cursor: string | undefined;
+      do {
+        const res = await search({ ...dto, cursor });
+        pages.push({
+          paths: res.results.map((r) => r.path),
+          hasMore: res.hasMore,
+        });
+        cursor = res.nextCursor ?? undefined;
+      } while (cursor);
+      return pages;
+    };
+
+    beforeEach(() => {
+      db.files.rows = [
+        item('Finance', 'folder'),
+        item('Finance/Q1-report.pdf', 'file', 300),
+        item('Finance/Q2-Report.pdf', 'file', 100),
+        item('Finance/Old', 'folder'),
+        item('Finance/Old/report.pdf', 'file', 500),
+        item('Legal/report.pdf', 'file', 200),
+        item('Legal/contract.pdf', 'file', 50),
+        { ...item('Finance/report.pdf'), employeeNumber: 'EMP2' },
+      ];
+      query = jest.fn(() => searchQuery(db.files));
+      Object.assign(db.files, { createQueryBuilder: query });
+    });
+
+    it('matches the name (any case) in the employee space only', async () => {
+      const res = await search({ q: 'Report', sortBy: 'name' });
+
+      expect(paths(res.results)).toEqual([
+        'Finance/Old/report.pdf',
+        'Finance/Q1-report.pdf',
+        'Finance/Q2-Report.pdf',
+        'Legal/report.pdf',
+      ]);
+      expect(res).toMatchObject({ total: 4, hasMore: false, nextCursor: null });
+    });
+
+    it('combines the query with the subtree and the filters', async () => {
+      const res = await search({
+        q: 'report',
+        path: 'Finance',
+        minSize: 200,
+        sortBy: 'size',
+      });
+
+      expect(res.results.map((r) => r.path)).toEqual([
+        'Finance/Q1-report.pdf',
+        'Finance/Old/report.pdf',
+      ]);
+    });
+
+    it('returns nothing without a query or a filter', async () => {
+      await expect(search({})).resolves.toEqual({
+        success: true,
+        results: [],
+        total: 0,
+        hasMore: false,
+        nextCursor: null,
+      });
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('pages without repeating or skipping rows, also between equal names', async () => {
+      // "report.pdf" twice: the keyset falls back to the id
+      const byPath = (p: string) => db.files.rows.find((r) => r.path === p)!;
+      byPath('Legal/report.pdf').id = '00000000-0000-4000-8000-000000000001';
+      byPath('Finance/Old/report.pdf').id =
+        '00000000-0000-4000-8000-000000000002';
+
+      await expect(
+        allPages({ q: 'report', sortBy: 'name', limit: 1 }),
+      ).resolves.toEqual([
+        { paths: ['Finance/Q1-report.pdf'], hasMore: true },
+        { paths: ['Finance/Q2-Report.pdf'], hasMore: true },
+        { paths: ['Legal/report.pdf'], hasMore: true },
+        { paths: ['Finance/Old/report.pdf'], hasMore: false },
+      ]);
+    });
+
+    it('pages numerically by size, descending', async () => {
+      await expect(
+        allPages({ type: 'file', sortBy: 'size', order: 'desc', limit: 2 }),
+      ).resolves.toEqual([
+        {
+          paths: ['Finance/Old/report.pdf', 'Finance/Q1-report.pdf'],
+          hasMore: true,
+        },
+        {
+          paths: ['Legal/report.pdf', 'Finance/Q2-Report.pdf'],
+          hasMore: true,
+        },
+        { paths: ['Legal/contract.pdf'], hasMore: false },
+      ]);
+    });
+
+    it('rejects a cursor issued for another sort', async () => {
+      const { nextCursor } = await search({
+        q: 'report',
+        sortBy: 'name',
+        limit: 1,
+      });
+
+      await expect(
+        search({
+          q: 'report',
+          sortBy: 'size',
+          cursor: nextCursor ?? undefined,
+        }),
+      ).rejects.toThrow('Invalid cursor for this sortBy / order');
+    });
+  });
+
+  // ── bulk runner ──────────────────────────────────────────────────────────
+
+  describe('bulk jobs — runner', () => {
+    const job = {
+      id: 'job-1',
+      root: ROOT,
+      employeeNumber: EMP,
+      actorEmployeeNumber: EMP,
+      conflictStrategy: 'fail',
+    };
+    const bulkItem = (
+      position: number,
+      op: string,
+      path: string,
+      targetPath: string | null = null,
+    ) => ({ id: `item-${position}`, position, op, path, targetPath });
+
+    // runs the job through startBulkJob and resolves with the final status
+    const run = (items: ReturnType<typeof bulkItem>[]) => {
+      const finished = new Promise<string>((resolve) =>
+        bulkJobs.finish.mockImplementation((_id: string, status: string) => {
+          resolve(status);
+          return Promise.resolve();
+        }),
+      );
+      const queue = [...items];
+      bulkJobs.create.mockResolvedValue({
+        id: job.id,
+        status: 'queued',
+        totalItems: items.length,
+      });
+      bulkJobs.claimNext.mockResolvedValueOnce(job);
+      bulkJobs.nextItem.mockImplementation(() =>
+        Promise.resolve(queue.shift() ?? null),
+      );
+
+      return service
+        .startBulkJob({ root: ROOT, employeeNumber: EMP, items: [] }, EMP)
+        .then(() => finished);
+    };
+
+    beforeEach(() => {
+      db.files.rows = [
+        item('Finance', 'folder'),
+        item('Finance/report.pdf'),
+        item('Archive', 'folder'),
+        item('draft.pdf'),
+      ];
+    });
+
+    it('runs the items in order and records a failed item without stopping the job', async () => {
+      const items = [
+        bulkItem(0, 'move', 'Finance/report.pdf', 'Archive'),
+        bulkItem(1, 'delete', 'missing.pdf'),
+        bulkItem(2, 'delete', 'draft.pdf'),
+      ];
+
+      await expect(run(items)).resolves.toBe('completed');
+
+      const started = bulkJobs.startItem.mock.calls as [unknown][];
+      const finished = bulkJobs.finishItem.mock.calls as [
+        unknown,
+        { result?: Record<string, unknown>; error?: string },
+      ][];
+      expect(started.map(([i]) => i)).toEqual(items);
+      expect(finished.map(([i]) => i)).toEqual(items);
+      expect(finished[0][1].result).toMatchObject({
+        newPath: 'Archive/report.pdf',
+      });
+      expect(finished[1][1]).toEqual({ error: 'Item not found in DB' });
+      expect(finished[2][1].result).toMatchObject({
+        trashId: db.trash.rows[0].id,
+      });
+      expect(paths(db.files.rows)).toEqual([
+        'Archive',
+        'Archive/report.pdf',
+        'Finance',
+      ]);
+    });
+
+    it('stops between items when the job is cancelled', async () => {
+      bulkJobs.isCancelRequested
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+
+      await expect(
+        run([
+          bulkItem(0, 'delete', 'draft.pdf'),
+          bulkItem(1, 'delete', 'Finance'),
+        ]),
+      ).resolves.toBe('cancelled');
+
+      expect(bulkJobs.startItem).toHaveBeenCalledTimes(1);
+      expect(paths(db.files.rows)).toEqual([
+        'Archive',
+        'Finance',
+        'Finance/report.pdf',
+      ]);
+    });
+
+    it('fails the job when the runner itself cannot reach the database', async () => {
+      bulkJobs.nextItem.mockRejectedValueOnce(new Error('connection lost'));
+      const finished = new Promise<unknown[]>((resolve) =>
+        bulkJobs.finish.mockImplementation((...args: unknown[]) => {
+          resolve(args);
+          return Promise.resolve();
+        }),
+      );
+      bulkJobs.create.mockResolvedValue({
+        id: job.id,
+        status: 'queued',
+        totalItems: 1,
+      });
+      bulkJobs.claimNext.mockResolvedValueOnce(job);
+
+      await service.startBulkJob(
+        { root: ROOT, employeeNumber: EMP, items: [] },
+        EMP,
+      );
+
+      await expect(finished).resolves.toEqual([
+        job.id,
+        'failed',
+        'connection lost',
+      ]);
+      expect(bulkJobs.startItem).not.toHaveBeenCalled();
+    });
+  });
+});
+
+// ── public share links ─────────────────────────────────────────────────────
+
+/**
+ * `UPDATE nova_s3_share SET "x" = "x" + 1 WHERE id = :id [AND <download limit>]`
+ * against the fake rows: counters are incremented, timestamps set to now.
+ */
+const shareCounterUpdate = (shares: FakeRepo<NovaS3Share>) => {
+  let set: string[] = [];
+  let id: unknown;
+  let limited = false;
+  const qb = {
+    update: () => qb,
+    set: (values: object) => {
+      set = Object.keys(values);
+      return qb;
+    },
+    where: (_sql: string, params: { id: unknown }) => {
+      id = params.id;
+      return qb;
+    },
+    andWhere: () => {
+      limited = true;
+      return qb;
+    },
+    execute: () => {
+      const row = shares.rows.find((r) => r.id === id);
+      const exhausted =
+        !!row &&
+        limited &&
+        row.maxDownloads !== null &&
+        row.downloadCount >= row.maxDownloads;
+      if (!row || exhausted) return Promise.resolve({ affected: 0 });
+      for (const key of set) {
+        (row as unknown as Where)[key] = key.endsWith('Count')
+          ? Number(field(row, key)) + 1
+          : new Date();
+      }
+      return Promise.resolve({ affected: 1 });
+    },
+  };
+  return qb;
+};
+
+describe('NovaS3SharesService', () => {
+  let service: NovaS3SharesService;
+  let files: FakeRepo<NovaS3>;
+  let shares: FakeRepo<NovaS3Share>;
+  let storage: Record<string, jest.Mock>;
+
+  const share = async (path: string, opts: Partial<CreateShareDto> = {}) => {
+    const res = await service.create({
+      root: ROOT,
+      employeeNumber: EMP,
+      path,
+      ...opts,
+    });
+    return res.token;
+  };
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    ({ files } = fakeStore());
+    files.rows = [
+      item('Finance', 'folder'),
+      item('Finance/report.pdf'),
+      item('Finance/budget.pdf'),
+    ];
+    shares = new FakeRepo<NovaS3Share>();
+    // column defaults of nova_s3_share
+    shares.create.mockImplementation(
+      (v: Partial<NovaS3Share>) =>
+        ({
+          accessCount: 0,
+          downloadCount: 0,
+          lastAccessedAt: null,
+          revokedAt: null,
+          ...v,
+        }) as NovaS3Share,
+    );
+    Object.assign(shares, {
+      createQueryBuilder: jest.fn(() => shareCounterUpdate(shares)),
+    });
+    storage = {
+      presignedGetUrlForKey: jest
+        .fn()
+        .mockResolvedValue({ success: true, url: 'https://get' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NovaS3SharesService,
+        { provide: NovaS3StorageUtil, useValue: storage },
+        { provide: getRepositoryToken(NovaS3), useValue: files },
+        { provide: getRepositoryToken(NovaS3Share), useValue: shares },
+      ],
+    }).compile();
+
+    service = module.get(NovaS3SharesService);
+  });
+
+  describe('download limit', () => {
+    it('issues URLs until maxDownloads and then rejects the link', async () => {
+      const token = await share('Finance/report.pdf', { maxDownloads: 2 });
+
+      await expect(service.resolve(token, {})).resolves.toMatchObject({
+        type: 'file',
+        url: 'https://get',
+        downloadsLeft: 1,
+      });
+      await expect(service.resolve(token, {})).resolves.toMatchObject({
+        downloadsLeft: 0,
+      });
+      await expect(service.resolve(token, {})).rejects.toThrow(
+        'This share link reached its download limit',
+      );
+
+      expect(storage.presignedGetUrlForKey).toHaveBeenCalledTimes(2);
+      expect(shares.rows[0]).toMatchObject({
+        downloadCount: 2,
+        accessCount: 3,
+      });
+    });
+
+    it('counts only files taken out of a shared folder, not its listings', async () => {
+      const token = await share('Finance', { maxDownloads: 1 });
+
+      const listing = (await service.resolve(token, {})) as {
+        items: { path: string }[];
+      };
+      expect(listing).toMatchObject({ type: 'folder', downloadsLeft: 1 });
+      expect(paths(listing.items)).toEqual(['budget.pdf', 'report.pdf']);
+
+      await expect(
+        service.resolve(token, { path: 'report.pdf' }),
+      ).resolves.toMatchObject({ type: 'file', path: 'report.pdf' });
+      await expect(
+        service.resolve(token, { path: 'budget.pdf' }),
+      ).rejects.toThrow(GoneException);
+      expect(shares.rows[0]).toMatchObject({ downloadCount: 1 });
+    });
+  });
+
+  describe('expiry', () => {
+    const now = Date.now();
+    let clock: jest.SpyInstance<number, []>;
+
+    beforeEach(() => {
+      clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    afterEach(() => clock.mockRestore());
+
+    it('resolves until expiresAt and is gone after it', async () => {
+      const token = await share('Finance/report.pdf', { expiresInHours: 1 });
+
+      clock.mockReturnValue(now + 59 * 60 * 1000);
+      await expect(service.resolve(token, {})).resolves.toMatchObject({
+        type: 'file',
+      });
+
+      clock.mockReturnValue(now + 60 * 60 * 1000);
+      await expect(service.resolve(token, {})).rejects.toThrow(
+        'This share link has expired',
+      );
+      expect(shares.rows[0]).toMatchObject({ accessCount: 1 });
+    });
+  });
+
+  describe('password', () => {
+    it('stores only the hash and requires the right password to resolve', async () => {
+      const token = await share('Finance/report.pdf', { password: 's3cret!' });
+
+      expect(shares.rows[0].passwordHash).toEqual(expect.any(String));
+      expect(shares.rows[0].passwordHash).not.toContain('s3cret!');
+
+      await expect(service.resolve(token, {})).rejects.toThrow(
+        'This share link requires a password',
+      );
+      await expect(
+        service.resolve(token, { password: 'wrong' }),
+      ).rejects.toThrow(UnauthorizedException);
+      // a rejected attempt neither counts as access nor as download
+      expect(shares.rows[0]).toMatchObject({
+        accessCount: 0,
+        downloadCount: 0,
+      });
+
+      await expect(
+        service.resolve(token, { password: 's3cret!' }),
+      ).resolves.toMatchObject({ type: 'file', name: 'report.pdf' });
+    });
+  });
+});
+
+// ── shared folders (grants) ────────────────────────────────────────────────
+
+/**
+ * `nova_s3_grant g INNER JOIN nova_s3 n ON n.id = g.folderId` filtered by the
+ * :root / :owner / :actor params, answering `{ role, path }` like resolveOwner selects them.
+ */
+const grantCoverageQuery = (
+  grants: FakeRepo<NovaS3Grant>,
+  files: FakeRepo<NovaS3>,
+) => {
+  const params: Where = {};
+  const qb = {
+    innerJoin: () => qb,
+    select: () => qb,
+    addSelect: () => qb,
+    where: (_sql: string, p: Where) => {
+      Object.assign(params, p);
+      return qb;
+    },
+    andWhere: (_sql: string, p: Where) => qb.where(_sql, p),
+    getRawMany: () =>
+      Promise.resolve(
+        grants.rows
+          .filter(
+            (g) =>
+              g.root === params.root &&
+              g.ownerEmployeeNumber === params.owner &&
+              g.granteeEmployeeNumber === params.actor,
+          )
+          .flatMap((g) => {
+            const folder = files.rows.find((f) => f.id === g.folderId);
+            return folder ? [{ role: g.role, path: folder.path }] : [];
+          }),
+      ),
+  };
+  return qb;
+};
+
+describe('grant-scoped access', () => {
+  const GUEST = 'EMP2';
+  let grants: NovaS3GrantsService;
+  let controller: NovaS3Controller;
+  let files: FakeRepo<NovaS3>;
+  let grantRows: FakeRepo<NovaS3Grant>;
+  let coverageQuery: jest.Mock;
+  let novaS3: Record<string, jest.Mock>;
+
+  const share = (path: string, role: NovaS3GrantRole, grantee = GUEST) =>
+    grants.grant({
+      root: ROOT,
+      employeeNumber: EMP,
+      path,
+      granteeEmployeeNumber: grantee,
+      role,
+    });
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    ({ files } = fakeStore());
+    files.rows = [
+      item('Team', 'folder'),
+      item('Team/plan.pdf'),
+      item('Team/Drafts', 'folder'),
+      item('Team/Drafts/v2.pdf'),
+      item('Private', 'folder'),
+      item('Private/salary.pdf'),
+    ];
+    grantRows = new FakeRepo<NovaS3Grant>();
+    coverageQuery = jest.fn(() => grantCoverageQuery(grantRows, files));
+    Object.assign(grantRows, { createQueryBuilder: coverageQuery });
+    novaS3 = {
+      tree: jest.fn().mockResolvedValue({ success: true }),
+      rename: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    // everything the controller injects; only the grants and the service under the endpoints are used here
+    const unused = [
+      NovaS3VersionsService,
+      NovaS3SharesService,
+      NovaS3ArchiveService,
+      NovaS3ReconcileService,
+      NovaS3QuotaService,
+      NovaS3TagsService,
+      NovaS3QuickAccessService,
+      NovaS3ThumbnailsService,
+      NovaS3HashesService,
+      NovaS3MultipartService,
+      NovaS3UploadSessionsService,
+      NovaS3LegacyImportService,
+      NovaS3ActivityService,
+      NovaS3BulkJobsService,
+      NovaS3FolderSizesService,
+      NovaS3ContentPolicyService,
+    ];
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [NovaS3Controller],
+      providers: [
+        NovaS3GrantsService,
+        { provide: getRepositoryToken(NovaS3), useValue: files },
+        { provide: getRepositoryToken(NovaS3Grant), useValue: grantRows },
+        { provide: NovaS3Service, useValue: novaS3 },
+        {
+          provide: NovaS3RootsService,
+          useValue: {
+            assertAccess: jest.fn(() => ({ name: ROOT, employeeScoped: true })),
+          },
+        },
+        ...unused.map((provide) => ({ provide, useValue: {} })),
+      ],
+    }).compile();
+
+    grants = module.get(NovaS3GrantsService);
+    controller = module.get(NovaS3Controller);
+  });
+
+  describe('resolveOwner', () => {
+    it('lets a viewer read the whole shared subtree, in the owner space', async () => {
+      await share('Team', 'viewer');
+
+      await expect(
+        grants.resolveOwner(ROOT, GUEST, EMP, [
+          { path: 'Team', need: 'viewer' },
+          { path: 'Team/Drafts/v2.pdf', need: 'viewer' },
+        ]),
+      ).resolves.toBe(EMP);
+    });
+
+    it('denies a viewer any write', async () => {
+      await share('Team', 'viewer');
+
+      await expect(
+        grants.resolveOwner(ROOT, GUEST, EMP, [
+          { path: 'Team/plan.pdf', need: 'editor' },
+        ]),
+      ).rejects.toThrow('Editor access is required for "Team/plan.pdf"');
+    });
+
+    it('denies paths outside the shared folder and employees without a grant', async () => {
+      await share('Team', 'editor');
+
+      await expect(
+        grants.resolveOwner(ROOT, GUEST, EMP, [
+          { path: 'Private/salary.pdf', need: 'viewer' },
+        ]),
+      ).rejects.toThrow('No access to "Private/salary.pdf"');
+      await expect(
+        grants.resolveOwner(ROOT, GUEST, EMP, [{ path: '', need: 'viewer' }]),
+      ).rejects.toThrow('No access to "/"');
+      await expect(
+        grants.resolveOwner(ROOT, 'EMP3', EMP, [
+          { path: 'Team', need: 'viewer' },
+        ]),
+      ).rejects.toThrow('No access to this employee folders');
+    });
+
+    it('gives the highest role of nested grants', async () => {
+      await share('Team', 'viewer');
+      await share('Team/Drafts', 'editor');
+
+      await expect(
+        grants.resolveOwner(ROOT, GUEST, EMP, [
+          { path: 'Team/Drafts/v2.pdf', need: 'editor' },
+        ]),
+      ).resolves.toBe(EMP);
+      await expect(
+        grants.resolveOwner(ROOT, GUEST, EMP, [
+          { path: 'Team/plan.pdf', need: 'editor' },
+        ]),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('follows the folder by id after it is renamed, and stops at revoke', async () => {
+      const { grantId } = await share('Team', 'editor');
+      files.rows
+        .filter((f) => f.path.startsWith('Team'))
+        .forEach((f) => (f.path = f.path.replace(/^Team/, 'Squad')));
+
+      await expect(
+        grants.resolveOwner(ROOT, GUEST, EMP, [
+          { path: 'Squad/plan.pdf', need: 'editor' },
+        ]),
+      ).resolves.toBe(EMP);
+
+      await grants.revoke({ root: ROOT, employeeNumber: EMP, grantId });
+      await expect(
+        grants.resolveOwner(ROOT, GUEST, EMP, [
+          { path: 'Squad/plan.pdf', need: 'viewer' },
+        ]),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('controller scopeEmployee', () => {
+    it("runs a grantee's request in the owner space", async () => {
+      await share('Team', 'viewer');
+
+      await controller.tree(ROOT, GUEST, 'false', 'Team', EMP);
+
+      expect(novaS3.tree).toHaveBeenCalledWith(
+        ROOT,
+        EMP,
+        false,
+        'Team',
+        undefined,
+      );
+    });
+
+    it('keeps the request in the own space without ownerEmployeeNumber', async () => {
+      await controller.tree(ROOT, GUEST, 'false', 'Team');
+
+      expect(novaS3.tree).toHaveBeenCalledWith(
+        ROOT,
+        GUEST,
+        false,
+        'Team',
+        undefined,
+      );
+      expect(coverageQuery).not.toHaveBeenCalled();
+    });
+
+    it('rejects a denied request before it reaches the service', async () => {
+      await share('Team', 'editor');
+      const rename = (oldPath: string) =>
+        controller.rename({
+          root: ROOT,
+          employeeNumber: GUEST,
+          ownerEmployeeNumber: EMP,
+          oldPath,
+          newName: 'renamed',
+        } as RenameDto);
+
+      await expect(rename('Private/salary.pdf')).rejects.toThrow(
+        ForbiddenException,
+      );
+      // the shared folder itself is out of reach even for an editor
+      await expect(rename('Team')).rejects.toThrow(
+        'The shared folder itself cannot be renamed, moved or deleted by a grantee',
+      );
+      await expect(
+        controller.tree(ROOT, 'EMP3', 'false', 'Team', EMP),
+      ).rejects.toThrow(ForbiddenException);
+      expect(novaS3.rename).not.toHaveBeenCalled();
+      expect(novaS3.tree).not.toHaveBeenCalled();
+
+      await rename('Team/plan.pdf');
+      expect(novaS3.rename).toHaveBeenCalledWith(
+        expect.objectContaining({
+          employeeNumber: EMP,
+          oldPath: 'Team/plan.pdf',
+        }),
+        GUEST,
+      );
+    });
+  });
+});
+
+// ── ZIP download ───────────────────────────────────────────────────────────
+
+/** Entries of a ZIP (name => content) read back from its central directory. */
+const unzip = (zip: Buffer) => {
+  const eocd = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entries: Record<string, string> = {};
+  let at = zip.readUInt32LE(eocd + 16);
+  for (let i = zip.readUInt16LE(eocd + 10); i > 0; i--) {
+    const nameLength = zip.readUInt16LE(at + 28);
+    const name = zip.toString('utf8', at + 46, at + 46 + nameLength);
+    const local = zip.readUInt32LE(at + 42);
+    const start =
+      local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    const data = zip.subarray(start, start + zip.readUInt32LE(at + 20));
+    // 8 = deflate, 0 = stored (folders)
+    entries[name] = (
+      zip.readUInt16LE(at + 10) === 8 ? inflateRawSync(data) : data
+    ).toString();
+    at +=
+      46 + nameLength + zip.readUInt16LE(at + 30) + zip.readUInt16LE(at + 32);
+  }
+  return entries;
+};
+
+describe('NovaS3ArchiveService', () => {
+  let service: NovaS3ArchiveService;
+  let files: FakeRepo<NovaS3>;
+  let storage: Record<string, jest.Mock>;
+  const env = { ...process.env };
+
+  const zip = (paths: string[], archiveName?: string) =>
+    service.plan({ root: ROOT, employeeNumber: EMP, paths, archiveName });
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    // the limits are read from the env when the service is built
+    process.env.NOVA_S3_ZIP_MAX_BYTES = '350';
+
+    ({ files } = fakeStore());
+    files.rows = [
+      item('Finance', 'folder'),
+      item('Finance/Q1', 'folder'),
+      item('Finance/Q1/report.pdf', 'file', 100),
+      item('Finance/budget.xlsx', 'file', 200),
+      item('Finance/Empty', 'folder'),
+      item('Legal/report.pdf', 'file', 50),
+    ];
+    storage = {
+      getObjectStreamKey: jest.fn((key: string) =>
+        Promise.resolve(Readable.from([Buffer.from(`content of ${key}`)])),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NovaS3ArchiveService,
+        { provide: NovaS3StorageUtil, useValue: storage },
+        { provide: getRepositoryToken(NovaS3), useValue: files },
+      ],
+    }).compile();
+
+    service = module.get(NovaS3ArchiveService);
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('puts each selected subtree once, with its folder structure', async () => {
+    const plan = await zip([
+      'Finance',
+      'Finance/Q1/report.pdf',
+      'Legal/report.pdf',
+    ]);
+
+    expect(plan.entries.map((e) => e.name).sort()).toEqual([
+      'Finance/',
+      'Finance/Empty/',
+      'Finance/Q1/',
+      'Finance/Q1/report.pdf',
+      'Finance/budget.xlsx',
+      'report.pdf',
+    ]);
+    expect(plan).toMatchObject({
+      fileName: `${ROOT}.zip`,
+      fileCount: 3,
+      totalBytes: 350,
+    });
+  });
+
+  it('renames top-level name clashes and uses the requested archive name', async () => {
+    const plan = await zip(
+      ['Finance/Q1/report.pdf', 'Legal/report.pdf'],
+      'reports',
+    );
+
+    expect(plan.fileName).toBe('reports.zip');
+    expect(plan.entries.map((e) => [e.name, e.path])).toEqual([
+      ['report.pdf', 'Finance/Q1/report.pdf'],
+      ['report (2).pdf', 'Legal/report.pdf'],
+    ]);
+  });
+
+  it('streams the S3 objects into the ZIP and lists the missing ones', async () => {
+    const budgetKey = buildTenantS3Key(ROOT, EMP, 'Finance/budget.xlsx');
+    storage.getObjectStreamKey.mockImplementation((key: string) =>
+      Promise.resolve(
+        key === budgetKey ? null : Readable.from([`content of ${key}`]),
+      ),
+    );
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on('data', (c: Buffer) => chunks.push(c));
+    const ended = new Promise((resolve) => out.on('end', resolve));
+
+    await service.stream(await zip(['Finance']), out);
+    await ended;
+
+    expect(unzip(Buffer.concat(chunks))).toEqual({
+      'Finance/': '',
+      'Finance/Q1/': '',
+      'Finance/Q1/report.pdf': `content of ${buildTenantS3Key(ROOT, EMP, 'Finance/Q1/report.pdf')}`,
+      'Finance/Empty/': '',
+      'MISSING_FILES.txt':
+        'These files are registered but were not found in storage:\nFinance/budget.xlsx\n',
+    });
+  });
+
+  it('rejects a selection over the size limit before reading S3', async () => {
+    await expect(zip(['Finance', 'Legal/report.pdf'])).resolves.toMatchObject({
+      totalBytes: 350,
+    });
+
+    files.rows.push(item('Legal/annex.pdf', 'file', 1));
+    await expect(
+      zip(['Finance', 'Legal/report.pdf', 'Legal/annex.pdf']),
+    ).rejects.toThrow(
+      'Selection too large for one ZIP. Max allowed: 350 bytes',
+    );
+    expect(storage.getObjectStreamKey).not.toHaveBeenCalled();
+  });
+});
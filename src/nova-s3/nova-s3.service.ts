@@ -1,8 +1,19 @@
-import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Like, Repository } from 'typeorm';
+import { In, LessThan, Like, Repository, SelectQueryBuilder } from 'typeorm';
+import { randomUUID } from 'crypto';
 
 import { NovaS3 } from './entities/nova-s3.entity';
+import { NovaS3Trash, NovaS3TrashedRow } from './entities/nova-s3-trash.entity';
+import { NovaS3Operation, NovaS3OperationKind } from './entities/nova-s3-operation.entity';
+import { NovaS3BulkJobItem } from './entities/nova-s3-bulk-job-item.entity';
 
 import { CreateFolderDto } from './dto/create-folder.dto';
 import { ListFolderDto } from './dto/list-folder.dto';
@@ -15,7 +26,65 @@ import { PresignBatchDto } from './dto/presign-batch.dto';
 import { CompleteMultipartDto, AbortMultipartDto } from './dto/complete-multipart.dto';
 import { RegisterUploadDto } from './dto/register-upload.dto';
 import { RegisterBatchDto } from './dto/register-batch.dto';
+import { PurgeTrashDto, RestoreTrashDto } from './dto/trash.dto';
+import { CopyFileDto, CopyFolderDto } from './dto/copy.dto';
+import { BulkJobDto } from './dto/bulk.dto';
+import { NovaS3SearchSort, SearchDto } from './dto/search.dto';
 import { NovaS3StorageUtil } from './utils/nova-s3-storage.util';
+import { NovaS3VersionsService } from './nova-s3-versions.service';
+import { NovaS3QuotaService } from './nova-s3-quota.service';
+import { NovaS3TagsService } from './nova-s3-tags.service';
+import { NovaS3QuickAccessService } from './nova-s3-quick-access.service';
+import { NovaS3ThumbnailsService } from './nova-s3-thumbnails.service';
+import { NovaS3HashesService } from './nova-s3-hashes.service';
+import { NovaS3MultipartService } from './nova-s3-multipart.service';
+import { NovaS3UploadSessionsService } from './nova-s3-upload-sessions.service';
+import { NovaS3ActivityService } from './nova-s3-activity.service';
+import { NovaS3BulkJobsService, NovaS3ClaimedBulkJob } from './nova-s3-bulk-jobs.service';
+import { NovaS3FolderSizesService } from './nova-s3-folder-sizes.service';
+import { NovaS3ContentPolicyService } from './nova-s3-content-policy.service';
+import { NovaS3RootsService } from './nova-s3-roots.service';
+import {
+  buildTenantS3Key,
+  copyName,
+  joinPath,
+  nameOf,
+  normPath,
+  normRoot,
+  numberedName,
+  parentOf,
+  s3BaseFolder,
+  systemS3Prefix,
+  tenantPrefix,
+} from './utils/nova-s3-path.util';
+import {
+  isRecoverableOperation,
+  mapPrefixKey,
+  NovaS3RecoveryAction,
+  pathsOverlap,
+  planRecovery,
+} from './utils/nova-s3-operation.util';
+import { escapeLike, mimeFamilyPatterns, mimeTypePattern } from './utils/nova-s3-search.util';
+import { resolveExpiredFile } from './utils/nova-s3-upload-session.util';
+import {
+  NOVA_S3_SNIFF_BYTES,
+  resolveContentType,
+  sniffContentType,
+  sniffMarkupType,
+} from './utils/nova-s3-file-signature.util';
+import { decodeCursor, encodeCursor } from './utils/nova-s3-cursor.util';
+import { normalizeTags } from './utils/nova-s3-tags.util';
+import { normalizeSha256, sha256Hex } from './utils/nova-s3-hash.util';
+import { bulkItemError, bulkItemResult } from './utils/nova-s3-bulk.util';
+import { movedChanges, sizeTotals } from './utils/nova-s3-folder-size.util';
+import {
+  conflictMessage,
+  NOVA_S3_NAME_TAKEN,
+  NovaS3ConflictOutcome,
+  NovaS3ConflictStrategy,
+  planUploadConflicts,
+} from './utils/nova-s3-conflict.util';
+import { NovaS3ContentCandidate, NovaS3PolicyViolation } from './utils/nova-s3-content-policy.util';
 
 /**
  * Operation response (local DTO)
@@ -36,7 +105,11 @@ export type NovaS3TreeItemDto = {
   path: string;
   type: 'folder' | 'file';
   children?: NovaS3TreeItemDto[];
+  // folders: tiene hijos en BD (con depth, los del último nivel vienen con children vacío)
+  hasChildren?: boolean;
+  // folders: bytes / archivos de TODO el subárbol (rollups)
   size?: number;
+  fileCount?: number;
   lastModified?: Date;
 };
 
@@ -47,10 +120,13 @@ export type NovaS3TreeItemDto = {
  */
 export type NovaS3TreeResponseDto = {
   success: boolean;
+  // niveles cargados debajo de root (null = árbol completo)
+  depth: number | null;
   root: {
     name: string;
     path: string;
     type: 'folder';
+    hasChildren: boolean;
     children: NovaS3TreeItemDto[];
   };
   files: NovaS3TreeItemDto[];
@@ -59,20 +135,61 @@ export type NovaS3TreeResponseDto = {
 /**
  * Upload context used by upload endpoints.
  */
-type UploadCtx = { root: string; path?: string; employeeNumber?: string };
+// actorEmployeeNumber: quien sube (≠ employeeNumber en folders compartidos) — alimenta sus recientes
+// warnOnDuplicate: agrega `duplicates` a la respuesta si el mismo contenido ya existe en el espacio
+// conflictStrategy: qué hacer si el path ya existe (default replace: el contenido anterior queda como versión)
+type UploadCtx = {
+  root: string;
+  path?: string;
+  employeeNumber?: string;
+  actorEmployeeNumber?: string;
+  warnOnDuplicate?: boolean;
+  conflictStrategy?: NovaS3ConflictStrategy;
+};
 
 // ✅ NEW (solo agrega, no borra): shape para folder upload con paths opcionales
 type UploadFolderCtx = {
   root: string;
   basePath?: string;
   employeeNumber?: string;
+  actorEmployeeNumber?: string;
+  warnOnDuplicate?: boolean;
+  conflictStrategy?: NovaS3ConflictStrategy;
   paths?: any; // puede venir string JSON, array string, undefined
 };
 
 @Injectable()
-export class NovaS3Service {
+export class NovaS3Service implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(NovaS3Service.name);
 
+  // ✅ Papelera: días de retención + cada cuánto corre el purge automático (0 = desactivado)
+  private readonly TRASH_RETENTION_DAYS = Number(process.env.NOVA_S3_TRASH_RETENTION_DAYS ?? 30);
+  private readonly TRASH_PURGE_INTERVAL_MINUTES = Number(process.env.NOVA_S3_TRASH_PURGE_INTERVAL_MINUTES ?? 60);
+  private trashPurgeTimer: NodeJS.Timeout | null = null;
+  private trashPurgeRunning = false;
+
+  // ✅ Journal de operaciones: sin heartbeat en N minutos = interrumpida; cada cuánto corre el recovery (0 = solo al iniciar)
+  private readonly OP_STALE_MINUTES = Number(process.env.NOVA_S3_OP_STALE_MINUTES ?? 10);
+  private readonly OP_RECOVERY_INTERVAL_MINUTES = Number(process.env.NOVA_S3_OP_RECOVERY_INTERVAL_MINUTES ?? 5);
+  private opRecoveryTimer: NodeJS.Timeout | null = null;
+  private opRecoveryRunning = false;
+
+  // ✅ Sesiones de upload: cada cuánto se revisan las vencidas (0 = desactivado)
+  private readonly UPLOAD_SESSION_SWEEP_MINUTES = Number(process.env.NOVA_S3_UPLOAD_SESSION_SWEEP_MINUTES ?? 15);
+  private uploadSessionTimer: NodeJS.Timeout | null = null;
+  private uploadSessionRunning = false;
+
+  // ✅ Register de uploads directos: HEAD + GET parcial por objeto, N en paralelo
+  private readonly VERIFY_CONCURRENCY = Math.max(Number(process.env.NOVA_S3_VERIFY_CONCURRENCY ?? 8), 1);
+
+  // ✅ Jobs en lote: cuántos corren a la vez por instancia + cada cuánto se buscan jobs en cola / huérfanos
+  private readonly BULK_CONCURRENCY = Math.max(Number(process.env.NOVA_S3_BULK_CONCURRENCY ?? 2), 1);
+  private readonly BULK_SWEEP_MINUTES = Number(process.env.NOVA_S3_BULK_SWEEP_MINUTES ?? 1);
+  private readonly BULK_RETENTION_DAYS = Number(process.env.NOVA_S3_BULK_RETENTION_DAYS ?? 7);
+  private bulkTimer: NodeJS.Timeout | null = null;
+  private bulkRunning = 0;
+  private bulkPumping = false;
+
   constructor(
     /**
      * ✅ Storage-only util
@@ -87,8 +204,139 @@ export class NovaS3Service {
      */
     @InjectRepository(NovaS3)
     private readonly repo: Repository<NovaS3>,
+
+    /**
+     * ✅ Recycle bin entries (table nova_s3_trash).
+     */
+    @InjectRepository(NovaS3Trash)
+    private readonly trashRepo: Repository<NovaS3Trash>,
+
+    /**
+     * ✅ Journal de move / rename de folders (table nova_s3_operation).
+     */
+    @InjectRepository(NovaS3Operation)
+    private readonly opRepo: Repository<NovaS3Operation>,
+
+    /**
+     * ✅ Version history: archiva el contenido actual antes de cada overwrite.
+     */
+    private readonly versions: NovaS3VersionsService,
+
+    /**
+     * ✅ Cuotas: corta uploads / presigns que no entran antes de tocar S3.
+     */
+    private readonly quotas: NovaS3QuotaService,
+
+    /**
+     * ✅ Tags: grafía canónica del empleado para los filtros de list / search.
+     */
+    private readonly tags: NovaS3TagsService,
+
+    /**
+     * ✅ Estrellas / recientes: uploads, renames y file-url alimentan los recientes del actor.
+     */
+    private readonly quickAccess: NovaS3QuickAccessService,
+
+    /**
+     * ✅ Thumbnails: se encolan después de uploadOne / registerUpload / completeMultipart.
+     */
+    private readonly thumbnails: NovaS3ThumbnailsService,
+
+    /**
+     * ✅ SHA-256: direct uploads se hashean en background; warnings de contenido duplicado.
+     */
+    private readonly hashes: NovaS3HashesService,
+
+    /**
+     * ✅ Multipart uploads: registro al crearlos (presignBatch) y cierre en complete / abort.
+     */
+    private readonly multiparts: NovaS3MultipartService,
+
+    /**
+     * ✅ Sesiones de upload: presignBatch las crea, register* / abort van marcando archivos.
+     */
+    private readonly uploadSessions: NovaS3UploadSessionsService,
+
+    /**
+     * ✅ Log de actividad: upload, createFolder, rename, move, delete y file-url (por item id).
+     */
+    private readonly activity: NovaS3ActivityService,
+
+    /**
+     * ✅ Jobs en lote: estado de los jobs / items; el runner (runBulkJob) está acá.
+     */
+    private readonly bulkJobs: NovaS3BulkJobsService,
+
+    /**
+     * ✅ Totales por folder: cada write suma / resta su delta a los folders ancestros.
+     */
+    private readonly folderSizes: NovaS3FolderSizesService,
+
+    /**
+     * ✅ Política de contenido del root: tipo real (magic bytes), extensiones bloqueadas y topes por familia.
+     */
+    private readonly contentPolicy: NovaS3ContentPolicyService,
+
+    /**
+     * ✅ Registro de roots: expiración default de las URLs firmadas por root.
+     */
+    private readonly roots: NovaS3RootsService,
   ) { }
 
+  onModuleInit() {
+    const everyMs = this.TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000;
+    if (!(everyMs > 0)) {
+      this.logStep('onModuleInit', 'trash auto-purge disabled');
+    } else {
+      this.trashPurgeTimer = setInterval(() => {
+        this.purgeExpiredTrash().catch((e) => this.logErr('purgeExpiredTrash', e));
+      }, everyMs);
+      // no mantener vivo el proceso solo por el timer
+      this.trashPurgeTimer.unref();
+    }
+
+    // ✅ move / rename cortados por un crash o deploy: se retoman o deshacen al iniciar (y después cada N minutos)
+    this.sweepOperations();
+
+    const recoverMs = this.OP_RECOVERY_INTERVAL_MINUTES * 60 * 1000;
+    if (recoverMs > 0) {
+      this.opRecoveryTimer = setInterval(() => this.sweepOperations(), recoverMs);
+      this.opRecoveryTimer.unref();
+    }
+
+    // ✅ sesiones de upload vencidas: HEAD de los pendientes => auto-register / abort
+    const sessionMs = this.UPLOAD_SESSION_SWEEP_MINUTES * 60 * 1000;
+    if (sessionMs > 0) {
+      this.uploadSessionTimer = setInterval(() => {
+        this.expireUploadSessions().catch((e) => this.logErr('expireUploadSessions', e));
+      }, sessionMs);
+      this.uploadSessionTimer.unref();
+    }
+
+    // ✅ jobs en lote: los que quedaron en cola o huérfanos (crash / deploy) se retoman; los viejos se borran
+    this.pumpBulkJobs();
+
+    const bulkMs = this.BULK_SWEEP_MINUTES * 60 * 1000;
+    if (bulkMs > 0) {
+      this.bulkTimer = setInterval(() => {
+        this.pumpBulkJobs();
+        this.bulkJobs.pruneFinished(this.BULK_RETENTION_DAYS).catch((e) => this.logErr('pruneBulkJobs', e));
+      }, bulkMs);
+      this.bulkTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.trashPurgeTimer) clearInterval(this.trashPurgeTimer);
+    this.trashPurgeTimer = null;
+    if (this.opRecoveryTimer) clearInterval(this.opRecoveryTimer);
+    this.opRecoveryTimer = null;
+    if (this.uploadSessionTimer) clearInterval(this.uploadSessionTimer);
+    this.uploadSessionTimer = null;
+    if (this.bulkTimer) clearInterval(this.bulkTimer);
+    this.bulkTimer = null;
+  }
+
   // ---------------------------------------------------------------------------
   // Helpers (normalization & path building)
   // ---------------------------------------------------------------------------
@@ -119,52 +367,37 @@ export class NovaS3Service {
 
   /** Normalize root: trim slashes, default to "nova-s3". */
   private normRoot(root?: string) {
-    const out = (root || 'nova-s3').replace(/^\/|\/$/g, '');
-    // log chiquito (no spamear demasiado)
-    return out;
+    return normRoot(root);
   }
 
   /** Normalize path: trim, remove leading/trailing slashes. Rejects traversal segments. */
   private normPath(path?: string) {
-    const out = (path || '').trim().replace(/\\/g, '/').replace(/^\/|\/$/g, '');
-    if (out) {
-      for (const seg of out.split('/')) {
-        if (seg === '' || seg === '.' || seg === '..') {
-          throw new BadRequestException(`Invalid path segment in "${out}"`);
-        }
-      }
-    }
-    return out;
+    return normPath(path);
   }
 
-  /** Clamp client-provided expiry seconds: min 60s, max 86400s (24h). */
-  private clampExpiry(seconds: number | undefined, def: number) {
-    const s = Number(seconds);
-    if (!Number.isFinite(s)) return def;
-    return Math.min(Math.max(Math.floor(s), 60), 86400);
+  /** Clamp client-provided expiry seconds: min 60s, max 86400s (24h). Sin valor => default del root, si no `def`. */
+  private clampExpiry(root: string, seconds: number | undefined, def: number) {
+    return this.roots.urlExpiry(root, seconds, def);
+  }
+
+  /** Bytes totales de un lote (multer files o items de presignBatch). */
+  private sumSizes(files: { size?: number | null }[] | undefined) {
+    return (files ?? []).reduce((acc, f) => acc + (Number(f.size) || 0), 0);
   }
 
   /** Join base path + name safely (no duplicate slashes). */
   private joinPath(path: string, name: string) {
-    const p = this.normPath(path);
-    const n = this.normPath(name);
-    return p ? `${p}/${n}` : n;
+    return joinPath(path, name);
   }
 
   /** Parent path of a relative path. Example: "A/B/C" => "A/B" */
   private parentOf(relativePath: string) {
-    const clean = this.normPath(relativePath);
-    if (!clean) return '';
-    const parts = clean.split('/');
-    parts.pop();
-    return parts.join('/');
+    return parentOf(relativePath);
   }
 
   /** Last segment name of a relative path. Example: "A/B/C" => "C" */
   private nameOf(relativePath: string) {
-    const clean = this.normPath(relativePath);
-    if (!clean) return '';
-    return clean.split('/').pop() || '';
+    return nameOf(relativePath);
   }
 
   /**
@@ -184,8 +417,7 @@ export class NovaS3Service {
    * - Else => ""
    */
   private tenantPrefix(employeeNumber?: string | null) {
-    const e = (employeeNumber ?? '').trim();
-    return e ? this.normPath(e) : '';
+    return tenantPrefix(employeeNumber);
   }
 
   /**
@@ -196,8 +428,7 @@ export class NovaS3Service {
    * ✅ Aquí NO va navegación; solo el lugar físico en S3.
    */
   private s3BaseFolder(root: string, employeeNumber?: string | null) {
-    const tenant = this.tenantPrefix(employeeNumber);
-    return tenant ? `${this.normRoot(root)}/${tenant}` : this.normRoot(root);
+    return s3BaseFolder(root, employeeNumber);
   }
 
   /**
@@ -212,10 +443,256 @@ export class NovaS3Service {
     relativePath: string,
     isFolder = false,
   ) {
-    const base = this.s3BaseFolder(root, employeeNumber);
-    const rel = this.normPath(relativePath);
-    const full = rel ? `${base}/${rel}` : base;
-    return isFolder ? (full.endsWith('/') ? full : `${full}/`) : full;
+    return buildTenantS3Key(root, employeeNumber, relativePath, isFolder);
+  }
+
+  /**
+   * S3 prefix of a recycle bin entry: {root}/.trash/{employeeNumber}/{trashId}
+   * Vive FUERA de {root}/{employeeNumber}, así ningún folder del usuario puede pisarlo.
+   */
+  private trashS3Prefix(root: string, employeeNumber: string | null, trashId: string) {
+    return `${systemS3Prefix(root, 'trash', employeeNumber)}/${trashId}`;
+  }
+
+  /**
+   * First free path inside `parentPath` for `name`:
+   * "report.pdf" -> "report (2).pdf" -> "report (3).pdf" ...
+   * Folders no separan extensión.
+   */
+  private async nextFreePath(
+    root: string,
+    employeeNumber: string | null,
+    parentPath: string,
+    name: string,
+    isFolder: boolean,
+  ) {
+    for (let n = 2; n < 1000; n++) {
+      const candidate = this.joinPath(parentPath, numberedName(name, isFolder, n));
+      const taken = await this.repo.findOne({
+        where: { root, employeeNumber, path: candidate } as any,
+        select: { id: true } as any,
+      });
+      if (!taken) return candidate;
+    }
+
+    // fallback: nunca debería pasar, pero no dejamos al usuario sin salida
+    return this.joinPath(parentPath, numberedName(name, isFolder, Date.now()));
+  }
+
+  /**
+   * Destino libre para una copia dentro de `parentPath`:
+   * mismo nombre si está libre (copia a otra carpeta), si no "Copy of X", "Copy of X (2)"...
+   */
+  private async freeCopyPath(
+    root: string,
+    employeeNumber: string | null,
+    parentPath: string,
+    name: string,
+    isFolder: boolean,
+  ) {
+    const isTaken = async (candidate: string) =>
+      !!(await this.repo.findOne({
+        where: { root, employeeNumber, path: candidate } as any,
+        select: { id: true } as any,
+      }));
+
+    const same = this.joinPath(parentPath, name);
+    if (!(await isTaken(same))) return same;
+
+    for (let n = 1; n < 1000; n++) {
+      const candidate = this.joinPath(parentPath, copyName(name, isFolder, n));
+      if (!(await isTaken(candidate))) return candidate;
+    }
+
+    throw new ConflictException(`Too many copies of "${name}" in the destination`);
+  }
+
+  /** ✅ Upload multipart: tipo real por magic bytes (+ markup HTML / SVG, que no tiene firma). */
+  private inspectBuffer(file: Express.Multer.File) {
+    const sniffed = sniffContentType(file.buffer);
+    const { mimeType, mismatch } = resolveContentType(file.mimetype, null, sniffed);
+    return {
+      sniffed,
+      markup: sniffMarkupType(file.buffer),
+      mimeType: mimeType ?? 'application/octet-stream',
+      mismatch,
+    };
+  }
+
+  private bufferCandidate(
+    path: string,
+    file: Express.Multer.File,
+    inspected: ReturnType<NovaS3Service['inspectBuffer']>,
+  ): NovaS3ContentCandidate {
+    return {
+      name: this.nameOf(path),
+      size: file.size ?? file.buffer?.length ?? 0,
+      declared: file.mimetype,
+      sniffed: inspected.sniffed,
+      markup: inspected.markup,
+    };
+  }
+
+  /**
+   * ✅ Upload directo rechazado por la política: el objeto ya está en S3 (en el path final).
+   * Si el archivo existía se restaura la última versión (archivada al registrar / antes del complete);
+   * si no, se borra. Best-effort: el error al cliente sale igual.
+   */
+  private async discardUploadedObject(fn: string, root: string, employeeNumber: string | null, path: string, s3Key: string) {
+    try {
+      const restored = await this.versions.restoreLatestObject(root, employeeNumber, path);
+      if (!restored) await this.storage.deleteObjectKey(s3Key);
+      this.logStep(fn, 'rejected object discarded', { path, s3Key, restored });
+    } catch (e) {
+      this.logErr(fn, e, { path, s3Key });
+    }
+  }
+
+  /**
+   * ✅ Cuota con el size REAL de objetos ya subidos directo a S3 (el presign solo vio el declarado).
+   * Cuenta lo que crece cada path: la versión anterior de un archivo reemplazado ya se archivó.
+   * Si no entra, los objetos se descartan como un rechazo de la política de contenido (413).
+   */
+  private async assertUploadedWithinQuota(
+    fn: string,
+    root: string,
+    employeeNumber: string | null,
+    uploads: { path: string; s3Key: string; size: number }[],
+  ) {
+    if (!uploads.length) return;
+
+    const previous = new Map<string, number>();
+    for (let i = 0; i < uploads.length; i += 500) {
+      const found = await this.repo.find({
+        where: { root, employeeNumber, type: 'file', path: In(uploads.slice(i, i + 500).map((u) => u.path)) } as any,
+        select: { path: true, size: true } as any,
+      });
+      for (const f of found) previous.set(f.path, Number(f.size ?? 0));
+    }
+
+    const growth = uploads.reduce((acc, u) => acc + u.size - (previous.get(u.path) ?? 0), 0);
+    if (growth <= 0) return;
+
+    try {
+      await this.quotas.assertWithinQuota(root, employeeNumber, growth);
+    } catch (e) {
+      for (const u of uploads) await this.discardUploadedObject(fn, root, employeeNumber, u.path, u.s3Key);
+      throw e;
+    }
+  }
+
+  /**
+   * ✅ Conflictos de nombre de un upload (ver planUploadConflicts).
+   * - fail: 409 si algún path ya existe (no se sube nada)
+   * - keepBoth: también carga los hermanos de los paths en conflicto para numerar sin pisar
+   * - rejected[i] (política de contenido): ese archivo queda `failed` y no participa del plan
+   */
+  private async planUploads(
+    root: string,
+    employeeNumber: string | null,
+    requested: string[],
+    strategy: NovaS3ConflictStrategy = 'replace',
+    rejected?: (NovaS3PolicyViolation | null)[],
+  ) {
+    const planned = requested.flatMap((_p, i) => (rejected?.[i] ? [] : [i]));
+    const paths = planned.map((i) => requested[i]);
+
+    const taken = new Map<string, string>();
+    const load = async (column: 'path' | 'parentPath', values: string[]) => {
+      for (let i = 0; i < values.length; i += 500) {
+        const found = await this.repo.find({
+          where: { root, employeeNumber, [column]: In(values.slice(i, i + 500)) } as any,
+          select: { path: true, type: true } as any,
+        });
+        for (const f of found) taken.set(f.path, f.type);
+      }
+    };
+
+    await load('path', [...new Set(paths)]);
+    let plan = planUploadConflicts(paths, taken, strategy);
+
+    if (strategy === 'keepBoth' && plan.conflicts.length) {
+      await load('parentPath', [...new Set(plan.conflicts.map((p) => this.parentOf(p)))]);
+      plan = planUploadConflicts(paths, taken, strategy);
+    }
+
+    if (strategy === 'fail' && plan.conflicts.length) {
+      throw new ConflictException(conflictMessage(plan.conflicts));
+    }
+    if (!rejected) return plan;
+
+    const outcomes = requested.map(
+      (path, i): NovaS3ConflictOutcome => ({ path, finalPath: null, action: 'failed', reason: rejected[i]?.reason }),
+    );
+    planned.forEach((i, j) => (outcomes[i] = plan.outcomes[j]));
+    return { outcomes, conflicts: plan.conflicts };
+  }
+
+  /**
+   * ✅ Destino de un move cuando `newPath` ya está ocupado (sin conflicto => newPath tal cual).
+   * - fail: 409 (comportamiento histórico)
+   * - skip: null => el caller responde sin mover
+   * - keepBoth: "report (2).pdf"
+   * - replace: el ocupante (mismo tipo, un folder con todo su contenido) va a la papelera;
+   *   un folder nunca reemplaza a un file ni al revés, ni a un folder que contiene al origen
+   *   (mover "A/A" a la raíz mandaría "A" a la papelera con el origen adentro).
+   *   `replacedTrashId` = entrada de papelera del ocupante: si el move falla, vuelve (ver restoreReplaced)
+   */
+  private async resolveMoveTarget(
+    root: string,
+    employeeNumber: string | null,
+    source: NovaS3,
+    newPath: string,
+    strategy: NovaS3ConflictStrategy = 'fail',
+    actorEmployeeNumber?: string,
+  ): Promise<{ outcome: NovaS3ConflictOutcome; replacedTrashId: string | null }> {
+    const conflict = await this.repo.findOne({
+      where: { root, employeeNumber, path: newPath } as any,
+    });
+    if (!conflict) return { outcome: { path: source.path, finalPath: newPath, action: 'moved' }, replacedTrashId: null };
+
+    const name = this.nameOf(newPath);
+    if (strategy === 'skip') {
+      return {
+        outcome: { path: source.path, finalPath: null, action: 'skipped', reason: NOVA_S3_NAME_TAKEN },
+        replacedTrashId: null,
+      };
+    }
+    // mover al folder donde ya está: no hay nada que reemplazar ni duplicar
+    if (conflict.id === source.id) {
+      throw new ConflictException(`An item named "${name}" already exists in the destination`);
+    }
+    if (strategy === 'keepBoth') {
+      const finalPath = await this.nextFreePath(root, employeeNumber, this.parentOf(newPath), name, source.type === 'folder');
+      return { outcome: { path: source.path, finalPath, action: 'renamed' }, replacedTrashId: null };
+    }
+    if (strategy === 'replace' && conflict.type === source.type) {
+      if (source.path.startsWith(`${conflict.path}/`)) {
+        throw new ConflictException(`"${name}" contains the item being moved and cannot be replaced`);
+      }
+      const trashed = await this.remove(
+        { root, employeeNumber: employeeNumber ?? undefined, kind: source.type === 'folder' ? 'folder' : 'file', path: newPath },
+        actorEmployeeNumber,
+      );
+      return { outcome: { path: source.path, finalPath: newPath, action: 'replaced' }, replacedTrashId: trashed.trashId ?? null };
+    }
+    throw new ConflictException(`An item named "${name}" already exists in the destination`);
+  }
+
+  /**
+   * El move que reemplazó a `path` falló: el ocupante vuelve de la papelera a su lugar.
+   * Si quedó una operación abierta sobre el destino (rollback pendiente) se deja en la papelera:
+   * el rollback borraría lo restaurado. Nunca relanza (el error del move es el que importa).
+   */
+  private async restoreReplaced(fn: string, root: string, employeeNumber: string | null, path: string, trashId: string | null) {
+    if (!trashId) return;
+    try {
+      await this.assertNoOpenOperation(root, employeeNumber, [path]);
+      await this.restoreTrash({ root, employeeNumber: employeeNumber as any, trashId });
+      this.logStep(fn, 'replaced item restored', { path, trashId });
+    } catch (e: any) {
+      this.logErr(fn, e, { path, trashId, note: 'move failed -> replaced item left in trash' });
+    }
   }
 
   /** Normalize any storage response into local operation DTO. */
@@ -429,6 +906,7 @@ export class NovaS3Service {
   /**
    * ✅ NEW: bulk upsert for files
    * Requires UNIQUE constraint on (root, employeeNumber, path) or similar.
+   * ✅ Todas las filas son del mismo espacio (un upload / register): los totales de folders se ajustan con la primera.
    */
   private async upsertFiles(rows: Partial<NovaS3>[]) {
     const fn = 'upsertFiles';
@@ -439,8 +917,13 @@ export class NovaS3Service {
       return;
     }
 
+    const { root, employeeNumber } = rows[0];
+    const sizeChanges = await this.folderSizes.upsertChanges(root!, employeeNumber ?? null, rows);
+
     await this.repo.upsert(rows as any, ['root', 'employeeNumber', 'path'] as any);
     this.logStep(fn, 'upsert OK', { rows: rows.length });
+
+    await this.folderSizes.apply(root!, employeeNumber ?? null, sizeChanges);
   }
 
   /**
@@ -459,6 +942,7 @@ export class NovaS3Service {
       return null;
     }
 
+    const fromPath = item.path;
     item.path = this.normPath(newPath);
     item.parentPath = this.parentOf(item.path);
     item.name = this.nameOf(item.path);
@@ -468,6 +952,7 @@ export class NovaS3Service {
         : this.buildTenantS3Key(root, employeeNumber, item.path, false);
 
     const saved = await this.repo.save(item);
+    await this.folderSizes.apply(root, employeeNumber, movedChanges(fromPath, saved.path, sizeTotals([saved])));
 
     this.logStep(fn, 'saved', {
       id: saved.id,
@@ -485,12 +970,14 @@ export class NovaS3Service {
    * Cascade update for folders:
    * - updates folder itself (oldPrefix -> newPrefix)
    * - updates every descendant where path LIKE oldPrefix/% (BD is source of truth)
+   * - `repo`: pasar el de un EntityManager para correrlo dentro de una transacción
    */
   private async cascadeUpdatePrefix(
     root: string,
     employeeNumber: string | null,
     oldPrefix: string,
     newPrefix: string,
+    repo: Repository<NovaS3> = this.repo,
   ) {
     const fn = 'cascadeUpdatePrefix';
     this.logCtx(fn, { root, employeeNumber, oldPrefix, newPrefix });
@@ -498,10 +985,10 @@ export class NovaS3Service {
     const oldP = this.normPath(oldPrefix);
     const newP = this.normPath(newPrefix);
 
-    const affected = await this.repo.find({
+    const affected = await repo.find({
       where: [
         { root, employeeNumber, path: oldP } as any,
-        { root, employeeNumber, path: Like(`${oldP}/%`) } as any,
+        { root, employeeNumber, path: Like(`${escapeLike(oldP)}/%`) } as any,
       ],
     });
 
@@ -525,8 +1012,11 @@ export class NovaS3Service {
     }
 
     if (affected.length) {
-      await this.repo.save(affected);
+      await repo.save(affected);
       this.logStep(fn, 'saved affected rows', { count: affected.length });
+
+      // ✅ totales: el subárbol sale de los ancestros viejos y entra en los nuevos (misma transacción que las filas)
+      await this.folderSizes.apply(root, employeeNumber, movedChanges(oldP, newP, sizeTotals(affected)), repo);
     } else {
       this.logStep(fn, 'no affected rows to save');
     }
@@ -534,6 +1024,55 @@ export class NovaS3Service {
     return affected.length;
   }
 
+  /**
+   * Keyset: ORDER BY las expresiones de orden (+ id como desempate) y, con cursor, solo filas "después" del cursor.
+   * Los valores del cursor salen de SQL como text (`sort_0`, `sort_1`...) y se comparan con CAST: sin perder precisión
+   * (timestamps en µs, float8). Las expresiones no pueden ser NULL (usar COALESCE).
+   */
+  private applyKeyset(
+    qb: SelectQueryBuilder<NovaS3>,
+    sortBy: string,
+    keys: { expr: string; cast: string }[],
+    order: 'asc' | 'desc',
+    rawCursor?: string,
+  ) {
+    const dir = order === 'desc' ? 'DESC' : 'ASC';
+    keys.forEach((k, i) => qb.addSelect(`CAST(${k.expr} AS text)`, `sort_${i}`));
+
+    if (rawCursor) {
+      const cursor = decodeCursor(rawCursor, sortBy, order);
+      if (!cursor || cursor.values.length !== keys.length) {
+        throw new BadRequestException('Invalid cursor for this sortBy / order');
+      }
+
+      const params: Record<string, any> = { cursorId: cursor.id };
+      keys.forEach((_, i) => (params[`cursor${i}`] = cursor.values[i]));
+
+      const left = [...keys.map((k) => k.expr), 'n.id'].join(', ');
+      const right = [...keys.map((k, i) => `CAST(:cursor${i} AS ${k.cast})`), 'CAST(:cursorId AS uuid)'].join(', ');
+      qb.andWhere(`(${left}) ${order === 'desc' ? '<' : '>'} (${right})`, params);
+    }
+
+    keys.forEach((k, i) => (i === 0 ? qb.orderBy(k.expr, dir) : qb.addOrderBy(k.expr, dir)));
+    qb.addOrderBy('n.id', dir);
+  }
+
+  /** Folders: size = bytes del subárbol + fileCount (rollups). Files quedan igual. */
+  private withFolderSize(row: NovaS3) {
+    if (row.type !== 'folder') return row;
+    return { ...row, size: Number(row.rollupBytes ?? 0), fileCount: row.rollupFiles ?? 0 };
+  }
+
+  /** Cursor de la página siguiente a partir de la fila raw del último item (ver applyKeyset). */
+  private nextKeysetCursor(sortBy: string, order: 'asc' | 'desc', keyCount: number, lastId: string, lastRaw: any) {
+    return encodeCursor({
+      sortBy,
+      order,
+      values: Array.from({ length: keyCount }, (_, i) => lastRaw?.[`sort_${i}`] ?? null),
+      id: lastId,
+    });
+  }
+
   // ---------------------------------------------------------------------------
   // Explorer READ (DB = source of truth)
   // ---------------------------------------------------------------------------
@@ -549,24 +1088,62 @@ export class NovaS3Service {
 
       this.logStep(fn, 'normalized', { root, path, employeeNumber });
 
-      const sortBy = (dto.sortBy ?? 'name') as
-        | 'name'
-        | 'type'
-        | 'size'
-        | 'createdAt'
-        | 'updatedAt';
+      const sortBy = dto.sortBy ?? 'name';
+      const order = dto.order === 'desc' ? 'desc' : 'asc';
 
-      const order =
-        (dto.order ?? 'asc').toUpperCase() === 'DESC' ? 'DESC' : 'ASC';
+      this.logStep(fn, 'query', { sortBy, order, limit: dto.limit, cursor: !!dto.cursor });
 
-      this.logStep(fn, 'query', { sortBy, order });
+      // keyset: (columna de orden, id). type ordena además por nombre dentro de cada tipo.
+      const sortKeys: Record<string, { expr: string; cast: string }[]> = {
+        name: [{ expr: 'n.name', cast: 'varchar' }],
+        type: [
+          { expr: 'n.type', cast: 'varchar' },
+          { expr: 'n.name', cast: 'varchar' },
+        ],
+        // folders ordenan por el total de su subárbol
+        size: [{ expr: "CASE WHEN n.type = 'folder' THEN n.rollupBytes ELSE COALESCE(n.size, -1) END", cast: 'bigint' }],
+        createdAt: [{ expr: 'n.createdAt', cast: 'timestamp' }],
+        updatedAt: [{ expr: 'n.updatedAt', cast: 'timestamp' }],
+      };
+      const keys = sortKeys[sortBy];
 
-      const items = await this.repo.find({
-        where: { root, parentPath: path, employeeNumber } as any,
-        order: { [sortBy]: order } as any,
-      });
+      const qb = this.repo
+        .createQueryBuilder('n')
+        .where('n.root = :root', { root })
+        .andWhere('n.parentPath = :path', { path })
+        .andWhere('n.employeeNumber = :employeeNumber', { employeeNumber });
+
+      if (dto.tags?.length) {
+        qb.andWhere('n.tags @> :tags', { tags: await this.tags.canonicalTags(root, employeeNumber, normalizeTags(dto.tags)) });
+      }
+
+      // total del folder (no de la página): solo hace falta contarlo cuando se pagina
+      const folderTotal = dto.limit ? await qb.clone().getCount() : null;
+
+      this.applyKeyset(qb, sortBy, keys, order, dto.cursor);
+      if (dto.limit) qb.limit(dto.limit + 1);
 
-      this.logStep(fn, 'result', { total: items.length, sample: items.slice(0, 2).map(i => ({ id: i.id, path: i.path, type: i.type, parentPath: i.parentPath })) });
+      const { entities, raw } = await qb.getRawAndEntities();
+      const rawById = new Map(raw.map((r: any) => [r.n_id, r]));
+
+      const items = (dto.limit ? entities.slice(0, dto.limit) : entities).map((i) => this.withFolderSize(i));
+      const hasMore = !!dto.limit && entities.length > dto.limit;
+      const last = items[items.length - 1];
+
+      this.logStep(fn, 'result', { total: items.length, hasMore, sample: items.slice(0, 2).map(i => ({ id: i.id, path: i.path, type: i.type, parentPath: i.parentPath })) });
+
+      if (dto.limit) {
+        return {
+          success: true,
+          root,
+          path,
+          total: folderTotal,
+          count: items.length,
+          hasMore,
+          nextCursor: hasMore && last ? this.nextKeysetCursor(sortBy, order, keys.length, last.id, rawById.get(last.id)) : null,
+          items,
+        };
+      }
 
       return {
         success: true,
@@ -581,42 +1158,78 @@ export class NovaS3Service {
     }
   }
 
-  async tree(root = 'nova-s3', employeeNumber?: string, foldersOnly = false): Promise<NovaS3TreeResponseDto> {
+  /**
+   * basePath: subárbol (ej: folder compartido). El nodo raíz de la respuesta pasa a ser ese folder.
+   */
+  async tree(
+    root = 'nova-s3',
+    employeeNumber?: string,
+    foldersOnly = false,
+    basePath = '',
+    depth?: number,
+  ): Promise<NovaS3TreeResponseDto> {
     const fn = 'tree';
-    this.logCtx(fn, { root, employeeNumber, foldersOnly });
+    this.logCtx(fn, { root, employeeNumber, foldersOnly, basePath, depth });
 
     try {
       const r = this.normRoot(root);
       const emp = employeeNumber ?? null;
+      const base = this.normPath(basePath);
 
-      this.logStep(fn, 'normalized', { root: r, employeeNumber: emp, foldersOnly });
+      if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+        throw new BadRequestException('depth must be a positive integer');
+      }
+
+      this.logStep(fn, 'normalized', { root: r, employeeNumber: emp, foldersOnly, base, depth });
+
+      const qb = this.repo
+        .createQueryBuilder('n')
+        .where('n.root = :root', { root: r })
+        .andWhere('n.employeeNumber = :emp', { emp });
 
       // ✅ foldersOnly: cargar solo carpetas (mucho más liviano para el panel lateral)
-      const where: any = { root: r, employeeNumber: emp };
-      if (foldersOnly) where.type = 'folder';
-
-      const all = await this.repo.find({
-        where,
-        order: { type: 'ASC', name: 'ASC' } as any,
-        select: foldersOnly
-          ? { id: true, path: true, name: true, type: true, parentPath: true }
-          : undefined,
-      });
+      if (foldersOnly) {
+        qb.select(['n.id', 'n.path', 'n.name', 'n.type', 'n.parentPath', 'n.rollupFiles', 'n.rollupBytes'])
+          .andWhere("n.type = 'folder'");
+      }
+      if (base) qb.andWhere('n.path LIKE :subtree', { subtree: `${escapeLike(base)}/%` });
+
+      // ✅ depth: solo N niveles debajo de base (nivel = cantidad de segmentos del path)
+      if (depth !== undefined) {
+        const baseLevels = base ? base.split('/').length : 0;
+        qb.andWhere("array_length(string_to_array(n.path, '/'), 1) <= :maxLevels", { maxLevels: baseLevels + depth });
+      }
+
+      // hasChildren: para que el explorer sepa si vale la pena expandir (lazy) un folder del último nivel
+      const childType = foldersOnly ? " AND c.type = 'folder'" : '';
+      qb.addSelect(
+        `CASE WHEN n.type = 'folder' THEN EXISTS (SELECT 1 FROM ${this.repo.metadata.tableName} c ` +
+        `WHERE c.root = n.root AND c."employeeNumber" = n.employeeNumber AND c."parentPath" = n.path${childType}) ` +
+        'ELSE false END',
+        'has_children',
+      );
+
+      qb.orderBy('n.type', 'ASC').addOrderBy('n.name', 'ASC');
+
+      const { entities: all, raw } = await qb.getRawAndEntities();
+      const hasChildren = new Map<string, boolean>(raw.map((x: any) => [x.n_id, !!x.has_children]));
 
       this.logStep(fn, 'db rows', { count: all.length, sample: all.slice(0, 3).map(x => ({ path: x.path, parentPath: x.parentPath, type: x.type })) });
 
       const folderMap = new Map<string, NovaS3TreeItemDto>();
       const childrenMap = new Map<string, NovaS3TreeItemDto[]>();
-      childrenMap.set('', []);
+      childrenMap.set(base, []);
 
       for (const row of all) {
         const node: NovaS3TreeItemDto = {
           name: row.name,
           path: row.path,
           type: row.type === 'folder' ? 'folder' : 'file',
-          size: row.size ?? undefined,
+          size: row.type === 'folder' ? Number(row.rollupBytes ?? 0) : row.size ?? undefined,
+          fileCount: row.type === 'folder' ? row.rollupFiles ?? 0 : undefined,
           lastModified: row.updatedAt ?? undefined,
           children: row.type === 'folder' ? [] : undefined,
+          hasChildren: row.type === 'folder' ? hasChildren.get(row.id) : undefined,
         };
 
         const parent = row.parentPath ?? '';
@@ -630,7 +1243,7 @@ export class NovaS3Service {
         folderNode.children = childrenMap.get(p) ?? [];
       }
 
-      const rootChildren = childrenMap.get('') ?? [];
+      const rootChildren = childrenMap.get(base) ?? [];
 
       this.logStep(fn, 'tree built', {
         rootFolders: rootChildren.filter((x) => x.type === 'folder').length,
@@ -639,10 +1252,12 @@ export class NovaS3Service {
 
       return {
         success: true,
+        depth: depth ?? null,
         root: {
-          name: r,
-          path: '',
+          name: base ? this.nameOf(base) : r,
+          path: base,
           type: 'folder',
+          hasChildren: rootChildren.length > 0,
           children: rootChildren.filter((x) => x.type === 'folder'),
         },
         files: rootChildren.filter((x) => x.type === 'file'),
@@ -657,7 +1272,7 @@ export class NovaS3Service {
   // CREATE FOLDER (DB source of truth + S3 storage marker optional)
   // ---------------------------------------------------------------------------
 
-  async createFolder(dto: CreateFolderDto): Promise<NovaS3OperationResponseDto> {
+  async createFolder(dto: CreateFolderDto, actorEmployeeNumber?: string): Promise<NovaS3OperationResponseDto> {
     const fn = 'createFolder';
     this.logCtx(fn, dto as any);
 
@@ -692,6 +1307,8 @@ export class NovaS3Service {
       const s3Key = this.buildTenantS3Key(root, emp, finalPath, true);
       this.logStep(fn, 'computed s3Key', { s3Key });
 
+      if (emp) await this.activity.recordPaths(root, emp, actorEmployeeNumber, 'createFolder', [finalPath]);
+
       return this.toOpResponse({
         ...raw,
         finalPath,
@@ -722,25 +1339,48 @@ export class NovaS3Service {
 
       this.logStep(fn, 'normalized', { root, path, emp });
 
-      await this.ensureFolderChain(root, path, emp);
-
       const relative = path ? `${path}/${file.originalname}` : file.originalname;
-      const relClean = this.relFromOriginalName(relative);
+      const requested = this.relFromOriginalName(relative);
+
+      // ✅ Política del root sobre el tipo REAL (magic bytes), no el que dice el navegador
+      const inspected = this.inspectBuffer(file);
+      this.contentPolicy.assertAllowed(root, this.bufferCandidate(requested, file, inspected));
+
+      const { outcomes } = await this.planUploads(root, emp, [requested], ctx.conflictStrategy);
+      const [outcome] = outcomes;
+      if (!outcome.finalPath) {
+        this.logStep(fn, 'skipped (name conflict)', outcome);
+        return this.toOpResponse({ success: true, path: requested, outcomes, message: 'Skipped (already exists)' });
+      }
+      const relClean = outcome.finalPath;
+
+      this.logStep(fn, 'computed rel', { relative, relClean, action: outcome.action, parentPath: this.parentOf(relClean) });
 
-      this.logStep(fn, 'computed rel', { relative, relClean, parentPath: this.parentOf(relClean) });
+      await this.quotas.assertWithinQuota(root, emp, file.size);
+
+      await this.ensureFolderChain(root, path, emp);
 
       await this.ensureFolderChain(root, this.parentOf(relClean), emp);
 
       const baseFolder = this.s3BaseFolder(root, emp);
       this.logStep(fn, 's3 baseFolder', { baseFolder });
 
-      const raw = await this.storage.uploadFileGeneral(file.buffer, relClean, file.mimetype, baseFolder);
+      const contentHash = sha256Hex(file.buffer);
+      const duplicates = ctx.warnOnDuplicate
+        ? await this.hashes.warningsFor(root, emp, [{ path: relClean, sha256: contentHash }])
+        : undefined;
+
+      // ✅ Si ya existe, el contenido actual pasa al historial de versiones antes del overwrite
+      const previous = await this.versions.archiveByPath(root, emp, relClean, fn);
+      if (previous) this.logStep(fn, 'previous content archived', { versionId: previous.id });
+
+      const raw = await this.storage.uploadFileGeneral(file.buffer, relClean, inspected.mimeType, baseFolder);
       this.logStep(fn, 'storage raw', raw);
 
       const s3Key = this.buildTenantS3Key(root, emp, relClean, false);
       this.logStep(fn, 'computed s3Key', { s3Key });
 
-      await this.repo.upsert(
+      await this.upsertFiles(
         [
           {
             root,
@@ -751,11 +1391,11 @@ export class NovaS3Service {
             s3Key,
             employeeNumber: emp,
             size: file.size ?? null,
-            mimeType: file.mimetype ?? null,
-            meta: { op: 'uploadOne', ctxPath: path },
+            mimeType: inspected.mimeType,
+            contentHash,
+            meta: { op: 'uploadOne', ctxPath: path, contentTypeMismatch: inspected.mismatch },
           } as any,
         ],
-        ['root', 'employeeNumber', 'path'] as any,
       );
 
       this.logStep(fn, 'DB upsert OK', {
@@ -765,10 +1405,20 @@ export class NovaS3Service {
         employeeNumber: emp,
       });
 
+      await this.quickAccess.recordRecent(root, emp, ctx.actorEmployeeNumber, [relClean], 'upload');
+      await this.activity.recordPaths(root, emp, ctx.actorEmployeeNumber, 'upload', [relClean]);
+      await this.thumbnails.schedule(root, emp, relClean, file.buffer);
+
       return this.toOpResponse({
         ...raw,
         path: relClean,
         s3Key,
+        previousVersionId: previous?.id ?? null,
+        contentHash,
+        mimeType: inspected.mimeType,
+        contentTypeMismatch: inspected.mismatch,
+        duplicates,
+        outcomes,
         message: raw?.message ?? 'Uploaded',
       });
     } catch (e: any) {
@@ -792,21 +1442,45 @@ export class NovaS3Service {
 
       this.logStep(fn, 'normalized', { root, path, emp });
 
+      const requestedRel = files.map((f) =>
+        this.relFromOriginalName(path ? `${path}/${f.originalname}` : f.originalname),
+      );
+
+      // ✅ Política del root (tipo real por magic bytes) + conflictos de nombre:
+      // solo se suben los que pasan y tienen destino; el resto queda en `outcomes` con el motivo
+      const inspected = files.map((f) => this.inspectBuffer(f));
+      const rejected = files.map((f, i) => this.contentPolicy.check(root, this.bufferCandidate(requestedRel[i], f, inspected[i])));
+      const { outcomes } = await this.planUploads(root, emp, requestedRel, ctx.conflictStrategy, rejected);
+      const kept = outcomes.flatMap((o, i) => (o.finalPath ? [i] : []));
+      // Content-Type en S3 / BD = el detectado, no el del navegador
+      const uploads = kept.map((i) => ({ ...files[i], mimetype: inspected[i].mimeType }));
+      const desiredRel = kept.map((i) => outcomes[i].finalPath!);
+
+      this.logStep(fn, 'desiredRel', { count: desiredRel.length, skipped: files.length - kept.length, sample: desiredRel.slice(0, 5) });
+
+      if (!uploads.length) {
+        return this.toOpResponse({ success: true, count: 0, outcomes, message: 'Nothing uploaded (see outcomes)' });
+      }
+
+      await this.quotas.assertWithinQuota(root, emp, this.sumSizes(uploads));
+
       await this.ensureFolderChain(root, path, emp);
 
       const baseFolder = this.s3BaseFolder(root, emp);
       this.logStep(fn, 's3 baseFolder', { baseFolder });
 
-      const desiredRel = files.map((f) =>
-        this.relFromOriginalName(path ? `${path}/${f.originalname}` : f.originalname),
-      );
-
-      this.logStep(fn, 'desiredRel', { count: desiredRel.length, sample: desiredRel.slice(0, 5) });
-
       const folderCache = new Set<string>();
       await this.ensureFolderChainCached(root, path, emp, folderCache);
 
-      const raw = await this.storage.uploadMultipleFiles(files, baseFolder, desiredRel);
+      const contentHashes = uploads.map((f) => sha256Hex(f.buffer));
+      const duplicates = ctx.warnOnDuplicate
+        ? await this.hashes.warningsFor(root, emp, desiredRel.map((p, i) => ({ path: p, sha256: contentHashes[i] })))
+        : undefined;
+
+      const archived = await this.versions.archiveByPaths(root, emp, desiredRel, fn);
+      if (archived) this.logStep(fn, 'previous contents archived', { archived });
+
+      const raw = await this.storage.uploadMultipleFiles(uploads, baseFolder, desiredRel);
       this.logStep(fn, 'storage raw', raw);
 
       const okSet = new Set<string>(
@@ -818,11 +1492,12 @@ export class NovaS3Service {
       this.logStep(fn, 'okSet', { size: okSet.size, sample: Array.from(okSet).slice(0, 5) });
 
       const rows: Partial<NovaS3>[] = [];
-      for (let i = 0; i < files.length; i++) {
+      for (let i = 0; i < uploads.length; i++) {
         const rel = desiredRel[i];
 
         if (okSet.size && !okSet.has(rel)) {
           this.logStep(fn, 'SKIP not in okSet', { rel });
+          outcomes[kept[i]] = { ...outcomes[kept[i]], finalPath: null, action: 'failed', reason: 'Upload to storage failed' };
           continue;
         }
 
@@ -836,9 +1511,10 @@ export class NovaS3Service {
           type: 'file' as any,
           s3Key: this.buildTenantS3Key(root, emp, rel, false),
           employeeNumber: emp as any,
-          size: files[i].size ?? null,
-          mimeType: files[i].mimetype ?? null,
-          meta: { op: 'uploadMultiple', ctxPath: path },
+          size: uploads[i].size ?? null,
+          mimeType: uploads[i].mimetype ?? null,
+          contentHash: contentHashes[i],
+          meta: { contentTypeMismatch: inspected[kept[i]].mismatch, op: 'uploadMultiple', ctxPath: path },
         } as any);
       }
 
@@ -846,9 +1522,14 @@ export class NovaS3Service {
 
       if (rows.length) await this.upsertFiles(rows);
 
+      await this.quickAccess.recordRecent(root, emp, ctx.actorEmployeeNumber, rows.map((r) => r.path!), 'upload');
+      await this.activity.recordPaths(root, emp, ctx.actorEmployeeNumber, 'upload', rows.map((r) => r.path!));
+
       return this.toOpResponse({
         ...raw,
         count: rows.length,
+        duplicates,
+        outcomes,
         message: raw?.message ?? `Uploaded ${rows.length} files`,
       });
     } catch (e: any) {
@@ -886,8 +1567,25 @@ export class NovaS3Service {
       }
       if (incomingRel.some((p) => !p)) throw new BadRequestException('Invalid file path(s)');
 
-      const desiredRel = incomingRel.map((p) => (basePath ? this.joinPath(basePath, p) : p));
-      this.logStep(fn, 'desiredRel', { count: desiredRel.length, sample: desiredRel.slice(0, 5) });
+      const requestedRel = incomingRel.map((p) => (basePath ? this.joinPath(basePath, p) : p));
+
+      // ✅ Política del root (tipo real por magic bytes) + conflictos de nombre:
+      // solo se suben los que pasan y tienen destino; el resto queda en `outcomes` con el motivo
+      const inspected = files.map((f) => this.inspectBuffer(f));
+      const rejected = files.map((f, i) => this.contentPolicy.check(root, this.bufferCandidate(requestedRel[i], f, inspected[i])));
+      const { outcomes } = await this.planUploads(root, emp, requestedRel, ctx.conflictStrategy, rejected);
+      const kept = outcomes.flatMap((o, i) => (o.finalPath ? [i] : []));
+      // Content-Type en S3 / BD = el detectado, no el del navegador
+      const uploads = kept.map((i) => ({ ...files[i], mimetype: inspected[i].mimeType }));
+      const desiredRel = kept.map((i) => outcomes[i].finalPath!);
+
+      this.logStep(fn, 'desiredRel', { count: desiredRel.length, skipped: files.length - kept.length, sample: desiredRel.slice(0, 5) });
+
+      if (!uploads.length) {
+        return this.toOpResponse({ success: true, count: 0, outcomes, message: 'Nothing uploaded (see outcomes)' });
+      }
+
+      await this.quotas.assertWithinQuota(root, emp, this.sumSizes(uploads));
 
       const folderCache = new Set<string>();
       for (const rel of desiredRel) {
@@ -898,7 +1596,15 @@ export class NovaS3Service {
       const baseFolder = this.s3BaseFolder(root, emp);
       this.logStep(fn, 's3 baseFolder', { baseFolder });
 
-      const raw = await this.storage.uploadMultipleFiles(files, baseFolder, desiredRel);
+      const contentHashes = uploads.map((f) => sha256Hex(f.buffer));
+      const duplicates = ctx.warnOnDuplicate
+        ? await this.hashes.warningsFor(root, emp, desiredRel.map((p, i) => ({ path: p, sha256: contentHashes[i] })))
+        : undefined;
+
+      const archived = await this.versions.archiveByPaths(root, emp, desiredRel, fn);
+      if (archived) this.logStep(fn, 'previous contents archived', { archived });
+
+      const raw = await this.storage.uploadMultipleFiles(uploads, baseFolder, desiredRel);
       this.logStep(fn, 'storage raw', raw);
 
       const okSet = new Set<string>(
@@ -910,10 +1616,11 @@ export class NovaS3Service {
       this.logStep(fn, 'okSet', { size: okSet.size, sample: Array.from(okSet).slice(0, 5) });
 
       const rows: Partial<NovaS3>[] = [];
-      for (let i = 0; i < files.length; i++) {
+      for (let i = 0; i < uploads.length; i++) {
         const rel = desiredRel[i];
         if (okSet.size && !okSet.has(rel)) {
           this.logStep(fn, 'SKIP not in okSet', { rel });
+          outcomes[kept[i]] = { ...outcomes[kept[i]], finalPath: null, action: 'failed', reason: 'Upload to storage failed' };
           continue;
         }
 
@@ -925,9 +1632,10 @@ export class NovaS3Service {
           type: 'file' as any,
           s3Key: this.buildTenantS3Key(root, emp, rel, false),
           employeeNumber: emp as any,
-          size: files[i].size ?? null,
-          mimeType: files[i].mimetype ?? null,
-          meta: { op: 'uploadFolder', basePath },
+          size: uploads[i].size ?? null,
+          mimeType: uploads[i].mimetype ?? null,
+          contentHash: contentHashes[i],
+          meta: { contentTypeMismatch: inspected[kept[i]].mismatch, op: 'uploadFolder', basePath },
         } as any);
       }
 
@@ -935,9 +1643,14 @@ export class NovaS3Service {
 
       if (rows.length) await this.upsertFiles(rows);
 
+      await this.quickAccess.recordRecent(root, emp, ctx.actorEmployeeNumber, rows.map((r) => r.path!), 'upload');
+      await this.activity.recordPaths(root, emp, ctx.actorEmployeeNumber, 'upload', rows.map((r) => r.path!));
+
       return this.toOpResponse({
         ...raw,
         count: rows.length,
+        duplicates,
+        outcomes,
         message: raw?.message ?? `Uploaded folder (${rows.length} files)`,
       });
     } catch (e: any) {
@@ -950,7 +1663,7 @@ export class NovaS3Service {
   // RENAME / MOVE / DELETE (BD source of truth + S3 sync)
   // ---------------------------------------------------------------------------
 
-  async rename(dto: RenameDto): Promise<NovaS3OperationResponseDto> {
+  async rename(dto: RenameDto, actorEmployeeNumber?: string): Promise<NovaS3OperationResponseDto> {
     const fn = 'rename';
     this.logCtx(fn, dto as any);
 
@@ -978,45 +1691,66 @@ export class NovaS3Service {
       this.logStep(fn, 'existing', { id: existing.id, type: existing.type, path: existing.path });
 
       const parent = this.parentOf(oldPath);
-      const newPath = parent ? this.joinPath(parent, newName) : newName;
+      const requested = parent ? this.joinPath(parent, newName) : newName;
 
-      this.logStep(fn, 'computed newPath', { parent, newPath });
+      // mismo manejo de conflictos que un move (rename = move dentro del mismo folder)
+      const { outcome, replacedTrashId } = await this.resolveMoveTarget(
+        root,
+        emp,
+        existing,
+        requested,
+        dto.conflictStrategy,
+        actorEmployeeNumber,
+      );
+      this.logStep(fn, 'computed newPath', { parent, requested, outcome });
 
-      const conflict = await this.repo.findOne({
-        where: { root, employeeNumber: emp, path: newPath } as any,
-      });
-      if (conflict) {
-        throw new ConflictException(`An item named "${newName}" already exists in the destination`);
+      if (!outcome.finalPath) {
+        return this.toOpResponse({ success: true, oldPath, newPath: null, outcome, message: 'Skipped (already exists)' });
       }
+      const newPath = outcome.finalPath;
 
       const baseFolder = this.s3BaseFolder(root, emp);
       this.logStep(fn, 's3 baseFolder', { baseFolder });
 
       if (existing.type === 'folder') {
-        const raw = await this.storage.movePrefix(baseFolder, oldPath, newPath);
-        this.logStep(fn, 'storage raw (folder)', raw);
+        let ran: { op: NovaS3Operation; pendingCleanup: boolean };
+        try {
+          ran = await this.runPrefixOperation('renameFolder', root, emp, oldPath, newPath);
+        } catch (renameErr: any) {
+          await this.restoreReplaced(fn, root, emp, newPath, replacedTrashId);
+          throw renameErr;
+        }
+        const { op, pendingCleanup } = ran;
+        this.logStep(fn, 'journaled operation done (folder)', { operationId: op.id, status: op.status });
 
-        const changed = await this.cascadeUpdatePrefix(root, emp, oldPath, newPath);
-        this.logStep(fn, 'cascade updated', { changed });
+        await this.activity.record(root, emp, actorEmployeeNumber, 'rename', [
+          { itemId: existing.id, itemType: existing.type, oldPath, newPath },
+        ]);
 
-        return this.toOpResponse({
-          ...raw,
-          oldPath,
-          newPath,
-          updated: changed,
-          message: raw?.message ?? 'Renamed folder',
-        });
+        return { ...this.toOperationResponse(op, pendingCleanup, 'Renamed folder'), outcome };
       }
 
-      const raw = await this.storage.renameFile(baseFolder, oldPath, newPath);
+      let raw: any;
+      try {
+        raw = await this.storage.renameFile(baseFolder, oldPath, newPath);
+      } catch (s3Err: any) {
+        await this.restoreReplaced(fn, root, emp, newPath, replacedTrashId);
+        throw s3Err;
+      }
       this.logStep(fn, 'storage raw (file)', raw);
 
       await this.updateOnePath(root, emp, oldPath, newPath);
 
+      await this.quickAccess.recordRecent(root, emp, actorEmployeeNumber, [newPath], 'rename');
+      await this.activity.record(root, emp, actorEmployeeNumber, 'rename', [
+        { itemId: existing.id, itemType: existing.type, oldPath, newPath },
+      ]);
+
       return this.toOpResponse({
         ...raw,
         oldPath,
         newPath,
+        outcome,
         message: raw?.message ?? 'Renamed file',
       });
     } catch (e: any) {
@@ -1025,7 +1759,7 @@ export class NovaS3Service {
     }
   }
 
-  async moveFile(dto: MoveFileDto): Promise<NovaS3OperationResponseDto> {
+  async moveFile(dto: MoveFileDto, actorEmployeeNumber?: string): Promise<NovaS3OperationResponseDto> {
     const fn = 'moveFile';
     this.logCtx(fn, dto as any);
 
@@ -1050,29 +1784,46 @@ export class NovaS3Service {
       await this.ensureFolderChain(root, targetPath, emp);
 
       const fileName = this.nameOf(sourcePath);
-      const newPath = targetPath ? this.joinPath(targetPath, fileName) : fileName;
+      const requested = targetPath ? this.joinPath(targetPath, fileName) : fileName;
 
-      this.logStep(fn, 'computed newPath', { fileName, newPath });
+      const { outcome, replacedTrashId } = await this.resolveMoveTarget(
+        root,
+        emp,
+        existing,
+        requested,
+        dto.conflictStrategy,
+        actorEmployeeNumber,
+      );
+      this.logStep(fn, 'computed newPath', { fileName, requested, outcome });
 
-      const conflict = await this.repo.findOne({
-        where: { root, employeeNumber: emp, path: newPath } as any,
-      });
-      if (conflict) {
-        throw new ConflictException(`An item named "${fileName}" already exists in the destination`);
+      if (!outcome.finalPath) {
+        return this.toOpResponse({ success: true, oldPath: sourcePath, newPath: null, outcome, message: 'Skipped (already exists)' });
       }
+      const newPath = outcome.finalPath;
 
       const baseFolder = this.s3BaseFolder(root, emp);
       this.logStep(fn, 's3 baseFolder', { baseFolder });
 
-      const raw = await this.storage.moveFile(baseFolder, sourcePath, newPath);
+      let raw: any;
+      try {
+        raw = await this.storage.moveFile(baseFolder, sourcePath, newPath);
+      } catch (s3Err: any) {
+        await this.restoreReplaced(fn, root, emp, newPath, replacedTrashId);
+        throw s3Err;
+      }
       this.logStep(fn, 'storage raw', raw);
 
       await this.updateOnePath(root, emp, sourcePath, newPath);
 
+      await this.activity.record(root, emp, actorEmployeeNumber, 'move', [
+        { itemId: existing.id, itemType: existing.type, oldPath: sourcePath, newPath },
+      ]);
+
       return this.toOpResponse({
         ...raw,
         oldPath: sourcePath,
         newPath,
+        outcome,
         message: raw?.message ?? 'Moved file',
       });
     } catch (e: any) {
@@ -1081,7 +1832,7 @@ export class NovaS3Service {
     }
   }
 
-  async moveFolder(dto: MoveFolderDto): Promise<NovaS3OperationResponseDto> {
+  async moveFolder(dto: MoveFolderDto, actorEmployeeNumber?: string): Promise<NovaS3OperationResponseDto> {
     const fn = 'moveFolder';
     this.logCtx(fn, dto as any);
 
@@ -1108,34 +1859,911 @@ export class NovaS3Service {
       }
 
       const folderName = this.nameOf(sourcePath);
-      const newPrefix = targetPath ? this.joinPath(targetPath, folderName) : folderName;
+      const requested = targetPath ? this.joinPath(targetPath, folderName) : folderName;
+
+      const { outcome, replacedTrashId } = await this.resolveMoveTarget(
+        root,
+        emp,
+        existing,
+        requested,
+        dto.conflictStrategy,
+        actorEmployeeNumber,
+      );
+      this.logStep(fn, 'computed newPrefix', { folderName, requested, outcome });
+
+      if (!outcome.finalPath) {
+        return this.toOpResponse({ success: true, oldPath: sourcePath, newPath: null, outcome, message: 'Skipped (already exists)' });
+      }
+      const newPrefix = outcome.finalPath;
+
+      // copy -> db (+ cadena de folders destino) -> delete, con journal
+      let ran: { op: NovaS3Operation; pendingCleanup: boolean };
+      try {
+        ran = await this.runPrefixOperation('moveFolder', root, emp, sourcePath, newPrefix);
+      } catch (moveErr: any) {
+        await this.restoreReplaced(fn, root, emp, newPrefix, replacedTrashId);
+        throw moveErr;
+      }
+      const { op, pendingCleanup } = ran;
+      this.logStep(fn, 'journaled operation done', { operationId: op.id, status: op.status });
+
+      await this.activity.record(root, emp, actorEmployeeNumber, 'move', [
+        { itemId: existing.id, itemType: existing.type, oldPath: sourcePath, newPath: newPrefix },
+      ]);
+
+      return { ...this.toOperationResponse(op, pendingCleanup, 'Moved folder'), outcome };
+    } catch (e: any) {
+      this.logErr(fn, e);
+      throw e;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // OPERATIONS JOURNAL (move / rename de folder: copy -> db -> delete, recuperable)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Move de un prefijo con journal (lo usan moveFolder y el rename de folders).
+   * - La operación se registra ANTES de tocar S3.
+   * - Falla antes del commit de BD: se borran las copias (rollback) y se relanza el error.
+   * - Falla borrando los originales: la BD ya apunta al destino => se responde OK con
+   *   `pendingCleanup` y el recovery termina el borrado.
+   */
+  private async runPrefixOperation(
+    kind: NovaS3OperationKind,
+    root: string,
+    employeeNumber: string | null,
+    sourcePath: string,
+    targetPath: string,
+  ) {
+    const fn = 'runPrefixOperation';
+
+    await this.assertNoOpenOperation(root, employeeNumber, [sourcePath, targetPath]);
+
+    const op = await this.opRepo.save(
+      this.opRepo.create({
+        kind,
+        root,
+        employeeNumber,
+        sourcePath,
+        targetPath,
+        sourcePrefix: this.buildTenantS3Key(root, employeeNumber, sourcePath, false),
+        targetPrefix: this.buildTenantS3Key(root, employeeNumber, targetPath, false),
+        phase: 'copy',
+        status: 'running',
+      }),
+    );
+    this.logStep(fn, 'operation journaled', { operationId: op.id, kind, sourcePath, targetPath });
+
+    const err = await this.driveOperation(op, 'resume');
+    if (err && op.phase !== 'delete') throw err;
+
+    return { op, pendingCleanup: !!err && op.phase === 'delete' };
+  }
+
+  /**
+   * Corre la operación desde el paso donde quedó (resume) o la deshace (rollback).
+   * Si un resume falla antes del commit de BD, se deshace en el momento.
+   * Nunca relanza: devuelve el error (o null) y deja el estado en la fila.
+   */
+  private async driveOperation(op: NovaS3Operation, action: NovaS3RecoveryAction): Promise<any> {
+    const fn = 'driveOperation';
+
+    try {
+      if (action === 'rollback') await this.rollbackOperation(op);
+      else await this.advanceOperation(op);
+      return null;
+    } catch (e: any) {
+      this.logErr(fn, e, { operationId: op.id, phase: op.phase, action });
+
+      // antes del commit de BD el origen está intacto: deshacer ya, no dejar copias a medias
+      if (action === 'resume' && (op.phase === 'copy' || op.phase === 'db')) {
+        try {
+          await this.rollbackOperation(op, e);
+          return e;
+        } catch (rbErr: any) {
+          this.logErr(fn, rbErr, { operationId: op.id, note: 'rollback failed -> left for recovery' });
+        }
+      }
+
+      await this.failOperation(op, e);
+      return e;
+    }
+  }
+
+  /** Ejecuta los pasos pendientes (copy -> db -> delete), persistiendo cada avance. */
+  private async advanceOperation(op: NovaS3Operation) {
+    const fn = 'advanceOperation';
+
+    if (op.phase === 'copy') {
+      const raw = await this.storage.copyKeyPrefix(op.sourcePrefix, op.targetPrefix, async (copied, total) => {
+        await this.opRepo.update({ id: op.id }, { copiedCount: copied, totalObjects: total });
+      });
+
+      const progress = { copiedCount: raw.copiedCount ?? 0, totalObjects: raw.totalObjects ?? 0 };
+      await this.opRepo.update({ id: op.id }, { ...progress, phase: 'db' });
+      Object.assign(op, progress, { phase: 'db' });
+      this.logStep(fn, 'copy done', { operationId: op.id, copied: op.copiedCount });
+    }
+
+    if (op.phase === 'db') {
+      await this.ensureFolderChain(op.root, this.parentOf(op.targetPath), op.employeeNumber);
+
+      // filas + avance a `delete` en la misma transacción: o pasó todo o no pasó nada
+      let dbRows = 0;
+      await this.repo.manager.transaction(async (em) => {
+        const repo = em.getRepository(NovaS3);
+
+        const conflict = await repo.findOne({
+          where: { root: op.root, employeeNumber: op.employeeNumber, path: op.targetPath } as any,
+        });
+        if (conflict) {
+          throw new ConflictException(`An item named "${this.nameOf(op.targetPath)}" already exists in the destination`);
+        }
+
+        dbRows = await this.cascadeUpdatePrefix(op.root, op.employeeNumber, op.sourcePath, op.targetPath, repo);
+        await em.update(NovaS3Operation, { id: op.id }, { phase: 'delete', dbRows });
+      });
+
+      op.phase = 'delete';
+      op.dbRows = dbRows;
+      this.logStep(fn, 'db committed', { operationId: op.id, dbRows });
+    }
+
+    if (op.phase === 'delete') {
+      // solo lo que ya existía al iniciar: algo subido después al path viejo no es de esta operación
+      const objects = await this.storage.listObjectsUnderKeyPrefix(`${op.sourcePrefix}/`);
+      const keys = objects
+        .filter((o) => !o.lastModified || o.lastModified.getTime() <= op.createdAt.getTime())
+        .map((o) => o.key);
+      if (!keys.includes(`${op.sourcePrefix}/`)) keys.push(`${op.sourcePrefix}/`);
+
+      const raw = await this.storage.deleteObjectKeys(keys);
+
+      const done = {
+        deletedCount: raw.deletedCount ?? keys.length,
+        phase: 'done' as const,
+        status: 'completed' as const,
+        lastError: null,
+        finishedAt: new Date(),
+      };
+      await this.opRepo.update({ id: op.id }, done);
+      Object.assign(op, done);
+      this.logStep(fn, 'operation completed', { operationId: op.id, deleted: op.deletedCount });
+    }
+  }
+
+  /**
+   * Deshace una operación que todavía no commiteó en BD: el origen está intacto,
+   * así que alcanza con borrar en destino las keys que se copiaron (mismo relativo).
+   */
+  private async rollbackOperation(op: NovaS3Operation, cause?: any) {
+    const fn = 'rollbackOperation';
+    if (op.phase === 'delete' || op.phase === 'done') {
+      throw new BadRequestException('Operation already committed in DB: it can only be resumed');
+    }
+
+    const objects = await this.storage.listObjectsUnderKeyPrefix(`${op.sourcePrefix}/`);
+    const keys = objects
+      .map((o) => mapPrefixKey(op.sourcePrefix, op.targetPrefix, o.key))
+      .filter((k): k is string => !!k);
+    if (!keys.includes(`${op.targetPrefix}/`)) keys.push(`${op.targetPrefix}/`);
+
+    await this.storage.deleteObjectKeys(keys);
+
+    const done = {
+      phase: 'done' as const,
+      status: 'rolledBack' as const,
+      lastError: cause ? String(cause?.message ?? cause) : op.lastError,
+      finishedAt: new Date(),
+    };
+    await this.opRepo.update({ id: op.id }, done);
+    Object.assign(op, done);
+    this.logStep(fn, 'operation rolled back', { operationId: op.id, removedCopies: keys.length });
+  }
+
+  /** Marca la operación como failed (si la BD tampoco responde, queda `running` y la toma el recovery por stale). */
+  private async failOperation(op: NovaS3Operation, e: any) {
+    op.status = 'failed';
+    op.lastError = String(e?.message ?? e);
+    try {
+      await this.opRepo.update({ id: op.id }, { status: op.status, lastError: op.lastError });
+    } catch (dbErr: any) {
+      this.logErr('failOperation', dbErr, { operationId: op.id });
+    }
+  }
+
+  /** Un move / rename a la vez por subárbol: no se arranca otro sobre paths de una operación abierta. */
+  private async assertNoOpenOperation(root: string, employeeNumber: string | null, paths: string[]) {
+    const open = await this.opRepo.find({
+      where: { root, employeeNumber, status: In(['running', 'failed']) } as any,
+    });
+
+    const busy = open.find((op) =>
+      paths.some((p) => pathsOverlap(p, op.sourcePath) || pathsOverlap(p, op.targetPath)),
+    );
+    if (busy) {
+      throw new ConflictException(
+        `Another move/rename is still in progress on "${busy.sourcePath}" (operation ${busy.id})`,
+      );
+    }
+  }
+
+  private toOperationResponse(op: NovaS3Operation, pendingCleanup: boolean, message: string) {
+    return this.toOpResponse({
+      success: true,
+      message: pendingCleanup ? `${message} (cleanup of the old location is pending)` : message,
+      operationId: op.id,
+      oldPath: op.sourcePath,
+      newPath: op.targetPath,
+      updated: op.dbRows,
+      copiedCount: op.copiedCount,
+      deletedCount: op.deletedCount,
+      totalObjects: op.totalObjects,
+      sourcePrefix: `${op.sourcePrefix}/`,
+      targetPrefix: `${op.targetPrefix}/`,
+      pendingCleanup,
+    });
+  }
+
+  /** Operaciones del empleado (más recientes primero). */
+  async listOperations(rootIn: string, employeeNumber: string, status?: string) {
+    const root = this.normRoot(rootIn);
+    const where: any = { root, employeeNumber };
+    if (status) where.status = status;
+
+    const items = await this.opRepo.find({ where, order: { createdAt: 'DESC' }, take: 100 });
+    return { success: true, root, total: items.length, items };
+  }
+
+  /**
+   * RECOVER: retoma o deshace operaciones interrumpidas.
+   * - `failed`: siempre; `running`: solo sin heartbeat en NOVA_S3_OP_STALE_MINUTES (puede estar viva en otra instancia).
+   * - action auto: en `copy` => rollback; en `db` / `delete` => resume. Después del commit de BD no hay rollback.
+   * - Cada operación se "toma" con un UPDATE condicional sobre `attempts`: dos instancias no corren la misma.
+   */
+  async recoverOperations(
+    opts: {
+      root?: string;
+      employeeNumber?: string | null;
+      operationId?: string;
+      action?: NovaS3RecoveryAction | 'auto';
+    } = {},
+  ) {
+    const fn = 'recoverOperations';
+    this.logCtx(fn, opts);
+
+    const where: any = { status: In(['running', 'failed']) };
+    if (opts.root) where.root = this.normRoot(opts.root);
+    if (opts.employeeNumber !== undefined) where.employeeNumber = opts.employeeNumber;
+    if (opts.operationId) where.id = opts.operationId;
+
+    const open = await this.opRepo.find({ where, order: { createdAt: 'ASC' }, take: 100 });
+    if (opts.operationId && !open.length) throw new BadRequestException('Operation not found or already finished');
+
+    const now = new Date();
+    const items: any[] = [];
+
+    for (const op of open) {
+      if (!isRecoverableOperation(op, now, this.OP_STALE_MINUTES)) {
+        if (opts.operationId) throw new ConflictException('Operation is still running (no stale heartbeat yet)');
+        continue;
+      }
+
+      const action = planRecovery(op.phase, opts.action ?? 'auto');
+      if (!action) {
+        if (opts.operationId) throw new BadRequestException('Operation already committed in DB: it can only be resumed');
+        continue;
+      }
+
+      const claimed = await this.opRepo.update(
+        { id: op.id, attempts: op.attempts, status: In(['running', 'failed']) } as any,
+        { attempts: op.attempts + 1, status: 'running' },
+      );
+      if (!claimed.affected) continue;
+      op.attempts += 1;
+      op.status = 'running';
+
+      const err = await this.driveOperation(op, action);
+      items.push({
+        operationId: op.id,
+        kind: op.kind,
+        sourcePath: op.sourcePath,
+        targetPath: op.targetPath,
+        action,
+        status: op.status,
+        phase: op.phase,
+        error: err ? String(err?.message ?? err) : null,
+      });
+    }
+
+    if (items.length) this.logStep(fn, 'operations recovered', { count: items.length });
+    return { success: true, recovered: items.filter((i) => !i.error).length, total: items.length, items };
+  }
+
+  /** Pasada automática (startup + timer). */
+  private sweepOperations() {
+    if (this.opRecoveryRunning) return;
+    this.opRecoveryRunning = true;
+
+    this.recoverOperations()
+      .catch((e) => this.logErr('sweepOperations', e))
+      .finally(() => {
+        this.opRecoveryRunning = false;
+      });
+  }
+
+  // ---------------------------------------------------------------------------
+  // COPY (S3 server-side copy + filas nuevas en BD)
+  // ---------------------------------------------------------------------------
+
+  async copyFile(dto: CopyFileDto): Promise<NovaS3OperationResponseDto> {
+    const fn = 'copyFile';
+    this.logCtx(fn, dto as any);
+
+    try {
+      const root = this.normRoot(dto.root);
+      const sourcePath = this.normPath(dto.sourcePath);
+      const targetPath = this.normPath(dto.targetPath);
+      const emp = dto.employeeNumber ?? null;
+
+      this.logStep(fn, 'normalized', { root, sourcePath, targetPath, emp });
+
+      if (!sourcePath) throw new BadRequestException('sourcePath is required');
+
+      const existing = await this.repo.findOne({
+        where: { root, employeeNumber: emp, path: sourcePath } as any,
+      });
+      if (!existing) throw new BadRequestException('File not found in DB');
+      if (existing.type !== 'file') throw new BadRequestException('sourcePath is not a file');
+
+      await this.ensureFolderChain(root, targetPath, emp);
+
+      const newPath = await this.freeCopyPath(root, emp, targetPath, existing.name, false);
+      const sourceKey = existing.s3Key ?? this.buildTenantS3Key(root, emp, sourcePath, false);
+      const s3Key = this.buildTenantS3Key(root, emp, newPath, false);
+
+      this.logStep(fn, 'computed newPath', { newPath, sourceKey, s3Key });
+
+      const raw = await this.storage.copyObjectKey(sourceKey, s3Key);
+      this.logStep(fn, 'storage raw', raw);
+
+      try {
+        await this.repo.insert({
+          root,
+          path: newPath,
+          parentPath: this.parentOf(newPath),
+          name: this.nameOf(newPath),
+          type: 'file',
+          s3Key,
+          employeeNumber: emp as any,
+          size: existing.size,
+          mimeType: existing.mimeType,
+          contentHash: existing.contentHash,
+          meta: { op: 'copyFile', copiedFrom: existing.id } as any,
+          tags: existing.tags,
+          properties: existing.properties,
+        });
+      } catch (dbErr: any) {
+        this.logErr(fn, dbErr, { note: 'DB failed after S3 copy -> deleting the copy' });
+        await this.deleteCopiedKeys(fn, [s3Key]);
+        throw dbErr;
+      }
+      await this.folderSizes.apply(root, emp, [{ path: newPath, files: 1, bytes: Number(existing.size ?? 0) }]);
+
+      return this.toOpResponse({
+        ...raw,
+        sourcePath,
+        newPath,
+        s3Key,
+        message: 'File copied',
+      });
+    } catch (e: any) {
+      this.logErr(fn, e);
+      throw e;
+    }
+  }
+
+  /**
+   * Copia la carpeta y TODO su subárbol.
+   * BD = source of truth: se copian los objetos de las filas (no un listado de S3),
+   * y las filas nuevas se insertan recién cuando S3 terminó, en una sola transacción.
+   * Si falla S3 o BD se borran las keys ya escritas en destino.
+   */
+  async copyFolder(dto: CopyFolderDto): Promise<NovaS3OperationResponseDto> {
+    const fn = 'copyFolder';
+    this.logCtx(fn, dto as any);
+
+    try {
+      const root = this.normRoot(dto.root);
+      const sourcePath = this.normPath(dto.sourcePath);
+      const targetPath = this.normPath(dto.targetPath);
+      const emp = dto.employeeNumber ?? null;
+
+      this.logStep(fn, 'normalized', { root, sourcePath, targetPath, emp });
+
+      if (!sourcePath) throw new BadRequestException('sourcePath is required');
+
+      const existing = await this.repo.findOne({
+        where: { root, employeeNumber: emp, path: sourcePath } as any,
+      });
+      if (!existing) throw new BadRequestException('Folder not found in DB');
+      if (existing.type !== 'folder') throw new BadRequestException('sourcePath is not a folder');
+
+      if (targetPath === sourcePath || targetPath.startsWith(`${sourcePath}/`)) {
+        throw new BadRequestException('Cannot copy a folder into itself');
+      }
+
+      await this.ensureFolderChain(root, targetPath, emp);
+
+      const newPrefix = await this.freeCopyPath(root, emp, targetPath, existing.name, true);
+      this.logStep(fn, 'computed newPrefix', { newPrefix });
+
+      const rows = await this.repo.find({
+        where: [
+          { root, employeeNumber: emp, path: sourcePath } as any,
+          { root, employeeNumber: emp, path: Like(`${escapeLike(sourcePath)}/%`) } as any,
+        ],
+        order: { path: 'ASC' } as any,
+      });
+
+      const baseFolder = this.s3BaseFolder(root, emp);
+      const copies: Partial<NovaS3>[] = [];
+      // keys ya escritas en destino (markers incluidos): si algo falla se borran, la copia no queda a medias
+      const written: string[] = [];
+      let copiedObjects = 0;
+
+      try {
+        for (const row of rows) {
+          const newPath = row.path === sourcePath ? newPrefix : `${newPrefix}/${row.path.slice(sourcePath.length + 1)}`;
+          const isFolder = row.type === 'folder';
+          const s3Key = this.buildTenantS3Key(root, emp, newPath, isFolder);
+
+          if (isFolder) {
+            await this.storage.createFolderMarker(baseFolder, newPath);
+          } else {
+            await this.storage.copyObjectKey(row.s3Key ?? this.buildTenantS3Key(root, emp, row.path, false), s3Key);
+            copiedObjects++;
+          }
+          written.push(s3Key);
+
+          copies.push({
+            root,
+            path: newPath,
+            parentPath: this.parentOf(newPath),
+            name: this.nameOf(newPath),
+            type: row.type,
+            s3Key,
+            employeeNumber: emp as any,
+            size: row.size,
+            mimeType: row.mimeType,
+            contentHash: row.contentHash,
+            meta: { op: 'copyFolder', copiedFrom: row.id },
+            tags: row.tags,
+            properties: row.properties,
+          });
+        }
+
+        this.logStep(fn, 's3 copied', { rows: rows.length, copiedObjects });
+
+        // todas las filas o ninguna: un lote fallido no deja la copia a medias en BD
+        await this.repo.manager.transaction(async (em) => {
+          for (let i = 0; i < copies.length; i += 500) {
+            await em.insert(NovaS3, copies.slice(i, i + 500) as any);
+          }
+        });
+      } catch (copyErr: any) {
+        this.logErr(fn, copyErr, { note: 'copy failed -> deleting the keys already written', written: written.length });
+        await this.deleteCopiedKeys(fn, written);
+        throw copyErr;
+      }
+
+      this.logStep(fn, 'db rows inserted', { count: copies.length });
+
+      // ✅ cada file copiado suma en su cadena: los folders nuevos (insertados en 0) y los de afuera
+      await this.folderSizes.apply(
+        root,
+        emp,
+        copies.filter((c) => c.type === 'file').map((c) => ({ path: c.path!, files: 1, bytes: Number(c.size ?? 0) })),
+      );
+
+      return this.toOpResponse({
+        success: true,
+        sourcePath,
+        newPath: newPrefix,
+        copiedCount: copies.length,
+        copiedObjects,
+        message: 'Folder copied',
+      });
+    } catch (e: any) {
+      this.logErr(fn, e);
+      throw e;
+    }
+  }
+
+  /** Borra lo que escribió una copia que no llegó a BD. Nunca relanza (el error de la copia es el que importa). */
+  private async deleteCopiedKeys(fn: string, keys: string[]) {
+    if (!keys.length) return;
+    try {
+      await this.storage.deleteObjectKeys(keys);
+    } catch (s3Err: any) {
+      this.logErr(fn, s3Err, { keys: keys.length, note: 'S3 cleanup failed — copied objects left orphaned' });
+    }
+  }
+
+  async remove(dto: DeleteDto, actorEmployeeNumber?: string): Promise<NovaS3OperationResponseDto> {
+    const fn = 'remove';
+    this.logCtx(fn, dto as any);
+
+    try {
+      const root = this.normRoot(dto.root);
+      const rel = this.normPath(dto.path);
+      const emp = dto.employeeNumber ?? null;
+
+      this.logStep(fn, 'normalized', { root, rel, emp, kind: dto.kind });
+
+      if (!rel) throw new BadRequestException('path is required');
+
+      const existing = await this.repo.findOne({
+        where: { root, employeeNumber: emp, path: rel } as any,
+      });
+      if (!existing) throw new BadRequestException('Item not found in DB');
+
+      this.logStep(fn, 'existing', { id: existing.id, type: existing.type, path: existing.path });
+
+      const baseFolder = this.s3BaseFolder(root, emp);
+      this.logStep(fn, 's3 baseFolder', { baseFolder });
+
+      // ✅ La BD (existing.type) es la fuente de verdad, no dto.kind
+      if (dto.kind && dto.kind !== existing.type) {
+        this.logStep(fn, 'dto.kind mismatch -> using DB type', { dtoKind: dto.kind, dbType: existing.type });
+      }
+
+      // ✅ Un solo registro por item (un folder no registra cada descendiente)
+      const logDelete = (permanent: boolean) =>
+        this.activity.record(
+          root,
+          emp,
+          actorEmployeeNumber,
+          'delete',
+          [{ itemId: existing.id, itemType: existing.type, oldPath: rel }],
+          { permanent },
+        );
+
+      // ✅ Por defecto va a la papelera (restaurable). permanent=true = borrado definitivo.
+      if (!dto.permanent) {
+        const trashed = await this.moveToTrash(root, emp, existing);
+        await logDelete(false);
+        return trashed;
+      }
+
+      if (existing.type === 'folder') {
+        const children = await this.repo.find({
+          where: { root, employeeNumber: emp, path: Like(`${escapeLike(rel)}/%`) } as any,
+          select: { id: true, type: true, size: true } as any,
+        });
+        const fileIds = children.filter((r) => r.type === 'file').map((r) => r.id);
+        const removed = sizeTotals(children);
+
+        // ✅ Borrar en DB PRIMERO (source of truth), luego S3
+        const delExact = await this.repo.delete({ root, employeeNumber: emp, path: rel } as any);
+        const delChildren = await this.repo.delete({ root, employeeNumber: emp, path: Like(`${escapeLike(rel)}/%`) } as any);
+        const affected = (delExact.affected ?? 0) + (delChildren.affected ?? 0);
+
+        this.logStep(fn, 'db delete (folder)', { affected });
+        await this.folderSizes.apply(root, emp, [{ path: rel, files: -removed.files, bytes: -removed.bytes }]);
+
+        let raw: any;
+        try {
+          raw = await this.storage.deletePrefix(baseFolder, rel);
+          this.logStep(fn, 'storage raw (folder)', raw);
+        } catch (s3Err: any) {
+          this.logErr(fn, s3Err, {
+            baseFolder,
+            rel,
+            note: 'S3 deletePrefix failed AFTER DB delete — orphaned objects may remain in S3, manual cleanup required',
+          });
+          raw = { success: true, message: 'Deleted folder from DB, but S3 cleanup failed (see logs)' };
+        }
+
+        await this.deleteVersionsQuietly(fn, root, emp, fileIds);
+        await this.deleteThumbnailsQuietly(fn, root, emp, fileIds);
+        await this.deleteQuickAccessQuietly(fn, [existing.id, ...children.map((r) => r.id)]);
+        await logDelete(true);
+
+        return this.toOpResponse({
+          ...raw,
+          deletedCount: affected,
+          message: raw?.message ?? 'Deleted folder',
+        });
+      }
+
+      const raw = await this.storage.deleteObject(baseFolder, rel);
+      this.logStep(fn, 'storage raw (file)', raw);
+
+      const del = await this.repo.delete({ root, employeeNumber: emp, path: rel } as any);
+      this.logStep(fn, 'db delete (file)', { affected: del.affected ?? 0 });
+      if (del.affected) await this.folderSizes.apply(root, emp, [{ path: rel, files: -1, bytes: -Number(existing.size ?? 0) }]);
+
+      await this.deleteVersionsQuietly(fn, root, emp, [existing.id]);
+      await this.deleteThumbnailsQuietly(fn, root, emp, [existing.id]);
+      await this.deleteQuickAccessQuietly(fn, [existing.id]);
+      await logDelete(true);
+
+      return this.toOpResponse({
+        ...raw,
+        deletedCount: del.affected ?? 0,
+        message: raw?.message ?? 'Deleted file',
+      });
+    } catch (e: any) {
+      this.logErr(fn, e);
+      throw e;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // TRASH (papelera por empleado: delete -> trash -> restore | purge)
+  // ---------------------------------------------------------------------------
 
-      this.logStep(fn, 'computed newPrefix', { folderName, newPrefix });
+  /**
+   * Mueve un item (y sus descendientes) a la papelera.
+   *
+   * Orden:
+   * 1) S3: objetos -> {root}/.trash/{employeeNumber}/{trashId}/{path} (si falla, la BD queda intacta)
+   *    Cada fila sale de su s3Key; una fila sin objeto en S3 va a la papelera igual (no hay nada que mover).
+   * 2) BD (transacción): snapshot en nova_s3_trash + delete de las filas vivas
+   *    Si la BD falla, se devuelve el move de S3 (best-effort).
+   */
+  private async moveToTrash(
+    root: string,
+    employeeNumber: string | null,
+    existing: NovaS3,
+  ): Promise<NovaS3OperationResponseDto> {
+    const fn = 'moveToTrash';
+    this.logCtx(fn, { root, employeeNumber, path: existing.path, type: existing.type });
+
+    const rel = existing.path;
+    const isFolder = existing.type === 'folder';
+
+    const rows = isFolder
+      ? await this.repo.find({
+        where: [
+          { root, employeeNumber, path: rel } as any,
+          { root, employeeNumber, path: Like(`${escapeLike(rel)}/%`) } as any,
+        ],
+      })
+      : [existing];
+
+    const trashId = randomUUID();
+    const s3Prefix = this.trashS3Prefix(root, employeeNumber, trashId);
+    const liveKey = this.buildTenantS3Key(root, employeeNumber, rel, false);
+    const trashKey = `${s3Prefix}/${rel}`;
+
+    // ✅ cada fila sale de su propia s3Key (legacy import / register pueden no usar la canónica);
+    //    en un folder, las que ya están bajo el prefijo canónico viajan con moveKeyPrefix
+    const strays = rows.filter((r) => (isFolder ? r.s3Key && !r.s3Key.startsWith(`${liveKey}/`) : true));
+    const moves = strays.map((r) => ({
+      from: r.s3Key || liveKey,
+      to: `${s3Prefix}/${r.path}${r.type === 'folder' ? '/' : ''}`,
+    }));
+
+    this.logStep(fn, 'moving to trash (S3)', { count: rows.length, liveKey, trashKey, strays: moves.length });
+
+    const raw = isFolder ? await this.storage.moveKeyPrefix(liveKey, trashKey) : { success: true };
+    const moved: typeof moves = [];
+    for (const m of moves) {
+      if (await this.moveObjectIfExists(m.from, m.to)) moved.push(m);
+      else this.logStep(fn, 'no S3 object to move (row trashed anyway)', { key: m.from });
+    }
+
+    const items: NovaS3TrashedRow[] = rows.map((r) => ({
+      id: r.id,
+      path: r.path,
+      name: r.name,
+      type: r.type,
+      size: r.size != null ? Number(r.size) : null,
+      mimeType: r.mimeType,
+      contentHash: r.contentHash,
+      meta: r.meta,
+      tags: r.tags,
+      properties: r.properties,
+      createdAt: r.createdAt,
+    }));
+
+    const entry = this.trashRepo.create({
+      id: trashId,
+      root,
+      employeeNumber: employeeNumber as any,
+      originalPath: rel,
+      name: existing.name,
+      type: existing.type,
+      s3Prefix,
+      itemCount: items.length,
+      totalSize: items.reduce((acc, i) => acc + (i.type === 'file' ? i.size ?? 0 : 0), 0),
+      items,
+      expiresAt: new Date(Date.now() + this.TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    let affected = 0;
+    try {
+      await this.repo.manager.transaction(async (em) => {
+        await em.save(NovaS3Trash, entry);
+
+        const delExact = await em.delete(NovaS3, { root, employeeNumber, path: rel } as any);
+        affected = delExact.affected ?? 0;
+
+        if (isFolder) {
+          const delChildren = await em.delete(NovaS3, { root, employeeNumber, path: Like(`${escapeLike(rel)}/%`) } as any);
+          affected += delChildren.affected ?? 0;
+        }
+      });
+    } catch (dbErr: any) {
+      this.logErr(fn, dbErr, { note: 'DB failed after S3 move -> moving objects back' });
+      try {
+        if (isFolder) await this.storage.moveKeyPrefix(trashKey, liveKey);
+        for (const m of moved) await this.storage.moveObjectKey(m.to, m.from);
+      } catch (s3Err: any) {
+        this.logErr(fn, s3Err, { trashKey, liveKey, note: 'S3 rollback failed — objects remain under trash prefix' });
+      }
+      throw dbErr;
+    }
+
+    this.logStep(fn, 'moved to trash', { trashId, affected });
+
+    const trashed = sizeTotals(rows);
+    await this.folderSizes.apply(root, employeeNumber, [{ path: rel, files: -trashed.files, bytes: -trashed.bytes }]);
+
+    return this.toOpResponse({
+      ...raw,
+      success: true,
+      trashId,
+      deletedCount: affected,
+      expiresAt: entry.expiresAt,
+      message: isFolder ? 'Folder moved to trash' : 'File moved to trash',
+    });
+  }
+
+  /** Mueve una key suelta. Si el objeto no existe en S3 (NoSuchKey) no hay nada que mover => false. */
+  private async moveObjectIfExists(from: string, to: string) {
+    const head = await this.storage.headObjectKey(from);
+    if (!head.exists) return false;
+    await this.storage.moveObjectKey(from, to);
+    return true;
+  }
+
+  /**
+   * Lista la papelera del empleado (más recientes primero).
+   * No devuelve el snapshot completo (`items`), solo el resumen de cada entrada.
+   */
+  async listTrash(root: string, employeeNumber: string): Promise<any> {
+    const fn = 'listTrash';
+    this.logCtx(fn, { root, employeeNumber });
+
+    const r = this.normRoot(root);
+
+    const entries = await this.trashRepo.find({
+      where: { root: r, employeeNumber },
+      order: { deletedAt: 'DESC' },
+      select: {
+        id: true,
+        originalPath: true,
+        name: true,
+        type: true,
+        itemCount: true,
+        totalSize: true,
+        deletedAt: true,
+        expiresAt: true,
+      },
+    });
+
+    return {
+      success: true,
+      root: r,
+      total: entries.length,
+      items: entries.map((e) => ({ ...e, totalSize: Number(e.totalSize) || 0 })),
+    };
+  }
+
+  /**
+   * Restaura una entrada de la papelera.
+   * - targetPath omitido => carpeta padre original
+   * - conflicto de nombre => 409 (onConflict=fail) o "name (2)" (onConflict=rename)
+   * - las filas vuelven con el MISMO id
+   */
+  async restoreTrash(dto: RestoreTrashDto): Promise<NovaS3OperationResponseDto> {
+    const fn = 'restoreTrash';
+    this.logCtx(fn, dto as any);
+
+    try {
+      const root = this.normRoot(dto.root);
+      const emp = dto.employeeNumber;
+
+      const entry = await this.trashRepo.findOne({ where: { id: dto.trashId, root, employeeNumber: emp } });
+      if (!entry) throw new BadRequestException('Trash entry not found');
+
+      const isFolder = entry.type === 'folder';
+      const oldPath = entry.originalPath;
+      const targetParent = dto.targetPath !== undefined ? this.normPath(dto.targetPath) : this.parentOf(oldPath);
+      let newPath = this.joinPath(targetParent, entry.name);
 
       const conflict = await this.repo.findOne({
-        where: { root, employeeNumber: emp, path: newPrefix } as any,
+        where: { root, employeeNumber: emp, path: newPath } as any,
+        select: { id: true } as any,
       });
       if (conflict) {
-        throw new ConflictException(`An item named "${folderName}" already exists in the destination`);
+        if (dto.onConflict !== 'rename') {
+          throw new ConflictException(`An item named "${entry.name}" already exists in the destination`);
+        }
+        newPath = await this.nextFreePath(root, emp, targetParent, entry.name, isFolder);
       }
 
-      await this.ensureFolderChain(root, this.parentOf(newPrefix), emp);
+      this.logStep(fn, 'computed newPath', { oldPath, newPath });
+
+      await this.ensureFolderChain(root, targetParent, emp);
+
+      const trashKey = `${entry.s3Prefix}/${oldPath}`;
+      const liveKey = this.buildTenantS3Key(root, emp, newPath, false);
+
+      // un file que se mandó a la papelera sin objeto en S3 vuelve igual (solo la fila)
+      const raw = isFolder
+        ? await this.storage.moveKeyPrefix(trashKey, liveKey)
+        : { success: true, moved: await this.moveObjectIfExists(trashKey, liveKey) };
+
+      const rows = entry.items.map((item) => {
+        const path = item.path === oldPath ? newPath : `${newPath}/${item.path.slice(oldPath.length + 1)}`;
+        return {
+          id: item.id,
+          root,
+          path,
+          parentPath: this.parentOf(path),
+          name: this.nameOf(path),
+          type: item.type,
+          s3Key: this.buildTenantS3Key(root, emp, path, item.type === 'folder'),
+          employeeNumber: emp,
+          size: item.size,
+          mimeType: item.mimeType,
+          contentHash: item.contentHash ?? null,
+          meta: item.meta,
+          tags: item.tags ?? [],
+          properties: item.properties ?? {},
+          createdAt: item.createdAt,
+        };
+      });
 
-      const baseFolder = this.s3BaseFolder(root, emp);
-      this.logStep(fn, 's3 baseFolder', { baseFolder });
+      try {
+        await this.repo.manager.transaction(async (em) => {
+          for (let i = 0; i < rows.length; i += 500) {
+            await em.insert(NovaS3, rows.slice(i, i + 500) as any);
+          }
+          await em.delete(NovaS3Trash, { id: entry.id });
+        });
+      } catch (dbErr: any) {
+        this.logErr(fn, dbErr, { note: 'DB failed after S3 restore -> moving objects back to trash' });
+        try {
+          if (isFolder) await this.storage.moveKeyPrefix(liveKey, trashKey);
+          else if (raw.moved) await this.storage.moveObjectKey(liveKey, trashKey);
+        } catch (s3Err: any) {
+          this.logErr(fn, s3Err, { trashKey, liveKey, note: 'S3 rollback failed' });
+        }
+        throw dbErr;
+      }
 
-      const raw = await this.storage.movePrefix(baseFolder, sourcePath, newPrefix);
-      this.logStep(fn, 'storage raw', raw);
+      this.logStep(fn, 'restored', { trashId: entry.id, restored: rows.length });
 
-      const changed = await this.cascadeUpdatePrefix(root, emp, sourcePath, newPrefix);
-      this.logStep(fn, 'cascade updated', { changed });
+      // ✅ los folders restaurados vuelven en 0: cada file suma en su cadena (adentro y afuera)
+      await this.folderSizes.apply(
+        root,
+        emp,
+        rows.filter((r) => r.type === 'file').map((r) => ({ path: r.path, files: 1, bytes: Number(r.size ?? 0) })),
+      );
 
       return this.toOpResponse({
         ...raw,
-        oldPath: sourcePath,
-        newPath: newPrefix,
-        updated: changed,
-        message: raw?.message ?? 'Moved folder',
+        success: true,
+        trashId: entry.id,
+        path: newPath,
+        restoredCount: rows.length,
+        message: isFolder ? 'Folder restored' : 'File restored',
       });
     } catch (e: any) {
       this.logErr(fn, e);
@@ -1143,76 +2771,131 @@ export class NovaS3Service {
     }
   }
 
-  async remove(dto: DeleteDto): Promise<NovaS3OperationResponseDto> {
-    const fn = 'remove';
+  /**
+   * Purga (borrado definitivo) de una entrada o de toda la papelera del empleado.
+   */
+  async purgeTrash(dto: PurgeTrashDto): Promise<NovaS3OperationResponseDto> {
+    const fn = 'purgeTrash';
     this.logCtx(fn, dto as any);
 
     try {
       const root = this.normRoot(dto.root);
-      const rel = this.normPath(dto.path);
-      const emp = dto.employeeNumber ?? null;
+      const where: any = { root, employeeNumber: dto.employeeNumber };
+      if (dto.trashId) where.id = dto.trashId;
 
-      this.logStep(fn, 'normalized', { root, rel, emp, kind: dto.kind });
+      const entries = await this.trashRepo.find({ where });
+      if (dto.trashId && !entries.length) throw new BadRequestException('Trash entry not found');
 
-      if (!rel) throw new BadRequestException('path is required');
+      let deletedObjects = 0;
+      for (const entry of entries) {
+        deletedObjects += await this.purgeTrashEntry(entry);
+      }
 
-      const existing = await this.repo.findOne({
-        where: { root, employeeNumber: emp, path: rel } as any,
-      });
-      if (!existing) throw new BadRequestException('Item not found in DB');
+      return {
+        success: true,
+        purged: entries.length,
+        deletedObjects,
+        message: `Purged ${entries.length} trash entr${entries.length === 1 ? 'y' : 'ies'}`,
+      };
+    } catch (e: any) {
+      this.logErr(fn, e);
+      throw e;
+    }
+  }
 
-      this.logStep(fn, 'existing', { id: existing.id, type: existing.type, path: existing.path });
+  /**
+   * Purge automático: borra las entradas cuyo `expiresAt` ya pasó.
+   * Corre con el timer de onModuleInit; procesa en lotes de 100.
+   */
+  async purgeExpiredTrash(): Promise<{ purged: number }> {
+    const fn = 'purgeExpiredTrash';
+    if (this.trashPurgeRunning) return { purged: 0 };
+    this.trashPurgeRunning = true;
 
-      const baseFolder = this.s3BaseFolder(root, emp);
-      this.logStep(fn, 's3 baseFolder', { baseFolder });
+    let purged = 0;
+    try {
+      for (;;) {
+        const batch = await this.trashRepo.find({
+          where: { expiresAt: LessThan(new Date()) },
+          order: { expiresAt: 'ASC' },
+          take: 100,
+        });
+        if (!batch.length) break;
+
+        let progressed = 0;
+        for (const entry of batch) {
+          try {
+            await this.purgeTrashEntry(entry);
+            progressed++;
+          } catch (e: any) {
+            // se reintenta en la próxima corrida
+            this.logErr(fn, e, { trashId: entry.id });
+          }
+        }
 
-      // ✅ La BD (existing.type) es la fuente de verdad, no dto.kind
-      if (dto.kind && dto.kind !== existing.type) {
-        this.logStep(fn, 'dto.kind mismatch -> using DB type', { dtoKind: dto.kind, dbType: existing.type });
+        purged += progressed;
+        if (progressed < batch.length) break;
       }
 
-      if (existing.type === 'folder') {
-        // ✅ Borrar en DB PRIMERO (source of truth), luego S3
-        const delExact = await this.repo.delete({ root, employeeNumber: emp, path: rel } as any);
-        const delChildren = await this.repo.delete({ root, employeeNumber: emp, path: Like(`${rel}/%`) } as any);
-        const affected = (delExact.affected ?? 0) + (delChildren.affected ?? 0);
+      if (purged) this.logStep(fn, 'expired trash purged', { purged });
+      return { purged };
+    } finally {
+      this.trashPurgeRunning = false;
+    }
+  }
 
-        this.logStep(fn, 'db delete (folder)', { affected });
+  /** S3 primero (si falla, la entrada queda para reintentar), luego BD. */
+  private async purgeTrashEntry(entry: NovaS3Trash): Promise<number> {
+    const raw = await this.storage.deleteKeyPrefix(entry.s3Prefix);
+    await this.trashRepo.delete({ id: entry.id });
 
-        let raw: any;
-        try {
-          raw = await this.storage.deletePrefix(baseFolder, rel);
-          this.logStep(fn, 'storage raw (folder)', raw);
-        } catch (s3Err: any) {
-          this.logErr(fn, s3Err, {
-            baseFolder,
-            rel,
-            note: 'S3 deletePrefix failed AFTER DB delete — orphaned objects may remain in S3, manual cleanup required',
-          });
-          raw = { success: true, message: 'Deleted folder from DB, but S3 cleanup failed (see logs)' };
-        }
+    await this.deleteVersionsQuietly(
+      'purgeTrashEntry',
+      entry.root,
+      entry.employeeNumber,
+      entry.items.filter((i) => i.type === 'file').map((i) => i.id),
+    );
+    await this.deleteThumbnailsQuietly(
+      'purgeTrashEntry',
+      entry.root,
+      entry.employeeNumber,
+      entry.items.filter((i) => i.type === 'file').map((i) => i.id),
+    );
+    await this.deleteQuickAccessQuietly('purgeTrashEntry', entry.items.map((i) => i.id));
 
-        return this.toOpResponse({
-          ...raw,
-          deletedCount: affected,
-          message: raw?.message ?? 'Deleted folder',
-        });
-      }
+    return Number(raw?.deletedCount ?? 0);
+  }
 
-      const raw = await this.storage.deleteObject(baseFolder, rel);
-      this.logStep(fn, 'storage raw (file)', raw);
+  /** Versiones de archivos borrados definitivamente (best-effort: el item ya no existe). */
+  private async deleteVersionsQuietly(fn: string, root: string, employeeNumber: string | null, fileIds: string[]) {
+    if (!fileIds.length) return;
+    try {
+      const deleted = await this.versions.deleteForFiles(root, employeeNumber, fileIds);
+      if (deleted) this.logStep(fn, 'versions deleted', { deleted });
+    } catch (e: any) {
+      this.logErr(fn, e, { note: 'versions cleanup failed — orphaned version objects may remain' });
+    }
+  }
 
-      const del = await this.repo.delete({ root, employeeNumber: emp, path: rel } as any);
-      this.logStep(fn, 'db delete (file)', { affected: del.affected ?? 0 });
+  /** Thumbnails de archivos borrados definitivamente (best-effort, igual que las versiones). */
+  private async deleteThumbnailsQuietly(fn: string, root: string, employeeNumber: string | null, fileIds: string[]) {
+    if (!fileIds.length) return;
+    try {
+      const deleted = await this.thumbnails.deleteForFiles(root, employeeNumber, fileIds);
+      if (deleted) this.logStep(fn, 'thumbnails deleted', { deleted });
+    } catch (e: any) {
+      this.logErr(fn, e, { note: 'thumbnails cleanup failed — orphaned objects may remain under .thumbs' });
+    }
+  }
 
-      return this.toOpResponse({
-        ...raw,
-        deletedCount: del.affected ?? 0,
-        message: raw?.message ?? 'Deleted file',
-      });
+  /** Estrellas / recientes de items borrados definitivamente (best-effort). */
+  private async deleteQuickAccessQuietly(fn: string, itemIds: string[]) {
+    if (!itemIds.length) return;
+    try {
+      const deleted = await this.quickAccess.deleteForItems(itemIds);
+      if (deleted) this.logStep(fn, 'stars / recent deleted', { deleted });
     } catch (e: any) {
-      this.logErr(fn, e);
-      throw e;
+      this.logErr(fn, e, { note: 'stars / recent cleanup failed — they stay hidden (no nova_s3 row)' });
     }
   }
 
@@ -1238,35 +2921,101 @@ export class NovaS3Service {
   }
 
   // ---------------------------------------------------------------------------
-  // SEARCH (DB LIKE query — mucho más eficiente que recursión JS en el cliente)
+  // SEARCH (BD: trigram + filtros + keyset — mucho más eficiente que recursión JS en el cliente)
   // ---------------------------------------------------------------------------
 
-  async search(dto: { root: string; query: string; employeeNumber: string; limit?: number }): Promise<any> {
+  /**
+   * Search avanzado.
+   * - q: match por nombre tolerante a typos (pg_trgm: substring o word_similarity), rankeado por relevancia
+   * - filtros (AND): type, mimeType ("image/*"), family, rango de size, rango created/updated, subárbol (`path`)
+   * - paginación keyset: `nextCursor` = (valor de orden, id) del último item; no repite ni saltea filas entre páginas
+   */
+  async search(dto: SearchDto): Promise<any> {
     const fn = 'search';
     this.logCtx(fn, dto as any);
 
-    const root = this.normRoot(dto.root);
-    const emp = dto.employeeNumber;
-    const q = (dto.query ?? '').trim();
-    const limit = Math.min(dto.limit ?? 200, 500);
+    try {
+      const root = this.normRoot(dto.root);
+      const emp = dto.employeeNumber;
+      const q = (dto.q ?? '').trim().toLowerCase();
+      const base = this.normPath(dto.path);
+      const limit = Math.min(dto.limit ?? 200, 500);
+
+      const hasFilter =
+        !!base ||
+        !!dto.type ||
+        !!dto.mimeType ||
+        !!dto.family ||
+        dto.minSize != null ||
+        dto.maxSize != null ||
+        !!dto.tags?.length ||
+        !!(dto.createdFrom || dto.createdTo || dto.updatedFrom || dto.updatedTo);
+
+      if (!q && !hasFilter) return { success: true, results: [], total: 0, hasMore: false, nextCursor: null };
+
+      const sortBy: NovaS3SearchSort = !q && dto.sortBy === 'relevance' ? 'name' : (dto.sortBy ?? (q ? 'relevance' : 'name'));
+      const order = dto.order ?? (sortBy === 'relevance' ? 'desc' : 'asc');
+
+      // relevancia: similitud trigram + bonus por nombre exacto / prefijo / substring
+      const relevance =
+        'CAST(GREATEST(similarity(lower(n.name), :q), word_similarity(:q, lower(n.name))) + ' +
+        'CASE WHEN lower(n.name) = :q THEN 1 WHEN lower(n.name) LIKE :prefix THEN 0.5 ' +
+        'WHEN lower(n.name) LIKE :like THEN 0.25 ELSE 0 END AS float8)';
+
+      // expresión de orden + tipo para comparar el cursor sin perder precisión
+      const sortSql: Record<NovaS3SearchSort, { expr: string; cast: string }> = {
+        relevance: { expr: relevance, cast: 'float8' },
+        name: { expr: 'lower(n.name)', cast: 'text' },
+        size: { expr: 'COALESCE(n.size, -1)', cast: 'bigint' },
+        createdAt: { expr: 'n.createdAt', cast: 'timestamp' },
+        updatedAt: { expr: 'n.updatedAt', cast: 'timestamp' },
+      };
+
+      const qb = this.repo
+        .createQueryBuilder('n')
+        .where('n.root = :root', { root })
+        .andWhere('n.employeeNumber = :emp', { emp });
+
+      if (q) {
+        const escaped = escapeLike(q);
+        qb.addSelect(relevance, 'score')
+          .andWhere('(lower(n.name) LIKE :like OR :q <% lower(n.name))')
+          .setParameters({ q, like: `%${escaped}%`, prefix: `${escaped}%` });
+      }
 
-    if (!q) return { success: true, results: [], total: 0 };
+      if (base) qb.andWhere('n.path LIKE :subtree', { subtree: `${escapeLike(base)}/%` });
+      if (dto.type) qb.andWhere('n.type = :type', { type: dto.type });
+      if (dto.mimeType) qb.andWhere('lower(n.mimeType) LIKE :mime', { mime: mimeTypePattern(dto.mimeType) });
+      if (dto.family) qb.andWhere('lower(n.mimeType) LIKE ANY(:families)', { families: mimeFamilyPatterns(dto.family) });
+      if (dto.tags?.length) {
+        qb.andWhere('n.tags @> :tags', { tags: await this.tags.canonicalTags(root, emp, normalizeTags(dto.tags)) });
+      }
+      if (dto.minSize != null) qb.andWhere('n.size >= :minSize', { minSize: dto.minSize });
+      if (dto.maxSize != null) qb.andWhere('n.size <= :maxSize', { maxSize: dto.maxSize });
+      if (dto.createdFrom) qb.andWhere('n.createdAt >= :createdFrom', { createdFrom: new Date(dto.createdFrom) });
+      if (dto.createdTo) qb.andWhere('n.createdAt <= :createdTo', { createdTo: new Date(dto.createdTo) });
+      if (dto.updatedFrom) qb.andWhere('n.updatedAt >= :updatedFrom', { updatedFrom: new Date(dto.updatedFrom) });
+      if (dto.updatedTo) qb.andWhere('n.updatedAt <= :updatedTo', { updatedTo: new Date(dto.updatedTo) });
 
-    const { Like: LikeOp } = await import('typeorm');
+      this.applyKeyset(qb, sortBy, [sortSql[sortBy]], order, dto.cursor);
+      qb.limit(limit + 1);
 
-    // Escapar comodines LIKE (% _ \) para que se busquen como literales
-    const escaped = q.replace(/[\\%_]/g, '\\$&');
+      const { entities, raw } = await qb.getRawAndEntities();
+      const rawById = new Map(raw.map((r: any) => [r.n_id, r]));
 
-    const results = await this.repo.find({
-      where: [
-        { root, employeeNumber: emp, name: LikeOp(`%${escaped}%`) } as any,
-      ],
-      order: { type: 'ASC', name: 'ASC' } as any,
-      take: limit,
-    });
+      const page = entities.slice(0, limit);
+      const hasMore = entities.length > limit;
+      const last = page[page.length - 1];
+
+      const results = page.map((e) => (q ? { ...e, score: Number(rawById.get(e.id)?.score ?? 0) } : e));
+      const nextCursor = hasMore && last ? this.nextKeysetCursor(sortBy, order, 1, last.id, rawById.get(last.id)) : null;
 
-    this.logStep(fn, 'search done', { count: results.length, q });
-    return { success: true, results, total: results.length };
+      this.logStep(fn, 'search done', { count: results.length, q, sortBy, order, hasMore });
+      return { success: true, results, total: results.length, hasMore, nextCursor, sortBy, order };
+    } catch (e: any) {
+      this.logErr(fn, e);
+      throw e;
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -1317,23 +3066,53 @@ export class NovaS3Service {
     const path = this.normPath(dto.path);
     const emp = dto.employeeNumber;
     const filename = this.relFromOriginalName(dto.filename);
-    const relativePath = path ? `${path}/${filename}` : filename;
-    const expiresSeconds = this.clampExpiry(dto.expiresSeconds, 3600);
+    const expiresSeconds = this.clampExpiry(root, dto.expiresSeconds, 3600);
+
+    // ✅ El conflicto se resuelve acá: el PUT directo ya escribe en el path final
+    const requested = this.normPath(path ? `${path}/${filename}` : filename);
+
+    // ✅ Política del root: sin bytes todavía => nombre / tipo / size declarados (el contenido se valida al registrar)
+    this.contentPolicy.assertAllowed(root, {
+      name: this.nameOf(requested),
+      size: dto.size ?? 0,
+      declared: dto.contentType,
+    });
+
+    const { outcomes } = await this.planUploads(root, emp ?? null, [requested], dto.conflictStrategy);
+    const [outcome] = outcomes;
+    if (!outcome.finalPath) {
+      this.logStep(fn, 'skipped (name conflict)', outcome);
+      return { success: true, url: null, s3Key: null, path: requested, outcomes, message: 'Skipped (already exists)' };
+    }
+    const relativePath = outcome.finalPath;
+
+    await this.quotas.assertWithinQuota(root, emp, dto.size);
 
     await this.ensureFolderChain(root, path, emp);
 
+    // ✅ El PUT directo sobrescribe sin pasar por el backend: copia pendiente ahora,
+    // la versión se registra en registerUpload (si el upload nunca ocurre, no queda versión)
+    await this.versions.snapshotByPaths(root, emp, [this.normPath(relativePath)]);
+
     const baseFolder = this.s3BaseFolder(root, emp);
     const result = await this.storage.presignedPutUrl(baseFolder, relativePath, dto.contentType, expiresSeconds);
     const s3Key = this.buildTenantS3Key(root, emp, relativePath, false);
 
     this.logStep(fn, 'presigned PUT url generated', { relativePath, s3Key });
 
+    // ✅ Solo se puede avisar antes del upload si el cliente mandó su sha256
+    const duplicates = dto.warnOnDuplicate
+      ? await this.hashes.warningsFor(root, emp, [{ path: this.normPath(relativePath), sha256: normalizeSha256(dto.sha256) }])
+      : undefined;
+
     return {
       success: true,
       url: result.url,
       s3Key,
       path: relativePath,
       expiresSeconds,
+      duplicates,
+      outcomes,
     };
   }
 
@@ -1343,8 +3122,9 @@ export class NovaS3Service {
    * - Archivos >= multipartThreshold => Multipart Upload (múltiples partes en paralelo)
    *
    * El frontend sube cada archivo directo a S3 y luego llama registerBatch.
+   * ✅ Crea una sesión de upload (sessionId) para seguir qué archivos se registraron.
    */
-  async presignBatch(dto: PresignBatchDto): Promise<any> {
+  async presignBatch(dto: PresignBatchDto, actorEmployeeNumber?: string): Promise<any> {
     const fn = 'presignBatch';
     this.logCtx(fn, { ...dto, filesCount: dto.files?.length });
 
@@ -1353,14 +3133,36 @@ export class NovaS3Service {
     const emp = dto.employeeNumber;
     const multipartThreshold = dto.multipartThreshold ?? 100 * 1024 * 1024; // 100 MB
     const partSize = Math.max(dto.partSize ?? 10 * 1024 * 1024, 5 * 1024 * 1024); // min 5 MB (S3 requirement)
-    const urlExpires = this.clampExpiry(dto.urlExpiresSeconds, 3600);
+    const urlExpires = this.clampExpiry(root, dto.urlExpiresSeconds, 3600);
+
+    // ✅ Conflictos de nombre: solo se firman (y entran a la sesión) los que tienen destino
+    const requested = dto.files.map((f) => {
+      const rel = this.relFromOriginalName(f.relativePath);
+      return basePath ? this.joinPath(basePath, rel) : rel;
+    });
+    // ✅ Política del root sobre lo declarado: los rechazados quedan `failed` y no se firman
+    const rejected = dto.files.map((f, i) =>
+      this.contentPolicy.check(root, { name: this.nameOf(requested[i]), size: f.size, declared: f.contentType }),
+    );
+    const { outcomes } = await this.planUploads(root, emp ?? null, requested, dto.conflictStrategy, rejected);
+    const items = outcomes.flatMap((o, i) => (o.finalPath ? [{ fileItem: dto.files[i], finalPath: o.finalPath }] : []));
+
+    if (!items.length) {
+      this.logStep(fn, 'nothing to presign (all skipped / rejected)', { total: dto.files.length });
+      return { success: true, sessionId: null, sessionExpiresAt: null, files: [], outcomes };
+    }
+
+    await this.quotas.assertWithinQuota(root, emp, this.sumSizes(items.map((it) => it.fileItem)));
 
     const folderCache = new Set<string>();
     const results: any[] = [];
 
-    for (const fileItem of dto.files) {
-      const rel = this.relFromOriginalName(fileItem.relativePath);
-      const finalPath = basePath ? this.joinPath(basePath, rel) : rel;
+    // ✅ Versiones: los PUT simples sobrescriben directo -> copia pendiente ahora, versión en registerBatch.
+    // Los multipart recién sobrescriben en completeMultipart (se archivan ahí).
+    const putPaths = items.filter((it) => it.fileItem.size < multipartThreshold).map((it) => it.finalPath);
+    await this.versions.snapshotByPaths(root, emp, putPaths);
+
+    for (const { fileItem, finalPath } of items) {
       const parentDir = this.parentOf(finalPath);
       const baseFolder = this.s3BaseFolder(root, emp);
 
@@ -1383,6 +3185,15 @@ export class NovaS3Service {
       } else {
         // Archivo grande: multipart
         const { uploadId, key } = await this.storage.createMultipartUpload(baseFolder, finalPath, fileItem.contentType);
+        await this.multiparts.track({
+          root,
+          employeeNumber: emp,
+          path: finalPath,
+          s3Key: key,
+          uploadId,
+          size: fileItem.size,
+          contentType: fileItem.contentType,
+        });
         const partCount = Math.ceil(fileItem.size / partSize);
 
         const parts: { partNumber: number; presignedUrl: string }[] = [];
@@ -1404,14 +3215,38 @@ export class NovaS3Service {
       }
     }
 
-    this.logStep(fn, 'batch presign done', { total: results.length });
-    return { success: true, files: results };
+    const duplicates = dto.warnOnDuplicate
+      ? await this.hashes.warningsFor(
+        root,
+        emp,
+        items.map((it, i) => ({ path: results[i].path, sha256: normalizeSha256(it.fileItem.sha256) })),
+      )
+      : undefined;
+
+    const session = await this.uploadSessions.create({
+      root,
+      employeeNumber: emp,
+      actorEmployeeNumber,
+      basePath,
+      urlExpiresSeconds: urlExpires,
+      files: results.map((r, i) => ({
+        path: r.path,
+        s3Key: r.s3Key,
+        size: items[i].fileItem.size,
+        contentType: items[i].fileItem.contentType,
+        kind: r.type,
+        uploadId: r.uploadId ?? null,
+      })),
+    });
+
+    this.logStep(fn, 'batch presign done', { total: results.length, sessionId: session.id });
+    return { success: true, sessionId: session.id, sessionExpiresAt: session.expiresAt, files: results, duplicates, outcomes };
   }
 
   /**
    * Completa un Multipart Upload: ensambla las partes en S3 y guarda en DB.
    */
-  async completeMultipart(dto: CompleteMultipartDto): Promise<any> {
+  async completeMultipart(dto: CompleteMultipartDto, actorEmployeeNumber?: string): Promise<any> {
     const fn = 'completeMultipart';
     this.logCtx(fn, { ...dto, partsCount: dto.parts?.length });
 
@@ -1425,12 +3260,36 @@ export class NovaS3Service {
       throw new BadRequestException('s3Key does not match expected path');
     }
 
+    // ✅ El conflicto ya se resolvió en presignBatch: acá solo se reporta (un folder en el path no se pisa)
+    const { outcomes } = await this.planUploads(root, emp ?? null, [path]);
+
+    // ✅ Versiones: el objeto anterior se reemplaza al completar -> archivar antes
+    await this.versions.archiveByPath(root, emp, path, fn);
+
     const s3Parts = dto.parts.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag }));
     const raw = await this.storage.completeMultipartUpload(dto.s3Key, dto.uploadId, s3Parts);
+    await this.multiparts.markClosed(dto.uploadId, 'completed', 'complete');
+
+    // ✅ size / tipo salen del objeto ensamblado, no del cliente
+    const object = await this.inspectUploadedObject(fn, dto.s3Key, dto.mimeType);
+
+    // ✅ Política del root sobre el contenido real (el presign solo vio lo declarado)
+    const violation = this.contentPolicy.check(root, this.objectCandidate(path, object, dto.mimeType));
+    if (violation) {
+      await this.discardUploadedObject(fn, root, emp ?? null, path, dto.s3Key);
+      throw this.contentPolicy.toException(root, violation);
+    }
+
+    if (!outcomes[0].finalPath) {
+      this.logStep(fn, 'not registered (folder at path)', outcomes[0]);
+      return this.toOpResponse({ ...raw, path, s3Key: dto.s3Key, outcomes, message: 'Multipart upload completed (not registered)' });
+    }
+
+    await this.assertUploadedWithinQuota(fn, root, emp ?? null, [{ path, s3Key: dto.s3Key, size: object.size }]);
 
     // Guardar en DB
     await this.ensureFolderChain(root, this.parentOf(path), emp);
-    await this.repo.upsert(
+    await this.upsertFiles(
       [{
         root,
         path,
@@ -1439,15 +3298,34 @@ export class NovaS3Service {
         type: 'file' as any,
         s3Key: dto.s3Key,
         employeeNumber: emp as any,
-        size: dto.size ?? null,
-        mimeType: dto.mimeType ?? null,
-        meta: { op: 'directUploadMultipart' } as any,
+        size: object.size,
+        mimeType: object.mimeType,
+        // ✅ contenido nuevo: se hashea en background (y se verifica contra el sha256 declarado)
+        contentHash: null,
+        meta: {
+          op: 'directUploadMultipart',
+          declaredSha256: normalizeSha256(dto.sha256),
+          contentTypeMismatch: object.contentTypeMismatch,
+        } as any,
       }],
-      ['root', 'employeeNumber', 'path'] as any,
     );
 
     this.logStep(fn, 'multipart completed + DB saved', { path, s3Key: dto.s3Key });
-    return this.toOpResponse({ ...raw, path, s3Key: dto.s3Key, message: 'Multipart upload completed' });
+    await this.uploadSessions.markRegistered(root, emp, [dto.s3Key]);
+    await this.quickAccess.recordRecent(root, emp, actorEmployeeNumber, [path], 'upload');
+    await this.activity.recordPaths(root, emp, actorEmployeeNumber, 'upload', [path]);
+    await this.thumbnails.schedule(root, emp, path);
+    await this.hashes.schedule(root, emp, [path]);
+    return this.toOpResponse({
+      ...raw,
+      path,
+      s3Key: dto.s3Key,
+      size: object.size,
+      mimeType: object.mimeType,
+      contentTypeMismatch: object.contentTypeMismatch,
+      outcomes,
+      message: 'Multipart upload completed',
+    });
   }
 
   /**
@@ -1457,6 +3335,10 @@ export class NovaS3Service {
     const fn = 'abortMultipart';
     this.logCtx(fn, dto as any);
     const raw = await this.storage.abortMultipartUpload(dto.s3Key, dto.uploadId);
+    if (raw.success) {
+      await this.multiparts.markClosed(dto.uploadId, 'aborted', 'abort');
+      await this.uploadSessions.markAborted(dto.s3Key, dto.uploadId);
+    }
     return this.toOpResponse(raw);
   }
 
@@ -1464,7 +3346,7 @@ export class NovaS3Service {
    * Registra un archivo en DB después de que el frontend lo subió directo a S3.
    * Para archivos pequeños (presigned PUT).
    */
-  async registerUpload(dto: RegisterUploadDto): Promise<any> {
+  async registerUpload(dto: RegisterUploadDto, actorEmployeeNumber?: string): Promise<any> {
     const fn = 'registerUpload';
     this.logCtx(fn, dto as any);
 
@@ -1478,9 +3360,32 @@ export class NovaS3Service {
       throw new BadRequestException('s3Key does not match expected path');
     }
 
+    // ✅ el objeto tiene que estar en S3 (sin filas fantasma); size / tipo salen de S3
+    const object = await this.inspectUploadedObject(fn, dto.s3Key, dto.mimeType);
+
+    // ✅ Overwrite confirmado: la copia pendiente del presign pasa a ser versión
+    // (antes de cualquier rechazo: discardUploadedObject restaura desde ella)
+    await this.versions.commitPendingByPaths(root, emp ?? null, [path], fn);
+
+    // ✅ Política del root sobre el contenido real (el presign solo vio lo declarado)
+    const violation = this.contentPolicy.check(root, this.objectCandidate(path, object, dto.mimeType));
+    if (violation) {
+      await this.discardUploadedObject(fn, root, emp ?? null, path, dto.s3Key);
+      throw this.contentPolicy.toException(root, violation);
+    }
+
+    // ✅ El conflicto ya se resolvió en el presign: acá solo se reporta (un folder en el path no se pisa)
+    const { outcomes } = await this.planUploads(root, emp ?? null, [path]);
+    if (!outcomes[0].finalPath) {
+      this.logStep(fn, 'not registered (folder at path)', outcomes[0]);
+      return { success: true, path, s3Key: dto.s3Key, outcomes, message: 'File not registered' };
+    }
+
+    await this.assertUploadedWithinQuota(fn, root, emp ?? null, [{ path, s3Key: dto.s3Key, size: object.size }]);
+
     await this.ensureFolderChain(root, this.parentOf(path), emp);
 
-    await this.repo.upsert(
+    await this.upsertFiles(
       [{
         root,
         path,
@@ -1489,22 +3394,40 @@ export class NovaS3Service {
         type: 'file' as any,
         s3Key: dto.s3Key,
         employeeNumber: emp as any,
-        size: dto.size ?? null,
-        mimeType: dto.mimeType ?? null,
-        meta: { op: 'directUpload' } as any,
+        size: object.size,
+        mimeType: object.mimeType,
+        contentHash: null,
+        meta: {
+          op: 'directUpload',
+          declaredSha256: normalizeSha256(dto.sha256),
+          contentTypeMismatch: object.contentTypeMismatch,
+        } as any,
       }],
-      ['root', 'employeeNumber', 'path'] as any,
     );
 
     this.logStep(fn, 'registered in DB', { path, s3Key: dto.s3Key });
-    return { success: true, path, s3Key: dto.s3Key, message: 'File registered' };
+    await this.uploadSessions.markRegistered(root, emp, [dto.s3Key]);
+    await this.quickAccess.recordRecent(root, emp, actorEmployeeNumber, [path], 'upload');
+    await this.activity.recordPaths(root, emp, actorEmployeeNumber, 'upload', [path]);
+    await this.thumbnails.schedule(root, emp, path);
+    await this.hashes.schedule(root, emp, [path]);
+    return {
+      success: true,
+      path,
+      s3Key: dto.s3Key,
+      size: object.size,
+      mimeType: object.mimeType,
+      contentTypeMismatch: object.contentTypeMismatch,
+      outcomes,
+      message: 'File registered',
+    };
   }
 
   /**
    * Registra múltiples archivos en DB de una sola vez.
    * Llamado al final de un batch upload directo.
    */
-  async registerBatch(dto: RegisterBatchDto): Promise<any> {
+  async registerBatch(dto: RegisterBatchDto, actorEmployeeNumber?: string): Promise<any> {
     const fn = 'registerBatch';
     this.logCtx(fn, { ...dto, itemsCount: dto.items?.length });
 
@@ -1512,15 +3435,46 @@ export class NovaS3Service {
     const emp = dto.employeeNumber;
     const folderCache = new Set<string>();
 
-    const rows: Partial<NovaS3>[] = [];
     for (const item of dto.items) {
-      const path = this.normPath(item.path);
-
       // ✅ Validar que s3Key corresponda al path declarado (anti-spoofing)
-      const expectedKey = this.buildTenantS3Key(root, emp, path, false);
+      const expectedKey = this.buildTenantS3Key(root, emp, this.normPath(item.path), false);
       if (item.s3Key !== expectedKey) {
         throw new BadRequestException('s3Key does not match expected path');
       }
+    }
+
+    // ✅ todos los objetos tienen que estar en S3 antes de escribir nada; size / tipo salen de S3
+    const objects = await this.inspectUploadedObjects(fn, dto.items);
+    const paths = dto.items.map((item) => this.normPath(item.path));
+
+    // ✅ Overwrites confirmados: las copias pendientes del presign pasan a ser versiones
+    await this.versions.commitPendingByPaths(root, emp ?? null, paths, fn);
+
+    // ✅ Política del root sobre el contenido real: los rechazados quedan `failed`, sin fila y sin objeto
+    const rejected = dto.items.map((item, i) =>
+      this.contentPolicy.check(root, this.objectCandidate(paths[i], objects[i], item.mimeType)),
+    );
+    for (const [i, violation] of rejected.entries()) {
+      if (violation) await this.discardUploadedObject(fn, root, emp ?? null, paths[i], dto.items[i].s3Key);
+    }
+
+    // ✅ El conflicto ya se resolvió en presignBatch: acá solo se reporta (un folder en el path no se pisa)
+    const { outcomes } = await this.planUploads(root, emp ?? null, paths, 'replace', rejected);
+
+    await this.assertUploadedWithinQuota(
+      fn,
+      root,
+      emp ?? null,
+      dto.items.flatMap((item, i) => (outcomes[i].finalPath ? [{ path: paths[i], s3Key: item.s3Key, size: objects[i].size }] : [])),
+    );
+
+    const rows: Partial<NovaS3>[] = [];
+    const mismatches: { path: string; declared: string | null; sniffed: string }[] = [];
+    for (const [i, item] of dto.items.entries()) {
+      const path = paths[i];
+      const object = objects[i];
+      if (!outcomes[i].finalPath) continue;
+      if (object.contentTypeMismatch) mismatches.push({ path, ...object.contentTypeMismatch });
 
       await this.ensureFolderChainCached(root, this.parentOf(path), emp, folderCache);
 
@@ -1532,19 +3486,179 @@ export class NovaS3Service {
         type: 'file' as any,
         s3Key: item.s3Key,
         employeeNumber: emp as any,
-        size: item.size ?? null,
-        mimeType: item.mimeType ?? null,
-        meta: { op: 'directUploadBatch' },
+        size: object.size,
+        mimeType: object.mimeType,
+        contentHash: null,
+        meta: {
+          op: 'directUploadBatch',
+          declaredSha256: normalizeSha256(item.sha256),
+          contentTypeMismatch: object.contentTypeMismatch,
+        },
       } as any);
     }
 
     if (rows.length) await this.upsertFiles(rows);
 
     this.logStep(fn, 'batch registered in DB', { count: rows.length });
-    return { success: true, count: rows.length, message: `Registered ${rows.length} files` };
+    await this.uploadSessions.markRegistered(root, emp, rows.map((r) => r.s3Key!));
+    await this.quickAccess.recordRecent(root, emp, actorEmployeeNumber, rows.map((r) => r.path!), 'upload');
+    await this.activity.recordPaths(root, emp, actorEmployeeNumber, 'upload', rows.map((r) => r.path!));
+    await this.hashes.schedule(root, emp, rows.map((r) => r.path!));
+    return {
+      success: true,
+      count: rows.length,
+      contentTypeMismatches: mismatches,
+      rejected: rejected.filter(Boolean).length,
+      outcomes,
+      message: `Registered ${rows.length} files`,
+    };
+  }
+
+  /**
+   * ✅ Upload directo: HEAD del objeto (si no está => 400, no se crean filas fantasma)
+   * y GET parcial de los primeros bytes para detectar el tipo real.
+   * El size del cliente se ignora; el tipo declarado solo se compara.
+   */
+  private async inspectUploadedObject(fn: string, s3Key: string, declaredMime?: string | null) {
+    const head = await this.storage.headObjectKey(s3Key);
+    if (!head.exists) throw new BadRequestException(`Object not found in S3 (upload it before registering): ${s3Key}`);
+
+    const size = head.size ?? 0;
+    const firstBytes = size > 0 ? await this.storage.getObjectHeadBytesKey(s3Key, NOVA_S3_SNIFF_BYTES) : null;
+    const sniffed = sniffContentType(firstBytes);
+    const { mimeType, mismatch } = resolveContentType(declaredMime, head.contentType, sniffed);
+
+    if (mismatch) this.logger.warn(`[${fn}] content type mismatch | ${this.safeJson({ s3Key, ...mismatch })}`);
+    return { size, mimeType, contentTypeMismatch: mismatch, sniffed, markup: sniffMarkupType(firstBytes) };
+  }
+
+  private objectCandidate(
+    path: string,
+    object: Awaited<ReturnType<NovaS3Service['inspectUploadedObject']>>,
+    declaredMime?: string | null,
+  ): NovaS3ContentCandidate {
+    return {
+      name: this.nameOf(path),
+      size: object.size,
+      declared: declaredMime ?? object.mimeType,
+      sniffed: object.sniffed,
+      markup: object.markup,
+    };
+  }
+
+  /** Igual que inspectUploadedObject para un batch; si falta alguno => 400 con las keys faltantes. */
+  private async inspectUploadedObjects(fn: string, items: { s3Key: string; mimeType?: string | null }[]) {
+    const results: Awaited<ReturnType<NovaS3Service['inspectUploadedObject']>>[] = [];
+    const missing: string[] = [];
+
+    for (let i = 0; i < items.length; i += this.VERIFY_CONCURRENCY) {
+      const chunk = await Promise.all(
+        items.slice(i, i + this.VERIFY_CONCURRENCY).map((item) =>
+          this.inspectUploadedObject(fn, item.s3Key, item.mimeType).catch((e) => {
+            if (!(e instanceof BadRequestException)) throw e;
+            missing.push(item.s3Key);
+            return null;
+          }),
+        ),
+      );
+      chunk.forEach((r) => r && results.push(r));
+    }
+
+    if (missing.length) {
+      const sample = missing.slice(0, 5).join(', ');
+      throw new BadRequestException(
+        `${missing.length} object(s) not found in S3 (upload them before registering): ${sample}${missing.length > 5 ? ', ...' : ''}`,
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Vence las sesiones de upload cuyas URLs ya no sirven (timer + endpoint admin).
+   * Por cada archivo todavía pendiente hace HEAD:
+   * - llegó a S3 => se registra solo (registerBatch con size / content-type de S3)
+   * - no llegó y era multipart => abort (las partes se siguen cobrando)
+   * - no llegó y era PUT => failed
+   * Los archivos se marcan antes de registrar / abortar, así los hooks de register* no los pisan.
+   */
+  async expireUploadSessions(): Promise<{ sessions: number; autoRegistered: number; failed: number }> {
+    const fn = 'expireUploadSessions';
+    const totals = { sessions: 0, autoRegistered: 0, failed: 0 };
+    if (this.uploadSessionRunning) return totals;
+    this.uploadSessionRunning = true;
+
+    try {
+      const due = await this.uploadSessions.dueForExpiry();
+      for (const session of due) {
+        try {
+          const pending = await this.uploadSessions.pendingFiles(session.id);
+
+          const arrived: { id: string; item: RegisterBatchDto['items'][number] }[] = [];
+          for (const f of pending) {
+            const head = await this.storage.headObjectKey(f.s3Key);
+            const action = resolveExpiredFile(f.kind, head.exists);
+
+            if (action === 'register') {
+              arrived.push({
+                id: f.id,
+                item: {
+                  path: f.path,
+                  s3Key: f.s3Key,
+                  size: head.size ?? Number(f.size ?? 0),
+                  mimeType: head.contentType ?? f.contentType ?? 'application/octet-stream',
+                },
+              });
+              continue;
+            }
+
+            await this.uploadSessions.resolveFiles([f.id], 'failed', action === 'abort' ? 'aborted' : 'notUploaded');
+            totals.failed++;
+            if (action === 'abort' && f.uploadId) {
+              await this.abortMultipart({ s3Key: f.s3Key, uploadId: f.uploadId }).catch((e) =>
+                this.logErr(fn, e, { sessionId: session.id, s3Key: f.s3Key }),
+              );
+            }
+          }
+
+          if (arrived.length) {
+            const ids = arrived.map((a) => a.id);
+            await this.uploadSessions.resolveFiles(ids, 'done', 'autoRegistered');
+            try {
+              await this.registerBatch(
+                { root: session.root, employeeNumber: session.employeeNumber, items: arrived.map((a) => a.item) } as RegisterBatchDto,
+                session.actorEmployeeNumber ?? undefined,
+              );
+              totals.autoRegistered += arrived.length;
+            } catch (e: any) {
+              // ya quedaron `done`: se corrigen a failed con el motivo
+              await this.uploadSessions.markRegisterFailed(ids, e?.message ?? String(e));
+              totals.failed += arrived.length;
+              this.logErr(fn, e, { sessionId: session.id, files: arrived.length });
+            }
+          }
+
+          const counts = await this.uploadSessions.closeExpired(session.id);
+          totals.sessions++;
+          this.logStep(fn, 'session expired', { sessionId: session.id, ...counts });
+        } catch (e: any) {
+          // la sesión sigue abierta: se reintenta en la próxima corrida
+          this.logErr(fn, e, { sessionId: session.id });
+        }
+      }
+
+      return totals;
+    } finally {
+      this.uploadSessionRunning = false;
+    }
   }
 
-  async getFileUrl(dto: { root: string; path: string; employeeNumber: string; expiresSeconds?: number }) {
+  async getFileUrl(dto: {
+    root: string;
+    path: string;
+    employeeNumber: string;
+    expiresSeconds?: number;
+    actorEmployeeNumber?: string;
+  }) {
     const fn = 'getFileUrl';
     this.logCtx(fn, dto as any);
 
@@ -1562,16 +3676,144 @@ export class NovaS3Service {
     if (!row) throw new BadRequestException('File not found in DB');
 
     const baseFolder = this.s3BaseFolder(root, emp);
-    const exp = this.clampExpiry(dto.expiresSeconds, 60 * 5);
+    const exp = this.clampExpiry(root, dto.expiresSeconds, 60 * 5);
 
     const signed = await this.storage.presignedGetUrl(baseFolder, rel, exp);
     if (!signed?.success || !signed?.url) {
       throw new BadRequestException(signed?.error ?? 'Failed to generate presigned url');
     }
 
+    await this.quickAccess.recordRecent(root, emp, dto.actorEmployeeNumber, [rel], 'view');
+    await this.activity.recordPaths(root, emp, dto.actorEmployeeNumber, 'url', [rel], { expiresSeconds: exp });
+
     return { success: true, url: signed.url, key: signed.key, expiresSeconds: exp };
   }
 
+  // ---------------------------------------------------------------------------
+  // BULK JOBS (multi-select: move / delete / copy en background, de a un item)
+  // ---------------------------------------------------------------------------
+
+  /** Crea el job y lo arranca en background; responde sin esperar a ningún item. */
+  async startBulkJob(dto: BulkJobDto, actorEmployeeNumber?: string) {
+    const job = await this.bulkJobs.create({
+      root: dto.root,
+      employeeNumber: dto.employeeNumber,
+      actorEmployeeNumber: actorEmployeeNumber ?? null,
+      conflictStrategy: dto.conflictStrategy,
+      items: dto.items,
+    });
+
+    this.pumpBulkJobs();
+
+    return {
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      total: job.totalItems,
+      message: 'Bulk job queued: poll GET /nova-s3/bulk/status',
+    };
+  }
+
+  /** Reclama jobs mientras haya lugar (BULK_CONCURRENCY por instancia). Nunca lanza. */
+  private pumpBulkJobs() {
+    if (this.bulkPumping) return;
+    this.bulkPumping = true;
+
+    (async () => {
+      while (this.bulkRunning < this.BULK_CONCURRENCY) {
+        const job = await this.bulkJobs.claimNext();
+        if (!job) break;
+
+        this.bulkRunning++;
+        void this.runBulkJob(job).finally(() => {
+          this.bulkRunning--;
+          this.pumpBulkJobs();
+        });
+      }
+    })()
+      .catch((e) => this.logErr('pumpBulkJobs', e))
+      .finally(() => {
+        this.bulkPumping = false;
+      });
+  }
+
+  /**
+   * Corre los items pendientes en orden. Un item que falla no corta el job (queda `failed` con el motivo).
+   * La cancelación se revisa entre items; el heartbeat sigue mientras un item largo (folder grande) corre.
+   */
+  private async runBulkJob(job: NovaS3ClaimedBulkJob) {
+    const fn = 'runBulkJob';
+    this.logStep(fn, 'start', { jobId: job.id, root: job.root, emp: job.employeeNumber });
+
+    const heartbeat = setInterval(() => {
+      this.bulkJobs.touch(job.id).catch((e) => this.logErr(fn, e, { jobId: job.id, note: 'heartbeat failed' }));
+    }, 60 * 1000);
+    heartbeat.unref();
+
+    try {
+      for (;;) {
+        if (await this.bulkJobs.isCancelRequested(job.id)) {
+          await this.bulkJobs.finish(job.id, 'cancelled');
+          return;
+        }
+
+        const item = await this.bulkJobs.nextItem(job.id);
+        if (!item) break;
+
+        await this.bulkJobs.startItem(item);
+        try {
+          const res = await this.runBulkItem(job, item);
+          await this.bulkJobs.finishItem(item, { result: bulkItemResult(res) });
+        } catch (e: any) {
+          this.logErr(fn, e, { jobId: job.id, position: item.position, op: item.op, path: item.path });
+          await this.bulkJobs.finishItem(item, { error: bulkItemError(e) });
+        }
+      }
+
+      await this.bulkJobs.finish(job.id, 'completed');
+    } catch (e: any) {
+      // error de BD del runner: el job queda failed (los items ya terminados conservan su resultado)
+      this.logErr(fn, e, { jobId: job.id });
+      await this.bulkJobs.finish(job.id, 'failed', e?.message ?? String(e)).catch((err) => this.logErr(fn, err));
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /** Un item = la misma operación que el endpoint individual (mismas validaciones, journal y hooks). */
+  private async runBulkItem(job: NovaS3ClaimedBulkJob, item: NovaS3BulkJobItem): Promise<NovaS3OperationResponseDto> {
+    const root = job.root;
+    const emp = job.employeeNumber;
+    const actor = job.actorEmployeeNumber ?? undefined;
+
+    const row = await this.repo.findOne({
+      where: { root, employeeNumber: emp, path: item.path } as any,
+      select: { id: true, type: true } as any,
+    });
+    if (!row) throw new BadRequestException('Item not found in DB');
+
+    const isFolder = row.type === 'folder';
+    const targetPath = item.targetPath ?? '';
+
+    switch (item.op) {
+      case 'move': {
+        const dto = { root, employeeNumber: emp, sourcePath: item.path, targetPath, conflictStrategy: job.conflictStrategy };
+        return isFolder ? this.moveFolder(dto as MoveFolderDto, actor) : this.moveFile(dto as MoveFileDto, actor);
+      }
+      case 'copy': {
+        const dto = { root, employeeNumber: emp, sourcePath: item.path, targetPath };
+        return isFolder ? this.copyFolder(dto as CopyFolderDto) : this.copyFile(dto as CopyFileDto);
+      }
+      case 'delete':
+        return this.remove(
+          { root, employeeNumber: emp, path: item.path, kind: isFolder ? 'folder' : 'file', permanent: item.permanent } as DeleteDto,
+          actor,
+        );
+      default:
+        throw new BadRequestException(`Unsupported bulk op "${String(item.op)}"`);
+    }
+  }
+
 }
 
 
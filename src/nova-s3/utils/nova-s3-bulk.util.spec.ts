@@ -0,0 +1,130 @@
+/* src/nova-s3/utils/nova-s3-bulk.util.spec.ts */
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import {
+  bulkItemError,
+  bulkItemResult,
+  bulkJobCounts,
+  isStaleBulkJob,
+} from './nova-s3-bulk.util';
+
+describe('bulkJobCounts', () => {
+  it('counts every status and the processed percent', () => {
+    expect(
+      bulkJobCounts([
+        { status: 'done' },
+        { status: 'failed' },
+        { status: 'running' },
+        { status: 'pending' },
+      ]),
+    ).toEqual({
+      total: 4,
+      pending: 1,
+      running: 1,
+      done: 1,
+      failed: 1,
+      cancelled: 0,
+      processed: 2,
+      percent: 50,
+    });
+  });
+
+  it('treats cancelled items as processed', () => {
+    expect(
+      bulkJobCounts([
+        { status: 'done' },
+        { status: 'cancelled' },
+        { status: 'cancelled' },
+      ]).percent,
+    ).toBe(100);
+  });
+
+  it('rounds down so 100 means finished', () => {
+    expect(
+      bulkJobCounts([
+        { status: 'done' },
+        { status: 'done' },
+        { status: 'pending' },
+      ]).percent,
+    ).toBe(66);
+    expect(bulkJobCounts([]).percent).toBe(100);
+  });
+});
+
+describe('bulkItemResult', () => {
+  it('keeps only the useful fields of the operation response', () => {
+    expect(
+      bulkItemResult({
+        success: true,
+        message: 'Moved file',
+        newPath: 'B/a.pdf',
+        oldPath: 'A/a.pdf',
+        raw: { ETag: 'x' },
+      }),
+    ).toEqual({ message: 'Moved file', newPath: 'B/a.pdf' });
+    expect(
+      bulkItemResult({
+        message: 'Folder moved to trash',
+        trashId: 't1',
+        deletedCount: 3,
+      }),
+    ).toEqual({
+      message: 'Folder moved to trash',
+      trashId: 't1',
+      deletedCount: 3,
+    });
+    expect(bulkItemResult(undefined)).toEqual({});
+  });
+});
+
+describe('bulkItemError', () => {
+  it('uses the HTTP exception message', () => {
+    expect(
+      bulkItemError(
+        new ConflictException(
+          'An item named "a.pdf" already exists in the destination',
+        ),
+      ),
+    ).toBe('An item named "a.pdf" already exists in the destination');
+    expect(
+      bulkItemError(
+        new BadRequestException([
+          'path is required',
+          'targetPath must be a string',
+        ]),
+      ),
+    ).toBe('path is required; targetPath must be a string');
+  });
+
+  it('falls back to plain errors and truncates', () => {
+    expect(bulkItemError(new Error('S3 timeout'))).toBe('S3 timeout');
+    expect(bulkItemError('x'.repeat(600))).toHaveLength(500);
+  });
+});
+
+describe('isStaleBulkJob', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+
+  it('is stale only while running without a recent heartbeat', () => {
+    expect(
+      isStaleBulkJob(
+        { status: 'running', updatedAt: new Date('2026-10-18T11:49:00Z') },
+        now,
+        10,
+      ),
+    ).toBe(true);
+    expect(
+      isStaleBulkJob(
+        { status: 'running', updatedAt: new Date('2026-10-18T11:55:00Z') },
+        now,
+        10,
+      ),
+    ).toBe(false);
+    expect(
+      isStaleBulkJob(
+        { status: 'queued', updatedAt: new Date('2026-10-18T10:00:00Z') },
+        now,
+        10,
+      ),
+    ).toBe(false);
+  });
+});
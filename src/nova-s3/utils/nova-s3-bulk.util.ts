@@ -0,0 +1,76 @@
+/* src/nova-s3/utils/nova-s3-bulk.util.ts
+ *
+ * Reglas puras de los jobs en lote (sin BD ni S3) para poder testearlas aparte.
+ */
+import type { NovaS3BulkItemStatus } from '../entities/nova-s3-bulk-job-item.entity';
+
+/** Items por job (el multi-select del explorer no llega ni cerca). */
+export const NOVA_S3_BULK_MAX_ITEMS = 1000;
+
+/** Conteos por estado + porcentaje procesado para el endpoint de status. */
+export function bulkJobCounts(items: { status: NovaS3BulkItemStatus }[]) {
+  const counts = {
+    total: items.length,
+    pending: 0,
+    running: 0,
+    done: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  for (const i of items) counts[i.status]++;
+
+  const processed = counts.done + counts.failed + counts.cancelled;
+  return {
+    ...counts,
+    processed,
+    percent: counts.total ? Math.floor((processed * 100) / counts.total) : 100,
+  };
+}
+
+// campos de la respuesta de move / remove / copy que vale la pena guardar por item
+const RESULT_KEYS = [
+  'message',
+  'newPath',
+  'outcome',
+  'trashId',
+  'deletedCount',
+  'copiedCount',
+  'operationId',
+  'pendingCleanup',
+];
+
+/** Resultado compacto de un item (la respuesta completa trae el raw del storage). */
+export function bulkItemResult(res: object | null | undefined) {
+  const out: Record<string, unknown> = {};
+  for (const k of RESULT_KEYS) {
+    const value = (res as Record<string, unknown> | null | undefined)?.[k];
+    if (value !== undefined) out[k] = value;
+  }
+  return out;
+}
+
+/** Mensaje de error de un item (HttpException trae el mensaje de validación en la response). */
+export function bulkItemError(e: unknown): string {
+  const err = e as { getResponse?: () => unknown; message?: unknown } | null;
+  const response =
+    typeof err?.getResponse === 'function'
+      ? (err.getResponse() as { message?: unknown } | null)
+      : null;
+  const message: unknown = response?.message ?? err?.message ?? e;
+  return (Array.isArray(message) ? message.join('; ') : String(message)).slice(
+    0,
+    500,
+  );
+}
+
+/** Un job `running` sin heartbeat en staleMinutes quedó huérfano (el runner murió). */
+export function isStaleBulkJob(
+  job: { status: string; updatedAt: Date },
+  now: Date,
+  staleMinutes: number,
+) {
+  return (
+    job.status === 'running' &&
+    now.getTime() - job.updatedAt.getTime() >= staleMinutes * 60 * 1000
+  );
+}
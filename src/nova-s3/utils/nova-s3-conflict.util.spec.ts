@@ -0,0 +1,99 @@
+/* src/nova-s3/utils/nova-s3-conflict.util.spec.ts */
+import { conflictMessage, planUploadConflicts } from './nova-s3-conflict.util';
+
+const taken = new Map<string, string>([
+  ['Docs/report.pdf', 'file'],
+  ['Docs/report (2).pdf', 'file'],
+  ['Docs/Scans', 'folder'],
+]);
+
+describe('planUploadConflicts', () => {
+  it('creates free paths whatever the strategy', () => {
+    const { outcomes, conflicts } = planUploadConflicts(
+      ['Docs/new.pdf'],
+      taken,
+      'fail',
+    );
+    expect(outcomes).toEqual([
+      { path: 'Docs/new.pdf', finalPath: 'Docs/new.pdf', action: 'created' },
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('replaces files but never a folder', () => {
+    const { outcomes, conflicts } = planUploadConflicts(
+      ['Docs/report.pdf', 'Docs/Scans'],
+      taken,
+      'replace',
+    );
+    expect(outcomes.map((o) => [o.action, o.finalPath])).toEqual([
+      ['replaced', 'Docs/report.pdf'],
+      ['skipped', null],
+    ]);
+    expect(conflicts).toEqual(['Docs/report.pdf', 'Docs/Scans']);
+  });
+
+  it('keepBoth picks the first free numbered name', () => {
+    const { outcomes } = planUploadConflicts(
+      ['Docs/report.pdf'],
+      taken,
+      'keepBoth',
+    );
+    expect(outcomes[0]).toEqual({
+      path: 'Docs/report.pdf',
+      finalPath: 'Docs/report (3).pdf',
+      action: 'renamed',
+    });
+  });
+
+  it('counts earlier files of the same batch as taken', () => {
+    const keep = planUploadConflicts(
+      ['a.txt', 'a.txt', 'a.txt'],
+      new Map(),
+      'keepBoth',
+    );
+    expect(keep.outcomes.map((o) => o.finalPath)).toEqual([
+      'a.txt',
+      'a (2).txt',
+      'a (3).txt',
+    ]);
+
+    const replace = planUploadConflicts(
+      ['a.txt', 'a.txt'],
+      new Map(),
+      'replace',
+    );
+    expect(replace.outcomes.map((o) => o.action)).toEqual([
+      'created',
+      'replaced',
+    ]);
+  });
+
+  it('skip and fail leave conflicting paths out', () => {
+    for (const strategy of ['skip', 'fail'] as const) {
+      const { outcomes, conflicts } = planUploadConflicts(
+        ['Docs/report.pdf', 'Docs/x.pdf'],
+        taken,
+        strategy,
+      );
+      expect(outcomes.map((o) => o.action)).toEqual(['skipped', 'created']);
+      expect(outcomes[0].finalPath).toBeNull();
+      expect(conflicts).toEqual(['Docs/report.pdf']);
+    }
+  });
+});
+
+describe('conflictMessage', () => {
+  it('names a single item', () => {
+    expect(conflictMessage(['Docs/report.pdf'])).toBe(
+      'An item named "report.pdf" already exists in the destination',
+    );
+  });
+
+  it('samples long lists', () => {
+    const paths = Array.from({ length: 7 }, (_, i) => `f${i}.txt`);
+    expect(conflictMessage(paths)).toBe(
+      '7 items already exist in the destination: f0.txt, f1.txt, f2.txt, f3.txt, f4.txt, ...',
+    );
+  });
+});
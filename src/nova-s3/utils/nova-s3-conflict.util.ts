@@ -0,0 +1,107 @@
+/* src/nova-s3/utils/nova-s3-conflict.util.ts
+ *
+ * Conflictos de nombre en uploads y moves (sin BD ni S3 para poder testearlos aparte).
+ *
+ * - replace:  pisa el file existente (uploads: el contenido anterior queda como versión; moves: va a la papelera)
+ * - keepBoth: "report.pdf" => "report (2).pdf"
+ * - skip:     no se sube / no se mueve
+ * - fail:     409 sin tocar nada
+ */
+import { joinPath, nameOf, numberedName, parentOf } from './nova-s3-path.util';
+
+export const NOVA_S3_CONFLICT_STRATEGIES = [
+  'replace',
+  'keepBoth',
+  'skip',
+  'fail',
+] as const;
+
+export type NovaS3ConflictStrategy =
+  (typeof NOVA_S3_CONFLICT_STRATEGIES)[number];
+
+/** created / moved = sin conflicto; failed = el storage falló después de resolver el nombre. */
+export type NovaS3ConflictAction =
+  | 'created'
+  | 'moved'
+  | 'replaced'
+  | 'renamed'
+  | 'skipped'
+  | 'failed';
+
+export type NovaS3ConflictOutcome = {
+  path: string;
+  // donde quedó; null = no se escribió
+  finalPath: string | null;
+  action: NovaS3ConflictAction;
+  reason?: string;
+};
+
+export const NOVA_S3_NAME_TAKEN = 'An item with this name already exists';
+
+/**
+ * Qué pasa con cada file de un upload.
+ * - taken: path => type de las filas que ya existen (con keepBoth, también los hermanos de los paths en conflicto)
+ * - los paths del mismo lote cuentan como ocupados (dos "a.pdf" en un upload no se pisan con keepBoth)
+ * - replace nunca convierte un folder en file: ese path se saltea
+ * `conflicts` = paths pedidos que estaban ocupados (con fail, el caller responde 409 si hay alguno).
+ */
+export function planUploadConflicts(
+  paths: string[],
+  taken: Map<string, string>,
+  strategy: NovaS3ConflictStrategy,
+) {
+  const assigned = new Set<string>();
+  const conflicts: string[] = [];
+  const isFree = (p: string) => !taken.has(p) && !assigned.has(p);
+
+  const outcomes = paths.map((path): NovaS3ConflictOutcome => {
+    if (isFree(path)) {
+      assigned.add(path);
+      return { path, finalPath: path, action: 'created' };
+    }
+    conflicts.push(path);
+
+    if (strategy === 'replace') {
+      if (taken.get(path) === 'folder') {
+        return {
+          path,
+          finalPath: null,
+          action: 'skipped',
+          reason: 'A folder with this name already exists',
+        };
+      }
+      assigned.add(path);
+      return { path, finalPath: path, action: 'replaced' };
+    }
+
+    if (strategy === 'keepBoth') {
+      const parent = parentOf(path);
+      const name = nameOf(path);
+      let candidate = '';
+      for (let n = 2; n < 1000 && !candidate; n++) {
+        const next = joinPath(parent, numberedName(name, false, n));
+        if (isFree(next)) candidate = next;
+      }
+      candidate ||= joinPath(parent, numberedName(name, false, Date.now()));
+      assigned.add(candidate);
+      return { path, finalPath: candidate, action: 'renamed' };
+    }
+
+    return {
+      path,
+      finalPath: null,
+      action: 'skipped',
+      reason: NOVA_S3_NAME_TAKEN,
+    };
+  });
+
+  return { outcomes, conflicts };
+}
+
+/** Mensaje del 409 de `fail` (un nombre o una muestra). */
+export function conflictMessage(conflicts: string[]) {
+  if (conflicts.length === 1)
+    return `An item named "${nameOf(conflicts[0])}" already exists in the destination`;
+  const sample = conflicts.slice(0, 5).join(', ');
+  return `${conflicts.length} items already exist in the destination: ${sample}${conflicts.length > 5 ? ', ...' : ''}`;
+}
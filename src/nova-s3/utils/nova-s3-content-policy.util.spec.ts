@@ -0,0 +1,164 @@
+/* src/nova-s3/utils/nova-s3-content-policy.util.spec.ts */
+import {
+  checkContentPolicy,
+  contentFamily,
+  NOVA_S3_DEFAULT_CONTENT_POLICY,
+  NovaS3ContentPolicy,
+  parseContentPolicies,
+  policyExtension,
+} from './nova-s3-content-policy.util';
+
+const MB = 1024 * 1024;
+
+const photosOnly: NovaS3ContentPolicy = {
+  ...NOVA_S3_DEFAULT_CONTENT_POLICY,
+  allowedFamilies: ['image', 'pdf'],
+  maxBytesByFamily: { image: 8 * MB },
+  maxBytes: 20 * MB,
+};
+
+describe('parseContentPolicies', () => {
+  it('fills missing fields from the default and normalizes extensions', () => {
+    const policies = parseContentPolicies(
+      JSON.stringify({
+        photos: {
+          allowedFamilies: ['image', 'bogus'],
+          maxBytesByFamily: { image: 1000, nope: 5 },
+          blockedExtensions: ['EXE', '.Svg'],
+        },
+      }),
+    );
+    expect(policies.photos).toEqual({
+      allowedFamilies: ['image'],
+      maxBytesByFamily: { image: 1000 },
+      maxBytes: null,
+      blockedExtensions: ['.exe', '.svg'],
+      blockedTypes: NOVA_S3_DEFAULT_CONTENT_POLICY.blockedTypes,
+    });
+  });
+
+  it('ignores invalid entries and broken JSON', () => {
+    expect(parseContentPolicies(JSON.stringify({ a: 5, b: [] }))).toEqual({});
+    expect(parseContentPolicies('{oops')).toEqual({});
+    expect(parseContentPolicies(undefined)).toEqual({});
+  });
+});
+
+describe('policyExtension', () => {
+  it('lowercases and ignores trailing dots and spaces', () => {
+    expect(policyExtension('Report.PDF')).toBe('.pdf');
+    expect(policyExtension('setup.exe. ')).toBe('.exe');
+    expect(policyExtension('README')).toBe('');
+  });
+});
+
+describe('contentFamily', () => {
+  it('uses the declared type before the bytes are known', () => {
+    expect(contentFamily('image/png')).toBe('image');
+  });
+
+  it('prefers the content over the declared type', () => {
+    expect(contentFamily('image/png', 'application/pdf')).toBe('pdf');
+    // docx is a ZIP: a consistent declared type is more specific
+    expect(
+      contentFamily(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/zip',
+      ),
+    ).toBe('document');
+  });
+
+  it('treats an unrecognized "image" as other, but trusts text-like declarations', () => {
+    expect(contentFamily('image/png', null)).toBe('other');
+    expect(contentFamily('text/csv', null)).toBe('spreadsheet');
+  });
+});
+
+describe('checkContentPolicy', () => {
+  it('blocks executables and markup by name or by content', () => {
+    const policy = NOVA_S3_DEFAULT_CONTENT_POLICY;
+    expect(
+      checkContentPolicy(policy, { name: 'setup.exe', size: 10 })?.code,
+    ).toBe('blockedExtension');
+    expect(
+      checkContentPolicy(policy, { name: 'logo.svg', size: 10 })?.code,
+    ).toBe('blockedExtension');
+    expect(
+      checkContentPolicy(policy, {
+        name: 'report.pdf',
+        size: 10,
+        sniffed: 'application/x-msdownload',
+      })?.code,
+    ).toBe('blockedType');
+    expect(
+      checkContentPolicy(policy, {
+        name: 'notes.txt',
+        size: 10,
+        sniffed: null,
+        markup: 'text/html',
+      })?.code,
+    ).toBe('blockedType');
+    expect(
+      checkContentPolicy(policy, {
+        name: 'page.txt',
+        size: 10,
+        declared: 'text/html',
+      })?.code,
+    ).toBe('blockedType');
+  });
+
+  it('lets anything else through with the default policy', () => {
+    expect(
+      checkContentPolicy(NOVA_S3_DEFAULT_CONTENT_POLICY, {
+        name: 'data.bin',
+        size: 5 * 1024 * MB,
+        sniffed: null,
+      }),
+    ).toBeNull();
+  });
+
+  it('enforces allowed families on the real type', () => {
+    expect(
+      checkContentPolicy(photosOnly, {
+        name: 'a.jpg',
+        size: MB,
+        declared: 'image/jpeg',
+        sniffed: 'image/jpeg',
+      }),
+    ).toBeNull();
+    const renamed = checkContentPolicy(photosOnly, {
+      name: 'a.jpg',
+      size: MB,
+      declared: 'image/jpeg',
+      sniffed: 'application/zip',
+    });
+    expect(renamed?.code).toBe('familyNotAllowed');
+    expect(renamed?.reason).toContain('archive files are not allowed');
+  });
+
+  it('applies the per-family cap, then the general one', () => {
+    const photo = checkContentPolicy(photosOnly, {
+      name: 'a.png',
+      size: 9 * MB,
+      sniffed: 'image/png',
+    });
+    expect(photo).toEqual({
+      code: 'tooLarge',
+      reason: '"a.png" is 9 MB; the limit for image files is 8 MB',
+    });
+    expect(
+      checkContentPolicy(photosOnly, {
+        name: 'b.pdf',
+        size: 9 * MB,
+        sniffed: 'application/pdf',
+      }),
+    ).toBeNull();
+    expect(
+      checkContentPolicy(photosOnly, {
+        name: 'b.pdf',
+        size: 21 * MB,
+        sniffed: 'application/pdf',
+      })?.code,
+    ).toBe('tooLarge');
+  });
+});
@@ -0,0 +1,232 @@
+/* src/nova-s3/utils/nova-s3-content-policy.util.ts
+ *
+ * Política de contenido por root (sin BD ni S3 para poder testearla aparte).
+ *
+ * - blockedExtensions: por nombre (".exe", ".html"...), antes de mirar el contenido
+ * - blockedTypes: por contenido detectado (un "informe.pdf" que es un ejecutable o un HTML)
+ * - allowedFamilies: familias del search (image, pdf, document...) + "other"; null = cualquiera
+ * - maxBytesByFamily / maxBytes: tope por familia real (no la declarada)
+ *
+ * El tipo que se evalúa sale del contenido (nova-s3-file-signature.util), igual que detectMimeType
+ * en helpdesk-files: renombrar un archivo no cambia su tipo.
+ */
+import { resolveContentType } from './nova-s3-file-signature.util';
+import { splitExt } from './nova-s3-path.util';
+import { formatBytes } from './nova-s3-quota.util';
+import {
+  mimeFamilyOf,
+  NOVA_S3_MIME_FAMILIES,
+  NovaS3MimeFamily,
+} from './nova-s3-search.util';
+
+/** Familias de la política: las del search + "other" (todo lo que no cae en ninguna). */
+export type NovaS3PolicyFamily = NovaS3MimeFamily | 'other';
+
+export const NOVA_S3_POLICY_FAMILIES: readonly NovaS3PolicyFamily[] = [
+  ...NOVA_S3_MIME_FAMILIES,
+  'other',
+];
+
+export type NovaS3ContentPolicy = {
+  allowedFamilies: NovaS3PolicyFamily[] | null;
+  maxBytesByFamily: Partial<Record<NovaS3PolicyFamily, number>>;
+  // tope para las familias sin tope propio (null = solo la cuota)
+  maxBytes: number | null;
+  // minúsculas, con punto
+  blockedExtensions: string[];
+  blockedTypes: string[];
+};
+
+/** Default: drive genérico (cualquier tipo, sin tope), sin ejecutables ni nada que el navegador ejecute inline. */
+export const NOVA_S3_DEFAULT_CONTENT_POLICY: NovaS3ContentPolicy = {
+  allowedFamilies: null,
+  maxBytesByFamily: {},
+  maxBytes: null,
+  blockedExtensions: [
+    '.exe',
+    '.msi',
+    '.dll',
+    '.com',
+    '.scr',
+    '.bat',
+    '.cmd',
+    '.ps1',
+    '.vbs',
+    '.hta',
+    '.html',
+    '.htm',
+    '.xhtml',
+    '.svg',
+  ],
+  blockedTypes: ['application/x-msdownload', 'text/html', 'image/svg+xml'],
+};
+
+// familias cuyos formatos se reconocen por magic bytes: declarar una sin que el contenido coincida = "other"
+const SNIFFED_FAMILIES = new Set<NovaS3PolicyFamily>([
+  'image',
+  'video',
+  'audio',
+  'pdf',
+]);
+
+const normExt = (ext: unknown) => {
+  const e = typeof ext === 'string' ? ext.trim().toLowerCase() : '';
+  return e ? (e.startsWith('.') ? e : `.${e}`) : '';
+};
+
+const positive = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : null;
+};
+
+/**
+ * NOVA_S3_CONTENT_POLICIES: JSON { "<root>": { allowedFamilies?, maxBytesByFamily?, maxBytes?, blockedExtensions?, blockedTypes? } }.
+ * Cada campo que falta sale del default; familias / valores inválidos se ignoran.
+ * Un JSON roto no tira el proceso: devuelve {} (todos los roots con el default).
+ */
+export function parseContentPolicies(
+  raw?: string | null,
+): Record<string, NovaS3ContentPolicy> {
+  if (!raw || !raw.trim()) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed))
+      return {};
+
+    const out: Record<string, NovaS3ContentPolicy> = {};
+    for (const [root, value] of Object.entries(
+      parsed as Record<string, Record<string, unknown> | null>,
+    )) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
+      const d = NOVA_S3_DEFAULT_CONTENT_POLICY;
+      const isFamily = (f: unknown): f is NovaS3PolicyFamily =>
+        NOVA_S3_POLICY_FAMILIES.includes(f as NovaS3PolicyFamily);
+
+      const maxBytesByFamily: NovaS3ContentPolicy['maxBytesByFamily'] = {};
+      for (const [family, bytes] of Object.entries(
+        (value.maxBytesByFamily ?? d.maxBytesByFamily) as Record<
+          string,
+          unknown
+        >,
+      )) {
+        const n = positive(bytes);
+        if (isFamily(family) && n) maxBytesByFamily[family] = n;
+      }
+
+      out[root] = {
+        allowedFamilies: Array.isArray(value.allowedFamilies)
+          ? (value.allowedFamilies as unknown[]).filter(isFamily)
+          : value.allowedFamilies === null
+            ? null
+            : d.allowedFamilies,
+        maxBytesByFamily,
+        maxBytes: 'maxBytes' in value ? positive(value.maxBytes) : d.maxBytes,
+        blockedExtensions: Array.isArray(value.blockedExtensions)
+          ? (value.blockedExtensions as unknown[]).map(normExt).filter(Boolean)
+          : d.blockedExtensions,
+        blockedTypes: Array.isArray(value.blockedTypes)
+          ? (value.blockedTypes as unknown[])
+              .map((t: unknown) => String(t).trim().toLowerCase())
+              .filter(Boolean)
+          : d.blockedTypes,
+      };
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+/** Extensión para la política: "a.PDF" => ".pdf"; "setup.exe. " => ".exe" (Windows ignora puntos / espacios finales). */
+export function policyExtension(name: string) {
+  return splitExt((name ?? '').replace(/[.\s]+$/, ''))[1].toLowerCase();
+}
+
+/**
+ * Familia real de un archivo.
+ * - sniffed undefined: todavía no hay bytes (presign) => se usa el declarado
+ * - sniffed null: hay bytes pero no es un binario conocido => el declarado, salvo que diga ser
+ *   imagen / video / audio / pdf (esos se reconocen siempre) => "other"
+ */
+export function contentFamily(
+  declared: string | null | undefined,
+  sniffed?: string | null,
+): NovaS3PolicyFamily {
+  if (sniffed === undefined) return mimeFamilyOf(declared) ?? 'other';
+
+  const { mimeType } = resolveContentType(declared, null, sniffed);
+  const family = mimeFamilyOf(mimeType) ?? 'other';
+  return sniffed === null && SNIFFED_FAMILIES.has(family) ? 'other' : family;
+}
+
+/** Lo que se sabe de un archivo al validarlo (sniffed: ver contentFamily; markup: ver sniffMarkupType). */
+export type NovaS3ContentCandidate = {
+  name: string;
+  size: number;
+  declared?: string | null;
+  sniffed?: string | null;
+  markup?: string | null;
+};
+
+export type NovaS3PolicyViolation = {
+  code: 'blockedExtension' | 'blockedType' | 'familyNotAllowed' | 'tooLarge';
+  reason: string;
+};
+
+/** Tope efectivo de una familia (null = sin tope). */
+export function familyLimit(
+  policy: NovaS3ContentPolicy,
+  family: NovaS3PolicyFamily,
+) {
+  return policy.maxBytesByFamily[family] ?? policy.maxBytes;
+}
+
+/** Primer motivo por el que el archivo no entra (null = OK). Orden: nombre, contenido, familia, tamaño. */
+export function checkContentPolicy(
+  policy: NovaS3ContentPolicy,
+  c: NovaS3ContentCandidate,
+): NovaS3PolicyViolation | null {
+  const ext = policyExtension(c.name);
+  if (ext && policy.blockedExtensions.includes(ext)) {
+    return {
+      code: 'blockedExtension',
+      reason: `"${c.name}": ${ext} files are not allowed`,
+    };
+  }
+
+  const detected = [
+    c.sniffed,
+    c.markup,
+    c.sniffed === undefined ? c.declared : null,
+  ]
+    .map((t) => (t ?? '').toLowerCase().split(';')[0].trim())
+    .find((t) => t && policy.blockedTypes.includes(t));
+  if (detected) {
+    return {
+      code: 'blockedType',
+      reason: `"${c.name}": ${detected} content is not allowed`,
+    };
+  }
+
+  // HTML / SVG no tienen magic bytes: si el markup se reconoció, cuenta como detectado
+  const family = contentFamily(
+    c.declared,
+    c.sniffed === null && c.markup ? c.markup : c.sniffed,
+  );
+  if (policy.allowedFamilies && !policy.allowedFamilies.includes(family)) {
+    return {
+      code: 'familyNotAllowed',
+      reason: `"${c.name}": ${family} files are not allowed (allowed: ${policy.allowedFamilies.join(', ') || 'none'})`,
+    };
+  }
+
+  const limit = familyLimit(policy, family);
+  if (limit !== null && c.size > limit) {
+    return {
+      code: 'tooLarge',
+      reason: `"${c.name}" is ${formatBytes(c.size)}; the limit for ${family} files is ${formatBytes(limit)}`,
+    };
+  }
+  return null;
+}
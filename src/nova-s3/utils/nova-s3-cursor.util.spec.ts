@@ -0,0 +1,46 @@
+/* src/nova-s3/utils/nova-s3-cursor.util.spec.ts */
+import { decodeCursor, encodeCursor } from './nova-s3-cursor.util';
+
+describe('cursor', () => {
+  const cursor = {
+    sortBy: 'updatedAt',
+    order: 'desc' as const,
+    values: ['2026-01-01 10:00:00.123456'],
+    id: 'a1',
+  };
+
+  it('round-trips an opaque cursor', () => {
+    const raw = encodeCursor(cursor);
+    expect(raw).not.toContain('updatedAt');
+    expect(decodeCursor(raw, 'updatedAt', 'desc')).toEqual(cursor);
+  });
+
+  it('keeps composite and null sort values', () => {
+    const raw = encodeCursor({
+      ...cursor,
+      sortBy: 'type',
+      values: ['folder', null],
+    });
+    expect(decodeCursor(raw, 'type', 'desc')?.values).toEqual(['folder', null]);
+  });
+
+  it('rejects a cursor issued for another sort', () => {
+    const raw = encodeCursor(cursor);
+    expect(decodeCursor(raw, 'name', 'desc')).toBeNull();
+    expect(decodeCursor(raw, 'updatedAt', 'asc')).toBeNull();
+  });
+
+  it('rejects garbage', () => {
+    expect(decodeCursor('not-a-cursor', 'name', 'asc')).toBeNull();
+    expect(
+      decodeCursor(Buffer.from('{"a":1}').toString('base64url'), 'name', 'asc'),
+    ).toBeNull();
+    expect(
+      decodeCursor(
+        encodeCursor({ ...cursor, values: [1 as unknown as string] }),
+        'updatedAt',
+        'desc',
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+/* src/nova-s3/utils/nova-s3-cursor.util.ts
+ *
+ * Cursor opaco para paginación keyset: valores de las columnas de orden + id del último item devuelto.
+ * Lleva el orden con el que se generó: un cursor reusado con otro sortBy / order no vale.
+ */
+
+export type NovaS3Cursor = {
+  sortBy: string;
+  order: 'asc' | 'desc';
+  values: (string | null)[];
+  id: string;
+};
+
+export function encodeCursor(cursor: NovaS3Cursor) {
+  return Buffer.from(
+    JSON.stringify([cursor.sortBy, cursor.order, cursor.values, cursor.id]),
+    'utf8',
+  ).toString('base64url');
+}
+
+/** null si el cursor está mal formado o no corresponde al orden pedido. */
+export function decodeCursor(
+  raw: string,
+  sortBy: string,
+  order: 'asc' | 'desc',
+): NovaS3Cursor | null {
+  try {
+    const parsed: unknown = JSON.parse(
+      Buffer.from(raw, 'base64url').toString('utf8'),
+    );
+    if (!Array.isArray(parsed) || parsed.length !== 4) return null;
+
+    const [s, o, values, id] = parsed as unknown[];
+    if (s !== sortBy || o !== order) return null;
+    if (typeof id !== 'string' || !id) return null;
+    if (
+      !Array.isArray(values) ||
+      !values.every((v) => v === null || typeof v === 'string')
+    )
+      return null;
+
+    return { sortBy, order, values: values as (string | null)[], id };
+  } catch {
+    return null;
+  }
+}
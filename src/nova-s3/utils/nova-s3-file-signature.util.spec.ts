@@ -0,0 +1,168 @@
+/* src/nova-s3/utils/nova-s3-file-signature.util.spec.ts */
+import {
+  declaredTypeMatches,
+  resolveContentType,
+  sniffContentType,
+  sniffMarkupType,
+} from './nova-s3-file-signature.util';
+
+// Cabeceras reales, rellenadas a 32 bytes para pasar el mínimo de longitud.
+const pad = (head: Buffer, total = 32): Buffer =>
+  Buffer.concat([head, Buffer.alloc(Math.max(0, total - head.length), 0x00)]);
+
+const latin1 = (s: string) => Buffer.from(s, 'latin1');
+
+const riff = (form: string) =>
+  pad(
+    Buffer.concat([latin1('RIFF'), Buffer.from([0x24, 0, 0, 0]), latin1(form)]),
+  );
+const ftyp = (brand: string) =>
+  pad(
+    Buffer.concat([
+      Buffer.from([0, 0, 0, 0x20]),
+      latin1('ftyp'),
+      latin1(brand),
+    ]),
+  );
+
+describe('sniffContentType', () => {
+  it.each([
+    ['JPEG', pad(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), 'image/jpeg'],
+    [
+      'PNG',
+      pad(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+      'image/png',
+    ],
+    ['GIF', pad(latin1('GIF89a')), 'image/gif'],
+    ['WEBP', riff('WEBP'), 'image/webp'],
+    ['WAV', riff('WAVE'), 'audio/wav'],
+    ['PDF', pad(latin1('%PDF-1.7')), 'application/pdf'],
+    ['MP4', ftyp('isom'), 'video/mp4'],
+    ['MOV', ftyp('qt  '), 'video/quicktime'],
+    ['HEIC', ftyp('heic'), 'image/heic'],
+    ['ZIP', pad(Buffer.from([0x50, 0x4b, 0x03, 0x04])), 'application/zip'],
+    [
+      'OLE2',
+      pad(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])),
+      'application/x-cfb',
+    ],
+    ['MP3', pad(latin1('ID3')), 'audio/mpeg'],
+    ['EXE', pad(latin1('MZ')), 'application/x-msdownload'],
+  ])('detects %s', (_name, buf, expected) => {
+    expect(sniffContentType(buf)).toBe(expected);
+  });
+
+  it('returns null for text, unknown RIFF forms and too-short buffers', () => {
+    expect(
+      sniffContentType(pad(latin1('name,email\nana,ana@x.com'))),
+    ).toBeNull();
+    expect(sniffContentType(riff('XXXX'))).toBeNull();
+    expect(sniffContentType(Buffer.from([0xff, 0xd8, 0xff]))).toBeNull();
+    expect(sniffContentType(Buffer.alloc(0))).toBeNull();
+    expect(sniffContentType(null)).toBeNull();
+  });
+});
+
+describe('sniffMarkupType', () => {
+  it.each([
+    ['plain HTML', '<html><body>hi</body></html>', 'text/html'],
+    ['HTML doctype', '\uFEFF  <!DOCTYPE html>\n<html>', 'text/html'],
+    ['bare script', '<script>alert(1)</script>', 'text/html'],
+    ['SVG', '<svg xmlns="http://www.w3.org/2000/svg"/>', 'image/svg+xml'],
+    [
+      'SVG with prolog',
+      '<?xml version="1.0"?>\n<!-- editor -->\n<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN">\n<svg>',
+      'image/svg+xml',
+    ],
+  ])('detects %s', (_name, text, expected) => {
+    expect(sniffMarkupType(Buffer.from(text, 'utf8'))).toBe(expected);
+  });
+
+  it('ignores other text and XML', () => {
+    expect(sniffMarkupType(Buffer.from('name,email\nana,<html>'))).toBeNull();
+    expect(
+      sniffMarkupType(Buffer.from('<?xml version="1.0"?><invoice/>')),
+    ).toBeNull();
+    expect(sniffMarkupType(Buffer.from('<svgfoo>'))).toBeNull();
+    expect(sniffMarkupType(null)).toBeNull();
+  });
+});
+
+describe('declaredTypeMatches', () => {
+  it('accepts exact types, parameters and browser aliases', () => {
+    expect(declaredTypeMatches('image/png', 'image/png')).toBe(true);
+    expect(declaredTypeMatches('Image/PNG; charset=binary', 'image/png')).toBe(
+      true,
+    );
+    expect(declaredTypeMatches('image/jpg', 'image/jpeg')).toBe(true);
+  });
+
+  it('accepts formats stored inside containers', () => {
+    expect(
+      declaredTypeMatches(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/zip',
+      ),
+    ).toBe(true);
+    expect(declaredTypeMatches('application/msword', 'application/x-cfb')).toBe(
+      true,
+    );
+  });
+
+  it('treats a missing or generic declared type as no claim', () => {
+    expect(declaredTypeMatches(undefined, 'image/png')).toBe(true);
+    expect(
+      declaredTypeMatches('application/octet-stream', 'application/pdf'),
+    ).toBe(true);
+  });
+
+  it('flags renamed files', () => {
+    expect(declaredTypeMatches('image/png', 'application/x-msdownload')).toBe(
+      false,
+    );
+    expect(declaredTypeMatches('application/pdf', 'application/zip')).toBe(
+      false,
+    );
+  });
+});
+
+describe('resolveContentType', () => {
+  it('keeps the declared type when the content is not recognised', () => {
+    expect(resolveContentType('text/csv', 'text/csv', null)).toEqual({
+      mimeType: 'text/csv',
+      mismatch: null,
+    });
+    expect(resolveContentType(undefined, 'text/plain', null)).toEqual({
+      mimeType: 'text/plain',
+      mismatch: null,
+    });
+    expect(resolveContentType(undefined, undefined, null)).toEqual({
+      mimeType: null,
+      mismatch: null,
+    });
+  });
+
+  it('keeps the more specific declared type when it matches', () => {
+    const docx =
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    expect(resolveContentType(docx, null, 'application/zip')).toEqual({
+      mimeType: docx,
+      mismatch: null,
+    });
+    expect(
+      resolveContentType('application/octet-stream', null, 'image/png'),
+    ).toEqual({
+      mimeType: 'image/png',
+      mismatch: null,
+    });
+  });
+
+  it('stores the sniffed type and records the mismatch otherwise', () => {
+    expect(
+      resolveContentType('image/png', 'image/png', 'application/x-msdownload'),
+    ).toEqual({
+      mimeType: 'application/x-msdownload',
+      mismatch: { declared: 'image/png', sniffed: 'application/x-msdownload' },
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/* src/nova-s3/utils/nova-s3-file-signature.util.ts
+ *
+ * Detección de contenido (magic bytes) para los uploads directos de NOVA S3.
+ *
+ * Mismo enfoque que helpdesk-files/utils/file-signature.util.ts (a mano, sin `file-type`,
+ * que es solo ESM), pero NOVA S3 es un drive genérico: acá no se rechaza nada por tipo,
+ * solo se detecta para guardar el tipo real y dejar registrado cuando el declarado no coincide.
+ *
+ * `null` = formato no reconocido (texto plano, CSV, SVG, etc.) => se respeta el declarado.
+ */
+
+/**
+ * Bytes que se leen con el GET parcial: los binarios se deciden en los primeros 12,
+ * el resto es para HTML / SVG con prólogo (<?xml ...?>, comentarios, doctype).
+ */
+export const NOVA_S3_SNIFF_BYTES = 512;
+
+const MIN_BYTES_NEEDED = 12;
+
+const asciiAt = (buf: Buffer, offset: number, length: number): string =>
+  buf.length >= offset + length
+    ? buf.subarray(offset, offset + length).toString('latin1')
+    : '';
+
+const startsWith = (buf: Buffer, bytes: number[]): boolean => {
+  if (buf.length < bytes.length) return false;
+  return bytes.every((b, i) => buf[i] === b);
+};
+
+/** ISO-BMFF (`ftyp`): el major brand decide el tipo. */
+const FTYP_BRANDS: Record<string, string> = {
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+  'M4B ': 'audio/mp4',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  hevc: 'image/heic',
+  mif1: 'image/heif',
+  msf1: 'image/heif',
+  avif: 'image/avif',
+};
+
+const sniffFtyp = (buf: Buffer): string | null => {
+  if (asciiAt(buf, 4, 4) !== 'ftyp') return null;
+  return FTYP_BRANDS[asciiAt(buf, 8, 4)] ?? 'video/mp4';
+};
+
+/** RIFF: "RIFF" ....size.... <form type>. */
+const RIFF_FORMS: Record<string, string> = {
+  WEBP: 'image/webp',
+  WAVE: 'audio/wav',
+  'AVI ': 'video/x-msvideo',
+};
+
+/**
+ * Tipo real según los primeros bytes, o `null` si no es un formato binario conocido
+ * (incluye vacío y "demasiado corto").
+ */
+export function sniffContentType(
+  buf: Buffer | undefined | null,
+): string | null {
+  if (!buf || buf.length < MIN_BYTES_NEEDED) return null;
+
+  if (startsWith(buf, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(buf, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    return 'image/png';
+  if (asciiAt(buf, 0, 6) === 'GIF87a' || asciiAt(buf, 0, 6) === 'GIF89a')
+    return 'image/gif';
+  if (asciiAt(buf, 0, 4) === 'RIFF')
+    return RIFF_FORMS[asciiAt(buf, 8, 4)] ?? null;
+  if (asciiAt(buf, 0, 2) === 'BM') return 'image/bmp';
+  if (
+    startsWith(buf, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(buf, [0x4d, 0x4d, 0x00, 0x2a])
+  )
+    return 'image/tiff';
+  if (asciiAt(buf, 0, 5) === '%PDF-') return 'application/pdf';
+
+  const ftyp = sniffFtyp(buf);
+  if (ftyp) return ftyp;
+
+  if (startsWith(buf, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (
+    asciiAt(buf, 0, 3) === 'ID3' ||
+    startsWith(buf, [0xff, 0xfb]) ||
+    startsWith(buf, [0xff, 0xf3])
+  )
+    return 'audio/mpeg';
+  if (asciiAt(buf, 0, 4) === 'OggS') return 'audio/ogg';
+  if (asciiAt(buf, 0, 4) === 'fLaC') return 'audio/flac';
+
+  if (
+    startsWith(buf, [0x50, 0x4b, 0x03, 0x04]) ||
+    startsWith(buf, [0x50, 0x4b, 0x05, 0x06])
+  )
+    return 'application/zip';
+  if (startsWith(buf, [0x1f, 0x8b])) return 'application/gzip';
+  if (startsWith(buf, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]))
+    return 'application/x-7z-compressed';
+  if (asciiAt(buf, 0, 6) === 'Rar!\x1a\x07') return 'application/vnd.rar';
+  if (startsWith(buf, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]))
+    return 'application/x-cfb';
+  if (asciiAt(buf, 0, 5) === '{\\rtf') return 'application/rtf';
+  if (asciiAt(buf, 0, 2) === 'MZ') return 'application/x-msdownload';
+
+  return null;
+}
+
+/**
+ * HTML / SVG por contenido (texto, sin magic bytes): lo que un navegador ejecutaría si se sirve inline.
+ * Solo mira el comienzo (después de BOM, espacios, prólogo XML, comentarios y doctype no-HTML).
+ * `null` = no parece markup. Lo usa la política de contenido, no cambia el tipo que se guarda.
+ */
+export function sniffMarkupType(
+  buf: Buffer | undefined | null,
+): 'text/html' | 'image/svg+xml' | null {
+  if (!buf?.length) return null;
+
+  let head = buf
+    .subarray(0, NOVA_S3_SNIFF_BYTES)
+    .toString('utf8')
+    .replace(/^\uFEFF/, '')
+    .toLowerCase();
+  // prólogo: <?xml ...?>, <!-- ... -->, <!doctype svg ...>
+  for (let prev = ''; prev !== head; ) {
+    prev = head;
+    head = head
+      .trimStart()
+      .replace(/^<\?xml[^>]*>/, '')
+      .replace(/^<!--[\s\S]*?-->/, '');
+    if (head.startsWith('<!doctype html')) return 'text/html';
+    head = head.replace(/^<!doctype[^>]*>/, '');
+  }
+
+  if (/^<svg[\s>/]/.test(head)) return 'image/svg+xml';
+  if (/^<(html|head|body|script|iframe)[\s>/]/.test(head)) return 'text/html';
+  return null;
+}
+
+/**
+ * Declarados que son consistentes con cada tipo detectado además del propio.
+ * Los contenedores (ZIP / OLE2) llevan adentro formatos de Office, EPUB, JAR, etc.
+ */
+const COMPATIBLE: Record<string, (declared: string) => boolean> = {
+  'image/jpeg': (d) => d === 'image/jpg' || d === 'image/pjpeg',
+  'image/heic': (d) => d === 'image/heif',
+  'image/heif': (d) => d === 'image/heic',
+  'image/bmp': (d) => d === 'image/x-ms-bmp',
+  'video/mp4': (d) =>
+    d === 'audio/mp4' || d === 'audio/x-m4a' || d === 'video/x-m4v',
+  'audio/mp4': (d) => d === 'audio/x-m4a' || d === 'video/mp4',
+  'video/webm': (d) =>
+    d === 'audio/webm' || d === 'video/x-matroska' || d === 'audio/x-matroska',
+  'audio/mpeg': (d) => d === 'audio/mp3',
+  'audio/wav': (d) =>
+    d === 'audio/x-wav' || d === 'audio/wave' || d === 'audio/vnd.wave',
+  'video/x-msvideo': (d) => d === 'video/avi',
+  'application/zip': (d) =>
+    d === 'application/x-zip-compressed' ||
+    d.startsWith('application/vnd.openxmlformats-officedocument.') ||
+    d.startsWith('application/vnd.oasis.opendocument.') ||
+    d.startsWith('application/vnd.ms-') ||
+    d === 'application/epub+zip' ||
+    d === 'application/java-archive',
+  'application/gzip': (d) =>
+    d === 'application/x-gzip' || d === 'application/x-tar',
+  'application/vnd.rar': (d) => d === 'application/x-rar-compressed',
+  'application/x-cfb': (d) =>
+    d === 'application/msword' ||
+    d.startsWith('application/vnd.ms-') ||
+    d === 'application/vnd.visio',
+  'application/rtf': (d) => d === 'text/rtf',
+  'application/x-msdownload': (d) =>
+    d === 'application/x-dosexec' ||
+    d === 'application/vnd.microsoft.portable-executable',
+};
+
+const normalizeType = (t?: string | null) =>
+  (t ?? '').toLowerCase().trim().split(';')[0].trim();
+
+/**
+ * ¿El tipo declarado por el cliente es consistente con el detectado?
+ * Sin declarado (o application/octet-stream) el cliente no afirmó nada => no es mismatch.
+ */
+export function declaredTypeMatches(
+  declared: string | undefined | null,
+  sniffed: string,
+): boolean {
+  const d = normalizeType(declared);
+  if (!d || d === 'application/octet-stream') return true;
+  if (d === sniffed) return true;
+  return COMPATIBLE[sniffed]?.(d) ?? false;
+}
+
+export type NovaS3ContentTypeCheck = {
+  /** Lo que se guarda en nova_s3.mimeType */
+  mimeType: string | null;
+  /** Solo cuando el declarado no coincide con el contenido */
+  mismatch: { declared: string | null; sniffed: string } | null;
+};
+
+/**
+ * Tipo a guardar:
+ * - contenido no reconocido => el declarado (o el Content-Type del objeto en S3)
+ * - coincide => el declarado (es más específico: docx vs zip)
+ * - no coincide => el detectado, y se deja registrado el mismatch
+ */
+export function resolveContentType(
+  declared: string | undefined | null,
+  storedContentType: string | undefined | null,
+  sniffed: string | null,
+): NovaS3ContentTypeCheck {
+  const claimed =
+    normalizeType(declared) || normalizeType(storedContentType) || null;
+  if (!sniffed) return { mimeType: claimed, mismatch: null };
+  if (declaredTypeMatches(claimed, sniffed)) {
+    return {
+      mimeType:
+        claimed && claimed !== 'application/octet-stream' ? claimed : sniffed,
+      mismatch: null,
+    };
+  }
+  return { mimeType: sniffed, mismatch: { declared: claimed, sniffed } };
+}
@@ -0,0 +1,79 @@
+/* src/nova-s3/utils/nova-s3-folder-size.util.spec.ts */
+import {
+  ancestorFolders,
+  folderSizeDeltas,
+  movedChanges,
+  sizeTotals,
+} from './nova-s3-folder-size.util';
+
+describe('ancestorFolders', () => {
+  it('lists every containing folder, nearest first', () => {
+    expect(ancestorFolders('A/B/c.pdf')).toEqual(['A/B', 'A']);
+  });
+
+  it('has no ancestors at the top level', () => {
+    expect(ancestorFolders('c.pdf')).toEqual([]);
+    expect(ancestorFolders('')).toEqual([]);
+  });
+});
+
+describe('sizeTotals', () => {
+  it('counts files only and parses bigint strings', () => {
+    expect(
+      sizeTotals([
+        { type: 'folder', size: null },
+        { type: 'file', size: '1024' },
+        { type: 'file', size: 10 },
+        { type: 'file', size: null },
+      ]),
+    ).toEqual({ files: 3, bytes: 1034 });
+  });
+});
+
+describe('folderSizeDeltas', () => {
+  it('adds each change to every ancestor folder', () => {
+    const deltas = folderSizeDeltas([
+      { path: 'A/B/c.pdf', files: 1, bytes: 100 },
+      { path: 'A/d.pdf', files: 1, bytes: 5 },
+    ]);
+    expect(Object.fromEntries(deltas)).toEqual({
+      'A/B': { files: 1, bytes: 100 },
+      A: { files: 2, bytes: 105 },
+    });
+  });
+
+  it('does not touch the changed path itself', () => {
+    const deltas = folderSizeDeltas([{ path: 'A/B', files: -3, bytes: -30 }]);
+    expect(Object.fromEntries(deltas)).toEqual({
+      A: { files: -3, bytes: -30 },
+    });
+  });
+
+  it('nets a move to the folders that actually changed', () => {
+    const deltas = folderSizeDeltas(
+      movedChanges('A/B/X', 'A/C/X', { files: 4, bytes: 400 }),
+    );
+    expect(Object.fromEntries(deltas)).toEqual({
+      'A/B': { files: -4, bytes: -400 },
+      'A/C': { files: 4, bytes: 400 },
+    });
+  });
+
+  it('drops a rename inside the same folder and zero changes', () => {
+    expect(
+      folderSizeDeltas(
+        movedChanges('A/x.pdf', 'A/y.pdf', { files: 1, bytes: 9 }),
+      ).size,
+    ).toBe(0);
+    expect(
+      folderSizeDeltas([{ path: 'A/x.pdf', files: 0, bytes: 0 }]).size,
+    ).toBe(0);
+  });
+
+  it('keeps byte-only changes (overwrite with a different size)', () => {
+    const deltas = folderSizeDeltas([
+      { path: 'A/x.pdf', files: 0, bytes: -20 },
+    ]);
+    expect(Object.fromEntries(deltas)).toEqual({ A: { files: 0, bytes: -20 } });
+  });
+});
@@ -0,0 +1,68 @@
+/* src/nova-s3/utils/nova-s3-folder-size.util.ts
+ *
+ * Reglas puras de los totales por folder (rollupFiles / rollupBytes), sin BD para poder testearlas aparte.
+ *
+ * Un cambio `{ path, files, bytes }` dice "el contenido en path cambió en tanto": se suma a cada folder
+ * ancestro de path (no a path mismo). Un file nuevo es `{ path: file, files: 1, bytes: size }`; un folder
+ * movido es el total de su subárbol restado en el path viejo y sumado en el nuevo.
+ */
+import { parentOf } from './nova-s3-path.util';
+
+export type NovaS3SizeChange = { path: string; files: number; bytes: number };
+
+export type NovaS3SizeDelta = { files: number; bytes: number };
+
+/** Folders que contienen a path, del más cercano a la raíz. "A/B/c.pdf" => ["A/B", "A"] */
+export function ancestorFolders(path: string) {
+  const out: string[] = [];
+  for (let p = parentOf(path); p; p = parentOf(p)) out.push(p);
+  return out;
+}
+
+/** Archivos y bytes de un conjunto de filas (folders no cuentan; size null = 0). */
+export function sizeTotals(
+  rows: { type: string; size?: number | string | null }[],
+): NovaS3SizeDelta {
+  let files = 0;
+  let bytes = 0;
+  for (const r of rows) {
+    if (r.type !== 'file') continue;
+    files++;
+    bytes += Number(r.size ?? 0) || 0;
+  }
+  return { files, bytes };
+}
+
+/** El mismo contenido saliendo de oldPath y entrando en newPath (move / rename). */
+export function movedChanges(
+  oldPath: string,
+  newPath: string,
+  totals: NovaS3SizeDelta,
+): NovaS3SizeChange[] {
+  return [
+    { path: oldPath, files: -totals.files, bytes: -totals.bytes },
+    { path: newPath, files: totals.files, bytes: totals.bytes },
+  ];
+}
+
+/**
+ * Delta neto por folder ancestro. Los que quedan en cero se descartan
+ * (ej: rename dentro del mismo folder no toca ningún ancestro).
+ */
+export function folderSizeDeltas(changes: NovaS3SizeChange[]) {
+  const deltas = new Map<string, NovaS3SizeDelta>();
+  for (const c of changes) {
+    if (!c.files && !c.bytes) continue;
+    for (const folder of ancestorFolders(c.path)) {
+      const d = deltas.get(folder) ?? { files: 0, bytes: 0 };
+      d.files += c.files;
+      d.bytes += c.bytes;
+      deltas.set(folder, d);
+    }
+  }
+
+  for (const [folder, d] of deltas) {
+    if (!d.files && !d.bytes) deltas.delete(folder);
+  }
+  return deltas;
+}
@@ -0,0 +1,40 @@
+/* src/nova-s3/utils/nova-s3-grant.util.spec.ts */
+import { effectiveGrantRole, roleSatisfies } from './nova-s3-grant.util';
+
+describe('effectiveGrantRole', () => {
+  const grants = [
+    { path: 'Marketing', role: 'viewer' as const },
+    { path: 'Marketing/Campaigns', role: 'editor' as const },
+  ];
+
+  it('covers the folder and its whole subtree', () => {
+    expect(effectiveGrantRole(grants, 'Marketing')).toBe('viewer');
+    expect(effectiveGrantRole(grants, 'Marketing/Brand/logo.png')).toBe(
+      'viewer',
+    );
+  });
+
+  it('does not leak to siblings with the same prefix', () => {
+    expect(effectiveGrantRole(grants, 'Marketing2')).toBeNull();
+    expect(effectiveGrantRole(grants, '')).toBeNull();
+  });
+
+  it('takes the strongest role among nested grants', () => {
+    expect(effectiveGrantRole(grants, 'Marketing/Campaigns/Q1')).toBe('editor');
+  });
+
+  it('inside=true excludes the shared folder itself', () => {
+    expect(effectiveGrantRole(grants, 'Marketing/Campaigns', true)).toBe(
+      'viewer',
+    );
+    expect(effectiveGrantRole(grants, 'Marketing', true)).toBeNull();
+  });
+});
+
+describe('roleSatisfies', () => {
+  it('editor implies viewer, not the other way around', () => {
+    expect(roleSatisfies('editor', 'viewer')).toBe(true);
+    expect(roleSatisfies('viewer', 'editor')).toBe(false);
+    expect(roleSatisfies(null, 'viewer')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+/* src/nova-s3/utils/nova-s3-grant.util.ts
+ *
+ * Reglas puras de cobertura de grants (sin BD) para poder testearlas aparte.
+ */
+import type { NovaS3GrantRole } from '../entities/nova-s3-grant.entity';
+
+const ROLE_RANK: Record<NovaS3GrantRole, number> = { viewer: 1, editor: 2 };
+
+/**
+ * Rol efectivo sobre `path` dado el set de grants (folder path + rol) del invitado.
+ * - Un grant cubre su folder y todo el subárbol.
+ * - inside=true: solo cuenta si `path` está DENTRO del folder (no el folder mismo).
+ * - Grants anidados: gana el rol más alto. Sin cobertura => null.
+ */
+export function effectiveGrantRole(
+  grants: { path: string; role: NovaS3GrantRole }[],
+  path: string,
+  inside = false,
+): NovaS3GrantRole | null {
+  let best: NovaS3GrantRole | null = null;
+
+  for (const g of grants) {
+    const covers =
+      path.startsWith(`${g.path}/`) || (!inside && path === g.path);
+    if (covers && (!best || ROLE_RANK[g.role] > ROLE_RANK[best])) best = g.role;
+  }
+
+  return best;
+}
+
+export function roleSatisfies(
+  role: NovaS3GrantRole | null,
+  need: NovaS3GrantRole,
+) {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[need];
+}
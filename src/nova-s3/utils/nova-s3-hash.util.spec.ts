@@ -0,0 +1,78 @@
+/* src/nova-s3/utils/nova-s3-hash.util.spec.ts */
+import {
+  duplicateWarnings,
+  duplicateWaste,
+  normalizeSha256,
+  sha256Hex,
+} from './nova-s3-hash.util';
+
+describe('sha256Hex', () => {
+  it('hashes buffers as lowercase hex', () => {
+    expect(sha256Hex(Buffer.from(''))).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    );
+    expect(sha256Hex(Buffer.from('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+  });
+});
+
+describe('normalizeSha256', () => {
+  it('lowercases valid hex digests', () => {
+    expect(
+      normalizeSha256(
+        ' BA7816BF8F01CFEA414140DE5DAE2223B00361A396177A9CB410FF61F20015AD ',
+      ),
+    ).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('rejects anything that is not a 64 char hex digest', () => {
+    expect(normalizeSha256(undefined)).toBeNull();
+    expect(normalizeSha256('')).toBeNull();
+    expect(normalizeSha256('abc')).toBeNull();
+    expect(normalizeSha256('z'.repeat(64))).toBeNull();
+    expect(
+      normalizeSha256('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0='),
+    ).toBeNull();
+  });
+});
+
+describe('duplicateWaste', () => {
+  it('counts every copy but one', () => {
+    expect(duplicateWaste(1000, 3)).toBe(2000);
+    expect(duplicateWaste(1000, 1)).toBe(0);
+    expect(duplicateWaste(null, 4)).toBe(0);
+  });
+});
+
+describe('duplicateWarnings', () => {
+  const existing = new Map([
+    ['h1', ['Finance/report.pdf', 'Archive/report.pdf']],
+    ['h2', ['Photos/team.jpg']],
+  ]);
+
+  it('lists existing copies of each incoming file', () => {
+    expect(
+      duplicateWarnings(
+        [
+          { path: 'Inbox/report.pdf', sha256: 'h1' },
+          { path: 'Inbox/new.txt', sha256: 'h3' },
+          { path: 'Inbox/unknown.bin', sha256: null },
+        ],
+        existing,
+      ),
+    ).toEqual([
+      {
+        path: 'Inbox/report.pdf',
+        sha256: 'h1',
+        existing: ['Finance/report.pdf', 'Archive/report.pdf'],
+      },
+    ]);
+  });
+
+  it('ignores the file being overwritten with the same content', () => {
+    expect(
+      duplicateWarnings([{ path: 'Photos/team.jpg', sha256: 'h2' }], existing),
+    ).toEqual([]);
+  });
+});
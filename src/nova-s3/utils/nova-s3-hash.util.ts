@@ -0,0 +1,45 @@
+/* src/nova-s3/utils/nova-s3-hash.util.ts
+ *
+ * Huella de contenido (SHA-256 hex) de los archivos de nova_s3: helpers puros para poder testearlos aparte.
+ */
+import { createHash } from 'crypto';
+
+export const NOVA_S3_SHA256_RE = /^[a-f0-9]{64}$/i;
+
+/** SHA-256 hex (minúsculas) de un contenido ya en memoria (uploads multer). */
+export function sha256Hex(data: Buffer) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/** Hash declarado por el cliente => hex en minúsculas, o null si no es un SHA-256 hex válido. */
+export function normalizeSha256(value?: string | null) {
+  const v = (value ?? '').trim();
+  return NOVA_S3_SHA256_RE.test(v) ? v.toLowerCase() : null;
+}
+
+/** Bytes desperdiciados por un grupo de copias idénticas: todas menos una sobran. */
+export function duplicateWaste(size: number | null | undefined, count: number) {
+  return Math.max(count - 1, 0) * Math.max(Number(size ?? 0), 0);
+}
+
+/**
+ * Warnings de upload: por cada archivo nuevo, los paths existentes con el mismo hash
+ * (sin contar el path que se está sobrescribiendo). Solo devuelve los que tienen coincidencias.
+ */
+export function duplicateWarnings(
+  incoming: { path: string; sha256: string | null }[],
+  existingByHash: Map<string, string[]>,
+) {
+  const warnings: { path: string; sha256: string; existing: string[] }[] = [];
+
+  for (const item of incoming) {
+    if (!item.sha256) continue;
+    const existing = (existingByHash.get(item.sha256) ?? []).filter(
+      (p) => p !== item.path,
+    );
+    if (existing.length)
+      warnings.push({ path: item.path, sha256: item.sha256, existing });
+  }
+
+  return warnings;
+}
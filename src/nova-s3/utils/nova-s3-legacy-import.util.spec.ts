@@ -0,0 +1,159 @@
+/* src/nova-s3/utils/nova-s3-legacy-import.util.spec.ts */
+import {
+  classifyLegacyItem,
+  legacyPrefix,
+  legacyTargetPath,
+  parseLegacyKey,
+  resolveLegacyTransfer,
+} from './nova-s3-legacy-import.util';
+
+describe('legacyPrefix', () => {
+  it('walks one employee or the whole folder', () => {
+    expect(legacyPrefix('/documents/', 'EMP1')).toBe('documents/EMP1/');
+    expect(legacyPrefix('documents')).toBe('documents/');
+  });
+});
+
+describe('resolveLegacyTransfer', () => {
+  it('defaults to copy for a separate legacy folder', () => {
+    expect(resolveLegacyTransfer('documents', 'nova-s3', '')).toEqual({
+      transfer: 'copy',
+    });
+    expect(
+      resolveLegacyTransfer('documents', 'nova-s3', 'Legacy', 'move'),
+    ).toEqual({ transfer: 'move' });
+  });
+
+  it('only indexes when the legacy folder already is the root layout', () => {
+    expect(resolveLegacyTransfer('nova-s3', 'nova-s3', '')).toEqual({
+      transfer: 'none',
+    });
+    expect(
+      resolveLegacyTransfer('nova-s3', 'nova-s3', '', 'copy'),
+    ).toHaveProperty('error');
+    expect(
+      resolveLegacyTransfer('nova-s3', 'nova-s3', 'Legacy'),
+    ).toHaveProperty('error');
+  });
+
+  it('rejects overlapping prefixes and index-only imports that nova-s3 could not resolve', () => {
+    expect(resolveLegacyTransfer('nova-s3/old', 'nova-s3', '')).toHaveProperty(
+      'error',
+    );
+    expect(
+      resolveLegacyTransfer('documents', 'nova-s3', '', 'none'),
+    ).toHaveProperty('error');
+  });
+});
+
+describe('parseLegacyKey', () => {
+  it('splits employee and relative path', () => {
+    expect(
+      parseLegacyKey('documents', 'documents/EMP1/Payroll/2024/jan.pdf'),
+    ).toEqual({
+      kind: 'item',
+      employeeNumber: 'EMP1',
+      path: 'Payroll/2024/jan.pdf',
+      isFolder: false,
+    });
+    expect(
+      parseLegacyKey('documents', 'documents/EMP1/Payroll/', 'EMP1'),
+    ).toEqual({
+      kind: 'item',
+      employeeNumber: 'EMP1',
+      path: 'Payroll',
+      isFolder: true,
+    });
+  });
+
+  it('skips loose objects, employee markers and system areas', () => {
+    expect(parseLegacyKey('documents', 'documents/readme.txt')).toEqual({
+      kind: 'unscoped',
+    });
+    expect(parseLegacyKey('documents', 'documents/EMP1/')).toEqual({
+      kind: 'unscoped',
+    });
+    expect(parseLegacyKey('nova-s3', 'nova-s3/.versions/EMP1/a.pdf')).toEqual({
+      kind: 'unscoped',
+    });
+    expect(parseLegacyKey('documents', 'documents/EMP2/a.pdf', 'EMP1')).toEqual(
+      { kind: 'unscoped' },
+    );
+  });
+
+  it('flags paths nova-s3 cannot store', () => {
+    expect(parseLegacyKey('documents', 'documents/EMP1/a//b.pdf')).toEqual({
+      kind: 'invalid',
+      reason: 'invalid path segment',
+    });
+    expect(
+      parseLegacyKey('documents', 'documents/EMP1/../b.pdf'),
+    ).toHaveProperty('kind', 'invalid');
+    expect(
+      parseLegacyKey('documents', `documents/EMP1/${'x'.repeat(256)}`),
+    ).toHaveProperty('kind', 'invalid');
+  });
+});
+
+describe('legacyTargetPath', () => {
+  it('nests under basePath and enforces the column length', () => {
+    expect(legacyTargetPath('', 'a/b.pdf')).toBe('a/b.pdf');
+    expect(legacyTargetPath('Legacy/documents', 'a/b.pdf')).toBe(
+      'Legacy/documents/a/b.pdf',
+    );
+    expect(legacyTargetPath('Legacy', 'x/'.repeat(520) + 'b.pdf')).toBeNull();
+  });
+});
+
+describe('classifyLegacyItem', () => {
+  const target = 'nova-s3/EMP1/a.pdf';
+  const file = { key: 'documents/EMP1/a.pdf', isFolder: false };
+
+  it('imports free paths', () => {
+    expect(classifyLegacyItem(undefined, file, target)).toBe('import');
+  });
+
+  it('recognises its own earlier import', () => {
+    expect(
+      classifyLegacyItem(
+        { type: 'file', s3Key: target, meta: { importedFrom: file.key } },
+        file,
+        target,
+      ),
+    ).toBe('alreadyImported');
+    expect(
+      classifyLegacyItem(
+        { type: 'folder', s3Key: null, meta: null },
+        { key: 'documents/EMP1/A/', isFolder: true },
+        'x',
+      ),
+    ).toBe('alreadyImported');
+  });
+
+  it('treats objects indexed in place as already imported', () => {
+    expect(
+      classifyLegacyItem(
+        { type: 'file', s3Key: null, meta: null },
+        { key: target, isFolder: false },
+        target,
+      ),
+    ).toBe('alreadyImported');
+  });
+
+  it('never overwrites other content at the same path', () => {
+    expect(
+      classifyLegacyItem(
+        { type: 'file', s3Key: target, meta: { op: 'uploadOne' } },
+        file,
+        target,
+      ),
+    ).toBe('conflict');
+    expect(
+      classifyLegacyItem(
+        { type: 'folder', s3Key: null, meta: null },
+        file,
+        target,
+      ),
+    ).toBe('conflict');
+  });
+});
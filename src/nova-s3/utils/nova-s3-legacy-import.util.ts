@@ -0,0 +1,139 @@
+/* src/nova-s3/utils/nova-s3-legacy-import.util.ts
+ *
+ * Reglas puras de la importación del layout legacy de /s3 (`{folder}/{employeeNumber}/...`, ver
+ * S3Service.buildBasePrefix) al índice nova_s3. Sin BD ni S3 para poder testearlas aparte.
+ */
+import { joinPath, nameOf, normPath, normRoot } from './nova-s3-path.util';
+
+export type NovaS3LegacyTransfer = 'none' | 'copy' | 'move';
+
+export type NovaS3LegacyAction = 'import' | 'alreadyImported' | 'conflict';
+
+export type NovaS3LegacyParsed =
+  | { kind: 'item'; employeeNumber: string; path: string; isFolder: boolean }
+  | { kind: 'unscoped' }
+  | { kind: 'invalid'; reason: string };
+
+/** Prefix a recorrer: "folder/" (todos los empleados) o "folder/EMP/". */
+export function legacyPrefix(folder: string, employeeNumber?: string | null) {
+  const base = normPath(folder);
+  const emp = (employeeNumber ?? '').trim();
+  return emp ? `${base}/${emp}/` : `${base}/`;
+}
+
+/**
+ * Qué transferencia aplica (nova-s3 calcula las keys desde el path, así que las filas tienen
+ * que apuntar al layout `{root}/{employeeNumber}/...`):
+ * - folder === root y sin basePath => los objetos ya están en su lugar: solo indexar (`none`)
+ * - prefixes superpuestos en cualquier otro caso => error (copiar dentro del recorrido lo haría infinito)
+ * - resto => `copy` (default) o `move`
+ */
+export function resolveLegacyTransfer(
+  folder: string,
+  root: string,
+  basePath: string,
+  requested?: NovaS3LegacyTransfer,
+): { transfer: NovaS3LegacyTransfer } | { error: string } {
+  const source = `${normPath(folder)}/`;
+  const target = `${normRoot(root)}/`;
+
+  if (source === target) {
+    if (basePath)
+      return {
+        error:
+          'basePath is not supported when the legacy folder is the nova-s3 root',
+      };
+    if (requested && requested !== 'none')
+      return {
+        error: 'Objects are already in the nova-s3 layout: use transfer "none"',
+      };
+    return { transfer: 'none' };
+  }
+  if (source.startsWith(target) || target.startsWith(source)) {
+    return { error: 'Legacy folder overlaps the nova-s3 root' };
+  }
+  if (requested === 'none') {
+    return {
+      error:
+        'transfer "none" only works when the legacy folder is the nova-s3 root (use copy or move)',
+    };
+  }
+  return { transfer: requested ?? 'copy' };
+}
+
+/**
+ * key legacy => empleado + path relativo. No importables:
+ * - unscoped: el prefix mismo, objetos sueltos sin employeeNumber, áreas de sistema (".versions", ".thumbs")
+ * - invalid: paths que nova-s3 no acepta (traversal, segmentos > 255)
+ */
+export function parseLegacyKey(
+  folder: string,
+  key: string,
+  employeeNumber?: string | null,
+): NovaS3LegacyParsed {
+  const base = `${normPath(folder)}/`;
+  if (!key.startsWith(base)) return { kind: 'unscoped' };
+
+  let rest = key.slice(base.length);
+  let emp = (employeeNumber ?? '').trim();
+
+  if (emp) {
+    if (!rest.startsWith(`${emp}/`)) return { kind: 'unscoped' };
+    rest = rest.slice(emp.length + 1);
+  } else {
+    const slash = rest.indexOf('/');
+    if (slash <= 0) return { kind: 'unscoped' };
+    emp = rest.slice(0, slash);
+    rest = rest.slice(slash + 1);
+  }
+
+  if (emp.startsWith('.') || emp.length > 50 || emp.includes('\\'))
+    return { kind: 'unscoped' };
+
+  const isFolder = rest.endsWith('/');
+  let path: string;
+  try {
+    path = normPath(rest);
+  } catch {
+    return { kind: 'invalid', reason: 'invalid path segment' };
+  }
+  if (!path) return { kind: 'unscoped' };
+  if (path.split('/').some((s) => s.length > 255))
+    return { kind: 'invalid', reason: 'name longer than 255' };
+
+  return { kind: 'item', employeeNumber: emp, path, isFolder };
+}
+
+/** Path final en nova_s3 (bajo basePath). null si no entra en la columna (1024). */
+export function legacyTargetPath(basePath: string, path: string) {
+  const full = basePath ? joinPath(basePath, path) : path;
+  if (full.length > 1024 || nameOf(full).length > 255) return null;
+  return full;
+}
+
+/**
+ * Idempotencia: qué hacer con un item según la fila que ya existe en ese path.
+ * - sin fila => import
+ * - misma clase y es el mismo objeto (importado antes desde esta key, o ya vive en esa key) => alreadyImported
+ * - otra cosa ocupa el path => conflict (nunca se pisa)
+ */
+export function classifyLegacyItem(
+  existing:
+    | { type: string; s3Key: string | null; meta: Record<string, any> | null }
+    | undefined,
+  item: { key: string; isFolder: boolean },
+  targetKey: string,
+): NovaS3LegacyAction {
+  if (!existing) return 'import';
+
+  const existingIsFolder = existing.type === 'folder';
+  if (existingIsFolder !== item.isFolder) return 'conflict';
+  if (item.isFolder) return 'alreadyImported';
+
+  // filas viejas sin s3Key usan la key calculada desde el path
+  const existingKey = existing.s3Key ?? targetKey;
+  const sameObject =
+    existingKey === targetKey &&
+    (existing.meta?.importedFrom === item.key || item.key === targetKey);
+  return sameObject ? 'alreadyImported' : 'conflict';
+}
@@ -0,0 +1,77 @@
+/* src/nova-s3/utils/nova-s3-multipart.util.spec.ts */
+import { isStaleUpload, planMultipartSweep } from './nova-s3-multipart.util';
+
+const now = new Date('2026-01-02T12:00:00Z');
+const ago = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+describe('isStaleUpload', () => {
+  it('is stale only after the window', () => {
+    expect(isStaleUpload(ago(23), now, 24)).toBe(false);
+    expect(isStaleUpload(ago(24), now, 24)).toBe(true);
+  });
+
+  it('never treats an unknown start as stale', () => {
+    expect(isStaleUpload(null, now, 0)).toBe(false);
+    expect(isStaleUpload(undefined, now, 24)).toBe(false);
+  });
+});
+
+describe('planMultipartSweep', () => {
+  it('aborts stale tracked and untracked uploads still open in S3', () => {
+    const plan = planMultipartSweep(
+      [{ uploadId: 'u1', s3Key: 'nova-s3/E/a.mp4', createdAt: ago(30) }],
+      [
+        { key: 'nova-s3/E/a.mp4', uploadId: 'u1', initiated: ago(30) },
+        { key: 'nova-s3/E/b.mp4', uploadId: 'u2', initiated: ago(48) },
+        { key: 'nova-s3/E/c.mp4', uploadId: 'u3', initiated: ago(1) },
+      ],
+      now,
+      24,
+    );
+
+    expect(plan.abort).toEqual([
+      {
+        key: 'nova-s3/E/a.mp4',
+        uploadId: 'u1',
+        initiated: ago(30),
+        tracked: true,
+      },
+      {
+        key: 'nova-s3/E/b.mp4',
+        uploadId: 'u2',
+        initiated: ago(48),
+        tracked: false,
+      },
+    ]);
+    expect(plan.missing).toEqual([]);
+  });
+
+  it('falls back to the tracked creation time when S3 has no date', () => {
+    const plan = planMultipartSweep(
+      [{ uploadId: 'u1', s3Key: 'k', createdAt: ago(30) }],
+      [
+        { key: 'k', uploadId: 'u1' },
+        { key: 'k2', uploadId: 'u2' },
+      ],
+      now,
+      24,
+    );
+
+    expect(plan.abort.map((a) => a.uploadId)).toEqual(['u1']);
+  });
+
+  it('reports stale tracked uploads that S3 no longer has', () => {
+    const plan = planMultipartSweep(
+      [
+        { uploadId: 'gone-old', s3Key: 'k1', createdAt: ago(30) },
+        { uploadId: 'gone-new', s3Key: 'k2', createdAt: ago(2) },
+      ],
+      [],
+      now,
+      24,
+    );
+
+    expect(plan.abort).toEqual([]);
+    expect(plan.missing).toEqual(['gone-old']);
+  });
+});
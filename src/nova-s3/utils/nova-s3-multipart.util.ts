@@ -0,0 +1,73 @@
+/* src/nova-s3/utils/nova-s3-multipart.util.ts
+ *
+ * Reglas puras del sweeper de multipart uploads abandonados (sin BD ni S3) para poder testearlas aparte.
+ */
+
+/** Multipart upload en curso según ListMultipartUploads. */
+export type NovaS3PendingUpload = {
+  key: string;
+  uploadId: string;
+  initiated?: Date | null;
+};
+
+/** Multipart upload registrado en nova_s3_multipart todavía `open`. */
+export type NovaS3TrackedUpload = {
+  uploadId: string;
+  s3Key: string;
+  createdAt: Date;
+};
+
+export type NovaS3MultipartSweepPlan = {
+  // siguen en S3 y están viejos => AbortMultipartUpload
+  abort: {
+    key: string;
+    uploadId: string;
+    initiated: Date | null;
+    tracked: boolean;
+  }[];
+  // registrados como open pero ya no están en S3 (completados / abortados por fuera) => solo cerrar la fila
+  missing: string[];
+};
+
+/** Un upload es viejo si empezó hace `staleHours` o más. Sin fecha de inicio => no se toca. */
+export function isStaleUpload(
+  initiated: Date | null | undefined,
+  now: Date,
+  staleHours: number,
+) {
+  if (!initiated) return false;
+  return now.getTime() - initiated.getTime() >= staleHours * 60 * 60 * 1000;
+}
+
+/**
+ * Cruza lo registrado en BD con lo que S3 tiene en curso bajo el mismo prefijo.
+ * - En S3 y viejo (registrado o no) => abort. La fecha de S3 manda; si no viene, la de la BD.
+ * - Registrado, viejo y ausente de S3 => missing.
+ */
+export function planMultipartSweep(
+  tracked: NovaS3TrackedUpload[],
+  inS3: NovaS3PendingUpload[],
+  now: Date,
+  staleHours: number,
+): NovaS3MultipartSweepPlan {
+  const trackedById = new Map(tracked.map((t) => [t.uploadId, t]));
+  const inS3Ids = new Set(inS3.map((u) => u.uploadId));
+
+  const abort: NovaS3MultipartSweepPlan['abort'] = [];
+  for (const u of inS3) {
+    const t = trackedById.get(u.uploadId);
+    const initiated = u.initiated ?? t?.createdAt ?? null;
+    if (isStaleUpload(initiated, now, staleHours)) {
+      abort.push({ key: u.key, uploadId: u.uploadId, initiated, tracked: !!t });
+    }
+  }
+
+  const missing = tracked
+    .filter(
+      (t) =>
+        !inS3Ids.has(t.uploadId) && isStaleUpload(t.createdAt, now, staleHours),
+    )
+    .map((t) => t.uploadId);
+
+  return { abort, missing };
+}
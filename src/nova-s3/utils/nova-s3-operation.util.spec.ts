@@ -0,0 +1,104 @@
+/* src/nova-s3/utils/nova-s3-operation.util.spec.ts */
+import {
+  isRecoverableOperation,
+  mapPrefixKey,
+  pathsOverlap,
+  planRecovery,
+} from './nova-s3-operation.util';
+
+describe('planRecovery', () => {
+  it('auto rolls back while copying and resumes once the copy is complete', () => {
+    expect(planRecovery('copy')).toBe('rollback');
+    expect(planRecovery('db')).toBe('resume');
+    expect(planRecovery('delete')).toBe('resume');
+  });
+
+  it('honours an explicit action before the DB commit', () => {
+    expect(planRecovery('copy', 'resume')).toBe('resume');
+    expect(planRecovery('db', 'rollback')).toBe('rollback');
+  });
+
+  it('refuses to roll back after the DB commit', () => {
+    expect(planRecovery('delete', 'rollback')).toBeNull();
+    expect(planRecovery('delete', 'resume')).toBe('resume');
+  });
+
+  it('has nothing to do for finished operations', () => {
+    expect(planRecovery('done')).toBeNull();
+    expect(planRecovery('done', 'resume')).toBeNull();
+  });
+});
+
+describe('isRecoverableOperation', () => {
+  const now = new Date('2026-01-01T12:00:00Z');
+  const ago = (minutes: number) =>
+    new Date(now.getTime() - minutes * 60 * 1000);
+
+  it('treats running operations as interrupted only after the stale window', () => {
+    expect(
+      isRecoverableOperation({ status: 'running', updatedAt: ago(2) }, now, 10),
+    ).toBe(false);
+    expect(
+      isRecoverableOperation(
+        { status: 'running', updatedAt: ago(10) },
+        now,
+        10,
+      ),
+    ).toBe(true);
+  });
+
+  it('always recovers failed operations and never finished ones', () => {
+    expect(
+      isRecoverableOperation({ status: 'failed', updatedAt: ago(0) }, now, 10),
+    ).toBe(true);
+    expect(
+      isRecoverableOperation(
+        { status: 'completed', updatedAt: ago(60) },
+        now,
+        10,
+      ),
+    ).toBe(false);
+    expect(
+      isRecoverableOperation(
+        { status: 'rolledBack', updatedAt: ago(60) },
+        now,
+        10,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('pathsOverlap', () => {
+  it('detects equal and nested paths', () => {
+    expect(pathsOverlap('Marketing', 'Marketing')).toBe(true);
+    expect(pathsOverlap('Marketing', 'Marketing/Q1')).toBe(true);
+    expect(pathsOverlap('Marketing/Q1', 'Marketing')).toBe(true);
+    expect(pathsOverlap('', 'Anything')).toBe(true);
+  });
+
+  it('does not confuse siblings sharing a name prefix', () => {
+    expect(pathsOverlap('Marketing', 'Marketing2')).toBe(false);
+    expect(pathsOverlap('Sales/Q1', 'Marketing/Q1')).toBe(false);
+  });
+});
+
+describe('mapPrefixKey', () => {
+  it('keeps the relative path under the new prefix', () => {
+    expect(
+      mapPrefixKey(
+        'nova-s3/EMP1/A',
+        'nova-s3/EMP1/B/A',
+        'nova-s3/EMP1/A/x/y.pdf',
+      ),
+    ).toBe('nova-s3/EMP1/B/A/x/y.pdf');
+    expect(
+      mapPrefixKey('nova-s3/EMP1/A', 'nova-s3/EMP1/Z', 'nova-s3/EMP1/A/'),
+    ).toBe('nova-s3/EMP1/Z/');
+  });
+
+  it('ignores keys outside the source prefix', () => {
+    expect(
+      mapPrefixKey('nova-s3/EMP1/A', 'nova-s3/EMP1/Z', 'nova-s3/EMP1/AB/x.pdf'),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+/* src/nova-s3/utils/nova-s3-operation.util.ts
+ *
+ * Reglas puras del journal de operaciones (sin BD ni S3) para poder testearlas aparte.
+ */
+import type {
+  NovaS3OperationPhase,
+  NovaS3OperationStatus,
+} from '../entities/nova-s3-operation.entity';
+
+export type NovaS3RecoveryAction = 'resume' | 'rollback';
+
+/**
+ * Qué hacer con una operación interrumpida.
+ * - auto: antes del commit de BD se deshace (el original sigue intacto), salvo que la copia ya haya terminado;
+ *   después del commit solo queda seguir.
+ * - rollback después del commit => null (no permitido: la BD ya apunta al destino).
+ */
+export function planRecovery(
+  phase: NovaS3OperationPhase,
+  requested: NovaS3RecoveryAction | 'auto' = 'auto',
+): NovaS3RecoveryAction | null {
+  if (phase === 'done') return null;
+
+  if (requested === 'auto') return phase === 'copy' ? 'rollback' : 'resume';
+  if (requested === 'rollback' && phase === 'delete') return null;
+
+  return requested;
+}
+
+/**
+ * Una operación `running` solo se considera interrumpida si no avanzó (heartbeat) en `staleMinutes`:
+ * puede estar corriendo de verdad en otra instancia. `failed` siempre se puede recuperar.
+ */
+export function isRecoverableOperation(
+  op: { status: NovaS3OperationStatus; updatedAt: Date },
+  now: Date,
+  staleMinutes: number,
+) {
+  if (op.status === 'failed') return true;
+  if (op.status !== 'running') return false;
+  return now.getTime() - op.updatedAt.getTime() >= staleMinutes * 60 * 1000;
+}
+
+/** Dos paths relativos se pisan si son iguales o uno contiene al otro ('' = raíz, contiene todo). */
+export function pathsOverlap(a: string, b: string) {
+  if (a === b || !a || !b) return true;
+  return a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
+
+/** Key destino de `key` (bajo sourcePrefix) manteniendo la ruta relativa. Prefijos sin "/" final. */
+export function mapPrefixKey(
+  sourcePrefix: string,
+  targetPrefix: string,
+  key: string,
+) {
+  if (!key.startsWith(`${sourcePrefix}/`)) return null;
+  return `${targetPrefix}/${key.slice(sourcePrefix.length + 1)}`;
+}
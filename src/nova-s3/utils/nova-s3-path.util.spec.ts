@@ -0,0 +1,106 @@
+/* src/nova-s3/utils/nova-s3-path.util.spec.ts */
+import { BadRequestException } from '@nestjs/common';
+
+import {
+  buildTenantS3Key,
+  clampExpiry,
+  copyName,
+  joinPath,
+  nameOf,
+  normPath,
+  normRoot,
+  numberedName,
+  parentOf,
+  s3BaseFolder,
+  splitExt,
+  systemS3Prefix,
+} from './nova-s3-path.util';
+
+describe('normRoot / normPath', () => {
+  it('defaults the root to nova-s3', () =>
+    expect(normRoot(undefined)).toBe('nova-s3'));
+  it('trims slashes around the root', () =>
+    expect(normRoot('/docs/')).toBe('docs'));
+
+  it('normalizes Windows separators and outer slashes', () => {
+    expect(normPath(' \\Marketing\\Creatives\\ ')).toBe('Marketing/Creatives');
+  });
+
+  it('rejects traversal segments', () => {
+    expect(() => normPath('Marketing/../hr')).toThrow(BadRequestException);
+    expect(() => normPath('./a')).toThrow(BadRequestException);
+  });
+
+  it('rejects empty segments', () =>
+    expect(() => normPath('a//b')).toThrow(BadRequestException));
+});
+
+describe('joinPath / parentOf / nameOf', () => {
+  it('joins at root without a leading slash', () =>
+    expect(joinPath('', 'a.txt')).toBe('a.txt'));
+  it('joins inside a folder', () =>
+    expect(joinPath('A/B', 'c.txt')).toBe('A/B/c.txt'));
+  it('returns the parent path', () => expect(parentOf('A/B/C')).toBe('A/B'));
+  it('returns "" as parent of a root item', () =>
+    expect(parentOf('A')).toBe(''));
+  it('returns the last segment', () =>
+    expect(nameOf('A/B/C.pdf')).toBe('C.pdf'));
+});
+
+describe('splitExt', () => {
+  it('splits the last extension', () =>
+    expect(splitExt('report.final.pdf')).toEqual(['report.final', '.pdf']));
+  it('keeps dotfiles whole', () =>
+    expect(splitExt('.env')).toEqual(['.env', '']));
+  it('handles names without extension', () =>
+    expect(splitExt('README')).toEqual(['README', '']));
+});
+
+describe('copyName', () => {
+  it('prefixes the first copy', () =>
+    expect(copyName('report.pdf', false)).toBe('Copy of report.pdf'));
+  it('numbers later copies before the extension', () => {
+    expect(copyName('report.pdf', false, 3)).toBe('Copy of report (3).pdf');
+  });
+  it('does not split folder names', () =>
+    expect(copyName('v1.2', true, 2)).toBe('Copy of v1.2 (2)'));
+});
+
+describe('numberedName', () => {
+  it('numbers before the extension', () =>
+    expect(numberedName('report.pdf', false, 2)).toBe('report (2).pdf'));
+  it('does not split folder names', () =>
+    expect(numberedName('v1.2', true, 3)).toBe('v1.2 (3)'));
+});
+
+describe('S3 keys', () => {
+  it('scopes the base folder by employee', () => {
+    expect(s3BaseFolder('nova-s3', 'EMP1')).toBe('nova-s3/EMP1');
+    expect(s3BaseFolder('nova-s3', null)).toBe('nova-s3');
+  });
+
+  it('builds file and folder keys', () => {
+    expect(buildTenantS3Key('nova-s3', 'EMP1', 'A/b.png')).toBe(
+      'nova-s3/EMP1/A/b.png',
+    );
+    expect(buildTenantS3Key('nova-s3', 'EMP1', 'A', true)).toBe(
+      'nova-s3/EMP1/A/',
+    );
+  });
+
+  it('keeps system prefixes outside the employee space', () => {
+    const prefix = systemS3Prefix('nova-s3', 'trash', 'EMP1');
+    expect(prefix).toBe('nova-s3/.trash/EMP1');
+    expect(prefix.startsWith(s3BaseFolder('nova-s3', 'EMP1') + '/')).toBe(
+      false,
+    );
+  });
+});
+
+describe('clampExpiry', () => {
+  it('uses the default for garbage', () =>
+    expect(clampExpiry(Number.NaN, 300)).toBe(300));
+  it('clamps to at least 60 s', () => expect(clampExpiry(5, 300)).toBe(60));
+  it('clamps to at most 24 h', () =>
+    expect(clampExpiry(10 ** 9, 300)).toBe(86400));
+});
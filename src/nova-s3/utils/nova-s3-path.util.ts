@@ -0,0 +1,125 @@
+/* src/nova-s3/utils/nova-s3-path.util.ts
+ *
+ * Path helpers compartidos por los servicios de nova-s3 (sin estado, sin S3, sin BD).
+ *
+ * - path relativo: "Marketing/Creatives/logo.png" (lo que se guarda en nova_s3.path)
+ * - base S3 del empleado: "{root}/{employeeNumber}"
+ * - prefijos de sistema: "{root}/.{area}/{employeeNumber}" (papelera, versiones, ...),
+ *   fuera del espacio del empleado para que ningún folder del usuario los pise.
+ */
+import { BadRequestException } from '@nestjs/common';
+
+/** Normalize root: trim slashes, default to "nova-s3". */
+export function normRoot(root?: string) {
+  return (root || 'nova-s3').replace(/^\/|\/$/g, '');
+}
+
+/** Normalize path: trim, remove leading/trailing slashes. Rejects traversal segments. */
+export function normPath(path?: string) {
+  const out = (path || '')
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\/|\/$/g, '');
+  if (out) {
+    for (const seg of out.split('/')) {
+      if (seg === '' || seg === '.' || seg === '..') {
+        throw new BadRequestException(`Invalid path segment in "${out}"`);
+      }
+    }
+  }
+  return out;
+}
+
+/** Clamp client-provided expiry seconds: min 60s, max 86400s (24h). */
+export function clampExpiry(seconds: number | undefined, def: number) {
+  const s = Number(seconds);
+  if (!Number.isFinite(s)) return def;
+  return Math.min(Math.max(Math.floor(s), 60), 86400);
+}
+
+/** Join base path + name safely (no duplicate slashes). */
+export function joinPath(path: string, name: string) {
+  const p = normPath(path);
+  const n = normPath(name);
+  return p ? `${p}/${n}` : n;
+}
+
+/** Parent path of a relative path. Example: "A/B/C" => "A/B" */
+export function parentOf(relativePath: string) {
+  const clean = normPath(relativePath);
+  if (!clean) return '';
+  const parts = clean.split('/');
+  parts.pop();
+  return parts.join('/');
+}
+
+/** Last segment name of a relative path. Example: "A/B/C" => "C" */
+export function nameOf(relativePath: string) {
+  const clean = normPath(relativePath);
+  if (!clean) return '';
+  return clean.split('/').pop() || '';
+}
+
+/** Split "report.pdf" => ["report", ".pdf"]. Dotfiles / no extension => [name, ""]. */
+export function splitExt(name: string): [string, string] {
+  const dot = name.lastIndexOf('.');
+  if (dot <= 0) return [name, ''];
+  return [name.slice(0, dot), name.slice(dot)];
+}
+
+/**
+ * Nombre de una copia: attempt 1 => "Copy of report.pdf", 2 => "Copy of report (2).pdf" ...
+ * Folders no separan extensión.
+ */
+export function copyName(name: string, isFolder: boolean, attempt = 1) {
+  const [base, ext] = isFolder ? [name, ''] : splitExt(name);
+  return attempt <= 1
+    ? `Copy of ${base}${ext}`
+    : `Copy of ${base} (${attempt})${ext}`;
+}
+
+/**
+ * Nombre libre para "keep both": n=2 => "report (2).pdf", 3 => "report (3).pdf" ...
+ * Folders no separan extensión.
+ */
+export function numberedName(name: string, isFolder: boolean, n: number) {
+  const [base, ext] = isFolder ? [name, ''] : splitExt(name);
+  return `${base} (${n})${ext}`;
+}
+
+/** "EMP123" (normalized) or "" when there is no employee. */
+export function tenantPrefix(employeeNumber?: string | null) {
+  const e = (employeeNumber ?? '').trim();
+  return e ? normPath(e) : '';
+}
+
+/** Base S3 folder: root, or root/employeeNumber. */
+export function s3BaseFolder(root: string, employeeNumber?: string | null) {
+  const tenant = tenantPrefix(employeeNumber);
+  return tenant ? `${normRoot(root)}/${tenant}` : normRoot(root);
+}
+
+/** Final S3 key for a relative path (folders get a trailing slash). */
+export function buildTenantS3Key(
+  root: string,
+  employeeNumber: string | null,
+  relativePath: string,
+  isFolder = false,
+) {
+  const base = s3BaseFolder(root, employeeNumber);
+  const rel = normPath(relativePath);
+  const full = rel ? `${base}/${rel}` : base;
+  return isFolder ? (full.endsWith('/') ? full : `${full}/`) : full;
+}
+
+/**
+ * System prefix outside the employee space: {root}/.{area}/{employeeNumber}
+ * Example: systemS3Prefix('nova-s3', 'versions', 'EMP1') => "nova-s3/.versions/EMP1"
+ */
+export function systemS3Prefix(
+  root: string,
+  area: string,
+  employeeNumber: string | null,
+) {
+  return `${normRoot(root)}/.${area}/${tenantPrefix(employeeNumber)}`;
+}
@@ -0,0 +1,74 @@
+/* src/nova-s3/utils/nova-s3-quota.util.spec.ts */
+import {
+  exceedsQuota,
+  formatBytes,
+  parseRootQuotas,
+  quotaUsage,
+} from './nova-s3-quota.util';
+
+describe('parseRootQuotas', () => {
+  it('reads positive byte limits per root', () => {
+    expect(
+      parseRootQuotas('{"nova-s3": 1073741824, "marketing": "2048"}'),
+    ).toEqual({
+      'nova-s3': 1073741824,
+      marketing: 2048,
+    });
+  });
+
+  it('ignores invalid entries and broken JSON', () => {
+    expect(parseRootQuotas('{"a": -1, "b": "x", "c": 0}')).toEqual({});
+    expect(parseRootQuotas('{not json')).toEqual({});
+    expect(parseRootQuotas('[1,2]')).toEqual({});
+    expect(parseRootQuotas(undefined)).toEqual({});
+  });
+});
+
+describe('quotaUsage', () => {
+  it('reports remaining space and the warning threshold', () => {
+    expect(quotaUsage(900, 1000, 90)).toEqual({
+      used: 900,
+      limit: 1000,
+      remaining: 100,
+      percentUsed: 90,
+      warnPercent: 90,
+      warning: true,
+      exceeded: false,
+    });
+    expect(quotaUsage(100, 1000, 90).warning).toBe(false);
+  });
+
+  it('never reports negative remaining space', () => {
+    const usage = quotaUsage(1500, 1000, 90);
+    expect(usage.remaining).toBe(0);
+    expect(usage.exceeded).toBe(true);
+  });
+
+  it('has no limit, warning or remaining when unlimited', () => {
+    expect(quotaUsage(5, null, 90)).toMatchObject({
+      limit: null,
+      remaining: null,
+      warning: false,
+      exceeded: false,
+    });
+  });
+});
+
+describe('exceedsQuota', () => {
+  it('allows filling the quota exactly', () => {
+    expect(exceedsQuota(900, 100, 1000)).toBe(false);
+    expect(exceedsQuota(900, 101, 1000)).toBe(true);
+  });
+
+  it('never blocks without a limit', () => {
+    expect(exceedsQuota(1e15, 1e15, null)).toBe(false);
+  });
+});
+
+describe('formatBytes', () => {
+  it('formats human readable sizes', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(10 * 1024 * 1024 * 1024)).toBe('10 GB');
+  });
+});
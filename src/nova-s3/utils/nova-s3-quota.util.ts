@@ -0,0 +1,92 @@
+/* src/nova-s3/utils/nova-s3-quota.util.ts
+ *
+ * Cálculos puros de cuota (sin BD) para poder testearlos aparte.
+ */
+
+/**
+ * NOVA_S3_ROOT_QUOTAS: JSON { "<root>": bytes }. Valores inválidos o <= 0 se ignoran (= sin cuota propia).
+ * Un JSON roto no tira el proceso: devuelve {} (y aplica el default).
+ */
+export function parseRootQuotas(raw?: string | null): Record<string, number> {
+  if (!raw || !raw.trim()) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed))
+      return {};
+
+    const out: Record<string, number> = {};
+    for (const [root, bytes] of Object.entries(
+      parsed as Record<string, unknown>,
+    )) {
+      const n = Number(bytes);
+      if (Number.isFinite(n) && n > 0) out[root] = Math.floor(n);
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+export type NovaS3QuotaUsage = {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  percentUsed: number | null;
+  warnPercent: number;
+  warning: boolean;
+  exceeded: boolean;
+};
+
+/** limit null = sin límite. warning a partir de warnPercent% usado (inclusive). */
+export function quotaUsage(
+  used: number,
+  limit: number | null,
+  warnPercent: number,
+): NovaS3QuotaUsage {
+  if (limit === null) {
+    return {
+      used,
+      limit: null,
+      remaining: null,
+      percentUsed: null,
+      warnPercent,
+      warning: false,
+      exceeded: false,
+    };
+  }
+
+  const percentUsed =
+    limit > 0 ? Math.round((used / limit) * 10000) / 100 : 100;
+
+  return {
+    used,
+    limit,
+    remaining: Math.max(limit - used, 0),
+    percentUsed,
+    warnPercent,
+    warning: percentUsed >= warnPercent,
+    exceeded: used > limit,
+  };
+}
+
+/** ¿Subir `incoming` bytes deja el espacio por encima del límite? */
+export function exceedsQuota(
+  used: number,
+  incoming: number,
+  limit: number | null,
+) {
+  return limit !== null && used + incoming > limit;
+}
+
+/** Bytes legibles para los mensajes de error ("1.5 GB"). */
+export function formatBytes(bytes: number) {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let i = 0;
+  while (value >= 1024 && i < units.length - 1) {
+    value /= 1024;
+    i++;
+  }
+  return `${i === 0 ? value : value.toFixed(1).replace(/\.0$/, '')} ${units[i]}`;
+}
@@ -0,0 +1,88 @@
+/* src/nova-s3/utils/nova-s3-reconcile.util.spec.ts */
+import { diffStorageIndex, NovaS3IndexedRow } from './nova-s3-reconcile.util';
+
+const base = 'nova-s3/EMP1';
+const old = new Date('2026-01-01T00:00:00Z');
+const grace = new Date('2026-06-01T00:00:00Z');
+const recent = new Date('2026-07-01T00:00:00Z');
+
+const file = (
+  path: string,
+  size: number | null,
+  updatedAt = old,
+): NovaS3IndexedRow => ({
+  id: path,
+  path,
+  type: 'file',
+  s3Key: `${base}/${path}`,
+  size,
+  updatedAt,
+});
+
+describe('diffStorageIndex', () => {
+  it('matches files by key and flags size mismatches', () => {
+    const diff = diffStorageIndex(
+      base,
+      [
+        { key: `${base}/A/ok.png`, size: 10, lastModified: old },
+        { key: `${base}/A/bad.png`, size: 99, lastModified: old },
+      ],
+      [file('A/ok.png', 10), file('A/bad.png', 10)],
+      grace,
+    );
+
+    expect(diff.matched).toHaveLength(2);
+    expect(diff.sizeMismatches.map((m) => m.row.path)).toEqual(['A/bad.png']);
+    expect(diff.orphans).toEqual([]);
+    expect(diff.missing).toEqual([]);
+  });
+
+  it('reports orphan objects and rows without objects', () => {
+    const diff = diffStorageIndex(
+      base,
+      [{ key: `${base}/lost.pdf`, size: 5, lastModified: old }],
+      [file('gone.pdf', 7)],
+      grace,
+    );
+
+    expect(diff.orphans.map((o) => o.path)).toEqual(['lost.pdf']);
+    expect(diff.missing.map((r) => r.path)).toEqual(['gone.pdf']);
+  });
+
+  it('only treats folder markers without a folder row as orphans', () => {
+    const diff = diffStorageIndex(
+      base,
+      [
+        { key: `${base}/Kept/`, size: 0, lastModified: old },
+        { key: `${base}/Stale/`, size: 0, lastModified: old },
+      ],
+      [
+        {
+          id: 'f',
+          path: 'Kept',
+          type: 'folder',
+          s3Key: `${base}/Kept/`,
+          size: null,
+        },
+      ],
+      grace,
+    );
+
+    expect(diff.orphans).toEqual([
+      expect.objectContaining({ path: 'Stale', isFolderMarker: true }),
+    ]);
+    expect(diff.missing).toEqual([]);
+  });
+
+  it('ignores anything touched inside the grace window', () => {
+    const diff = diffStorageIndex(
+      base,
+      [{ key: `${base}/uploading.mp4`, size: 5, lastModified: recent }],
+      [file('just-registered.pdf', 7, recent)],
+      grace,
+    );
+
+    expect(diff.orphans).toEqual([]);
+    expect(diff.missing).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+/* src/nova-s3/utils/nova-s3-reconcile.util.ts
+ *
+ * Comparación BD (nova_s3) vs S3 (ListObjectsV2) — puro, sin I/O, para poder testearlo aparte.
+ */
+
+export interface NovaS3StoredObject {
+  key: string;
+  size: number;
+  lastModified?: Date;
+}
+
+export interface NovaS3IndexedRow {
+  id: string;
+  path: string;
+  type: string;
+  // key efectiva (row.s3Key o la calculada desde path)
+  s3Key: string;
+  size: number | null;
+  updatedAt?: Date | null;
+}
+
+export interface NovaS3StorageDiff {
+  // objeto en S3 sin fila (path = relativo al baseFolder)
+  orphans: (NovaS3StoredObject & { path: string; isFolderMarker: boolean })[];
+  // fila file sin objeto
+  missing: NovaS3IndexedRow[];
+  // fila + objeto con distinto tamaño
+  sizeMismatches: { row: NovaS3IndexedRow; object: NovaS3StoredObject }[];
+  // todos los pares fila/objeto (para chequeos extra, ej: mime con HEAD)
+  matched: { row: NovaS3IndexedRow; object: NovaS3StoredObject }[];
+}
+
+/**
+ * - Files: se emparejan por key. Folders: solo cuentan los markers ("path/") sin fila folder;
+ *   un folder sin marker NO es faltante (ensureFolderChain no crea markers).
+ * - `graceBefore`: lo modificado después de esa fecha se ignora (uploads presigned todavía
+ *   sin register, operaciones en curso) para no reportar falsos positivos.
+ */
+export function diffStorageIndex(
+  baseFolder: string,
+  objects: NovaS3StoredObject[],
+  rows: NovaS3IndexedRow[],
+  graceBefore: Date,
+): NovaS3StorageDiff {
+  const prefix = `${baseFolder}/`;
+  const fileRowsByKey = new Map<string, NovaS3IndexedRow>();
+  const folderPaths = new Set<string>();
+
+  for (const row of rows) {
+    if (row.type === 'folder') folderPaths.add(row.path);
+    else fileRowsByKey.set(row.s3Key, row);
+  }
+
+  const isRecent = (d?: Date | null) =>
+    !!d && d.getTime() > graceBefore.getTime();
+
+  const diff: NovaS3StorageDiff = {
+    orphans: [],
+    missing: [],
+    sizeMismatches: [],
+    matched: [],
+  };
+  const seen = new Set<string>();
+
+  for (const obj of objects) {
+    if (!obj.key.startsWith(prefix) || obj.key === prefix) continue;
+
+    const rel = obj.key.slice(prefix.length);
+
+    if (rel.endsWith('/')) {
+      const path = rel.slice(0, -1);
+      if (!folderPaths.has(path) && !isRecent(obj.lastModified)) {
+        diff.orphans.push({ ...obj, path, isFolderMarker: true });
+      }
+      continue;
+    }
+
+    const row = fileRowsByKey.get(obj.key);
+    if (!row) {
+      if (!isRecent(obj.lastModified))
+        diff.orphans.push({ ...obj, path: rel, isFolderMarker: false });
+      continue;
+    }
+
+    seen.add(obj.key);
+    diff.matched.push({ row, object: obj });
+
+    if (
+      row.size !== null &&
+      Number(row.size) !== obj.size &&
+      !isRecent(row.updatedAt)
+    ) {
+      diff.sizeMismatches.push({ row, object: obj });
+    }
+  }
+
+  for (const [key, row] of fileRowsByKey) {
+    if (!seen.has(key) && !isRecent(row.updatedAt)) diff.missing.push(row);
+  }
+
+  return diff;
+}
@@ -0,0 +1,97 @@
+/* src/nova-s3/utils/nova-s3-root.util.spec.ts */
+import {
+  canUseRoot,
+  isValidRootName,
+  normBasePrefix,
+  NOVA_S3_SHARED_SPACE,
+  NovaS3RootConfig,
+  physicalLocation,
+  prefixesOverlap,
+  rootOfKey,
+  spaceOwner,
+} from './nova-s3-root.util';
+
+const root = (over: Partial<NovaS3RootConfig> = {}): NovaS3RootConfig => ({
+  name: 'nova-s3',
+  bucket: null,
+  basePrefix: null,
+  employeeScoped: true,
+  defaultUrlExpirySeconds: null,
+  allowedEmployees: null,
+  enabled: true,
+  ...over,
+});
+
+describe('isValidRootName / normBasePrefix', () => {
+  it('accepts plain names and rejects slashes or system-like names', () => {
+    expect(isValidRootName('nova-s3')).toBe(true);
+    expect(isValidRootName('hr_docs.2026')).toBe(true);
+    expect(isValidRootName('a/b')).toBe(false);
+    expect(isValidRootName('.trash')).toBe(false);
+    expect(isValidRootName('')).toBe(false);
+  });
+
+  it('normalizes the base prefix and maps empty to null', () => {
+    expect(normBasePrefix('/drive//nova/')).toBe('drive/nova');
+    expect(normBasePrefix('  ')).toBeNull();
+    expect(normBasePrefix(null)).toBeNull();
+  });
+});
+
+describe('physicalLocation', () => {
+  it('keeps the key and the default bucket for an unregistered root', () => {
+    expect(physicalLocation('s3/legacy/a.pdf', null)).toEqual({
+      bucket: null,
+      key: 's3/legacy/a.pdf',
+    });
+  });
+
+  it('keeps the key when the root has no base prefix', () => {
+    expect(physicalLocation('nova-s3/EMP1/a.png', root())).toEqual({
+      bucket: null,
+      key: 'nova-s3/EMP1/a.png',
+    });
+  });
+
+  it('swaps the root segment for the base prefix and uses the root bucket', () => {
+    const hr = root({ name: 'hr', bucket: 'nova-hr', basePrefix: 'drive/hr' });
+    expect(physicalLocation('hr/EMP1/Payroll/a.pdf', hr)).toEqual({
+      bucket: 'nova-hr',
+      key: 'drive/hr/EMP1/Payroll/a.pdf',
+    });
+    expect(physicalLocation('hr/.trash/EMP1/', hr).key).toBe(
+      'drive/hr/.trash/EMP1/',
+    );
+    expect(physicalLocation('hr', hr).key).toBe('drive/hr');
+  });
+});
+
+describe('rootOfKey / prefixesOverlap', () => {
+  it('returns the first key segment', () => {
+    expect(rootOfKey('nova-s3/EMP1/a.png')).toBe('nova-s3');
+    expect(rootOfKey('nova-s3')).toBe('nova-s3');
+  });
+
+  it('detects equal or nested prefixes only', () => {
+    expect(prefixesOverlap('drive', 'drive/hr')).toBe(true);
+    expect(prefixesOverlap('drive/hr', 'drive/hr')).toBe(true);
+    expect(prefixesOverlap('drive/hr', 'drive/hr2')).toBe(false);
+  });
+});
+
+describe('canUseRoot / spaceOwner', () => {
+  it('allows everyone unless there is an allow-list', () => {
+    expect(canUseRoot(root(), 'EMP1')).toBe(true);
+    expect(canUseRoot(root({ allowedEmployees: ['EMP2'] }), 'EMP1')).toBe(
+      false,
+    );
+    expect(canUseRoot(root({ allowedEmployees: ['EMP2'] }), 'EMP2')).toBe(true);
+  });
+
+  it('puts everyone in the shared space of a non employee-scoped root', () => {
+    expect(spaceOwner(root(), 'EMP1')).toBe('EMP1');
+    expect(spaceOwner(root({ employeeScoped: false }), 'EMP1')).toBe(
+      NOVA_S3_SHARED_SPACE,
+    );
+  });
+});
@@ -0,0 +1,90 @@
+/* src/nova-s3/utils/nova-s3-root.util.ts
+ *
+ * Registro de roots (nova_s3_root) — helpers puros (sin BD ni S3 para poder testearlos aparte).
+ *
+ * Key lógica vs física:
+ * - todo el módulo sigue armando keys lógicas "{root}/{employeeNumber}/..." (s3BaseFolder / buildTenantS3Key)
+ *   y eso es lo que se guarda en nova_s3.s3Key
+ * - el storage las traduce al bucket y al basePrefix del root justo antes de hablar con S3:
+ *   "{root}/rest" => bucket del root (null = BUCKET) + "{basePrefix}/rest" (basePrefix null = el nombre del root)
+ * - una key cuyo root no está registrado (legacy "s3/...") queda igual, en el bucket por defecto
+ */
+import { normPath } from './nova-s3-path.util';
+
+/** Dueño del único espacio de un root no employee-scoped (todos los empleados permitidos ven lo mismo). */
+export const NOVA_S3_SHARED_SPACE = '_shared';
+
+export type NovaS3RootConfig = {
+  name: string;
+  bucket: string | null;
+  basePrefix: string | null;
+  employeeScoped: boolean;
+  defaultUrlExpirySeconds: number | null;
+  // null = cualquier empleado
+  allowedEmployees: string[] | null;
+  enabled: boolean;
+};
+
+// sin "/" (es el primer segmento de la key) ni puntos al inicio (".trash", ".versions"... son de sistema)
+const ROOT_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9._-]{0,119}$/;
+
+export function isValidRootName(name: string | null | undefined) {
+  return ROOT_NAME_RE.test(name ?? '');
+}
+
+/** basePrefix normalizado ("/drive//nova/" => "drive/nova"); vacío => null (= el nombre del root). */
+export function normBasePrefix(prefix: string | null | undefined) {
+  const clean = normPath((prefix ?? '').replace(/\/{2,}/g, '/'));
+  return clean || null;
+}
+
+/** Prefijo físico efectivo del root. */
+export function rootPrefix(
+  root: Pick<NovaS3RootConfig, 'name' | 'basePrefix'>,
+) {
+  return root.basePrefix ?? root.name;
+}
+
+/** Primer segmento de una key lógica: "nova-s3/EMP1/a.png" => "nova-s3". */
+export function rootOfKey(key: string) {
+  const clean = (key ?? '').replace(/^\/+/, '');
+  const slash = clean.indexOf('/');
+  return slash === -1 ? clean : clean.slice(0, slash);
+}
+
+/**
+ * Key lógica => bucket (null = el default) + key física.
+ * El resto de la key (incluido un "/" final de prefijo / folder marker) se conserva tal cual.
+ */
+export function physicalLocation(
+  key: string,
+  root?: NovaS3RootConfig | null,
+): { bucket: string | null; key: string } {
+  if (!root) return { bucket: null, key };
+
+  const clean = key.replace(/^\/+/, '');
+  const rest = clean.slice(rootOfKey(clean).length);
+  return { bucket: root.bucket, key: `${rootPrefix(root)}${rest}` };
+}
+
+/** Dos roots en el mismo bucket no pueden compartir (ni anidar) su prefijo físico: se pisarían las keys. */
+export function prefixesOverlap(a: string, b: string) {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
+
+export function canUseRoot(
+  root: Pick<NovaS3RootConfig, 'allowedEmployees'>,
+  employeeNumber: string,
+) {
+  return (
+    !root.allowedEmployees || root.allowedEmployees.includes(employeeNumber)
+  );
+}
+
+/** Espacio donde opera el empleado: el suyo, o el compartido si el root no es employee-scoped. */
+export function spaceOwner(
+  root: Pick<NovaS3RootConfig, 'employeeScoped'>,
+  employeeNumber: string,
+) {
+  return root.employeeScoped ? employeeNumber : NOVA_S3_SHARED_SPACE;
+}
@@ -0,0 +1,60 @@
+/* src/nova-s3/utils/nova-s3-search.util.spec.ts */
+import {
+  escapeLike,
+  mimeFamilyOf,
+  mimeFamilyPatterns,
+  mimeTypePattern,
+  NOVA_S3_MIME_FAMILIES,
+} from './nova-s3-search.util';
+
+describe('escapeLike', () => {
+  it('escapes LIKE wildcards and the escape char', () => {
+    expect(escapeLike('100%_done\\x')).toBe('100\\%\\_done\\\\x');
+    expect(escapeLike('invoice')).toBe('invoice');
+  });
+});
+
+describe('mimeTypePattern', () => {
+  it('matches an exact type', () => {
+    expect(mimeTypePattern('Application/PDF')).toBe('application/pdf');
+  });
+
+  it('turns "type/*" into a prefix pattern', () => {
+    expect(mimeTypePattern('image/*')).toBe('image/%');
+  });
+});
+
+describe('mimeFamilyPatterns', () => {
+  it('has patterns for every family', () => {
+    for (const family of NOVA_S3_MIME_FAMILIES)
+      expect(mimeFamilyPatterns(family).length).toBeGreaterThan(0);
+  });
+
+  it('covers OOXML variants of a family', () => {
+    expect(mimeFamilyPatterns('spreadsheet')).toContain(
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.%',
+    );
+  });
+});
+
+describe('mimeFamilyOf', () => {
+  it('resolves concrete mime types to their family', () => {
+    expect(mimeFamilyOf('image/png')).toBe('image');
+    expect(mimeFamilyOf('Application/PDF')).toBe('pdf');
+    expect(
+      mimeFamilyOf(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      ),
+    ).toBe('document');
+  });
+
+  it('prefers the specific family over text/*', () => {
+    expect(mimeFamilyOf('text/csv')).toBe('spreadsheet');
+    expect(mimeFamilyOf('text/plain')).toBe('text');
+  });
+
+  it('returns null for unknown or missing types', () => {
+    expect(mimeFamilyOf('application/octet-stream')).toBeNull();
+    expect(mimeFamilyOf(null)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+/* src/nova-s3/utils/nova-s3-search.util.ts
+ *
+ * Helpers puros del search avanzado (sin BD) para poder testearlos aparte.
+ */
+
+export const NOVA_S3_MIME_FAMILIES = [
+  'image',
+  'video',
+  'audio',
+  'pdf',
+  'document',
+  'spreadsheet',
+  'presentation',
+  'archive',
+  'text',
+] as const;
+
+export type NovaS3MimeFamily = (typeof NOVA_S3_MIME_FAMILIES)[number];
+
+// patrones LIKE sobre nova_s3.mimeType (sin % = match exacto)
+const FAMILY_PATTERNS: Record<NovaS3MimeFamily, string[]> = {
+  image: ['image/%'],
+  video: ['video/%'],
+  audio: ['audio/%'],
+  pdf: ['application/pdf'],
+  document: [
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.%',
+    'application/vnd.oasis.opendocument.text',
+    'application/rtf',
+    'text/rtf',
+  ],
+  spreadsheet: [
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.%',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'text/csv',
+  ],
+  presentation: [
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.%',
+    'application/vnd.oasis.opendocument.presentation',
+  ],
+  archive: [
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/x-7z-compressed',
+    'application/x-rar-compressed',
+    'application/vnd.rar',
+    'application/gzip',
+    'application/x-tar',
+  ],
+  text: ['text/%', 'application/json', 'application/xml'],
+};
+
+export function mimeFamilyPatterns(family: NovaS3MimeFamily): string[] {
+  return FAMILY_PATTERNS[family] ?? [];
+}
+
+/**
+ * Familia de un mimeType concreto (la primera que matchea, en el orden de NOVA_S3_MIME_FAMILIES).
+ * null si no pertenece a ninguna. Ej: "text/csv" => spreadsheet (antes que text).
+ */
+export function mimeFamilyOf(
+  mimeType?: string | null,
+): NovaS3MimeFamily | null {
+  const m = (mimeType ?? '').trim().toLowerCase();
+  if (!m) return null;
+
+  for (const family of NOVA_S3_MIME_FAMILIES) {
+    const hit = FAMILY_PATTERNS[family].some((p) =>
+      p.endsWith('%') ? m.startsWith(p.slice(0, -1)) : m === p,
+    );
+    if (hit) return family;
+  }
+  return null;
+}
+
+/**
+ * Filtro de mimeType: exacto ("application/pdf") o por tipo ("image/*").
+ * Devuelve el patrón LIKE correspondiente (ya escapado).
+ */
+export function mimeTypePattern(mimeType: string) {
+  const m = mimeType.trim().toLowerCase();
+  if (m.endsWith('/*')) return `${escapeLike(m.slice(0, -1))}%`;
+  return escapeLike(m);
+}
+
+/** Escapar comodines LIKE (% _ \) para que se busquen como literales. */
+export function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
@@ -0,0 +1,42 @@
+/* src/nova-s3/utils/nova-s3-share.util.spec.ts */
+import {
+  generateShareToken,
+  hashSharePassword,
+  verifySharePassword,
+} from './nova-s3-share.util';
+
+describe('generateShareToken', () => {
+  it('is url-safe and long enough to be unguessable', () => {
+    const token = generateShareToken();
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it('never repeats', () =>
+    expect(generateShareToken()).not.toBe(generateShareToken()));
+});
+
+describe('share passwords', () => {
+  it('never stores the password in clear text', () => {
+    expect(hashSharePassword('S3cret!')).not.toContain('S3cret!');
+  });
+
+  it('salts every hash', () => {
+    expect(hashSharePassword('S3cret!')).not.toBe(hashSharePassword('S3cret!'));
+  });
+
+  it('accepts the right password', () => {
+    expect(verifySharePassword('S3cret!', hashSharePassword('S3cret!'))).toBe(
+      true,
+    );
+  });
+
+  it('rejects a wrong password', () => {
+    expect(verifySharePassword('s3cret!', hashSharePassword('S3cret!'))).toBe(
+      false,
+    );
+  });
+
+  it('rejects a malformed stored value', () => {
+    expect(verifySharePassword('x', 'plain-text')).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+/* src/nova-s3/utils/nova-s3-share.util.ts
+ *
+ * Tokens y passwords de los links públicos de nova-s3.
+ *
+ * - Token: 32 bytes random en base64url (43 chars). No deriva de nada del item,
+ *   así que no se puede adivinar ni enumerar.
+ * - Password: scrypt con salt propio por link, comparación en tiempo constante.
+ *   Formato guardado: "scrypt$<salt hex>$<hash hex>".
+ */
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 32;
+
+export function generateShareToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashSharePassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export function verifySharePassword(password: string, stored: string): boolean {
+  const [algo, saltHex, hashHex] = (stored ?? '').split('$');
+  if (algo !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = scryptSync(
+    password ?? '',
+    Buffer.from(saltHex, 'hex'),
+    expected.length,
+  );
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,184 @@
+/* src/nova-s3/utils/nova-s3-storage.util.spec.ts */
+import { InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CopyObjectCommand,
+  DeleteObjectsCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+
+import { NovaS3StorageUtil } from './nova-s3-storage.util';
+import {
+  NovaS3RootConfig,
+  physicalLocation,
+  rootOfKey,
+} from './nova-s3-root.util';
+import { NovaS3RootsService } from '../nova-s3-roots.service';
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockSend = jest.fn();
+
+jest.mock('@aws-sdk/client-s3', () => {
+  const actual = jest.requireActual<object>('@aws-sdk/client-s3');
+  return {
+    ...actual,
+    S3Client: jest.fn().mockImplementation(() => ({
+      send: (...a: unknown[]): unknown => mockSend(...a),
+    })),
+  };
+});
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const BUCKET = 'nova-default';
+
+// "legal" lives in its own bucket under "records/legal"; "nova-s3" uses the default bucket and its name
+const ROOTS: Record<string, NovaS3RootConfig> = {
+  'nova-s3': {
+    name: 'nova-s3',
+    bucket: null,
+    basePrefix: null,
+    employeeScoped: true,
+    defaultUrlExpirySeconds: null,
+    allowedEmployees: null,
+    enabled: true,
+  },
+  legal: {
+    name: 'legal',
+    bucket: 'nova-legal',
+    basePrefix: 'records/legal',
+    employeeScoped: true,
+    defaultUrlExpirySeconds: null,
+    allowedEmployees: null,
+    enabled: true,
+  },
+};
+
+type SentCommand = { input: Record<string, unknown> };
+
+/** Inputs of the commands of one type sent so far, in order. */
+const sent = (type: new (...args: never[]) => unknown) =>
+  (mockSend.mock.calls as [SentCommand][])
+    .filter(([cmd]) => cmd instanceof type)
+    .map(([cmd]) => cmd.input);
+
+describe('NovaS3StorageUtil — logical => physical keys', () => {
+  let storage: NovaS3StorageUtil;
+
+  beforeEach(() => {
+    mockSend.mockReset().mockResolvedValue({});
+
+    const config = {
+      get: jest.fn(
+        (key: string) =>
+          ({
+            BUCKET,
+            REGION: 'us-east-1',
+            ACCESS_KEY: 'test',
+            SECRET_ACCESS_KEY: 'test',
+          })[key],
+      ),
+    } as unknown as ConfigService;
+    const roots = {
+      locate: (key: string) => physicalLocation(key, ROOTS[rootOfKey(key)]),
+    } as unknown as NovaS3RootsService;
+
+    storage = new NovaS3StorageUtil(config, roots);
+  });
+
+  it('sends each key to the bucket and base prefix of its root', async () => {
+    await storage.headObjectKey('legal/EMP1/contract.pdf');
+    await storage.headObjectKey('nova-s3/EMP1/contract.pdf');
+    await storage.headObjectKey('s3/legacy/contract.pdf');
+
+    expect(sent(HeadObjectCommand)).toEqual([
+      { Bucket: 'nova-legal', Key: 'records/legal/EMP1/contract.pdf' },
+      { Bucket: BUCKET, Key: 'nova-s3/EMP1/contract.pdf' },
+      // unregistered root (legacy key): default bucket, key as is
+      { Bucket: BUCKET, Key: 's3/legacy/contract.pdf' },
+    ]);
+  });
+
+  it('copies across roots with an encoded physical CopySource', async () => {
+    await storage.copyObjectKey(
+      'nova-s3/EMP1/Q1 report+final#2.pdf',
+      'legal/EMP1/Q1 report+final#2.pdf',
+    );
+
+    expect(sent(CopyObjectCommand)).toEqual([
+      {
+        CopySource: `${BUCKET}/nova-s3/EMP1/Q1%20report%2Bfinal%232.pdf`,
+        Bucket: 'nova-legal',
+        Key: 'records/legal/EMP1/Q1 report+final#2.pdf',
+      },
+    ]);
+  });
+
+  it('lists under the physical prefix and returns logical keys, across pages', async () => {
+    mockSend
+      .mockResolvedValueOnce({
+        Contents: [{ Key: 'records/legal/EMP1/Docs/', Size: 0 }],
+        NextContinuationToken: 'page-2',
+      })
+      .mockResolvedValueOnce({
+        Contents: [{ Key: 'records/legal/EMP1/Docs/a.pdf', Size: 10 }],
+      });
+
+    const objects = await storage.listObjectsUnderKeyPrefix('legal/EMP1/Docs/');
+
+    expect(sent(ListObjectsV2Command)).toEqual([
+      {
+        Bucket: 'nova-legal',
+        Prefix: 'records/legal/EMP1/Docs/',
+        ContinuationToken: undefined,
+      },
+      {
+        Bucket: 'nova-legal',
+        Prefix: 'records/legal/EMP1/Docs/',
+        ContinuationToken: 'page-2',
+      },
+    ]);
+    expect(objects.map((o) => [o.key, o.size])).toEqual([
+      ['legal/EMP1/Docs/', 0],
+      ['legal/EMP1/Docs/a.pdf', 10],
+    ]);
+  });
+
+  it('deletes in batches of 1000 per bucket', async () => {
+    const legal = Array.from(
+      { length: 1001 },
+      (_, i) => `legal/EMP1/f${i}.pdf`,
+    );
+
+    await expect(
+      storage.deleteObjectKeys(['nova-s3/EMP1/a.pdf', ...legal]),
+    ).resolves.toMatchObject({ success: true, deletedCount: 1002 });
+
+    const batches = sent(DeleteObjectsCommand) as {
+      Bucket: string;
+      Delete: { Objects: { Key: string }[] };
+    }[];
+    expect(batches.map((b) => [b.Bucket, b.Delete.Objects.length])).toEqual([
+      [BUCKET, 1],
+      ['nova-legal', 1000],
+      ['nova-legal', 1],
+    ]);
+    expect(batches[0].Delete.Objects).toEqual([{ Key: 'nova-s3/EMP1/a.pdf' }]);
+    expect(batches[2].Delete.Objects).toEqual([
+      { Key: 'records/legal/EMP1/f1000.pdf' },
+    ]);
+  });
+
+  it('fails the delete when S3 reports per-key errors', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockSend.mockResolvedValueOnce({
+      Errors: [{ Key: 'records/legal/EMP1/a.pdf', Code: 'AccessDenied' }],
+    });
+
+    await expect(
+      storage.deleteObjectKeys(['legal/EMP1/a.pdf']),
+    ).rejects.toThrow(InternalServerErrorException);
+  });
+});
@@ -6,6 +6,9 @@
  *
  * Este archivo existe para que NovaS3Service use operaciones S3 sin depender
  * del src/s3/s3.service.ts (que lo usan otros módulos).
+ *
+ * ✅ Recibe y devuelve keys LÓGICAS ("{root}/..."); cada llamada a S3 las traduce al bucket / basePrefix
+ *    del root registrado (NovaS3RootsService.locate). Roots sin registro => BUCKET y la key tal cual.
  */
 
 import { Injectable, BadRequestException, InternalServerErrorException } from '@nestjs/common';
@@ -22,9 +25,24 @@ import {
   UploadPartCommand,
   CompleteMultipartUploadCommand,
   AbortMultipartUploadCommand,
+  ListMultipartUploadsCommand,
+  HeadObjectCommand,
   _Object,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import { NovaS3StoredObject } from './nova-s3-reconcile.util';
+import { NovaS3PendingUpload } from './nova-s3-multipart.util';
+import { NovaS3RootsService } from '../nova-s3-roots.service';
+
+export interface NovaS3HeadResult {
+  exists: boolean;
+  key: string;
+  size?: number;
+  etag?: string;
+  contentType?: string;
+  lastModified?: Date;
+}
 
 export interface NovaS3OpResult {
   success: boolean;
@@ -37,7 +55,10 @@ export class NovaS3StorageUtil {
   private readonly s3: S3Client;
   private readonly bucketName: string;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly roots: NovaS3RootsService,
+  ) {
     const bucket = this.configService.get<string>('BUCKET');
     const region = this.configService.get<string>('REGION');
     const accessKeyId = this.configService.get<string>('ACCESS_KEY');
@@ -77,12 +98,51 @@ export class NovaS3StorageUtil {
     return r ? `${f}/${r}` : f;
   }
 
+  /** Key lógica => { Bucket, Key } físicos del root (para spread en los comandos). */
+  private target(key: string) {
+    const { bucket, key: physical } = this.roots.locate(key);
+    return { Bucket: bucket ?? this.bucketName, Key: physical };
+  }
+
+  /**
+   * Listados: la key física que devolvió S3 => lógica, reemplazando el prefijo físico
+   * por el lógico que pidió el caller (los listados son siempre bajo un prefijo de un root).
+   */
+  private toLogical(keyPrefix: string, physicalPrefix: string, physicalKey: string) {
+    return `${keyPrefix}${physicalKey.substring(physicalPrefix.length)}`;
+  }
+
   /**
    * CopySource requiere la key URL-encoded (los "/" se conservan).
    * Evita errores con keys que contienen espacios, "+", "#", etc.
    */
   private encodeCopySource(key: string) {
-    return `${this.bucketName}/${encodeURIComponent(key).replace(/%2F/g, '/')}`;
+    const { Bucket, Key } = this.target(key);
+    return `${Bucket}/${encodeURIComponent(Key).replace(/%2F/g, '/')}`;
+  }
+
+  /**
+   * DeleteObjects en lotes de 1000, agrupando por bucket (las keys pueden ser de roots distintos).
+   * Devuelve los errores de S3 (vacío = todo borrado).
+   */
+  private async deleteKeysBatched(keys: string[]) {
+    const byBucket = new Map<string, { Key: string }[]>();
+    for (const key of keys) {
+      const { Bucket, Key } = this.target(key);
+      if (!byBucket.has(Bucket)) byBucket.set(Bucket, []);
+      byBucket.get(Bucket)!.push({ Key });
+    }
+
+    const errors: unknown[] = [];
+    for (const [Bucket, objects] of byBucket) {
+      for (let i = 0; i < objects.length; i += 1000) {
+        const res = await this.s3.send(
+          new DeleteObjectsCommand({ Bucket, Delete: { Objects: objects.slice(i, i + 1000), Quiet: true } }),
+        );
+        if (res.Errors?.length) errors.push(...res.Errors);
+      }
+    }
+    return errors;
   }
 
   // ---------------------------------------------------------------------------
@@ -104,8 +164,7 @@ export class NovaS3StorageUtil {
     try {
       await this.s3.send(
         new PutObjectCommand({
-          Bucket: this.bucketName,
-          Key: key,
+          ...this.target(key),
           Body: buffer,
           ContentType: mimetype,
         }),
@@ -136,8 +195,7 @@ export class NovaS3StorageUtil {
         return this.s3
           .send(
             new PutObjectCommand({
-              Bucket: this.bucketName,
-              Key: key,
+              ...this.target(key),
               Body: file.buffer,
               ContentType: file.mimetype,
             }),
@@ -183,8 +241,7 @@ export class NovaS3StorageUtil {
     try {
       await this.s3.send(
         new PutObjectCommand({
-          Bucket: this.bucketName,
-          Key: markerKey,
+          ...this.target(markerKey),
           Body: '',
         }),
       );
@@ -213,16 +270,14 @@ export class NovaS3StorageUtil {
     try {
       await this.s3.send(
         new CopyObjectCommand({
-          Bucket: this.bucketName,
           CopySource: this.encodeCopySource(oldKey),
-          Key: newKey,
+          ...this.target(newKey),
         }),
       );
 
       await this.s3.send(
         new DeleteObjectCommand({
-          Bucket: this.bucketName,
-          Key: oldKey,
+          ...this.target(oldKey),
         }),
       );
 
@@ -244,16 +299,14 @@ export class NovaS3StorageUtil {
     try {
       await this.s3.send(
         new CopyObjectCommand({
-          Bucket: this.bucketName,
           CopySource: this.encodeCopySource(oldKey),
-          Key: newKey,
+          ...this.target(newKey),
         }),
       );
 
       await this.s3.send(
         new DeleteObjectCommand({
-          Bucket: this.bucketName,
-          Key: oldKey,
+          ...this.target(oldKey),
         }),
       );
 
@@ -281,32 +334,29 @@ export class NovaS3StorageUtil {
     const oldPrefix = this.buildKey(baseFolder, oldPrefixRel);
     const newPrefix = this.buildKey(baseFolder, newPrefixRel);
 
-    const sourcePrefix = oldPrefix.endsWith('/') ? oldPrefix : `${oldPrefix}/`;
-    const targetPrefix = newPrefix.endsWith('/') ? newPrefix : `${newPrefix}/`;
-
-    try {
-      let allObjects: _Object[] = [];
-      let token: string | undefined;
+    return this.moveKeyPrefix(oldPrefix, newPrefix);
+  }
 
-      do {
-        const list = await this.s3.send(
-          new ListObjectsV2Command({
-            Bucket: this.bucketName,
-            Prefix: sourcePrefix,
-            ContinuationToken: token,
-          }),
-        );
+  /**
+   * MOVE KEY PREFIX (storage only)
+   * - Igual que movePrefix, pero recibe keys completas (no relativas a un baseFolder).
+   * - Lo usan flujos que mueven objetos fuera del espacio del empleado (ej: papelera).
+   *
+   * sourceKeyPrefix: ej "nova-s3/EMP123/Marketing"
+   * targetKeyPrefix: ej "nova-s3/.trash/EMP123/<trashId>/Marketing"
+   */
+  async moveKeyPrefix(sourceKeyPrefix: string, targetKeyPrefix: string): Promise<NovaS3OpResult> {
+    const sourcePrefix = `${this.norm(sourceKeyPrefix)}/`;
+    const targetPrefix = `${this.norm(targetKeyPrefix)}/`;
 
-        if (list.Contents?.length) allObjects = allObjects.concat(list.Contents);
-        token = list.NextContinuationToken;
-      } while (token);
+    try {
+      const allObjects = await this.listAllUnderPrefix(sourcePrefix);
 
       // Si carpeta vacía: crea marker en destino
       if (allObjects.length === 0) {
         await this.s3.send(
           new PutObjectCommand({
-            Bucket: this.bucketName,
-            Key: targetPrefix,
+            ...this.target(targetPrefix),
             Body: '',
           }),
         );
@@ -323,38 +373,24 @@ export class NovaS3StorageUtil {
 
         await this.s3.send(
           new CopyObjectCommand({
-            Bucket: this.bucketName,
             CopySource: this.encodeCopySource(obj.Key),
-            Key: destKey,
+            ...this.target(destKey),
           }),
         );
         copied++;
       }
 
       // Borrar originales (batch DeleteObjects, máx 1000 keys por request)
-      let deleted = 0;
-      const keysToDelete = allObjects
-        .filter((obj) => obj.Key)
-        .map((obj) => ({ Key: obj.Key! }));
+      const keysToDelete = allObjects.filter((obj) => obj.Key).map((obj) => obj.Key!);
+      const errors = await this.deleteKeysBatched(keysToDelete);
 
-      for (let i = 0; i < keysToDelete.length; i += 1000) {
-        const batch = keysToDelete.slice(i, i + 1000);
-        const res = await this.s3.send(
-          new DeleteObjectsCommand({
-            Bucket: this.bucketName,
-            Delete: { Objects: batch, Quiet: true },
-          }),
+      if (errors.length) {
+        console.error('S3 movePrefix delete errors:', errors);
+        throw new InternalServerErrorException(
+          `Failed to delete ${errors.length} original object(s) after copy in S3 (movePrefix)`,
         );
-
-        if (res.Errors?.length) {
-          console.error('S3 movePrefix delete errors:', res.Errors);
-          throw new InternalServerErrorException(
-            `Failed to delete ${res.Errors.length} original object(s) after copy in S3 (movePrefix)`,
-          );
-        }
-
-        deleted += batch.length;
       }
+      const deleted = keysToDelete.length;
 
       return {
         success: true,
@@ -372,6 +408,181 @@ export class NovaS3StorageUtil {
     }
   }
 
+  /**
+   * COPY KEY PREFIX (storage only) — solo el paso "copy" de un move, sin borrar nada.
+   * - Idempotente: repetirlo sobre un destino a medio copiar vuelve a pisar las mismas keys.
+   * - onProgress se llama cada `progressEvery` objetos (el journal de operaciones lo usa de heartbeat).
+   */
+  async copyKeyPrefix(
+    sourceKeyPrefix: string,
+    targetKeyPrefix: string,
+    onProgress?: (copied: number, total: number) => Promise<void>,
+    progressEvery = 100,
+  ): Promise<NovaS3OpResult> {
+    const sourcePrefix = `${this.norm(sourceKeyPrefix)}/`;
+    const targetPrefix = `${this.norm(targetKeyPrefix)}/`;
+
+    try {
+      const allObjects = (await this.listAllUnderPrefix(sourcePrefix)).filter((obj) => obj.Key);
+
+      if (allObjects.length === 0) {
+        await this.s3.send(new PutObjectCommand({ ...this.target(targetPrefix), Body: '' }));
+        return { success: true, message: 'Empty folder copied (marker created)', copiedCount: 0, totalObjects: 0 };
+      }
+
+      let copied = 0;
+      for (const obj of allObjects) {
+        await this.s3.send(
+          new CopyObjectCommand({
+            CopySource: this.encodeCopySource(obj.Key!),
+            ...this.target(`${targetPrefix}${obj.Key!.substring(sourcePrefix.length)}`),
+          }),
+        );
+        copied++;
+
+        if (onProgress && copied % progressEvery === 0) await onProgress(copied, allObjects.length);
+      }
+
+      return {
+        success: true,
+        message: 'Prefix copied',
+        copiedCount: copied,
+        totalObjects: allObjects.length,
+        sourcePrefix,
+        targetPrefix,
+      };
+    } catch (error) {
+      console.error('S3 copyKeyPrefix error:', error);
+      throw new InternalServerErrorException('Failed to copy folder/prefix in S3');
+    }
+  }
+
+  /**
+   * DELETE KEYS (storage only)
+   * - Batch DeleteObjects (máx 1000 keys por request). Keys inexistentes no son error.
+   */
+  async deleteObjectKeys(keys: string[]): Promise<NovaS3OpResult> {
+    try {
+      const errors = await this.deleteKeysBatched(keys);
+
+      if (errors.length) {
+        console.error('S3 deleteObjectKeys errors:', errors);
+        throw new InternalServerErrorException(`Failed to delete ${errors.length} object(s) in S3`);
+      }
+
+      return { success: true, message: 'Objects deleted', deletedCount: keys.length };
+    } catch (error) {
+      console.error('S3 deleteObjectKeys error:', error);
+      if (error instanceof InternalServerErrorException) throw error;
+      throw new InternalServerErrorException('Failed to delete objects in S3');
+    }
+  }
+
+  /**
+   * MOVE ONE OBJECT by full key (storage only)
+   * - Copia oldKey -> newKey y borra oldKey.
+   */
+  async moveObjectKey(oldKey: string, newKey: string): Promise<NovaS3OpResult> {
+    try {
+      await this.s3.send(
+        new CopyObjectCommand({
+          CopySource: this.encodeCopySource(oldKey),
+          ...this.target(newKey),
+        }),
+      );
+
+      await this.s3.send(
+        new DeleteObjectCommand({
+          ...this.target(oldKey),
+        }),
+      );
+
+      return { success: true, message: 'Object moved', oldKey, newKey };
+    } catch (error) {
+      console.error('S3 moveObjectKey error:', error);
+      throw new InternalServerErrorException('Failed to move object in S3');
+    }
+  }
+
+  /**
+   * LIST de todos los objetos bajo una key prefix (key / size / lastModified).
+   * Lo usa la reconciliación BD vs S3.
+   */
+  async listObjectsUnderKeyPrefix(keyPrefix: string): Promise<NovaS3StoredObject[]> {
+    try {
+      const all = await this.listAllUnderPrefix(keyPrefix);
+      return all
+        .filter((o) => o.Key)
+        .map((o) => ({ key: o.Key!, size: Number(o.Size ?? 0), lastModified: o.LastModified }));
+    } catch (error) {
+      console.error('S3 listObjectsUnderKeyPrefix error:', error);
+      throw new InternalServerErrorException('Failed to list objects in S3');
+    }
+  }
+
+  /**
+   * LIST de una página de objetos bajo una key prefix, después de `startAfter` (orden lexicográfico).
+   * Para recorridos reanudables: el caller guarda la última key procesada como cursor.
+   */
+  async listObjectsPage(
+    keyPrefix: string,
+    startAfter: string | null,
+    maxKeys = 1000,
+  ): Promise<{ objects: NovaS3StoredObject[]; done: boolean }> {
+    const { Bucket, Key: prefix } = this.target(keyPrefix);
+
+    try {
+      const list = await this.s3.send(
+        new ListObjectsV2Command({
+          Bucket,
+          Prefix: prefix,
+          StartAfter: startAfter ? this.target(startAfter).Key : undefined,
+          MaxKeys: Math.min(Math.max(maxKeys, 1), 1000),
+        }),
+      );
+      const objects = (list.Contents ?? [])
+        .filter((o) => o.Key)
+        .map((o) => ({
+          key: this.toLogical(keyPrefix, prefix, o.Key!),
+          size: Number(o.Size ?? 0),
+          lastModified: o.LastModified,
+        }));
+      return { objects, done: !list.IsTruncated };
+    } catch (error) {
+      console.error('S3 listObjectsPage error:', error);
+      throw new InternalServerErrorException('Failed to list objects in S3');
+    }
+  }
+
+  /**
+   * LIST ALL under a full prefix (paginado con ContinuationToken).
+   * Las `Key` devueltas son lógicas (como el prefix recibido).
+   */
+  private async listAllUnderPrefix(prefix: string): Promise<_Object[]> {
+    const { Bucket, Key: physicalPrefix } = this.target(prefix);
+    let allObjects: _Object[] = [];
+    let token: string | undefined;
+
+    do {
+      const list = await this.s3.send(
+        new ListObjectsV2Command({
+          Bucket,
+          Prefix: physicalPrefix,
+          ContinuationToken: token,
+        }),
+      );
+
+      if (list.Contents?.length) {
+        allObjects = allObjects.concat(
+          list.Contents.map((o) => (o.Key ? { ...o, Key: this.toLogical(prefix, physicalPrefix, o.Key) } : o)),
+        );
+      }
+      token = list.NextContinuationToken;
+    } while (token);
+
+    return allObjects;
+  }
+
   // ---------------------------------------------------------------------------
   // Delete (storage only)
   // ---------------------------------------------------------------------------
@@ -383,7 +594,7 @@ export class NovaS3StorageUtil {
     const key = this.buildKey(baseFolder, relative);
 
     try {
-      await this.s3.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+      await this.s3.send(new DeleteObjectCommand({ ...this.target(key) }));
       return { success: true, message: `Deleted ${key}`, key };
     } catch (error) {
       console.error('S3 deleteObject error:', error);
@@ -395,36 +606,29 @@ export class NovaS3StorageUtil {
    * DELETE PREFIX (folder) (storage only)
    */
   async deletePrefix(baseFolder: string, prefixRel: string): Promise<NovaS3OpResult> {
-    const prefix = this.buildKey(baseFolder, prefixRel);
-    const p = prefix.endsWith('/') ? prefix : `${prefix}/`;
-
-    try {
-      let allObjects: _Object[] = [];
-      let token: string | undefined;
+    return this.deleteKeyPrefix(this.buildKey(baseFolder, prefixRel));
+  }
 
-      do {
-        const list = await this.s3.send(
-          new ListObjectsV2Command({
-            Bucket: this.bucketName,
-            Prefix: p,
-            ContinuationToken: token,
-          }),
-        );
+  /**
+   * DELETE KEY PREFIX (storage only)
+   * - Igual que deletePrefix, pero recibe la key completa del prefijo.
+   */
+  async deleteKeyPrefix(keyPrefix: string): Promise<NovaS3OpResult> {
+    const p = `${this.norm(keyPrefix)}/`;
 
-        if (list.Contents?.length) allObjects = allObjects.concat(list.Contents);
-        token = list.NextContinuationToken;
-      } while (token);
+    try {
+      const allObjects = await this.listAllUnderPrefix(p);
 
       let deleted = 0;
       for (const obj of allObjects) {
         if (!obj.Key) continue;
-        await this.s3.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: obj.Key }));
+        await this.s3.send(new DeleteObjectCommand({ ...this.target(obj.Key) }));
         deleted++;
       }
 
       // Intentar borrar marker (si existe)
       try {
-        await this.s3.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: p }));
+        await this.s3.send(new DeleteObjectCommand({ ...this.target(p) }));
       } catch (_) {}
 
       return { success: true, message: 'Prefix deleted', deletedCount: deleted, prefix: p };
@@ -434,6 +638,122 @@ export class NovaS3StorageUtil {
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Key-level helpers (keys completas, ej: copias de versiones)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * HEAD de una key completa.
+   * - 404/403 => { exists: false } (no lanza)
+   */
+  async headObjectKey(key: string): Promise<NovaS3HeadResult> {
+    try {
+      const res = await this.s3.send(new HeadObjectCommand({ ...this.target(key) }));
+      return {
+        exists: true,
+        key,
+        size: res.ContentLength,
+        etag: res.ETag,
+        contentType: res.ContentType,
+        lastModified: res.LastModified,
+      };
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+      if (status === 404 || status === 403) return { exists: false, key };
+      console.error('S3 headObjectKey error:', error);
+      throw new InternalServerErrorException('Failed to read object metadata in S3');
+    }
+  }
+
+  /**
+   * GET de una key completa como stream (no bufferiza el objeto en memoria).
+   * - 404 => null (no lanza), para que el caller decida (ej: ZIP lo anota como faltante)
+   */
+  async getObjectStreamKey(key: string): Promise<Readable | null> {
+    try {
+      const res = await this.s3.send(new GetObjectCommand({ ...this.target(key) }));
+      return res.Body as Readable;
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+      if (status === 404) return null;
+      console.error('S3 getObjectStreamKey error:', error);
+      throw new InternalServerErrorException('Failed to read object from S3');
+    }
+  }
+
+  /**
+   * GET de los primeros `bytes` bytes de una key (Range), para sniffing de contenido.
+   * - 404 => null
+   * - 416 (objeto vacío) => Buffer vacío
+   */
+  async getObjectHeadBytesKey(key: string, bytes: number): Promise<Buffer | null> {
+    try {
+      const res = await this.s3.send(
+        new GetObjectCommand({ ...this.target(key), Range: `bytes=0-${Math.max(bytes, 1) - 1}` }),
+      );
+      if (!res.Body) return Buffer.alloc(0);
+      return Buffer.from(await res.Body.transformToByteArray());
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+      if (status === 404) return null;
+      if (status === 416) return Buffer.alloc(0);
+      console.error('S3 getObjectHeadBytesKey error:', error);
+      throw new InternalServerErrorException('Failed to read object from S3');
+    }
+  }
+
+  /**
+   * COPY ONE OBJECT by full key (storage only) — server-side, no descarga.
+   */
+  async copyObjectKey(sourceKey: string, targetKey: string): Promise<NovaS3OpResult> {
+    try {
+      await this.s3.send(
+        new CopyObjectCommand({
+          CopySource: this.encodeCopySource(sourceKey),
+          ...this.target(targetKey),
+        }),
+      );
+      return { success: true, message: 'Object copied', sourceKey, targetKey };
+    } catch (error) {
+      console.error('S3 copyObjectKey error:', error);
+      throw new InternalServerErrorException('Failed to copy object in S3');
+    }
+  }
+
+  /**
+   * DELETE ONE OBJECT by full key (storage only)
+   */
+  async deleteObjectKey(key: string): Promise<NovaS3OpResult> {
+    try {
+      await this.s3.send(new DeleteObjectCommand({ ...this.target(key) }));
+      return { success: true, message: `Deleted ${key}`, key };
+    } catch (error) {
+      console.error('S3 deleteObjectKey error:', error);
+      throw new InternalServerErrorException('Failed to delete object in S3');
+    }
+  }
+
+  /**
+   * Presigned GET URL by full key.
+   * - downloadName: fuerza `Content-Disposition: attachment` con ese nombre (útil para versiones,
+   *   cuya key no tiene el nombre original del archivo).
+   */
+  async presignedGetUrlForKey(key: string, expiresSeconds = 60 * 5, downloadName?: string) {
+    try {
+      const command = new GetObjectCommand({
+        ...this.target(key),
+        ResponseContentDisposition: downloadName
+          ? `attachment; filename*=UTF-8''${encodeURIComponent(downloadName)}`
+          : undefined,
+      });
+      const url = await getSignedUrl(this.s3, command, { expiresIn: expiresSeconds });
+      return { success: true, url, key };
+    } catch (error) {
+      console.error('S3 presignedGetUrlForKey error:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Presigned URL (storage only)
   // ---------------------------------------------------------------------------
@@ -445,7 +765,7 @@ export class NovaS3StorageUtil {
     const key = this.buildKey(baseFolder, relative);
 
     try {
-      const command = new GetObjectCommand({ Bucket: this.bucketName, Key: key });
+      const command = new GetObjectCommand({ ...this.target(key) });
       const url = await getSignedUrl(this.s3, command, { expiresIn: expiresSeconds });
       return { success: true, url, key };
     } catch (error) {
@@ -477,8 +797,7 @@ export class NovaS3StorageUtil {
 
     try {
       const command = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: key,
+        ...this.target(key),
         ContentType: contentType,
       });
       const url = await getSignedUrl(this.s3, command, { expiresIn: expiresSeconds });
@@ -507,8 +826,7 @@ export class NovaS3StorageUtil {
     try {
       const result = await this.s3.send(
         new CreateMultipartUploadCommand({
-          Bucket: this.bucketName,
-          Key: key,
+          ...this.target(key),
           ContentType: contentType,
         }),
       );
@@ -538,8 +856,7 @@ export class NovaS3StorageUtil {
   ): Promise<{ url: string; partNumber: number }> {
     try {
       const command = new UploadPartCommand({
-        Bucket: this.bucketName,
-        Key: key,
+        ...this.target(key),
         UploadId: uploadId,
         PartNumber: partNumber,
       });
@@ -564,8 +881,7 @@ export class NovaS3StorageUtil {
     try {
       await this.s3.send(
         new CompleteMultipartUploadCommand({
-          Bucket: this.bucketName,
-          Key: key,
+          ...this.target(key),
           UploadId: uploadId,
           MultipartUpload: { Parts: parts },
         }),
@@ -584,8 +900,7 @@ export class NovaS3StorageUtil {
     try {
       await this.s3.send(
         new AbortMultipartUploadCommand({
-          Bucket: this.bucketName,
-          Key: key,
+          ...this.target(key),
           UploadId: uploadId,
         }),
       );
@@ -596,4 +911,42 @@ export class NovaS3StorageUtil {
       return { success: false, message: (error as Error).message, key };
     }
   }
+
+  /**
+   * LIST de multipart uploads en curso (iniciados y ni completados ni abortados) bajo una key prefix.
+   * Paginado con KeyMarker / UploadIdMarker. Lo usa el sweeper de uploads abandonados.
+   */
+  async listMultipartUploads(keyPrefix: string): Promise<NovaS3PendingUpload[]> {
+    const all: NovaS3PendingUpload[] = [];
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+    const { Bucket, Key: prefix } = this.target(keyPrefix);
+
+    try {
+      do {
+        const res = await this.s3.send(
+          new ListMultipartUploadsCommand({
+            Bucket,
+            Prefix: prefix,
+            KeyMarker: keyMarker,
+            UploadIdMarker: uploadIdMarker,
+          }),
+        );
+
+        for (const u of res.Uploads ?? []) {
+          if (u.Key && u.UploadId) {
+            all.push({ key: this.toLogical(keyPrefix, prefix, u.Key), uploadId: u.UploadId, initiated: u.Initiated ?? null });
+          }
+        }
+
+        keyMarker = res.IsTruncated ? res.NextKeyMarker : undefined;
+        uploadIdMarker = res.IsTruncated ? res.NextUploadIdMarker : undefined;
+      } while (keyMarker);
+
+      return all;
+    } catch (error) {
+      console.error('S3 listMultipartUploads error:', error);
+      throw new InternalServerErrorException('Failed to list multipart uploads in S3');
+    }
+  }
 }
@@ -0,0 +1,91 @@
+/* src/nova-s3/utils/nova-s3-tags.util.spec.ts */
+import { BadRequestException } from '@nestjs/common';
+import {
+  mergeProperties,
+  mergeTags,
+  normalizeTag,
+  normalizeTags,
+  parseTagList,
+} from './nova-s3-tags.util';
+
+describe('normalizeTag', () => {
+  it('trims and collapses whitespace but keeps the spelling', () => {
+    expect(normalizeTag('  Client   ACME ')).toBe('Client ACME');
+  });
+
+  it('rejects empty, too long and comma separated tags', () => {
+    expect(() => normalizeTag('   ')).toThrow(BadRequestException);
+    expect(() => normalizeTag('x'.repeat(65))).toThrow(BadRequestException);
+    expect(() => normalizeTag('a,b')).toThrow(BadRequestException);
+  });
+});
+
+describe('normalizeTags', () => {
+  it('dedupes case-insensitively keeping the first spelling', () => {
+    expect(normalizeTags(['Invoice', 'invoice', '2026', ' INVOICE '])).toEqual([
+      'Invoice',
+      '2026',
+    ]);
+  });
+});
+
+describe('mergeTags', () => {
+  it('adds new tags and keeps the existing spelling', () => {
+    expect(mergeTags(['Invoice'], ['invoice', '2026'])).toEqual([
+      'Invoice',
+      '2026',
+    ]);
+  });
+
+  it('removes tags regardless of case', () => {
+    expect(mergeTags(['Invoice', '2026'], [], ['INVOICE'])).toEqual(['2026']);
+  });
+
+  it('enforces the per-item limit', () => {
+    const many = Array.from({ length: 51 }, (_, i) => `t${i}`);
+    expect(() => mergeTags([], many)).toThrow(BadRequestException);
+  });
+});
+
+describe('parseTagList', () => {
+  it('accepts comma separated and repeated query params', () => {
+    expect(parseTagList('Invoice, 2026')).toEqual(['Invoice', '2026']);
+    expect(parseTagList(['Invoice', 'client  ACME,'])).toEqual([
+      'Invoice',
+      'client ACME',
+    ]);
+  });
+
+  it('returns undefined when nothing is left', () => {
+    expect(parseTagList('')).toBeUndefined();
+    expect(parseTagList(' , ')).toBeUndefined();
+    expect(parseTagList(undefined)).toBeUndefined();
+  });
+});
+
+describe('mergeProperties', () => {
+  it('sets, overwrites and unsets keys', () => {
+    expect(
+      mergeProperties(
+        { client: 'ACME', year: '2025' },
+        { year: 2026, status: 'paid' },
+        ['client'],
+      ),
+    ).toEqual({
+      year: '2026',
+      status: 'paid',
+    });
+  });
+
+  it('rejects invalid keys and non scalar values', () => {
+    expect(() => mergeProperties({}, { 'bad key': 'x' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => mergeProperties({}, { nested: { a: 1 } })).toThrow(
+      BadRequestException,
+    );
+    expect(() => mergeProperties({}, { empty: null })).toThrow(
+      BadRequestException,
+    );
+  });
+});
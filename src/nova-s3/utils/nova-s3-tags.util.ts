@@ -0,0 +1,123 @@
+/* src/nova-s3/utils/nova-s3-tags.util.ts
+ *
+ * Reglas puras de tags / properties (sin BD) para poder testearlas aparte.
+ *
+ * - Tag: texto libre visible ("Invoice", "2026"). Se guarda con la grafía que llegó (trim + espacios colapsados);
+ *   dos tags que solo difieren en mayúsculas son el MISMO tag.
+ * - Property: clave/valor string ({ client: 'ACME' }).
+ */
+import { BadRequestException } from '@nestjs/common';
+
+export const NOVA_S3_MAX_TAGS = 50;
+export const NOVA_S3_MAX_TAG_LENGTH = 64;
+export const NOVA_S3_MAX_PROPERTIES = 50;
+export const NOVA_S3_MAX_PROPERTY_VALUE_LENGTH = 512;
+
+const PROPERTY_KEY_RE = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/** Tag limpio o excepción. La coma queda prohibida: es el separador del filtro `?tags=a,b`. */
+export function normalizeTag(raw: string) {
+  const tag = String(raw ?? '')
+    .trim()
+    .replace(/\s+/g, ' ');
+  if (!tag) throw new BadRequestException('Tags cannot be empty');
+  if (tag.length > NOVA_S3_MAX_TAG_LENGTH) {
+    throw new BadRequestException(
+      `Tag "${tag.slice(0, 20)}…" is longer than ${NOVA_S3_MAX_TAG_LENGTH} characters`,
+    );
+  }
+  if (tag.includes(','))
+    throw new BadRequestException(`Tag "${tag}" cannot contain commas`);
+  return tag;
+}
+
+/** Normaliza y quita duplicados sin distinguir mayúsculas (gana la primera grafía). */
+export function normalizeTags(raw: string[] | undefined | null) {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const value of raw ?? []) {
+    const tag = normalizeTag(value);
+    const key = tag.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(tag);
+  }
+  return out;
+}
+
+/**
+ * tags actuales + add - remove. Lo que ya estaba conserva su grafía; remove no distingue mayúsculas.
+ * Pasar de NOVA_S3_MAX_TAGS => excepción.
+ */
+export function mergeTags(
+  current: string[] | null | undefined,
+  add: string[] = [],
+  remove: string[] = [],
+) {
+  const removed = new Set(remove.map((t) => t.toLowerCase()));
+  const merged = normalizeTags([...(current ?? []), ...add]).filter(
+    (t) => !removed.has(t.toLowerCase()),
+  );
+
+  if (merged.length > NOVA_S3_MAX_TAGS) {
+    throw new BadRequestException(
+      `An item cannot have more than ${NOVA_S3_MAX_TAGS} tags`,
+    );
+  }
+  return merged;
+}
+
+/** Query param `tags`: "a,b" o repetido (?tags=a&tags=b). Vacíos fuera. */
+export function parseTagList(value: unknown): string[] | undefined {
+  if (value == null || value === '') return undefined;
+
+  const parts = (Array.isArray(value) ? value : [value])
+    .flatMap((v) => String(v).split(','))
+    .map((t) => t.trim().replace(/\s+/g, ' '))
+    .filter(Boolean);
+
+  return parts.length ? parts : undefined;
+}
+
+/** properties actuales + set - unset. Claves [A-Za-z0-9_.-]{1,64}; valores string. */
+export function mergeProperties(
+  current: Record<string, string> | null | undefined,
+  set: Record<string, unknown> = {},
+  unset: string[] = [],
+) {
+  const out: Record<string, string> = { ...(current ?? {}) };
+
+  for (const key of unset) delete out[key.trim()];
+
+  for (const [rawKey, rawValue] of Object.entries(set)) {
+    const key = rawKey.trim();
+    if (!PROPERTY_KEY_RE.test(key)) {
+      throw new BadRequestException(
+        `Property key "${rawKey}" is invalid (letters, digits, "_", "-", "." — max 64)`,
+      );
+    }
+    if (
+      typeof rawValue !== 'string' &&
+      typeof rawValue !== 'number' &&
+      typeof rawValue !== 'boolean'
+    ) {
+      throw new BadRequestException(
+        `Property "${key}" must be a string, number or boolean`,
+      );
+    }
+    const value = String(rawValue).trim();
+    if (value.length > NOVA_S3_MAX_PROPERTY_VALUE_LENGTH) {
+      throw new BadRequestException(
+        `Property "${key}" is longer than ${NOVA_S3_MAX_PROPERTY_VALUE_LENGTH} characters`,
+      );
+    }
+    out[key] = value;
+  }
+
+  if (Object.keys(out).length > NOVA_S3_MAX_PROPERTIES) {
+    throw new BadRequestException(
+      `An item cannot have more than ${NOVA_S3_MAX_PROPERTIES} properties`,
+    );
+  }
+  return out;
+}
@@ -0,0 +1,74 @@
+/* src/nova-s3/utils/nova-s3-thumbnail.util.spec.ts */
+import {
+  needsThumbnail,
+  thumbnailKey,
+  thumbnailKind,
+} from './nova-s3-thumbnail.util';
+
+describe('thumbnailKind', () => {
+  it('detects images by mime type', () => {
+    expect(thumbnailKind('image/png', 'a.png', false)).toBe('image');
+    expect(thumbnailKind('IMAGE/JPEG', 'photo', false)).toBe('image');
+  });
+
+  it('falls back to the extension for generic mime types', () => {
+    expect(thumbnailKind('application/octet-stream', 'scan.JPG', false)).toBe(
+      'image',
+    );
+    expect(thumbnailKind(null, 'doc.pdf', true)).toBe('pdf');
+  });
+
+  it('only renders PDFs when supported', () => {
+    expect(thumbnailKind('application/pdf', 'doc.pdf', true)).toBe('pdf');
+    expect(thumbnailKind('application/pdf', 'doc.pdf', false)).toBeNull();
+  });
+
+  it('skips svg and other types', () => {
+    expect(thumbnailKind('image/svg+xml', 'logo.svg', true)).toBeNull();
+    expect(thumbnailKind('text/plain', 'notes.png.txt', true)).toBeNull();
+  });
+});
+
+describe('thumbnailKey', () => {
+  it('lives under the hidden thumbs prefix, keyed by file id', () => {
+    expect(thumbnailKey('nova-s3', 'EMP1', 'abc')).toBe(
+      'nova-s3/.thumbs/EMP1/abc.webp',
+    );
+  });
+});
+
+describe('needsThumbnail', () => {
+  const now = new Date('2026-01-01T12:00:00Z');
+  const ago = (minutes: number) =>
+    new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+  it('generates when there is no state', () => {
+    expect(needsThumbnail(null, now, 10)).toBe(true);
+  });
+
+  it('waits for a running job until it is stale', () => {
+    expect(
+      needsThumbnail(
+        { status: 'processing', jobId: 'j', startedAt: ago(2) },
+        now,
+        10,
+      ),
+    ).toBe(false);
+    expect(
+      needsThumbnail(
+        { status: 'processing', jobId: 'j', startedAt: ago(10) },
+        now,
+        10,
+      ),
+    ).toBe(true);
+  });
+
+  it('does not retry ready or failed thumbnails', () => {
+    expect(needsThumbnail({ status: 'ready', jobId: 'j' }, now, 10)).toBe(
+      false,
+    );
+    expect(needsThumbnail({ status: 'failed', jobId: 'j' }, now, 10)).toBe(
+      false,
+    );
+  });
+});
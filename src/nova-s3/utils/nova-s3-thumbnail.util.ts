@@ -0,0 +1,99 @@
+/* src/nova-s3/utils/nova-s3-thumbnail.util.ts
+ *
+ * Reglas puras de thumbnails (sin BD / S3 / sharp) para poder testearlas aparte.
+ *
+ * El estado vive en `nova_s3.meta.thumbnail`: un overwrite reescribe `meta` => el thumbnail viejo
+ * queda invalidado solo y se regenera.
+ */
+import { extname } from 'path';
+import { systemS3Prefix } from './nova-s3-path.util';
+
+export type NovaS3ThumbnailKind = 'image' | 'pdf';
+export type NovaS3ThumbnailStatus = 'processing' | 'ready' | 'failed';
+
+export type NovaS3ThumbnailState = {
+  status: NovaS3ThumbnailStatus;
+  // cada generación tiene su jobId: un job viejo (overwrite / regenerado) no pisa el estado nuevo
+  jobId: string;
+  key?: string;
+  width?: number;
+  height?: number;
+  error?: string;
+  startedAt?: string;
+  generatedAt?: string;
+};
+
+// formatos que libvips decodifica en el build de sharp (sin SVG: puede referenciar recursos externos)
+const IMAGE_MIMES = new Set([
+  'image/jpeg',
+  'image/jpg',
+  'image/pjpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/tiff',
+  'image/avif',
+  'image/heic',
+  'image/heif',
+]);
+
+const IMAGE_EXTENSIONS = new Set([
+  '.jpg',
+  '.jpeg',
+  '.png',
+  '.webp',
+  '.gif',
+  '.tif',
+  '.tiff',
+  '.avif',
+  '.heic',
+  '.heif',
+]);
+
+/**
+ * Qué thumbnail corresponde a un archivo (por mimeType; si es genérico, por extensión).
+ * PDF solo si el build de libvips puede leerlos (`pdfSupported`).
+ */
+export function thumbnailKind(
+  mimeType: string | null | undefined,
+  fileName: string,
+  pdfSupported: boolean,
+): NovaS3ThumbnailKind | null {
+  const mime = (mimeType ?? '').trim().toLowerCase();
+  const ext = extname(fileName ?? '').toLowerCase();
+  const generic = !mime || mime === 'application/octet-stream';
+
+  if (IMAGE_MIMES.has(mime) || (generic && IMAGE_EXTENSIONS.has(ext)))
+    return 'image';
+  if (mime === 'application/pdf' || (generic && ext === '.pdf'))
+    return pdfSupported ? 'pdf' : null;
+  return null;
+}
+
+/** Derivado oculto: {root}/.thumbs/{employeeNumber}/{fileId}.webp (por id => no se mueve con rename / move). */
+export function thumbnailKey(
+  root: string,
+  employeeNumber: string | null,
+  fileId: string,
+) {
+  return `${systemS3Prefix(root, 'thumbs', employeeNumber)}/${fileId}.webp`;
+}
+
+/**
+ * ¿Hay que (re)generar? Sin estado, o `processing` colgado (proceso reiniciado a mitad del job).
+ * `failed` no se reintenta solo (evita regenerar en loop un archivo corrupto).
+ */
+export function needsThumbnail(
+  state: NovaS3ThumbnailState | null | undefined,
+  now: Date,
+  staleMinutes: number,
+) {
+  if (!state?.status) return true;
+  if (state.status !== 'processing') return false;
+
+  const startedAt = state.startedAt ? new Date(state.startedAt).getTime() : NaN;
+  return (
+    !Number.isFinite(startedAt) ||
+    now.getTime() - startedAt >= staleMinutes * 60 * 1000
+  );
+}
@@ -0,0 +1,49 @@
+/* src/nova-s3/utils/nova-s3-upload-session.util.spec.ts */
+import {
+  resolveExpiredFile,
+  sessionCounts,
+  sessionExpiresAt,
+} from './nova-s3-upload-session.util';
+
+describe('sessionExpiresAt', () => {
+  it('adds the url expiry plus the grace window', () => {
+    const now = new Date('2026-01-01T10:00:00Z');
+    expect(sessionExpiresAt(now, 3600, 60).toISOString()).toBe(
+      '2026-01-01T12:00:00.000Z',
+    );
+    expect(sessionExpiresAt(now, 300, 0).toISOString()).toBe(
+      '2026-01-01T10:05:00.000Z',
+    );
+  });
+});
+
+describe('resolveExpiredFile', () => {
+  it('registers objects that arrived, whatever the upload kind', () => {
+    expect(resolveExpiredFile('put', true)).toBe('register');
+    expect(resolveExpiredFile('multipart', true)).toBe('register');
+  });
+
+  it('aborts unfinished multipart uploads and fails missing single PUTs', () => {
+    expect(resolveExpiredFile('multipart', false)).toBe('abort');
+    expect(resolveExpiredFile('put', false)).toBe('fail');
+  });
+});
+
+describe('sessionCounts', () => {
+  it('counts files per status', () => {
+    expect(
+      sessionCounts([
+        { status: 'done' },
+        { status: 'done' },
+        { status: 'pending' },
+        { status: 'failed' },
+      ]),
+    ).toEqual({ total: 4, done: 2, pending: 1, failed: 1 });
+    expect(sessionCounts([])).toEqual({
+      total: 0,
+      done: 0,
+      pending: 0,
+      failed: 0,
+    });
+  });
+});
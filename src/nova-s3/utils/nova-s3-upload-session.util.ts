@@ -0,0 +1,47 @@
+/* src/nova-s3/utils/nova-s3-upload-session.util.ts
+ *
+ * Reglas puras de las sesiones de upload directo (sin BD ni S3) para poder testearlas aparte.
+ */
+import type {
+  NovaS3UploadSessionFileKind,
+  NovaS3UploadSessionFileStatus,
+} from '../entities/nova-s3-upload-session-file.entity';
+
+export type NovaS3ExpiredFileAction = 'register' | 'abort' | 'fail';
+
+/**
+ * La sesión vence cuando ya no puede llegar nada nuevo: URLs vencidas + margen
+ * (un PUT que empezó justo antes del vencimiento todavía puede estar subiendo).
+ */
+export function sessionExpiresAt(
+  now: Date,
+  urlExpiresSeconds: number,
+  graceMinutes: number,
+) {
+  return new Date(
+    now.getTime() + urlExpiresSeconds * 1000 + graceMinutes * 60 * 1000,
+  );
+}
+
+/**
+ * Qué hacer con un archivo todavía `pending` al vencer la sesión, según el HEAD:
+ * - el objeto está en S3 => register (llegó pero el cliente nunca llamó register)
+ * - no está y era multipart => abort (las partes subidas se siguen cobrando)
+ * - no está y era PUT simple => fail (no hay nada que limpiar)
+ */
+export function resolveExpiredFile(
+  kind: NovaS3UploadSessionFileKind,
+  existsInS3: boolean,
+): NovaS3ExpiredFileAction {
+  if (existsInS3) return 'register';
+  return kind === 'multipart' ? 'abort' : 'fail';
+}
+
+/** Conteos por estado para el endpoint de status. */
+export function sessionCounts(
+  files: { status: NovaS3UploadSessionFileStatus }[],
+) {
+  const counts = { total: files.length, done: 0, pending: 0, failed: 0 };
+  for (const f of files) counts[f.status]++;
+  return counts;
+}
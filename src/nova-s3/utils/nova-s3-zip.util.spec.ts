@@ -0,0 +1,47 @@
+/* src/nova-s3/utils/nova-s3-zip.util.spec.ts */
+import { zipEntryName, zipTopLevelName } from './nova-s3-zip.util';
+
+describe('zipTopLevelName', () => {
+  it('uses the item name, folders as directory entries', () => {
+    const used = new Set<string>();
+    expect(zipTopLevelName('Marketing/Creatives', true, used)).toBe(
+      'Creatives/',
+    );
+    expect(zipTopLevelName('Marketing/logo.png', false, used)).toBe('logo.png');
+  });
+
+  it('numbers clashing names from different parents', () => {
+    const used = new Set<string>();
+    expect(zipTopLevelName('A/report.pdf', false, used)).toBe('report.pdf');
+    expect(zipTopLevelName('B/report.pdf', false, used)).toBe('report (2).pdf');
+    expect(zipTopLevelName('A/Creatives', true, used)).toBe('Creatives/');
+    expect(zipTopLevelName('B/Creatives', true, used)).toBe('Creatives (2)/');
+  });
+});
+
+describe('zipEntryName', () => {
+  it('keeps the folder structure under the top-level name', () => {
+    expect(
+      zipEntryName(
+        'Creatives/',
+        'Marketing/Creatives',
+        'Marketing/Creatives/A/logo.png',
+        false,
+      ),
+    ).toBe('Creatives/A/logo.png');
+    expect(
+      zipEntryName('Creatives (2)/', 'B/Creatives', 'B/Creatives/Empty', true),
+    ).toBe('Creatives (2)/Empty/');
+  });
+
+  it('returns the top-level name for the selected item itself', () => {
+    expect(
+      zipEntryName(
+        'logo.png',
+        'Marketing/logo.png',
+        'Marketing/logo.png',
+        false,
+      ),
+    ).toBe('logo.png');
+  });
+});
@@ -0,0 +1,47 @@
+/* src/nova-s3/utils/nova-s3-zip.util.ts
+ *
+ * Nombres de entradas del ZIP (puro, sin S3 ni BD).
+ */
+import { nameOf, normPath, splitExt } from './nova-s3-path.util';
+
+/**
+ * Nombre de primer nivel de un item seleccionado ("Creatives/" o "logo.png").
+ * Si la selección mezcla padres distintos y el nombre ya está usado
+ * ("A/report.pdf" + "B/report.pdf") => "report (2).pdf". Registra el nombre devuelto en `used`.
+ * Folders terminan en "/" (entrada de directorio: conserva carpetas vacías).
+ */
+export function zipTopLevelName(
+  selectedPath: string,
+  isFolder: boolean,
+  used: Set<string>,
+) {
+  const name = nameOf(selectedPath);
+  const [base, ext] = isFolder ? [name, ''] : splitExt(name);
+  const suffix = isFolder ? '/' : '';
+
+  let candidate = `${name}${suffix}`;
+  for (let n = 2; used.has(candidate); n++)
+    candidate = `${base} (${n})${ext}${suffix}`;
+
+  used.add(candidate);
+  return candidate;
+}
+
+/**
+ * Nombre dentro del ZIP de una fila del subárbol seleccionado: se cuelga del nombre
+ * de primer nivel, así se conserva la estructura de carpetas.
+ * Ej: top "Creatives/", seleccionado "Marketing/Creatives", fila "Marketing/Creatives/A/logo.png"
+ *     => "Creatives/A/logo.png"
+ */
+export function zipEntryName(
+  topName: string,
+  selectedPath: string,
+  rowPath: string,
+  isFolder: boolean,
+) {
+  const selected = normPath(selectedPath);
+  const path = normPath(rowPath);
+  if (path === selected) return topName;
+
+  return `${topName}${path.slice(selected.length + 1)}${isFolder ? '/' : ''}`;
+}